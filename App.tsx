@@ -1,10 +1,14 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ChatPanel } from './components/ChatPanel';
 import { DocumentEditor } from './components/DocumentEditor';
 import { MediaExplorer } from './components/MediaExplorer';
-import { AppFile, MainSection } from './types';
+import { ChartOfAccountsManager } from './components/ChartOfAccountsManager';
+import { ReconciliationWorkspace } from './components/ReconciliationWorkspace';
+import { ReceiptExtractionDialog } from './components/ReceiptExtractionDialog';
+import { ReceiptInbox } from './components/ReceiptInbox';
+import { AppFile, MainSection, ChatThreadSummary } from './types';
 import { NotificationBanner } from './components/NotificationBanner';
 
 import { useNotifications } from './hooks/useNotifications';
@@ -12,6 +16,15 @@ import { useResizablePanel } from './hooks/useResizablePanel';
 import { useDocumentHistory } from './hooks/useDocumentHistory';
 import { useFileSystem } from './hooks/useFileSystem';
 import { useChatLogic } from './hooks/useChatLogic';
+import { useChatThreads } from './hooks/useChatThreads';
+import { useChartOfAccounts } from './hooks/useChartOfAccounts';
+import { useLedgerReports } from './hooks/useLedgerReports';
+import { useReconciliations } from './hooks/useReconciliations';
+import { useReceiptExtraction } from './hooks/useReceiptExtraction';
+import { useReceiptInbox } from './hooks/useReceiptInbox';
+import { useColumnTypes } from './hooks/useColumnTypes';
+import { useWorkspaceSettings } from './hooks/useWorkspaceSettings';
+import { createEmptyJournalContent } from './utils/journal';
 
 const App: React.FC = () => {
   const { 
@@ -21,6 +34,7 @@ const App: React.FC = () => {
   } = useNotifications();
 
   const { 
+    isLoaded: isHistoryLoaded,
     documentHistories,
     initializeHistory, 
     addHistoryStep, 
@@ -32,12 +46,57 @@ const App: React.FC = () => {
   } = useDocumentHistory();
 
   const {
+    isLoaded: isChatLoaded,
+    chatMessages,
+    setChatMessages,
+    copyThread: copyChatThread,
+    deleteThreads: deleteChatThreads
+  } = useChatThreads();
+
+  const {
+    isLoaded: areAccountsLoaded,
+    accounts,
+    saveAccount,
+    setAccountActive,
+    deleteAccount,
+    importAccounts
+  } = useChartOfAccounts({ showNotification });
+
+  const {
+    isLoaded: areReconciliationsLoaded,
+    reconciliations,
+    saveReconciliation,
+    deleteReconciliation,
+    deleteFileReconciliations
+  } = useReconciliations({ showNotification });
+
+  const {
+    isLoaded: areWorkspaceSettingsLoaded,
+    locale,
+    setLocale,
+    isReviewModeEnabled,
+    setIsReviewModeEnabled
+  } = useWorkspaceSettings({ showNotification });
+
+  const {
+    isLoaded: areColumnTypesLoaded,
+    getColumnTypeOverrides,
+    setColumnTypeOverride,
+    copyFileColumnTypes,
+    deleteFileColumnTypes
+  } = useColumnTypes({ showNotification });
+
+  const {
+    isLoaded: isFileSystemLoaded,
     folders,
     files,
     activeFileId,
     setActiveFileId, // This is now selectFile from useFileSystem
     createFolder,
     createFile,
+    createFileFromUpload,
+    loadFileOriginal,
+    downloadFileOriginal,
     selectFile,
     updateFileContentOnly,
     deleteItems,
@@ -48,10 +107,15 @@ const App: React.FC = () => {
     renameFolder,
     duplicateFile,
     getFolderNameById,
-  } = useFileSystem({ showNotification, initializeHistory, deleteFileHistory, resetFileHistory });
+  } = useFileSystem({
+    showNotification, initializeHistory, deleteFileHistory, resetFileHistory, copyChatThread, deleteChatThreads, deleteFileReconciliations,
+    copyFileColumnTypes, deleteFileColumnTypes
+  });
   
   const activeFile = files.find(f => f.id === activeFileId && !f.deletedAt);
 
+  const { getColumnMapping: getLedgerColumnMapping, generateReport: generateLedgerReport } = useLedgerReports({ files, accounts, locale, createFile, showNotification });
+
   const mainContentRef = useRef<HTMLDivElement>(null);
   const { 
     chatPanelWidth, 
@@ -60,6 +124,10 @@ const App: React.FC = () => {
   } = useResizablePanel(mainContentRef, activeFileId);
 
 
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  const getCurrentFileContent = useCallback((fileId: string) => filesRef.current.find(f => f.id === fileId && !f.deletedAt)?.content, []);
+
   const handleDocumentContentChange = useCallback((fileId: string, newContent: string) => {
     if (fileId) {
       updateFileContentOnly(fileId, newContent);
@@ -68,17 +136,59 @@ const App: React.FC = () => {
   }, [updateFileContentOnly, addHistoryStep]);
   
   const {
-    chatMessages,
     isAILoading,
     isAICollaborating,
     previousDocumentContentForUndo,
     sendNewMessage,
     editAndRegenerateMessage,
+    cancelAIResponse,
+    pendingProposal,
+    acceptProposal,
+    rejectProposal,
     deleteChatMessage,
     undoAIDocumentChange,
     addWelcomeMessage,
     setPreviousDocumentContentForUndo
-  } = useChatLogic({ showNotification, updateDocumentContentWithHistory: handleDocumentContentChange });
+  } = useChatLogic({ chatMessages, setChatMessages, showNotification, updateDocumentContentWithHistory: handleDocumentContentChange, getCurrentFileContent, accounts, isReviewModeEnabled });
+
+  const {
+    isExtracting: isExtractingReceipt,
+    pendingReceipt,
+    extractReceipt,
+    dismissReceipt,
+    saveReceipt
+  } = useReceiptExtraction({ files, createFile, updateFileContent: handleDocumentContentChange, showNotification });
+
+  const {
+    isLoaded: isReceiptInboxLoaded,
+    items: receiptInboxItems,
+    processingIds: processingReceiptIds,
+    addImages: addReceiptImages,
+    updateReceipt: updateInboxReceipt,
+    retryItems: retryReceiptItems,
+    deleteItems: deleteReceiptItems,
+    approveItems: approveReceiptItems
+  } = useReceiptInbox({
+    files, folders, createFile, createFolder, createFileFromUpload, loadFileOriginal, updateFileContent: handleDocumentContentChange, showNotification
+  });
+
+  // Thread shown in ChatPanel: the active file's by default, null for the general thread
+  const [selectedChatThreadId, setSelectedChatThreadId] = useState<string | null>(null);
+
+  const chatThreads = useMemo((): ChatThreadSummary[] => {
+    const countsByThread = new Map<string | null, number>();
+    chatMessages.forEach(msg => countsByThread.set(msg.fileId ?? null, (countsByThread.get(msg.fileId ?? null) ?? 0) + 1));
+    const fileThreads = files
+      .filter(f => !f.deletedAt && (countsByThread.has(f.id) || f.id === activeFileId)) // Threads of trashed files return with the file
+      .map(f => ({ id: f.id, name: f.name, messageCount: countsByThread.get(f.id) ?? 0 }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return [{ id: null, name: 'General', messageCount: countsByThread.get(null) ?? 0 }, ...fileThreads];
+  }, [chatMessages, files, activeFileId]);
+
+  const selectedThreadMessages = useMemo(
+    () => chatMessages.filter(msg => (msg.fileId ?? null) === selectedChatThreadId),
+    [chatMessages, selectedChatThreadId]
+  );
 
 
   const [activeMainSection, setActiveMainSection] = useState<MainSection>('media');
@@ -95,7 +205,7 @@ const App: React.FC = () => {
         // The original createFile had logic to determine if content was undefined for "new"
         const isNewFileCreation = !files.find(f => f.id === activeFileId)?.createdAt || 
                                   (Date.now() - new Date(files.find(f => f.id === activeFileId)?.createdAt || 0).getTime() < 1000); // Heuristic
-        addWelcomeMessage(activeFile.name, isNewFileCreation);
+        addWelcomeMessage(activeFile.id, activeFile.name, isNewFileCreation);
 
         // Ensure chat panel is visible if a file is active
         if (chatPanelWidth === 0 && mainContentRef.current) {
@@ -113,6 +223,11 @@ const App: React.FC = () => {
     }
   }, [activeFileId, activeFile, addWelcomeMessage, setPreviousDocumentContentForUndo, chatPanelWidth, setChatPanelWidth]);
 
+  // Opening a file shows its conversation
+  useEffect(() => {
+    setSelectedChatThreadId(activeFileId);
+  }, [activeFileId]);
+
   const handleNavigateToSection = (section: MainSection) => {
     setActiveMainSection(section);
     selectFile(null); // Deselect any active file when changing main sections
@@ -143,6 +258,64 @@ const App: React.FC = () => {
   const currentFileHistoryState = getHistoryState(activeFileId);
 
   const renderMainContent = () => {
+    if (!isFileSystemLoaded || !isHistoryLoaded || !isChatLoaded || !areAccountsLoaded || !areReconciliationsLoaded || !isReceiptInboxLoaded || !areColumnTypesLoaded || !areWorkspaceSettingsLoaded) {
+      return (
+        <div className="flex-1 flex items-center justify-center" ref={mainContentRef}>
+          <p className="text-sm text-slate-500">Cargando tu espacio de trabajo...</p>
+        </div>
+      );
+    }
+
+    if ((!activeFileId || !activeFile) && activeMainSection === 'accounts') {
+      return (
+        <div className="flex-1" ref={mainContentRef}>
+          <ChartOfAccountsManager
+            accounts={accounts}
+            onSaveAccount={saveAccount}
+            onSetAccountActive={setAccountActive}
+            onDeleteAccount={deleteAccount}
+            onImportAccounts={importAccounts}
+          />
+        </div>
+      );
+    }
+
+    if ((!activeFileId || !activeFile) && activeMainSection === 'reconciliation') {
+      return (
+        <div className="flex-1" ref={mainContentRef}>
+          <ReconciliationWorkspace
+            files={files}
+            accounts={accounts}
+            reconciliations={reconciliations}
+            locale={locale}
+            onSaveReconciliation={saveReconciliation}
+            onDeleteReconciliation={deleteReconciliation}
+            onUpdateFileContent={handleDocumentContentChange}
+            showNotification={showNotification}
+          />
+        </div>
+      );
+    }
+
+    if ((!activeFileId || !activeFile) && activeMainSection === 'receipts') {
+      return (
+        <div className="flex-1" ref={mainContentRef}>
+          <ReceiptInbox
+            items={receiptInboxItems}
+            processingIds={processingReceiptIds}
+            files={files}
+            accounts={accounts}
+            onAddImages={addReceiptImages}
+            onLoadImage={loadFileOriginal}
+            onUpdateReceipt={updateInboxReceipt}
+            onRetryItems={retryReceiptItems}
+            onDeleteItems={deleteReceiptItems}
+            onApproveItems={approveReceiptItems}
+          />
+        </div>
+      );
+    }
+
     if (!activeFileId || !activeFile) {
       return (
         <div className="flex-1" ref={mainContentRef}>
@@ -151,14 +324,13 @@ const App: React.FC = () => {
             allFiles={files}
             onSelectFile={handleSelectFile}
             onCreateFolder={createFolder}
-            onCreateFile={(fileName, folderId, content) => {
-                const newFile = createFile(fileName, folderId, content);
-                // If it's a user-initiated new empty file, createFile already sets it active.
-                // If it's an upload, it doesn't auto-select.
-                if (content === undefined) { // New empty file
-                    // Welcome message logic is now in useEffect watching activeFileId
-                }
-            }}
+            onUploadFile={createFileFromUpload}
+            onLoadFileOriginal={loadFileOriginal}
+            onDownloadFileOriginal={downloadFileOriginal}
+            onCreateJournal={(folderId) => createFile('Libro diario.csv', folderId, createEmptyJournalContent(), true)}
+            getLedgerColumnMapping={getLedgerColumnMapping}
+            locale={locale}
+            onGenerateLedgerReport={generateLedgerReport}
             activeFileId={activeFileId}
             getFolderNameById={getFolderNameById}
             onMoveItems={moveItems}
@@ -184,11 +356,20 @@ const App: React.FC = () => {
           activeFile={activeFile}
           previousDocumentContentForUndo={previousDocumentContentForUndo}
           onUndoAIChange={() => undoAIDocumentChange(activeFile)}
+          pendingProposal={pendingProposal}
+          onAcceptProposal={acceptProposal}
+          onRejectProposal={rejectProposal}
           onUndo={handleUndoFromEditor}
           onRedo={handleRedoFromEditor}
           canUndo={currentFileHistoryState.canUndo}
           canRedo={currentFileHistoryState.canRedo}
           onGoBack={() => handleNavigateToSection('media')}
+          getFolderNameById={getFolderNameById}
+          onDownloadOriginal={() => downloadFileOriginal(activeFile.id)}
+          onLoadOriginal={() => loadFileOriginal(activeFile.id)}
+          locale={locale}
+          getColumnTypeOverrides={(sheetName) => getColumnTypeOverrides(activeFile.id, sheetName)}
+          onColumnTypeChange={(sheetName, header, setting) => setColumnTypeOverride(activeFile.id, sheetName, header, setting)}
         />
         {chatPanelWidth > 0 && (
           <>
@@ -200,10 +381,19 @@ const App: React.FC = () => {
             />
             <ChatPanel
               style={{ width: `${chatPanelWidth}px`, flexShrink: 0 }}
-              messages={chatMessages}
-              onSendNewMessage={(text, imgPart, imgPreviewUrl) => sendNewMessage(text, activeFile, imgPart, imgPreviewUrl)}
-              onEditAndRegenerateMessage={(msgId, newText, imgPart, imgPreviewUrl) => editAndRegenerateMessage(msgId, newText, activeFile, imgPart, imgPreviewUrl)}
+              messages={selectedThreadMessages}
+              threads={chatThreads}
+              selectedThreadId={selectedChatThreadId}
+              onSelectThread={setSelectedChatThreadId}
+              activeFileId={activeFile.id}
+              onSendNewMessage={(text, imgPart, imgPreviewUrl) => sendNewMessage(text, selectedChatThreadId === null ? null : activeFile, imgPart, imgPreviewUrl)}
+              onEditAndRegenerateMessage={(msgId, newText, imgPart, imgPreviewUrl) => editAndRegenerateMessage(msgId, newText, selectedChatThreadId === null ? null : activeFile, imgPart, imgPreviewUrl)}
               onDeleteMessage={deleteChatMessage}
+              onCancelResponse={cancelAIResponse}
+              onExtractReceipt={(imgPart, imgPreviewUrl) => extractReceipt(imgPart, imgPreviewUrl, activeFile.folderId)}
+              isExtractingReceipt={isExtractingReceipt}
+              isReviewModeEnabled={isReviewModeEnabled}
+              onReviewModeChange={setIsReviewModeEnabled}
               isLoading={isAILoading}
               activeDocumentName={activeFile.name}
               showNotification={showNotification}
@@ -220,10 +410,21 @@ const App: React.FC = () => {
       <Sidebar
         activeMainSection={activeMainSection}
         onNavigateTo={handleNavigateToSection}
+        locale={locale}
+        onLocaleChange={setLocale}
       />
       <main className="flex-grow flex h-full overflow-hidden">
         {renderMainContent()}
       </main>
+      {pendingReceipt && (
+        <ReceiptExtractionDialog
+          pendingReceipt={pendingReceipt}
+          files={files}
+          activeFileId={activeFileId}
+          onSave={saveReceipt}
+          onClose={dismissReceipt}
+        />
+      )}
     </div>
   );
 };
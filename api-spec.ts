@@ -1,10 +1,11 @@
 // api-spec.ts
 // This file defines the API contract between the frontend and backend.
+// The reference implementation lives in server/ (run with `npm run server`).
 
 // --- Re-exported core types (assuming they match the API contract directly) ---
 // If the API uses slightly different structures, define new ApiFolder, ApiAppFile, etc.
 export type { Folder, AppFile, ChatMessage, AISuggestionType, AIResponse } from './types';
-import type { Folder as CoreFolder, AppFile as CoreAppFile, AISuggestionType, ChatMessage as CoreChatMessage } from './types';
+import type { Folder as CoreFolder, AppFile as CoreAppFile, AISuggestionType, ChatMessage as CoreChatMessage, DocumentPatchOperation, ConversationHistory, JournalEntryProposal, Account, ReportSource, ReceiptRecord } from './types';
 
 // --- General API Structures ---
 
@@ -32,6 +33,7 @@ export interface PaginatedResponse<T> {
 
 // POST /api/folders
 export interface CreateFolderRequest {
+  id?: string; // Optional client-generated id (used by the REST storage adapter); generated by the server if omitted
   name: string;
   parentId: string | null;
 }
@@ -89,9 +91,11 @@ export interface RestoreFolderResponse extends CoreFolder {
 // - For raw file uploads (e.g., images, or if backend handles parsing), this would typically be a multipart/form-data request.
 //   The API would then need to handle file stream, parsing, and storage.
 export interface CreateFileRequest {
+  id?: string; // Optional client-generated id (used by the REST storage adapter); generated by the server if omitted
   name: string;
   folderId: string | null;
   content?: string; // Initial content (e.g., pre-parsed text, or empty for new files).
+  report?: ReportSource | null; // Set when the file is a report generated by the client or a copy of one; cannot be changed later
   // For multipart/form-data, 'content' might be implicit or a file field.
 }
 // Returns the created file metadata, potentially with server-generated fields.
@@ -150,6 +154,16 @@ export interface DuplicateFileResponse extends CoreAppFile {
   updatedAt?: Date;
 }
 
+// PUT /api/files/:id/original
+// Request body: the raw bytes of the uploaded file, with its MIME type as Content-Type and its
+// name, URI-encoded, in the X-File-Name header. Replaces any previous original.
+// Returns the file, with `original` set (see FileOriginal in types.ts).
+export type SaveFileOriginalResponse = CoreAppFile;
+
+// GET /api/files/:id/original
+// Response: the raw bytes, with the stored Content-Type and a Content-Disposition attachment name.
+// 404 if the file has no original. Originals are deleted with their file.
+
 
 // 3. AI Interaction (Chat)
 // --------------------------------------------------------------------------------
@@ -166,16 +180,32 @@ export interface AIInteractionRequest {
       mimeType: string; // e.g., "image/png", "image/jpeg"
     };
   };
-  // Potentially include chatHistory if the AI needs more context, though current system instruction handles this.
+  conversationHistory?: ConversationHistory; // Earlier turns of the chat thread (oldest first) plus a summary of the ones that did not fit
+  accounts?: Account[]; // The user's chart of accounts; the active accounts are given to the model
 }
 
-// This matches the AIResponse type the frontend already expects from geminiService.ts
+// This matches the AIResponse type the frontend already expects from the AI provider (services/ai)
 export interface AIInteractionResponse {
   action_type: AISuggestionType;
   new_document_content?: string | null;
+  patch_operations?: DocumentPatchOperation[] | null; // For 'document_patch': row or line-range operations to apply client-side
+  journal_entries?: JournalEntryProposal[] | null; // For 'journal_entries': entries the client adds to the journal as drafts
   chat_message: string;
 }
 
+// POST /api/ai/extract-receipt
+// Reads a receipt or invoice from an image as a typed record. The record is not validated: the
+// client shows it for review (line items against subtotal, subtotal plus tax against total).
+export interface ReceiptExtractionRequest {
+  imagePart: NonNullable<AIInteractionRequest['imagePart']>;
+}
+
+export interface ReceiptExtractionResponse {
+  receipt: ReceiptRecord | null; // null when no receipt could be read
+  message: string; // What was read, or why nothing could be read
+  isRetryable?: boolean; // The failure was an error that may not happen again, so the client may try later
+}
+
 // Note on Chat Messages: Currently, chat messages are stored in client-side localStorage.
 // If chat history needs to be persisted on the backend (e.g., per user, per document session),
 // you would need additional endpoints:
@@ -222,6 +252,7 @@ export interface BatchMoveRequest {
 // 201 Created - Resource successfully created.
 // 204 No Content - Request successful, no response body needed (e.g., for DELETE).
 // 400 Bad Request - Invalid input (e.g., missing fields, validation errors). Response body: ApiErrorResponse.
+// 409 Conflict - A client-supplied id is already in use. Response body: ApiErrorResponse with errorCode "CONFLICT".
 // 401 Unauthorized - Authentication required or failed.
 // 403 Forbidden - Authenticated user does not have permission.
 // 404 Not Found - Requested resource does not exist.
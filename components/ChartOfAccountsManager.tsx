@@ -0,0 +1,341 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from './Button';
+import { Modal } from './Modal';
+import { PlusIcon, PlusCircleIcon, PencilIcon, TrashIcon, UploadIcon, ArrowDownTrayIcon, BookOpenIcon } from './icons';
+import { Account, AccountType, CashFlowCategory } from '../types';
+import { generateId } from '../utils/helpers';
+import { CSV_DOWNLOAD_BOM, decodeText } from '../utils/csv';
+import { parseCsv, parseExcelToWorkbookSheets, serializeCsv, convertCsvDataToExcelArrayBuffer, ParsedCsvData } from '../utils/tabularDataParser';
+import {
+  ACCOUNT_TYPES,
+  ACCOUNT_TYPE_LABELS,
+  CASH_FLOW_CATEGORIES,
+  CASH_FLOW_CATEGORY_LABELS,
+  getCashFlowCategory,
+  flattenAccountTree,
+  getDescendantAccountIds,
+  exportAccountsToTable,
+  validateAccount,
+  AccountImportResult,
+} from '../utils/chartOfAccounts';
+
+interface ChartOfAccountsManagerProps {
+  accounts: Account[];
+  onSaveAccount: (account: Account) => boolean;
+  onSetAccountActive: (accountId: string, isActive: boolean) => void;
+  onDeleteAccount: (accountId: string) => void;
+  onImportAccounts: (data: ParsedCsvData, sourceName: string) => AccountImportResult | null;
+}
+
+const EXCEL_EXTENSIONS = ['.xlsx', '.xls'];
+
+const TYPE_BADGE_CLASSES: Record<AccountType, string> = {
+  asset: 'bg-sky-100 text-sky-700',
+  liability: 'bg-orange-100 text-orange-700',
+  equity: 'bg-violet-100 text-violet-700',
+  revenue: 'bg-emerald-100 text-emerald-700',
+  expense: 'bg-rose-100 text-rose-700',
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const ChartOfAccountsManager: React.FC<ChartOfAccountsManagerProps> = ({
+  accounts,
+  onSaveAccount,
+  onSetAccountActive,
+  onDeleteAccount,
+  onImportAccounts,
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showInactive, setShowInactive] = useState(true);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
+  const [importResult, setImportResult] = useState<{ sourceName: string; result: AccountImportResult } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const tree = useMemo(() => flattenAccountTree(accounts), [accounts]);
+
+  // A search shows the matching accounts together with their ancestors, so the tree stays readable
+  const visibleTree = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const matches = tree.filter(({ account }) =>
+      (showInactive || account.isActive) &&
+      (term === '' || account.code.toLowerCase().startsWith(term) || account.name.toLowerCase().includes(term))
+    );
+    if (term === '') return matches;
+    const visibleIds = new Set<string>();
+    const byId = new Map(accounts.map(account => [account.id, account]));
+    matches.forEach(({ account }) => {
+      let current: Account | undefined = account;
+      while (current && !visibleIds.has(current.id)) {
+        visibleIds.add(current.id);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+      }
+    });
+    return tree.filter(({ account }) => visibleIds.has(account.id));
+  }, [tree, accounts, searchTerm, showInactive]);
+
+  const openNewAccount = (parent: Account | null) => {
+    setEditingAccount({ id: generateId(), code: parent?.code ?? '', name: '', type: parent?.type ?? 'asset', parentId: parent?.id ?? null, isActive: true, cashFlowCategory: null });
+  };
+
+  const isEditingExisting = editingAccount !== null && accounts.some(account => account.id === editingAccount.id);
+  const editingProblems = editingAccount ? validateAccount({ ...editingAccount, code: editingAccount.code.trim() }, accounts) : [];
+  // An account cannot be moved under itself or its own subaccounts
+  const parentOptions = useMemo(() => {
+    if (!editingAccount) return [];
+    const excluded = getDescendantAccountIds(accounts, editingAccount.id);
+    excluded.add(editingAccount.id);
+    return tree.filter(({ account }) => !excluded.has(account.id));
+  }, [tree, accounts, editingAccount]);
+
+  const handleSaveEditingAccount = () => {
+    if (editingAccount && onSaveAccount(editingAccount)) {
+      setEditingAccount(null);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    const isExcel = EXCEL_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+    // The chart of accounts is read from the first sheet of a workbook
+    const csvContent = isExcel ? (await parseExcelToWorkbookSheets(await file.arrayBuffer()))[0]?.content ?? '' : decodeText(await file.arrayBuffer()).text;
+    const data = parseCsv(csvContent);
+    if (!data) {
+      setImportResult({ sourceName: file.name, result: { accounts, createdCount: 0, updatedCount: 0, rejected: [{ row: 0, reason: "El archivo está vacío o no tiene una fila de cabecera." }] } });
+      return;
+    }
+    const result = onImportAccounts(data, file.name);
+    setImportResult(result ? { sourceName: file.name, result } : null);
+  };
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    const data = exportAccountsToTable(accounts);
+    if (format === 'xlsx') {
+      const buffer = await convertCsvDataToExcelArrayBuffer(data);
+      downloadBlob(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), 'Plan de cuentas.xlsx');
+    } else {
+      downloadBlob(new Blob([CSV_DOWNLOAD_BOM, serializeCsv(data)], { type: 'text/csv;charset=utf-8;' }), 'Plan de cuentas.csv');
+    }
+  };
+
+  const inputClasses = "w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-400";
+  const subaccountCount = accountToDelete ? getDescendantAccountIds(accounts, accountToDelete.id).size : 0;
+
+  return (
+    <div className="flex-1 p-6 sm:p-8 overflow-y-auto bg-slate-50 h-full">
+      <header className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-2xl font-semibold text-slate-800">Plan de Cuentas</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            {accounts.length} {accounts.length === 1 ? 'cuenta' : 'cuentas'}. La IA usa los códigos de las cuentas activas al proponer asientos y categorías.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => importInputRef.current?.click()} variant="secondary" size="sm" leftIcon={<UploadIcon className="w-4 h-4" />}>
+            Importar
+          </Button>
+          <input
+            type="file"
+            ref={importInputRef}
+            className="hidden"
+            accept=".csv,text/csv,.xlsx,.xls,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              if (file) await handleImportFile(file);
+              e.target.value = '';
+            }}
+          />
+          <Button onClick={() => handleExport('csv')} variant="secondary" size="sm" leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />} disabled={accounts.length === 0}>
+            CSV
+          </Button>
+          <Button onClick={() => handleExport('xlsx')} variant="secondary" size="sm" leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />} disabled={accounts.length === 0}>
+            Excel
+          </Button>
+          <Button onClick={() => openNewAccount(null)} variant="primary" size="sm" leftIcon={<PlusIcon className="w-4 h-4" />}>
+            Nueva cuenta
+          </Button>
+        </div>
+      </header>
+
+      {importResult && (
+        <div className={`mb-4 p-3 rounded-md border text-sm ${importResult.result.rejected.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-emerald-50 border-emerald-200 text-emerald-800'}`}>
+          <div className="flex justify-between items-start gap-3">
+            <p>
+              <strong className="font-semibold">{importResult.sourceName}:</strong> {importResult.result.createdCount} creada(s), {importResult.result.updatedCount} actualizada(s), {importResult.result.rejected.length} rechazada(s).
+            </p>
+            <button onClick={() => setImportResult(null)} className="text-xs underline flex-shrink-0">Cerrar</button>
+          </div>
+          {importResult.result.rejected.length > 0 && (
+            <ul className="mt-2 text-xs space-y-0.5 max-h-40 overflow-y-auto">
+              {importResult.result.rejected.map(({ row, reason }) => (
+                <li key={row}>{row > 0 ? `Fila ${row}: ` : ''}{reason}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 mb-3">
+        <input
+          type="search"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Buscar por código o nombre..."
+          className={`${inputClasses} max-w-xs`}
+          aria-label="Buscar cuentas"
+        />
+        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer select-none">
+          <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} className="rounded border-slate-300 text-sky-600 focus:ring-sky-500" />
+          Mostrar inactivas
+        </label>
+      </div>
+
+      {accounts.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-lg border border-dashed border-slate-300">
+          <BookOpenIcon className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+          <p className="text-slate-600 font-medium">Aún no hay cuentas.</p>
+          <p className="text-sm text-slate-500 mt-1">Crea las cuentas una a una o importa un plan de cuentas desde CSV o Excel (columnas Código, Nombre, Tipo y opcionalmente Código padre, Activa y Flujo de efectivo).</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-100 text-slate-600 text-left">
+              <tr>
+                <th className="px-4 py-2.5 font-semibold">Código</th>
+                <th className="px-4 py-2.5 font-semibold">Nombre</th>
+                <th className="px-4 py-2.5 font-semibold">Tipo</th>
+                <th className="px-4 py-2.5 font-semibold text-center">Activa</th>
+                <th className="px-4 py-2.5 w-32"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleTree.map(({ account, depth }) => (
+                <tr key={account.id} className={`border-t border-slate-100 hover:bg-slate-50 ${account.isActive ? '' : 'text-slate-400'}`}>
+                  <td className="px-4 py-2 font-mono whitespace-nowrap" style={{ paddingLeft: `${1 + depth * 1.25}rem` }}>{account.code}</td>
+                  <td className="px-4 py-2">{account.name}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${TYPE_BADGE_CLASSES[account.type]}`}>{ACCOUNT_TYPE_LABELS[account.type]}</span>
+                  </td>
+                  <td className="px-4 py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={account.isActive}
+                      onChange={(e) => onSetAccountActive(account.id, e.target.checked)}
+                      className="rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                      aria-label={`Cuenta ${account.code} activa`}
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex justify-end gap-1">
+                      <button onClick={() => openNewAccount(account)} className="p-1.5 text-slate-400 hover:text-sky-600 rounded" title="Nueva subcuenta">
+                        <PlusCircleIcon className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setEditingAccount(account)} className="p-1.5 text-slate-400 hover:text-sky-600 rounded" title="Editar cuenta">
+                        <PencilIcon className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setAccountToDelete(account)} className="p-1.5 text-slate-400 hover:text-red-600 rounded" title="Eliminar cuenta">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {visibleTree.length === 0 && (
+                <tr><td colSpan={5} className="px-4 py-8 text-center text-slate-500">Ninguna cuenta coincide con la búsqueda.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Modal
+        isOpen={editingAccount !== null}
+        onClose={() => setEditingAccount(null)}
+        title={isEditingExisting ? `Editar cuenta ${editingAccount?.code}` : 'Nueva cuenta'}
+        footer={<>
+          <Button variant="secondary" onClick={() => setEditingAccount(null)}>Cancelar</Button>
+          <Button variant="primary" onClick={handleSaveEditingAccount} disabled={editingProblems.length > 0}>Guardar</Button>
+        </>}
+      >
+        {editingAccount && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              <label className="block text-sm font-medium text-slate-700">
+                Código
+                <input value={editingAccount.code} onChange={(e) => setEditingAccount({ ...editingAccount, code: e.target.value })} className={`${inputClasses} mt-1 font-mono`} autoFocus />
+              </label>
+              <label className="block text-sm font-medium text-slate-700 col-span-2">
+                Nombre
+                <input value={editingAccount.name} onChange={(e) => setEditingAccount({ ...editingAccount, name: e.target.value })} className={`${inputClasses} mt-1`} />
+              </label>
+            </div>
+            <label className="block text-sm font-medium text-slate-700">
+              Tipo
+              <select value={editingAccount.type} onChange={(e) => setEditingAccount({ ...editingAccount, type: e.target.value as AccountType })} className={`${inputClasses} mt-1`}>
+                {ACCOUNT_TYPES.map(type => <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>)}
+              </select>
+            </label>
+            {editingAccount.type !== 'revenue' && editingAccount.type !== 'expense' && (
+              <label className="block text-sm font-medium text-slate-700">
+                Flujo de efectivo
+                <select
+                  value={editingAccount.cashFlowCategory ?? ''}
+                  onChange={(e) => setEditingAccount({ ...editingAccount, cashFlowCategory: (e.target.value || null) as CashFlowCategory | null })}
+                  className={`${inputClasses} mt-1`}
+                >
+                  <option value="">Automático ({CASH_FLOW_CATEGORY_LABELS[getCashFlowCategory({ ...editingAccount, cashFlowCategory: null }) ?? 'operating']})</option>
+                  {CASH_FLOW_CATEGORIES.map(category => <option key={category} value={category}>{CASH_FLOW_CATEGORY_LABELS[category]}</option>)}
+                </select>
+              </label>
+            )}
+            <label className="block text-sm font-medium text-slate-700">
+              Cuenta padre
+              <select value={editingAccount.parentId ?? ''} onChange={(e) => setEditingAccount({ ...editingAccount, parentId: e.target.value || null })} className={`${inputClasses} mt-1`}>
+                <option value="">(Ninguna: cuenta de primer nivel)</option>
+                {parentOptions.map(({ account, depth }) => (
+                  <option key={account.id} value={account.id}>{'\u00a0\u00a0'.repeat(depth)}{account.code} {account.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer select-none">
+              <input type="checkbox" checked={editingAccount.isActive} onChange={(e) => setEditingAccount({ ...editingAccount, isActive: e.target.checked })} className="rounded border-slate-300 text-sky-600 focus:ring-sky-500" />
+              Activa
+            </label>
+            {editingProblems.length > 0 && (editingAccount.code.trim() !== '' || editingAccount.name.trim() !== '') && (
+              <ul className="text-xs text-red-600 space-y-0.5">
+                {editingProblems.map((problem, i) => <li key={i}>{problem}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={accountToDelete !== null}
+        onClose={() => setAccountToDelete(null)}
+        title="Eliminar cuenta"
+        footer={<>
+          <Button variant="secondary" onClick={() => setAccountToDelete(null)}>Cancelar</Button>
+          <Button variant="danger" onClick={() => { if (accountToDelete) onDeleteAccount(accountToDelete.id); setAccountToDelete(null); }}>Eliminar</Button>
+        </>}
+      >
+        {accountToDelete && (
+          <p className="text-sm">
+            ¿Eliminar la cuenta <strong>{accountToDelete.code} {accountToDelete.name}</strong>
+            {subaccountCount > 0 ? ` y sus ${subaccountCount} subcuenta(s)` : ''}? Los documentos que la usan no cambian.
+            Si solo quieres dejar de usarla, desmárcala como activa.
+          </p>
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -1,14 +1,23 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { ChatMessage, NotificationType } from '../types';
+import { ChatMessage, ChatThreadSummary, NotificationType } from '../types';
 import { Button } from './Button';
-import { SparklesIcon, PaperClipIcon, UploadIcon, XMarkIcon, PaperAirplaneIcon, EllipsisHorizontalIcon, PencilIcon, TrashIcon } from './icons'; 
+import { SparklesIcon, PaperClipIcon, UploadIcon, XMarkIcon, PaperAirplaneIcon, EllipsisHorizontalIcon, PencilIcon, TrashIcon, StopIcon } from './icons'; 
 
 interface ChatPanelProps {
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // Messages of the selected thread
+  threads: ChatThreadSummary[];
+  selectedThreadId: string | null; // null for the general thread
+  onSelectThread: (threadId: string | null) => void;
+  activeFileId: string | null; // Only the active file's thread and the general thread accept new messages
   onSendNewMessage: (messageText: string, imagePart?: ChatMessage['imagePart'], imagePreviewUrl?: string) => void;
   onEditAndRegenerateMessage: (originalMessageId: string, newText: string, imagePart?: ChatMessage['imagePart'], imagePreviewUrl?: string) => void;
   onDeleteMessage: (messageId: string) => void;
+  onCancelResponse: () => void;
+  onExtractReceipt: (imagePart: NonNullable<ChatMessage['imagePart']>, imagePreviewUrl: string | null) => void; // The extract action, see useReceiptExtraction
+  isExtractingReceipt: boolean;
+  isReviewModeEnabled: boolean; // Review AI document changes before they are applied
+  onReviewModeChange: (enabled: boolean) => void;
   isLoading: boolean; 
   activeDocumentName: string | null;
   style?: React.CSSProperties; 
@@ -17,9 +26,18 @@ interface ChatPanelProps {
 
 export const ChatPanel: React.FC<ChatPanelProps> = ({ 
   messages, 
+  threads,
+  selectedThreadId,
+  onSelectThread,
+  activeFileId,
   onSendNewMessage,
   onEditAndRegenerateMessage,
   onDeleteMessage,
+  onCancelResponse,
+  onExtractReceipt,
+  isExtractingReceipt,
+  isReviewModeEnabled,
+  onReviewModeChange,
   isLoading, 
   activeDocumentName, 
   style, 
@@ -39,6 +57,15 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
   const optionsMenuRef = useRef<HTMLDivElement>(null);
 
 
+  const isGeneralThread = selectedThreadId === null;
+  const isReadOnlyThread = !isGeneralThread && selectedThreadId !== activeFileId;
+
+  // An edit in progress belongs to the thread it was started in
+  useEffect(() => {
+    setEditingMessage(null);
+    setActiveOptionsMessageId(null);
+  }, [selectedThreadId]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
@@ -88,6 +115,40 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
     }
   };
 
+  /** Reads the attached image as base64; undefined (after telling the user) if it cannot be read. */
+  const readSelectedImagePart = async (imageFile: File): Promise<ChatMessage['imagePart'] | undefined> => {
+    const reader = new FileReader();
+    reader.readAsDataURL(imageFile);
+    try {
+      return await new Promise<ChatMessage['imagePart']>((resolve, reject) => {
+        reader.onloadend = () => {
+          const base64String = (reader.result as string).split(',')[1];
+          resolve({
+            inlineData: {
+              data: base64String,
+              mimeType: imageFile.type,
+            },
+          });
+        };
+        reader.onerror = (error) => {
+            console.error("Error reading image file for sending:", error);
+            showNotification('error', "No se pudo leer el archivo de imagen seleccionado. Por favor, intenta con otra imagen o verifica el archivo.", "Error de Lectura de Imagen");
+            reject(error);
+        };
+      });
+    } catch (error) {
+      return undefined;
+    }
+  };
+
+  const handleExtractReceipt = async () => {
+    if (!selectedImageFile) return;
+    const imagePart = await readSelectedImagePart(selectedImageFile);
+    if (!imagePart) return;
+    onExtractReceipt(imagePart, imagePreviewUrl);
+    removeSelectedImage();
+  };
+
   const handleSendOrSubmitEdit = async () => {
     if (editingMessage) { 
       if (inputText.trim() === '') {
@@ -113,29 +174,8 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
     let previewUrlForMessage: string | undefined = imagePreviewUrl || undefined;
 
     if (selectedImageFile) {
-      const reader = new FileReader();
-      reader.readAsDataURL(selectedImageFile);
-      try {
-        await new Promise<void>((resolve, reject) => {
-          reader.onloadend = () => {
-            const base64String = (reader.result as string).split(',')[1];
-            imagePartToSend = {
-              inlineData: {
-                data: base64String,
-                mimeType: selectedImageFile.type,
-              },
-            };
-            resolve();
-          };
-          reader.onerror = (error) => {
-              console.error("Error reading image file for sending:", error);
-              showNotification('error', "No se pudo leer el archivo de imagen seleccionado. Por favor, intenta con otra imagen o verifica el archivo.", "Error de Lectura de Imagen");
-              reject(error);
-          };
-        });
-      } catch (error) {
-        return;
-      }
+      imagePartToSend = await readSelectedImagePart(selectedImageFile);
+      if (!imagePartToSend) return;
     }
     
     onSendNewMessage(inputText.trim(), imagePartToSend, previewUrlForMessage);
@@ -242,8 +282,30 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
           <SparklesIcon className="w-6 h-6 mr-2.5 text-sky-500" />
           Asistente IA
         </h2>
-        {activeDocumentName && <p className="text-xs text-slate-500 mt-1.5 ml-1">Colaborando en: <span className="font-medium text-slate-700">{activeDocumentName}</span></p>}
-        {!activeDocumentName && <p className="text-xs text-slate-500 mt-1.5 ml-1">Abre un documento o adjunta una imagen para chatear.</p>}
+        <select
+          value={selectedThreadId ?? ''}
+          onChange={(e) => onSelectThread(e.target.value === '' ? null : e.target.value)}
+          className="mt-2 w-full text-xs border border-slate-300 rounded-md px-2 py-1.5 bg-slate-50 text-slate-700 focus:outline-none focus:ring-2 focus:ring-sky-400"
+          aria-label="Conversación"
+        >
+          {threads.map(thread => (
+            <option key={thread.id ?? ''} value={thread.id ?? ''}>
+              {thread.id === null ? 'Conversación general' : thread.name}{thread.id === activeFileId ? ' (documento abierto)' : ''} · {thread.messageCount}
+            </option>
+          ))}
+        </select>
+        {isGeneralThread && <p className="text-xs text-slate-500 mt-1.5 ml-1">Conversación general: la IA no recibe ningún documento como contexto.</p>}
+        {!isGeneralThread && activeDocumentName && selectedThreadId === activeFileId && <p className="text-xs text-slate-500 mt-1.5 ml-1">Colaborando en: <span className="font-medium text-slate-700">{activeDocumentName}</span></p>}
+        {!isGeneralThread && !activeDocumentName && <p className="text-xs text-slate-500 mt-1.5 ml-1">Abre un documento o adjunta una imagen para chatear.</p>}
+        <label className="flex items-center gap-2 mt-2 ml-1 text-xs text-slate-600 cursor-pointer select-none" title="Los cambios de la IA se muestran como propuesta en el editor y solo se aplican cuando los aceptas">
+          <input
+            type="checkbox"
+            checked={isReviewModeEnabled}
+            onChange={(e) => onReviewModeChange(e.target.checked)}
+            className="rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+          />
+          Revisar los cambios de la IA antes de aplicarlos
+        </label>
       </div>
 
       <div className="flex-grow p-4 space-y-1 overflow-y-auto bg-slate-100 scroll-smooth">
@@ -269,9 +331,19 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
               {msg.imagePreviewUrl && (
                 <img src={msg.imagePreviewUrl} alt="Adjunto" className="max-w-full h-auto rounded-lg mb-2 max-h-60 object-contain border border-slate-300 bg-slate-50" />
               )}
-              <p className="text-sm whitespace-pre-wrap break-words">
-                {msg.text}
-              </p>
+              {msg.isStreaming && !msg.text ? (
+                <div className="flex items-center space-x-2.5 py-1">
+                  <div className="w-2 h-2 bg-sky-500 rounded-full animate-pulse delay-75"></div>
+                  <div className="w-2 h-2 bg-sky-500 rounded-full animate-pulse delay-150"></div>
+                  <div className="w-2 h-2 bg-sky-500 rounded-full animate-pulse delay-300"></div>
+                  <span className="text-sm text-slate-600">AI está pensando...</span>
+                </div>
+              ) : (
+                <p className="text-sm whitespace-pre-wrap break-words">
+                  {msg.text}
+                  {msg.isStreaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-sky-500 animate-pulse"></span>}
+                </p>
+              )}
               <p className={`text-xs mt-2 opacity-80 text-right ${msg.sender === 'user' ? 'text-sky-100' : 'text-slate-500'}`}>
                 {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
               </p>
@@ -329,107 +401,135 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
         <div ref={messagesEndRef} />
       </div>
 
-      <div 
-        ref={chatInputAreaRef}
-        className="p-3 border-t border-slate-200 bg-white relative"
-        onDragEnter={handleDragEnter}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-      >
-        {isDraggingOverChatInput && (
-          <div className="absolute inset-0 bg-sky-100 bg-opacity-80 border-2 border-dashed border-sky-400 rounded-lg flex flex-col items-center justify-center z-10 pointer-events-none m-2">
-            <UploadIcon className="w-10 h-10 text-sky-500 mb-2 animate-bounce" />
-            <p className="text-sm font-medium text-sky-600">Suelta la imagen aquí</p>
-          </div>
-        )}
-        {imagePreviewUrl && !editingMessage && (
-          <div className="mb-2 p-1.5 border border-slate-300 rounded-lg bg-slate-50 relative w-fit shadow-sm">
-            <img src={imagePreviewUrl} alt="Preview" className="max-h-24 w-auto rounded-md" />
-            <button 
-              onClick={removeSelectedImage} 
-              className="absolute -top-2.5 -right-2.5 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs hover:bg-red-600 transition-colors shadow-md focus:outline-none focus:ring-2 focus:ring-red-400"
-              aria-label="Eliminar imagen seleccionada"
-            >
-              <XMarkIcon className="w-3.5 h-3.5"/>
-            </button>
-          </div>
-        )}
-        {editingMessage && (
-          <div className="mb-2 p-2 border-b border-slate-200 text-sm text-slate-600 bg-sky-50 rounded-t-md">
-            Editando mensaje para regenerar respuesta: <span className="italic">"{editingMessage.text.substring(0,30)}{editingMessage.text.length > 30 ? '...' : ''}"</span>
-          </div>
-        )}
-        <div className="flex items-end space-x-2"> 
-          {!editingMessage && (
-            <Button
-              variant="secondary"
-              className="!rounded-full w-10 h-10 p-2 flex items-center justify-center text-slate-600 hover:text-slate-700 flex-shrink-0"
-              onClick={() => fileInputRef.current?.click()}
-              disabled={isLoading || messages.some(m => m.isStreaming)}
-              aria-label="Adjuntar imagen"
-              title="Adjuntar imagen"
-            >
-              <PaperClipIcon className="w-5 h-5" />
-            </Button>
+      {isReadOnlyThread ? (
+        <div className="p-3 border-t border-slate-200 bg-white text-center">
+          <p className="text-xs text-slate-500 mb-2">Esta conversación pertenece a otro documento. Ábrelo para continuarla.</p>
+          <Button variant="secondary" size="sm" onClick={() => onSelectThread(activeFileId)}>
+            Volver a {activeDocumentName ?? 'el documento abierto'}
+          </Button>
+        </div>
+      ) : (
+        <div 
+          ref={chatInputAreaRef}
+          className="p-3 border-t border-slate-200 bg-white relative"
+          onDragEnter={handleDragEnter}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          {isDraggingOverChatInput && (
+            <div className="absolute inset-0 bg-sky-100 bg-opacity-80 border-2 border-dashed border-sky-400 rounded-lg flex flex-col items-center justify-center z-10 pointer-events-none m-2">
+              <UploadIcon className="w-10 h-10 text-sky-500 mb-2 animate-bounce" />
+              <p className="text-sm font-medium text-sky-600">Suelta la imagen aquí</p>
+            </div>
+          )}
+          {imagePreviewUrl && !editingMessage && (
+            <div className="mb-2 p-1.5 border border-slate-300 rounded-lg bg-slate-50 relative w-fit shadow-sm">
+              <img src={imagePreviewUrl} alt="Preview" className="max-h-24 w-auto rounded-md" />
+              <button 
+                onClick={removeSelectedImage} 
+                className="absolute -top-2.5 -right-2.5 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs hover:bg-red-600 transition-colors shadow-md focus:outline-none focus:ring-2 focus:ring-red-400"
+                aria-label="Eliminar imagen seleccionada"
+              >
+                <XMarkIcon className="w-3.5 h-3.5"/>
+              </button>
+              <button
+                onClick={handleExtractReceipt}
+                disabled={isLoading || isExtractingReceipt || messages.some(m => m.isStreaming)}
+                className="mt-1.5 w-full flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium text-sky-700 bg-sky-50 border border-sky-200 rounded-md hover:bg-sky-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Leer el proveedor, las líneas y los importes del recibo o factura para añadirlo a una tabla de gastos"
+              >
+                <SparklesIcon className="w-3.5 h-3.5" />
+                {isExtractingReceipt ? 'Extrayendo...' : 'Extraer datos del recibo'}
+              </button>
+            </div>
+          )}
+          {editingMessage && (
+            <div className="mb-2 p-2 border-b border-slate-200 text-sm text-slate-600 bg-sky-50 rounded-t-md">
+              Editando mensaje para regenerar respuesta: <span className="italic">"{editingMessage.text.substring(0,30)}{editingMessage.text.length > 30 ? '...' : ''}"</span>
+            </div>
           )}
+          <div className="flex items-end space-x-2"> 
+            {!editingMessage && (
+              <Button
+                variant="secondary"
+                className="!rounded-full w-10 h-10 p-2 flex items-center justify-center text-slate-600 hover:text-slate-700 flex-shrink-0"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isLoading || messages.some(m => m.isStreaming)}
+                aria-label="Adjuntar imagen"
+                title="Adjuntar imagen"
+              >
+                <PaperClipIcon className="w-5 h-5" />
+              </Button>
+            )}
           
-          <input 
-            type="file" 
-            accept="image/*" 
-            ref={fileInputRef} 
-            onChange={handleImageChange} 
-            className="hidden" 
-            disabled={isLoading || messages.some(m => m.isStreaming) || !!editingMessage}
-          />
-
-          <textarea
-            ref={textareaRef}
-            value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder={editingMessage ? "Modifica el texto para regenerar..." : "Pregunta lo que quieras"}
-            aria-label={editingMessage ? "Modifica el texto para regenerar" : "Pregunta lo que quieras"}
-            rows={1}
-            className="flex-grow p-2.5 border border-slate-300 rounded-xl resize-none focus:ring-2 focus:ring-sky-400 focus:border-sky-400 transition-all placeholder-slate-400 text-sm bg-slate-100 text-slate-800 max-h-32 overflow-y-auto h-10"
-            disabled={isLoading || messages.some(m => m.isStreaming)}
-          />
+            <input 
+              type="file" 
+              accept="image/*" 
+              ref={fileInputRef} 
+              onChange={handleImageChange} 
+              className="hidden" 
+              disabled={isLoading || messages.some(m => m.isStreaming) || !!editingMessage}
+            />
+
+            <textarea
+              ref={textareaRef}
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder={editingMessage ? "Modifica el texto para regenerar..." : "Pregunta lo que quieras"}
+              aria-label={editingMessage ? "Modifica el texto para regenerar" : "Pregunta lo que quieras"}
+              rows={1}
+              className="flex-grow p-2.5 border border-slate-300 rounded-xl resize-none focus:ring-2 focus:ring-sky-400 focus:border-sky-400 transition-all placeholder-slate-400 text-sm bg-slate-100 text-slate-800 max-h-32 overflow-y-auto h-10"
+              disabled={isLoading || messages.some(m => m.isStreaming)}
+            />
           
-          {editingMessage ? (
-            <div className="flex space-x-2">
+            {editingMessage ? (
+              <div className="flex space-x-2">
+                <Button 
+                  onClick={handleCancelEdit} 
+                  variant="secondary"
+                  size="sm"
+                  className="text-slate-700"
+                  aria-label="Cancelar edición y regeneración"
+                >
+                  Cancelar
+                </Button>
+                <Button 
+                  onClick={handleSendOrSubmitEdit} 
+                  disabled={isLoading || !inputText.trim()} 
+                  variant="primary"
+                  size="sm"
+                  aria-label="Enviar mensaje modificado para regenerar respuesta"
+                >
+                  Enviar
+                </Button>
+              </div>
+            ) : isLoading || messages.some(m => m.isStreaming) ? (
               <Button 
-                onClick={handleCancelEdit} 
+                onClick={onCancelResponse} 
                 variant="secondary"
-                size="sm"
-                className="text-slate-700"
-                aria-label="Cancelar edición y regeneración"
+                className="!rounded-full w-10 h-10 p-2 flex items-center justify-center text-red-600 hover:bg-red-50 flex-shrink-0"
+                aria-label="Detener respuesta"
+                title="Detener respuesta"
               >
-                Cancelar
+                <StopIcon className="w-5 h-5" />
               </Button>
+            ) : (
               <Button 
                 onClick={handleSendOrSubmitEdit} 
-                disabled={isLoading || !inputText.trim()} 
-                variant="primary"
-                size="sm"
-                aria-label="Enviar mensaje modificado para regenerar respuesta"
+                disabled={isLoading || (!inputText.trim() && !selectedImageFile) || messages.some(m => m.isStreaming)} 
+                variant="secondary"
+                className="!rounded-full w-10 h-10 p-2 flex items-center justify-center text-sky-600 hover:bg-slate-200 flex-shrink-0"
+                aria-label="Enviar mensaje"
+                title="Enviar mensaje"
               >
-                Enviar
+                <PaperAirplaneIcon className="w-5 h-5" />
               </Button>
-            </div>
-          ) : (
-            <Button 
-              onClick={handleSendOrSubmitEdit} 
-              disabled={isLoading || (!inputText.trim() && !selectedImageFile) || messages.some(m => m.isStreaming)} 
-              variant="secondary"
-              className="!rounded-full w-10 h-10 p-2 flex items-center justify-center text-sky-600 hover:bg-slate-200 flex-shrink-0"
-              aria-label="Enviar mensaje"
-              title="Enviar mensaje"
-            >
-              <PaperAirplaneIcon className="w-5 h-5" />
-            </Button>
-          )}
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ColumnTypeSetting } from '../types';
+import { isNumericColumnType, parseLocaleNumber } from '../utils/columnTypes';
+import { ColumnFilter, EMPTY_COLUMN_FILTER } from '../utils/tableView';
+
+interface ColumnFilterMenuProps {
+  header: string;
+  x: number;
+  y: number;
+  filter: ColumnFilter;
+  setting: ColumnTypeSetting; // Numeric columns get a range, date columns a date range
+  locale: string;
+  onChange: (filter: ColumnFilter) => void; // Called on every change; the grid updates as the user types
+  onClose: () => void;
+}
+
+/** Filter of a grid column: text, a numeric or date range depending on the column type, and blanks. */
+export const ColumnFilterMenu: React.FC<ColumnFilterMenuProps> = ({ header, x, y, filter, setting, locale, onChange, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  // Range bounds are typed in the locale ("1.000,50"); the filter only changes when they can be read
+  const [minInput, setMinInput] = useState(filter.min === null ? '' : String(filter.min));
+  const [maxInput, setMaxInput] = useState(filter.max === null ? '' : String(filter.max));
+  const isMinValid = minInput.trim() === '' || parseLocaleNumber(minInput, locale) !== null;
+  const isMaxValid = maxInput.trim() === '' || parseLocaleNumber(maxInput, locale) !== null;
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) onClose();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  const changeBound = (bound: 'min' | 'max', text: string) => {
+    (bound === 'min' ? setMinInput : setMaxInput)(text);
+    const value = text.trim() === '' ? null : parseLocaleNumber(text, locale);
+    if (text.trim() === '' || value !== null) onChange({ ...filter, [bound]: value });
+  };
+
+  const clear = () => {
+    setMinInput('');
+    setMaxInput('');
+    onChange(EMPTY_COLUMN_FILTER);
+  };
+
+  const inputClasses = (isValid: boolean) =>
+    `w-full px-2 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 ${isValid ? 'border-slate-300 focus:ring-sky-400' : 'border-red-400 focus:ring-red-300'}`;
+  const labelClasses = "block text-xs font-medium text-slate-500 mb-1";
+
+  return (
+    <div
+      ref={menuRef}
+      className="fixed z-50 w-64 bg-white rounded-md shadow-xl border border-slate-200 p-3 space-y-3"
+      style={{ top: y, left: x }}
+      role="dialog"
+      aria-label={`Filtro de la columna ${header}`}
+    >
+      <label className="block">
+        <span className={labelClasses}>Contiene</span>
+        <input type="text" value={filter.contains} onChange={(e) => onChange({ ...filter, contains: e.target.value })} className={inputClasses(true)} autoFocus />
+      </label>
+      {isNumericColumnType(setting.type) && (
+        <div className="flex gap-2">
+          <label className="block flex-1">
+            <span className={labelClasses}>Mínimo</span>
+            <input type="text" inputMode="decimal" value={minInput} onChange={(e) => changeBound('min', e.target.value)} className={inputClasses(isMinValid)} aria-invalid={!isMinValid} />
+          </label>
+          <label className="block flex-1">
+            <span className={labelClasses}>Máximo</span>
+            <input type="text" inputMode="decimal" value={maxInput} onChange={(e) => changeBound('max', e.target.value)} className={inputClasses(isMaxValid)} aria-invalid={!isMaxValid} />
+          </label>
+        </div>
+      )}
+      {setting.type === 'date' && (
+        <div className="flex gap-2">
+          <label className="block flex-1">
+            <span className={labelClasses}>Desde</span>
+            <input type="date" value={filter.from} onChange={(e) => onChange({ ...filter, from: e.target.value })} className={inputClasses(true)} />
+          </label>
+          <label className="block flex-1">
+            <span className={labelClasses}>Hasta</span>
+            <input type="date" value={filter.to} onChange={(e) => onChange({ ...filter, to: e.target.value })} className={inputClasses(true)} />
+          </label>
+        </div>
+      )}
+      <label className="block">
+        <span className={labelClasses}>Celdas vacías</span>
+        <select value={filter.blanks} onChange={(e) => onChange({ ...filter, blanks: e.target.value as ColumnFilter['blanks'] })} className={inputClasses(true)}>
+          <option value="any">Mostrar todas</option>
+          <option value="only">Solo vacías</option>
+          <option value="hide">Ocultar vacías</option>
+        </select>
+      </label>
+      <div className="flex justify-end">
+        <button onClick={clear} className="px-2 py-1 text-sm text-slate-600 rounded-md hover:bg-slate-100 transition-colors">Quitar filtro</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ColumnType, ColumnTypeSetting } from '../types';
+import { COLUMN_TYPE_LABELS, formatColumnTypeLabel, localeCurrency } from '../utils/columnTypes';
+
+interface ColumnTypeMenuProps {
+  header: string;
+  x: number;
+  y: number;
+  current: ColumnTypeSetting | null; // The type chosen by the user, null if the column uses the inferred one
+  inferred: ColumnTypeSetting;
+  locale: string;
+  onSelect: (setting: ColumnTypeSetting | null) => void; // null goes back to the inferred type
+  onClose: () => void;
+}
+
+const COLUMN_TYPES = Object.keys(COLUMN_TYPE_LABELS) as ColumnType[];
+
+/** Menu of a grid column header to choose how the column's cells are read and shown. */
+export const ColumnTypeMenu: React.FC<ColumnTypeMenuProps> = ({ header, x, y, current, inferred, locale, onSelect, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [currencyInput, setCurrencyInput] = useState((current?.type === 'currency' ? current.currency : inferred.currency) ?? localeCurrency(locale));
+  const currency = currencyInput.trim().toUpperCase();
+  const isCurrencyValid = /^[A-Z]{3}$/.test(currency);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) onClose();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  const select = (setting: ColumnTypeSetting | null) => {
+    onSelect(setting);
+    onClose();
+  };
+
+  const itemClasses = (isActive: boolean) =>
+    `flex items-center w-full text-left px-3 py-1.5 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isActive ? 'bg-sky-50 text-sky-700 font-medium' : 'text-slate-700 hover:bg-slate-100'}`;
+
+  return (
+    <div
+      ref={menuRef}
+      className="fixed z-50 w-60 bg-white rounded-md shadow-xl border border-slate-200 py-1"
+      style={{ top: y, left: x }}
+      role="menu"
+      aria-label={`Tipo de la columna ${header}`}
+    >
+      <p className="px-3 py-1.5 text-xs font-semibold text-slate-500 uppercase tracking-wide">Tipo de columna</p>
+      <button onClick={() => select(null)} className={itemClasses(current === null)} role="menuitemradio" aria-checked={current === null}>
+        Automático ({formatColumnTypeLabel(inferred)})
+      </button>
+      <div className="my-1 border-t border-slate-100"></div>
+      {COLUMN_TYPES.map(type => (
+        type === 'currency' ? (
+          <div key={type} className="flex items-center">
+            <button
+              onClick={() => select({ type, currency })}
+              disabled={!isCurrencyValid}
+              className={itemClasses(current?.type === type)}
+              role="menuitemradio"
+              aria-checked={current?.type === type}
+            >
+              {COLUMN_TYPE_LABELS[type]}
+            </button>
+            <input
+              type="text"
+              value={currencyInput}
+              onChange={(e) => setCurrencyInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && isCurrencyValid) select({ type, currency }); }}
+              maxLength={3}
+              className={`w-16 mr-3 px-2 py-0.5 text-sm uppercase border rounded-md focus:outline-none focus:ring-2 ${isCurrencyValid ? 'border-slate-300 focus:ring-sky-400' : 'border-red-400 focus:ring-red-300'}`}
+              title="Código ISO 4217 de la moneda, por ejemplo EUR o USD"
+              aria-label="Código de la moneda"
+              aria-invalid={!isCurrencyValid}
+            />
+          </div>
+        ) : (
+          <button key={type} onClick={() => select({ type })} className={itemClasses(current?.type === type)} role="menuitemradio" aria-checked={current?.type === type}>
+            {COLUMN_TYPE_LABELS[type]}
+          </button>
+        )
+      ))}
+    </div>
+  );
+};
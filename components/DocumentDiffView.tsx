@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './Button';
+import { CheckCircleIcon, XCircleIcon, SparklesIcon } from './icons';
+import { DocumentDiff, DiffHunk } from '../utils/documentDiff';
+
+interface DocumentDiffViewProps {
+  diff: DocumentDiff;
+  onAccept: (acceptedHunkIds: Set<number>) => void;
+  onReject: () => void;
+}
+
+const CONTEXT_ITEMS = 3; // Unchanged lines/rows shown around each change
+
+type UnchangedSegment = { type: 'unchanged'; start: number; end: number }; // [start, end) in base items
+type Segment<T> = UnchangedSegment | { type: 'hunk'; hunk: DiffHunk<T> };
+
+const buildSegments = <T,>(baseLength: number, hunks: DiffHunk<T>[]): Segment<T>[] => {
+  const segments: Segment<T>[] = [];
+  let position = 0;
+  hunks.forEach(hunk => {
+    if (hunk.baseStart > position) segments.push({ type: 'unchanged', start: position, end: hunk.baseStart });
+    segments.push({ type: 'hunk', hunk });
+    position = hunk.baseStart + hunk.removed.length;
+  });
+  if (position < baseLength) segments.push({ type: 'unchanged', start: position, end: baseLength });
+  return segments;
+};
+
+/** Indexes of an unchanged segment to show, with null marking the collapsed middle. */
+const visibleIndexes = (segment: UnchangedSegment, isFirst: boolean, isLast: boolean): (number | null)[] => {
+  const head = isFirst ? 0 : CONTEXT_ITEMS;
+  const tail = isLast ? 0 : CONTEXT_ITEMS;
+  const length = segment.end - segment.start;
+  const indexes = Array.from({ length }, (_, i) => segment.start + i);
+  if (length <= head + tail + 1) return indexes;
+  return [...indexes.slice(0, head), null, ...indexes.slice(length - tail)];
+};
+
+const describeHunk = <T,>(hunk: DiffHunk<T>, unit: 'línea' | 'fila'): string => {
+  const from = hunk.baseStart + 1;
+  const to = hunk.baseStart + hunk.removed.length;
+  const plural = unit === 'línea' ? 'líneas' : 'filas';
+  if (hunk.removed.length === 0) return `Insertar ${hunk.added.length} ${hunk.added.length === 1 ? unit : plural} antes de la ${unit} ${from}`;
+  const range = from === to ? `${unit} ${from}` : `${plural} ${from}–${to}`;
+  if (hunk.added.length === 0) return `Eliminar ${range}`;
+  return `Modificar ${range}`;
+};
+
+export const DocumentDiffView: React.FC<DocumentDiffViewProps> = ({ diff, onAccept, onReject }) => {
+  const [selectedHunkIds, setSelectedHunkIds] = useState<Set<number>>(() => new Set(diff.hunks.map(h => h.id)));
+
+  useEffect(() => {
+    setSelectedHunkIds(new Set(diff.hunks.map(h => h.id)));
+  }, [diff]);
+
+  const toggleHunk = (hunkId: number) => {
+    setSelectedHunkIds(prev => {
+      const next = new Set(prev);
+      if (next.has(hunkId)) next.delete(hunkId); else next.add(hunkId);
+      return next;
+    });
+  };
+
+  const unit = diff.kind === 'csv' ? 'fila' : 'línea';
+  const segments = diff.kind === 'csv'
+    ? buildSegments<string[]>(diff.baseItems.length, diff.hunks)
+    : buildSegments<string>(diff.baseItems.length, diff.hunks);
+  const columnCount = diff.kind === 'csv' ? diff.headers.length + 1 : 2;
+
+  const renderHunkHeader = (hunk: DiffHunk<unknown>) => (
+    <tr className="bg-amber-50 border-y border-amber-200">
+      <td colSpan={columnCount} className="px-3 py-1.5">
+        <label className="flex items-center gap-2 text-xs font-medium text-amber-800 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={selectedHunkIds.has(hunk.id)}
+            onChange={() => toggleHunk(hunk.id)}
+            className="rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+            aria-label={`Aceptar cambio ${hunk.id + 1}`}
+          />
+          Cambio {hunk.id + 1}: {describeHunk(hunk, unit)}
+        </label>
+      </td>
+    </tr>
+  );
+
+  const renderCollapsed = (key: string, count: number) => (
+    <tr key={key} className="bg-slate-50">
+      <td colSpan={columnCount} className="px-3 py-1 text-xs text-slate-400 italic text-center">
+        … {count} {count === 1 ? unit : (unit === 'línea' ? 'líneas' : 'filas')} sin cambios
+      </td>
+    </tr>
+  );
+
+  const numberCell = (label: string | number, className = 'text-slate-400') => (
+    <td className={`px-2 py-1 text-right text-xs font-mono select-none border-r border-slate-200 w-12 ${className}`}>{label}</td>
+  );
+
+  const renderTextBody = () => {
+    if (diff.kind !== 'text') return null;
+    return segments.map((segment, segmentIndex) => {
+      if (segment.type === 'unchanged') {
+        const indexes = visibleIndexes(segment, segmentIndex === 0, segmentIndex === segments.length - 1);
+        return (
+          <React.Fragment key={`u-${segment.start}`}>
+            {indexes.map(index => index === null
+              ? renderCollapsed(`c-${segment.start}`, segment.end - segment.start - indexes.length + 1)
+              : (
+                <tr key={index}>
+                  {numberCell(index + 1)}
+                  <td className="px-3 py-1 font-mono text-xs text-slate-600 whitespace-pre-wrap break-all">{diff.baseItems[index] || ' '}</td>
+                </tr>
+              ))}
+          </React.Fragment>
+        );
+      }
+      const hunk = segment.hunk as DiffHunk<string>;
+      return (
+        <React.Fragment key={`h-${hunk.id}`}>
+          {renderHunkHeader(hunk)}
+          {hunk.removed.map((line, i) => (
+            <tr key={`r-${i}`} className="bg-red-50">
+              {numberCell(hunk.baseStart + i + 1, 'text-red-400')}
+              <td className="px-3 py-1 font-mono text-xs text-red-700 line-through whitespace-pre-wrap break-all">{line || ' '}</td>
+            </tr>
+          ))}
+          {hunk.added.map((line, i) => (
+            <tr key={`a-${i}`} className="bg-emerald-50">
+              {numberCell('+', 'text-emerald-500')}
+              <td className="px-3 py-1 font-mono text-xs text-emerald-800 whitespace-pre-wrap break-all">{line || ' '}</td>
+            </tr>
+          ))}
+        </React.Fragment>
+      );
+    });
+  };
+
+  const renderCsvBody = () => {
+    if (diff.kind !== 'csv') return null;
+    return segments.map((segment, segmentIndex) => {
+      if (segment.type === 'unchanged') {
+        const indexes = visibleIndexes(segment, segmentIndex === 0, segmentIndex === segments.length - 1);
+        return (
+          <React.Fragment key={`u-${segment.start}`}>
+            {indexes.map(index => index === null
+              ? renderCollapsed(`c-${segment.start}`, segment.end - segment.start - indexes.length + 1)
+              : (
+                <tr key={index}>
+                  {numberCell(index + 1)}
+                  {diff.baseItems[index].map((cell, colIndex) => (
+                    <td key={colIndex} className="px-3 py-1 text-slate-600 border-r border-slate-100 whitespace-nowrap">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+          </React.Fragment>
+        );
+      }
+      const hunk = segment.hunk as DiffHunk<string[]>;
+      // Removed and added rows at the same position are shown as one modified row with cell-level highlights
+      const modifiedCount = Math.min(hunk.removed.length, hunk.added.length);
+      return (
+        <React.Fragment key={`h-${hunk.id}`}>
+          {renderHunkHeader(hunk)}
+          {hunk.added.slice(0, modifiedCount).map((row, i) => {
+            const oldRow = hunk.removed[i];
+            return (
+              <tr key={`m-${i}`}>
+                {numberCell(hunk.baseStart + i + 1, 'text-amber-500')}
+                {row.map((cell, colIndex) => cell === oldRow[colIndex] ? (
+                  <td key={colIndex} className="px-3 py-1 text-slate-600 border-r border-slate-100 whitespace-nowrap">{cell}</td>
+                ) : (
+                  <td key={colIndex} className="px-3 py-1 bg-amber-100 border-r border-amber-200 whitespace-nowrap" title={`Antes: ${oldRow[colIndex] || '(vacío)'}`}>
+                    <span className="block text-xs text-red-600 line-through">{oldRow[colIndex] || ' '}</span>
+                    <span className="block text-emerald-800 font-medium">{cell || ' '}</span>
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+          {hunk.removed.slice(modifiedCount).map((row, i) => (
+            <tr key={`r-${i}`} className="bg-red-50">
+              {numberCell(hunk.baseStart + modifiedCount + i + 1, 'text-red-400')}
+              {row.map((cell, colIndex) => (
+                <td key={colIndex} className="px-3 py-1 text-red-700 line-through border-r border-red-100 whitespace-nowrap">{cell}</td>
+              ))}
+            </tr>
+          ))}
+          {hunk.added.slice(modifiedCount).map((row, i) => (
+            <tr key={`a-${i}`} className="bg-emerald-50">
+              {numberCell('+', 'text-emerald-500')}
+              {row.map((cell, colIndex) => (
+                <td key={colIndex} className="px-3 py-1 text-emerald-800 border-r border-emerald-100 whitespace-nowrap">{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </React.Fragment>
+      );
+    });
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 bg-sky-50 border-b border-sky-200 rounded-t-lg">
+        <p className="flex items-center text-sm text-sky-800 font-medium">
+          <SparklesIcon className="w-5 h-5 mr-2 text-sky-500" />
+          La IA propone {diff.hunks.length} {diff.hunks.length === 1 ? 'cambio' : 'cambios'}. Revísalos antes de aplicarlos.
+        </p>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onReject} leftIcon={<XCircleIcon className="w-4 h-4" />} className="text-red-600 hover:bg-red-50">
+            Rechazar
+          </Button>
+          {selectedHunkIds.size < diff.hunks.length && (
+            <Button variant="secondary" size="sm" onClick={() => onAccept(selectedHunkIds)} disabled={selectedHunkIds.size === 0}>
+              Aplicar seleccionados ({selectedHunkIds.size})
+            </Button>
+          )}
+          <Button variant="primary" size="sm" onClick={() => onAccept(new Set(diff.hunks.map(h => h.id)))} leftIcon={<CheckCircleIcon className="w-4 h-4" />}>
+            Aceptar todo
+          </Button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto min-h-0">
+        <table className="min-w-full text-sm border-collapse bg-white">
+          {diff.kind === 'csv' && (
+            <thead className="bg-slate-100 sticky top-0 z-10 shadow-sm">
+              <tr>
+                <th className="px-2 py-2 w-12 border-b border-r border-slate-300"></th>
+                {diff.headers.map((header, index) => (
+                  <th key={index} className="px-3 py-2 text-left font-semibold text-slate-700 border-b border-r border-slate-300 whitespace-nowrap">{header}</th>
+                ))}
+              </tr>
+            </thead>
+          )}
+          <tbody>
+            {diff.kind === 'csv' ? renderCsvBody() : renderTextBody()}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
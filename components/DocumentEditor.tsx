@@ -1,9 +1,25 @@
 
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { Button } from './Button';
-import { ArrowDownTrayIcon, ArrowUturnLeftIcon, FileIcon as DocumentIconFallback, PlusIcon, ArrowUturnRightIcon, InfoCircleIcon, TrashIcon, ArrowUpCircleIcon, ArrowDownCircleIcon, ArrowLeftCircleIcon, ArrowRightCircleIcon, PlusCircleIcon } from './icons'; 
-import { AppFile } from '../types';
-import { parseCsv, serializeCsv, ParsedCsvData, convertCsvDataToExcelArrayBuffer } from '../utils/tabularDataParser';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, FileIcon as DocumentIconFallback, PlusIcon, ArrowUturnRightIcon, InfoCircleIcon, TrashIcon, ArrowUpCircleIcon, ArrowDownCircleIcon, ArrowLeftCircleIcon, ArrowRightCircleIcon, PlusCircleIcon, ChartBarIcon, DocumentDuplicateIcon, ChevronUpIcon, ChevronDownIcon, FunnelIcon } from './icons'; 
+import { DocumentDiffView } from './DocumentDiffView';
+import { JournalEditor } from './JournalEditor';
+import { SheetTabs } from './SheetTabs';
+import { ColumnTypeMenu } from './ColumnTypeMenu';
+import { ColumnFilterMenu } from './ColumnFilterMenu';
+import { AppFile, ColumnTypeSetting, DocumentProposal } from '../types';
+import { parseCsv, serializeCsv, ParsedCsvData, convertWorkbookContentToExcelArrayBuffer } from '../utils/tabularDataParser';
+import { mergeWorkbookContentIntoExcel } from '../utils/excelRoundTrip';
+import { DEFAULT_SHEET_NAME, nextSheetName, parseWorkbookContent, serializeWorkbookContent, WorkbookSheet } from '../utils/workbook';
+import { copyRowFormulas, evaluateSheet, formulaCellAddress, formulaCellKey, shiftTableFormulas } from '../utils/formulaEngine';
+import { isFormula, ReferenceShift, toContentFormula } from '../utils/cellReferences';
+import { buildDocumentDiff, resolveDocumentDiff } from '../utils/documentDiff';
+import { downloadBlob, isTabularFileName } from '../utils/helpers';
+import { CSV_DOWNLOAD_BOM } from '../utils/csv';
+import { parseJournal, serializeJournal, parseAmount, formatAmount } from '../utils/journal';
+import { formatLedgerPeriod, getReportAmountColumns, isGeneratedReport, REPORT_KIND_LABELS } from '../utils/ledger';
+import { formatColumnTypeLabel, formatTypedCell, formatTypedValue, inferColumnType, isNumericColumnType, resolveColumnTypes } from '../utils/columnTypes';
+import { buildTableView, EMPTY_COLUMN_FILTER, EMPTY_TABLE_VIEW_STATE, isColumnFilterActive, isTableViewActive, sortTableRows, TableViewState, toggleSortKey } from '../utils/tableView';
 
 interface DocumentEditorProps {
   fileName: string | null;
@@ -13,11 +29,20 @@ interface DocumentEditorProps {
   activeFile: AppFile | undefined;
   previousDocumentContentForUndo: string | null; 
   onUndoAIChange: () => void;
+  pendingProposal: DocumentProposal | null; // AI change awaiting review (review mode, or a rewrite of a document edited while the AI answered)
+  onAcceptProposal: (acceptedContent: string) => void;
+  onRejectProposal: () => void;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
   onGoBack: () => void; 
+  getFolderNameById: (id: string | null) => string;
+  onDownloadOriginal: () => void; // Downloads the untouched upload (activeFile.original)
+  onLoadOriginal: () => Promise<Blob | null>; // The untouched upload, for writing Excel edits back into it
+  locale: string; // Workspace locale for reading and showing typed columns
+  getColumnTypeOverrides: (sheetName: string) => Record<string, ColumnTypeSetting>; // Types chosen by the user, by header
+  onColumnTypeChange: (sheetName: string, header: string, setting: ColumnTypeSetting | null) => void; // null goes back to the inferred type
 }
 
 interface ContextMenuState {
@@ -28,6 +53,13 @@ interface ContextMenuState {
   targetIndex: number | null; // rowIndex for 'row', colIndex for 'column'
 }
 
+// Position of the column type or filter menu of a grid header
+interface ColumnMenuState {
+  index: number;
+  x: number;
+  y: number;
+}
+
 const EXCEL_EXTENSIONS = ['.xlsx', '.xls'];
 const DOCX_EXTENSIONS = ['.docx'];
 
@@ -39,11 +71,20 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
   activeFile,
   previousDocumentContentForUndo,
   onUndoAIChange,
+  pendingProposal,
+  onAcceptProposal,
+  onRejectProposal,
   onUndo,
   onRedo,
   canUndo,
   canRedo,
-  onGoBack
+  onGoBack,
+  getFolderNameById,
+  onDownloadOriginal,
+  onLoadOriginal,
+  locale,
+  getColumnTypeOverrides,
+  onColumnTypeChange
 }) => {
   const [isCsvMode, setIsCsvMode] = useState(false); 
   const [isExcelFile, setIsExcelFile] = useState(false);
@@ -51,6 +92,121 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
   const [parsedCsvData, setParsedCsvData] = useState<ParsedCsvData | null>(null);
   const [csvParsingError, setCsvParsingError] = useState<string | null>(null);
   const contextMenuRef = useRef<HTMLDivElement>(null);
+  const [showJournalAsTable, setShowJournalAsTable] = useState(false);
+  const [activeSheetIndex, setActiveSheetIndex] = useState(0);
+  const report = activeFile && isGeneratedReport(activeFile) ? activeFile.report ?? null : null; // A duplicated report is edited like any other table
+  const isReadOnly = isCollaborating || report !== null; // Generated reports are never edited in place
+  const reportAmountColumns = useMemo(
+    () => new Set(report && parsedCsvData ? getReportAmountColumns(report.kind, parsedCsvData.headers) : []),
+    [report, parsedCsvData]
+  );
+
+  // Excel documents are edited one sheet at a time; the grid and the journal view show the active sheet
+  const sheets = useMemo(() => (isExcelFile ? parseWorkbookContent(content) : null), [isExcelFile, content]);
+  const sheetIndex = sheets ? Math.min(activeSheetIndex, sheets.length - 1) : 0;
+  const sheetContent = sheets ? sheets[sheetIndex].content : content;
+  const sheetName = sheets ? sheets[sheetIndex].name : DEFAULT_SHEET_NAME;
+
+  // The grid shows the results of formulas; a cell shows its formula while it is being edited
+  const [editingCellKey, setEditingCellKey] = useState<string | null>(null);
+  const evaluatedData = useMemo(
+    () => (parsedCsvData ? evaluateSheet(sheets ?? [{ name: DEFAULT_SHEET_NAME, content }], sheetIndex, parsedCsvData, locale) : null),
+    [sheets, sheetIndex, content, parsedCsvData, locale]
+  );
+
+  // Each column is read and shown with its type; cells that do not fit the type are flagged
+  const [columnTypeMenu, setColumnTypeMenu] = useState<ColumnMenuState | null>(null);
+  const columnTypeOverrides = getColumnTypeOverrides(sheetName);
+  const columnTypes = useMemo(
+    () => (parsedCsvData ? resolveColumnTypes(parsedCsvData, columnTypeOverrides, locale) : []),
+    [parsedCsvData, columnTypeOverrides, locale]
+  );
+  const columnSettings = useMemo(() => columnTypes.map(column => column.setting), [columnTypes]);
+  const shownValues = useMemo(
+    () => parsedCsvData?.rows.map((row, rowIndex) => row.map((cell, colIndex) => evaluatedData?.rows[rowIndex]?.[colIndex] ?? cell)) ?? null,
+    [parsedCsvData, evaluatedData]
+  );
+  const typedCells = useMemo(() => {
+    if (!parsedCsvData || !shownValues) return null;
+    return parsedCsvData.rows.map((row, rowIndex) => row.map((cell, colIndex) => {
+      const typed = formatTypedCell(shownValues[rowIndex][colIndex], columnSettings[colIndex] ?? { type: 'text' }, locale);
+      // Formula results are shown formatted when they fit the type, but never flagged
+      return isFormula(cell) && typed.error ? { text: typed.text, error: null } : typed;
+    }));
+  }, [parsedCsvData, shownValues, columnSettings, locale]);
+  const invalidCellCounts = useMemo(
+    () => (parsedCsvData?.headers ?? []).map((_, colIndex) => typedCells?.filter(row => row[colIndex]?.error).length ?? 0),
+    [parsedCsvData, typedCells]
+  );
+
+  // Sorting, filtering and grouping only change what the grid shows, until the sort is applied to the file
+  const [tableViewState, setTableViewState] = useState<TableViewState>(EMPTY_TABLE_VIEW_STATE);
+  const [columnFilterMenu, setColumnFilterMenu] = useState<ColumnMenuState | null>(null);
+  const tableView = useMemo(
+    () => (shownValues ? buildTableView(shownValues, columnSettings, locale, tableViewState) : null),
+    [shownValues, columnSettings, locale, tableViewState]
+  );
+  const isViewActive = isTableViewActive(tableViewState);
+  const headerCount = parsedCsvData?.headers.length ?? 0;
+
+  useEffect(() => {
+    setActiveSheetIndex(0);
+    setColumnTypeMenu(null);
+  }, [activeFile?.id]);
+
+  useEffect(() => {
+    // Filters and sort keys refer to columns by position
+    setTableViewState(EMPTY_TABLE_VIEW_STATE);
+    setColumnFilterMenu(null);
+  }, [activeFile?.id, sheetIndex, headerCount]);
+
+  /** Replaces the sheets of the workbook, keeping `nextActiveIndex` selected. */
+  const changeSheets = (nextSheets: WorkbookSheet[], nextActiveIndex: number = sheetIndex) => {
+    setActiveSheetIndex(nextActiveIndex);
+    onContentChange(serializeWorkbookContent(nextSheets));
+  };
+
+  /** Saves the table or journal being edited: the whole document, or the active sheet of a workbook. */
+  const handleTableContentChange = (newSheetContent: string) => {
+    if (!sheets) {
+      onContentChange(newSheetContent);
+      return;
+    }
+    changeSheets(sheets.map((sheet, index) => (index === sheetIndex ? { ...sheet, content: newSheetContent } : sheet)));
+  };
+
+  const handleAddSheet = () => {
+    if (!sheets) return;
+    changeSheets([...sheets, { name: nextSheetName(sheets), content: '' }], sheets.length);
+  };
+
+  const handleRenameSheet = (index: number, name: string) => {
+    if (!sheets) return;
+    changeSheets(sheets.map((sheet, i) => (i === index ? { ...sheet, name } : sheet)));
+  };
+
+  const handleDeleteSheet = (index: number) => {
+    if (!sheets || sheets.length <= 1) return;
+    changeSheets(sheets.filter((_, i) => i !== index), index < sheetIndex || sheetIndex === sheets.length - 1 ? Math.max(0, sheetIndex - 1) : sheetIndex);
+  };
+
+  const handleMoveSheet = (fromIndex: number, toIndex: number) => {
+    if (!sheets || toIndex < 0 || toIndex >= sheets.length) return;
+    const reordered = [...sheets];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    // The selected sheet stays selected wherever it ends up
+    changeSheets(reordered, reordered.indexOf(sheets[sheetIndex]));
+  };
+
+  // CSV documents with the journal columns get the journal entry view (the grid stays available)
+  const journalEntries = useMemo(() => (isCsvMode ? parseJournal(sheetContent) : null), [isCsvMode, sheetContent]);
+  const isJournalView = journalEntries !== null && !showJournalAsTable;
+
+  const proposalDiff = useMemo(() => {
+    if (!activeFile || !pendingProposal || pendingProposal.fileId !== activeFile.id) return null;
+    return buildDocumentDiff(pendingProposal.baseContent, pendingProposal.proposedContent, isTabularFileName(activeFile.name));
+  }, [activeFile, pendingProposal]);
 
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({
     visible: false,
@@ -76,13 +232,13 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
       } else if (fileExtension === '.csv' || isOriginallyExcel) {
         setIsCsvMode(true); 
         try {
-          const parsed = parseCsv(content);
+          const parsed = parseCsv(sheetContent);
           if (parsed) {
             setParsedCsvData(parsed);
             setCsvParsingError(null);
           } else {
             setParsedCsvData(null);
-            setCsvParsingError(isOriginallyExcel ? "La primera hoja del archivo Excel está vacía o no pudo ser procesada." : "El archivo CSV está vacío o tiene un formato de cabecera inválido.");
+            setCsvParsingError(isOriginallyExcel ? "La hoja está vacía o no tiene una fila de cabecera. Escribe la cabecera, separada por comas, para empezar." : "El archivo CSV está vacío o tiene un formato de cabecera inválido.");
           }
         } catch (error) {
           console.error("Error parsing CSV/Excel content:", error);
@@ -104,10 +260,12 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
       setCsvParsingError(null);
     }
     setContextMenu({ visible: false, x: 0, y: 0, targetType: null, targetIndex: null });
-  }, [activeFile, content]);
+  }, [activeFile, sheetContent]);
 
-  const handleCellEdit = (rowIndex: number, colIndex: number, value: string) => {
-    if (!parsedCsvData || isCollaborating) return;
+  const handleCellEdit = (rowIndex: number, colIndex: number, text: string) => {
+    if (!parsedCsvData || isReadOnly) return;
+    const value = isFormula(text.trim()) ? toContentFormula(text.trim()) : text; // "=SUM(A2,A3)" is stored as "=SUM(A2;A3)"
+    if (value === parsedCsvData.rows[rowIndex]?.[colIndex]) return;
 
     const newRows = parsedCsvData.rows.map((row, rIdx) => 
       rIdx === rowIndex 
@@ -117,7 +275,37 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
     
     const newData = { ...parsedCsvData, rows: newRows };
     setParsedCsvData(newData); 
-    onContentChange(serializeCsv(newData));
+    handleTableContentChange(serializeCsv(newData));
+  };
+
+  /**
+   * Writes the rows in the order of the view's sort keys (all rows, including those hidden by
+   * filters). Relative references in the formulas of a moved row move with it, as when sorting in Excel.
+   */
+  const handleApplySortToFile = () => {
+    if (!parsedCsvData || !shownValues || isReadOnly || tableViewState.sort.length === 0) return;
+    const order = sortTableRows(shownValues, columnSettings, locale, tableViewState.sort);
+    const newData = { ...parsedCsvData, rows: order.map((rowIndex, position) => copyRowFormulas(parsedCsvData.rows[rowIndex], position - rowIndex)) };
+    setTableViewState(prev => ({ ...prev, sort: [] }));
+    setParsedCsvData(newData);
+    handleTableContentChange(serializeCsv(newData));
+  };
+
+  /**
+   * The content as an .xlsx file: merged into the uploaded workbook when there is one, so its formulas
+   * and formatting are kept, or a new workbook otherwise (and if the upload cannot be read).
+   */
+  const exportExcelContent = async (): Promise<ArrayBuffer> => {
+    const options = { amountColumns: Array.from(reportAmountColumns) };
+    if (activeFile?.original?.name.toLowerCase().endsWith('.xlsx')) {
+      try {
+        const original = await onLoadOriginal();
+        if (original) return await mergeWorkbookContentIntoExcel(content, await original.arrayBuffer(), options);
+      } catch (error) {
+        console.error("Error merging into the original Excel file, exporting a new workbook:", error);
+      }
+    }
+    return convertWorkbookContentToExcelArrayBuffer(content, options);
   };
 
   const handleDownload = async () => {
@@ -131,30 +319,24 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
       blob = new Blob([activeFile.content], { type: 'text/plain;charset=utf-8;' });
       downloadFileName = downloadFileName.substring(0, downloadFileName.lastIndexOf('.')) + '.txt';
     } else if (isExcelFile && parsedCsvData) { 
-      const excelBuffer = await convertCsvDataToExcelArrayBuffer(parsedCsvData);
+      // Every sheet is written, not only the one on screen
+      const excelBuffer = await exportExcelContent();
       blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
       if (!downloadFileName.toLowerCase().endsWith('.xlsx')) {
         downloadFileName = downloadFileName.substring(0, downloadFileName.lastIndexOf('.')) + '.xlsx';
       }
     } else if (isCsvMode && parsedCsvData) { 
-      blob = new Blob([serializeCsv(parsedCsvData)], { type: 'text/csv;charset=utf-8;' });
+      blob = new Blob([CSV_DOWNLOAD_BOM, serializeCsv(parsedCsvData)], { type: 'text/csv;charset=utf-8;' });
     } else { // Plain text for other file types or Docx content
       blob = new Blob([activeFile.content], { type: 'text/plain;charset=utf-8;' });
     }
     
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = downloadFileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, downloadFileName);
   };
 
   const showContextMenu = (event: React.MouseEvent, type: 'row' | 'column', index: number) => {
     event.preventDefault();
-    if (isCollaborating) return;
+    if (isReadOnly) return;
     setContextMenu({
       visible: true,
       x: event.clientX,
@@ -189,18 +371,34 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
     const newData = modifier(dataToModify);
     if (newData) {
       setParsedCsvData(newData);
-      onContentChange(serializeCsv(newData));
+      handleTableContentChange(serializeCsv(newData));
     }
     closeContextMenu();
   };
 
+  /** Moves the references of the sheet's formulas past inserted or deleted rows or columns. */
+  const shiftFormulas = (data: ParsedCsvData, shift: ReferenceShift): ParsedCsvData => shiftTableFormulas(data, shift, sheetName);
+
   const handleInsertRow = (above: boolean) => {
     if (contextMenu.targetType !== 'row' || contextMenu.targetIndex === null) return;
     const rowIndex = contextMenu.targetIndex;
     modifyCsvData(data => {
+      const insertIndex = above ? rowIndex : rowIndex + 1;
+      const shifted = shiftFormulas(data, { axis: 'row', at: insertIndex + 2, delta: 1 });
       const newEmptyRow = Array(data.headers.length).fill('');
-      data.rows.splice(above ? rowIndex : rowIndex + 1, 0, newEmptyRow);
-      return data; 
+      shifted.rows.splice(insertIndex, 0, newEmptyRow);
+      return shifted; 
+    });
+  };
+
+  /** Inserts a copy of the row below it; relative references in its formulas move down one row, as when copying in Excel. */
+  const handleDuplicateRow = () => {
+    if (contextMenu.targetType !== 'row' || contextMenu.targetIndex === null) return;
+    const rowIndex = contextMenu.targetIndex;
+    modifyCsvData(data => {
+      const shifted = shiftFormulas(data, { axis: 'row', at: rowIndex + 3, delta: 1 });
+      shifted.rows.splice(rowIndex + 1, 0, copyRowFormulas(shifted.rows[rowIndex], 1));
+      return shifted;
     });
   };
 
@@ -210,6 +408,7 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
     modifyCsvData(data => {
         if (data.rows.length > 0 && rowIndex >= 0 && rowIndex < data.rows.length) {
             data.rows.splice(rowIndex, 1);
+            data = shiftFormulas(data, { axis: 'row', at: rowIndex + 2, delta: -1 });
             if (data.rows.length === 0) {
                  data.rows.push(Array(data.headers.length).fill(''));
             }
@@ -222,11 +421,13 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
     if (contextMenu.targetType !== 'column' || contextMenu.targetIndex === null) return;
     const colIndex = contextMenu.targetIndex;
     modifyCsvData(data => {
-      data.headers.splice(before ? colIndex : colIndex + 1, 0, 'NuevaCol');
-      data.rows.forEach(row => {
-        row.splice(before ? colIndex : colIndex + 1, 0, '');
+      const insertIndex = before ? colIndex : colIndex + 1;
+      const shifted = shiftFormulas(data, { axis: 'column', at: insertIndex + 1, delta: 1 });
+      shifted.headers.splice(insertIndex, 0, 'NuevaCol');
+      shifted.rows.forEach(row => {
+        row.splice(insertIndex, 0, '');
       });
-      return data; 
+      return shifted; 
     });
   };
 
@@ -241,6 +442,7 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
             row.splice(colIndex, 1);
           }
         });
+        data = shiftFormulas(data, { axis: 'column', at: colIndex + 1, delta: -1 });
       }
       return data; 
     });
@@ -248,14 +450,20 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
 
   const getStatusInfo = () => {
     let fileType = 'Texto Plano';
-    if (isDocxFile) fileType = 'Documento Word (Texto)';
+    if (report) fileType = REPORT_KIND_LABELS[report.kind];
+    else if (isDocxFile) fileType = 'Documento Word (Texto)';
+    else if (journalEntries) fileType = 'Libro Diario';
     else if (isExcelFile) fileType = 'Documento Excel';
     else if (isCsvMode) fileType = 'Documento CSV';
     
     let contentInfo = '';
-    if (isCsvMode) { 
+    if (isJournalView) {
+      contentInfo = `${journalEntries.length} asientos`;
+    } else if (isCsvMode) { 
       if (parsedCsvData) {
         contentInfo = `${parsedCsvData.rows.length} filas, ${parsedCsvData.headers.length} columnas`;
+        if (isViewActive && tableView) contentInfo += ` (${tableView.rowIndexes.length} visibles)`;
+        if (sheets && sheets.length > 1) contentInfo += `, hoja ${sheetIndex + 1} de ${sheets.length}`;
       } else if (csvParsingError) {
         contentInfo = 'Error en datos tabulares';
       }
@@ -282,6 +490,28 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
   }
 
   const renderContent = () => {
+    if (proposalDiff) {
+      return (
+        <DocumentDiffView
+          diff={proposalDiff}
+          onAccept={(acceptedHunkIds) => onAcceptProposal(
+            acceptedHunkIds.size === proposalDiff.hunks.length && pendingProposal
+              ? pendingProposal.proposedContent
+              : resolveDocumentDiff(proposalDiff, acceptedHunkIds)
+          )}
+          onReject={onRejectProposal}
+        />
+      );
+    }
+    if (isJournalView) {
+      return (
+        <JournalEditor
+          entries={journalEntries}
+          onEntriesChange={(entries) => handleTableContentChange(serializeJournal(entries))}
+          isCollaborating={isCollaborating}
+        />
+      );
+    }
     if (isCsvMode) { 
       if (csvParsingError) {
         return (
@@ -291,17 +521,109 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
               <p className="text-xs mt-1">Se muestra el contenido original como texto. Los cambios se guardarán, pero la vista tabular no está disponible.</p>
             </div>
             <textarea
-              value={content} 
-              onChange={(e) => onContentChange(e.target.value)} 
+              value={sheetContent} 
+              onChange={(e) => handleTableContentChange(e.target.value)} 
               className="w-full flex-1 p-3 border border-slate-300 rounded-md resize-none leading-relaxed font-mono text-xs focus:outline-none focus:ring-2 focus:ring-sky-400 bg-slate-50 text-slate-700"
               aria-label={`Contenido original del archivo ${fileName} con error`}
-              disabled={isCollaborating}
+              disabled={isReadOnly}
             />
           </div>
         );
       }
       if (parsedCsvData) {
+        const renderDataRow = (rowIndex: number) => {
+          const row = parsedCsvData.rows[rowIndex];
+          return (
+            <tr key={rowIndex} className="hover:bg-slate-50 transition-colors duration-100 even:bg-slate-50/50">
+              <td
+                className="sticky left-0 z-10 px-2 py-2.5 text-center text-slate-600 bg-slate-100 hover:bg-slate-200 border-b border-r border-slate-300 font-medium select-none w-12 cursor-default"
+                onContextMenu={(e) => showContextMenu(e, 'row', rowIndex)}
+                aria-label={`Fila ${rowIndex + 1}, clic derecho para opciones de fila`}
+              >
+                {rowIndex + 1}
+              </td>
+              {row.map((cell, colIndex) => {
+                const key = formulaCellKey(rowIndex, colIndex);
+                const value = evaluatedData?.rows[rowIndex]?.[colIndex] ?? cell;
+                const formulaError = evaluatedData?.errors.get(key);
+                const isEditing = editingCellKey === key;
+                const typed = typedCells?.[rowIndex]?.[colIndex] ?? { text: value, error: null };
+                const isNumeric = isNumericColumnType(columnTypes[colIndex]?.setting.type ?? 'text');
+                const cellTitle = isFormula(cell)
+                  ? `${formulaCellAddress(rowIndex, colIndex)}: ${cell}${formulaError ? ` (${formulaError.message})` : ''}`
+                  : typed.error ?? undefined;
+                return (
+                  <td
+                    key={colIndex}
+                    contentEditable={!isReadOnly}
+                    onFocus={() => setEditingCellKey(key)}
+                    onBlur={(e) => {
+                      handleCellEdit(rowIndex, colIndex, e.currentTarget.textContent || '');
+                      setEditingCellKey(null);
+                    }}
+                    suppressContentEditableWarning={true}
+                    className={`px-3.5 py-2.5 border-b border-r border-slate-300 whitespace-nowrap focus:outline-none focus:ring-1 focus:ring-sky-400 focus:bg-sky-50 ${formulaError && !isEditing ? 'text-red-600 font-medium' : typed.error && !isEditing ? 'bg-amber-50 text-amber-800' : 'text-slate-700'} ${reportAmountColumns.has(colIndex) ? 'text-right font-mono' : isNumeric ? 'text-right tabular-nums' : ''}`}
+                    onContextMenu={(e) => showContextMenu(e, 'row', rowIndex)} 
+                    title={cellTitle}
+                    aria-invalid={typed.error !== null}
+                    aria-label={`Fila ${rowIndex + 1}, Columna ${parsedCsvData.headers[colIndex] || colIndex + 1}, valor ${value}${isFormula(cell) ? `, fórmula ${cell}` : ''}, clic derecho para opciones de fila`}
+                  >
+                    {isEditing ? cell : reportAmountColumns.has(colIndex) && value !== '' && !isNaN(parseAmount(value)) ? formatAmount(parseAmount(value)) : typed.text}
+                  </td>
+                );
+              })}
+            </tr>
+          );
+        };
+
+        /** A row with the sums of the decimal and currency columns, below a group or at the end. */
+        const renderTotalsRow = (key: string, label: string, sums: (number | null)[], isGrandTotal: boolean) => (
+          <tr key={key} className={isGrandTotal ? 'bg-slate-200 font-semibold' : 'bg-slate-100 font-medium'}>
+            <td className="sticky left-0 z-10 px-2 py-2 text-center text-slate-600 bg-inherit border-b border-r border-slate-300 select-none w-12" title={label}>
+              {isGrandTotal ? 'Total' : 'Σ'}
+            </td>
+            {sums.map((sum, colIndex) => (
+              <td key={colIndex} className="px-3.5 py-2 text-right tabular-nums text-slate-800 border-b border-r border-slate-300 whitespace-nowrap">
+                {sum === null ? '' : formatTypedValue(sum, columnSettings[colIndex], locale)}
+              </td>
+            ))}
+          </tr>
+        );
+
+        const shownRowCount = tableView?.rowIndexes.length ?? parsedCsvData.rows.length;
+        const groupColumnHeader = tableViewState.groupBy === null ? '' : parsedCsvData.headers[tableViewState.groupBy];
+
         return (
+          <>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 pb-2 text-sm text-slate-600 flex-shrink-0">
+            <label className="flex items-center gap-2">
+              Agrupar por
+              <select
+                value={tableViewState.groupBy ?? ''}
+                onChange={(e) => setTableViewState(prev => ({ ...prev, groupBy: e.target.value === '' ? null : Number(e.target.value) }))}
+                className="px-2 py-1 text-sm border border-slate-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-sky-400"
+              >
+                <option value="">Sin agrupar</option>
+                {parsedCsvData.headers.map((header, index) => <option key={index} value={index}>{header || `Columna ${index + 1}`}</option>)}
+              </select>
+            </label>
+            {isViewActive && (
+              <>
+                <span>Mostrando {shownRowCount} de {parsedCsvData.rows.length} filas</span>
+                <button onClick={() => setTableViewState(EMPTY_TABLE_VIEW_STATE)} className="text-sky-700 hover:underline">Quitar orden, filtros y grupos</button>
+              </>
+            )}
+            {tableViewState.sort.length > 0 && !isReadOnly && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleApplySortToFile}
+                title="Guarda las filas del archivo en este orden (incluidas las ocultas por los filtros)"
+              >
+                Aplicar orden al archivo
+              </Button>
+            )}
+          </div>
           <div className="w-full overflow-auto rounded-lg border border-slate-300 shadow-sm min-h-0 flex-1 relative"> 
             <table className="min-w-full text-sm border-collapse bg-white">
               <thead className="bg-slate-100 sticky top-0 z-10 shadow-sm">
@@ -313,7 +635,11 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
                   >
                     {/* Intentionally empty or use # */}
                   </th>
-                  {parsedCsvData.headers.map((header, index) => (
+                  {parsedCsvData.headers.map((header, index) => {
+                    const sortPosition = tableViewState.sort.findIndex(key => key.column === index);
+                    const sortKey = tableViewState.sort[sortPosition];
+                    const isFiltered = isColumnFilterActive(tableViewState.filters[index]);
+                    return (
                     <th 
                       key={index} 
                       scope="col"
@@ -321,40 +647,100 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
                       style={{ zIndex: 10 }}
                       onContextMenu={(e) => showContextMenu(e, 'column', index)}
                       aria-label={`Columna ${header || index + 1}, clic derecho para opciones`}
+                      aria-sort={sortKey && tableViewState.sort.length === 1 ? (sortKey.direction === 'asc' ? 'ascending' : 'descending') : undefined}
                     >
-                      {header}
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={(e) => setTableViewState(prev => ({ ...prev, sort: toggleSortKey(prev.sort, index, e.shiftKey) }))}
+                          className="flex items-center gap-1 font-semibold hover:text-sky-700"
+                          title="Clic para ordenar por esta columna; Mayús+clic para añadirla como otra clave de orden"
+                        >
+                          <span>{header}</span>
+                          {sortKey && (sortKey.direction === 'asc' ? <ChevronUpIcon className="w-3.5 h-3.5 text-sky-600" /> : <ChevronDownIcon className="w-3.5 h-3.5 text-sky-600" />)}
+                          {sortKey && tableViewState.sort.length > 1 && <span className="text-xs text-sky-600">{sortPosition + 1}</span>}
+                        </button>
+                        {columnTypes[index] && (
+                          <button
+                            onClick={(e) => {
+                              const rect = e.currentTarget.getBoundingClientRect();
+                              setColumnTypeMenu({ index, x: rect.left, y: rect.bottom + 4 });
+                            }}
+                            className={`px-1.5 py-0.5 text-xs font-normal rounded border transition-colors ${columnTypes[index].isInferred ? 'border-slate-300 text-slate-500 hover:bg-slate-200' : 'border-sky-300 bg-sky-50 text-sky-700 hover:bg-sky-100'} ${invalidCellCounts[index] > 0 ? 'border-amber-400' : ''}`}
+                            title={`${columnTypes[index].isInferred ? 'Tipo detectado' : 'Tipo elegido'}: ${formatColumnTypeLabel(columnTypes[index].setting)}${invalidCellCounts[index] > 0 ? `, ${invalidCellCounts[index]} celda(s) no válida(s)` : ''}. Clic para cambiarlo.`}
+                            aria-label={`Tipo de la columna ${header || index + 1}: ${formatColumnTypeLabel(columnTypes[index].setting)}`}
+                          >
+                            {formatColumnTypeLabel(columnTypes[index].setting)}
+                            {invalidCellCounts[index] > 0 && <span className="ml-1 text-amber-600">({invalidCellCounts[index]})</span>}
+                          </button>
+                        )}
+                        <button
+                          onClick={(e) => {
+                            const rect = e.currentTarget.getBoundingClientRect();
+                            setColumnFilterMenu({ index, x: rect.left, y: rect.bottom + 4 });
+                          }}
+                          className={`p-0.5 rounded transition-colors ${isFiltered ? 'text-sky-700 bg-sky-100' : 'text-slate-400 hover:text-slate-700 hover:bg-slate-200'}`}
+                          title={isFiltered ? "Columna filtrada: clic para cambiar el filtro" : "Filtrar por esta columna"}
+                          aria-label={`Filtrar la columna ${header || index + 1}`}
+                        >
+                          <FunnelIcon className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
                     </th>
-                  ))}
+                    );
+                  })}
                 </tr>
               </thead>
               <tbody>
-                {parsedCsvData.rows.map((row, rowIndex) => (
-                  <tr key={rowIndex} className="hover:bg-slate-50 transition-colors duration-100 even:bg-slate-50/50">
-                    <td
-                      className="sticky left-0 z-10 px-2 py-2.5 text-center text-slate-600 bg-slate-100 hover:bg-slate-200 border-b border-r border-slate-300 font-medium select-none w-12 cursor-default"
-                      onContextMenu={(e) => showContextMenu(e, 'row', rowIndex)}
-                      aria-label={`Fila ${rowIndex + 1}, clic derecho para opciones de fila`}
-                    >
-                      {rowIndex + 1}
-                    </td>
-                    {row.map((cell, colIndex) => (
-                      <td
-                        key={colIndex}
-                        contentEditable={!isCollaborating}
-                        onBlur={(e) => handleCellEdit(rowIndex, colIndex, e.currentTarget.textContent || '')}
-                        suppressContentEditableWarning={true}
-                        className="px-3.5 py-2.5 text-slate-700 border-b border-r border-slate-300 whitespace-nowrap focus:outline-none focus:ring-1 focus:ring-sky-400 focus:bg-sky-50"
-                        onContextMenu={(e) => showContextMenu(e, 'row', rowIndex)} 
-                        aria-label={`Fila ${rowIndex + 1}, Columna ${parsedCsvData.headers[colIndex] || colIndex + 1}, valor ${cell}, clic derecho para opciones de fila`}
-                      >
-                        {cell}
-                      </td>
+                {tableView?.groups ? (
+                  <>
+                    {tableView.groups.map((group, groupIndex) => (
+                      <React.Fragment key={`group-${groupIndex}`}>
+                        <tr className="bg-sky-50">
+                          <td colSpan={parsedCsvData.headers.length + 1} className="px-3.5 py-2 font-semibold text-sky-800 border-b border-slate-300">
+                            {groupColumnHeader}: {group.label || '(vacío)'} <span className="font-normal text-sky-700">· {group.rowIndexes.length} fila(s)</span>
+                          </td>
+                        </tr>
+                        {group.rowIndexes.map(renderDataRow)}
+                        {group.subtotals.some(sum => sum !== null) && renderTotalsRow(`subtotal-${groupIndex}`, `Subtotal de ${group.label || '(vacío)'}`, group.subtotals, false)}
+                      </React.Fragment>
                     ))}
-                  </tr>
-                ))}
+                    {tableView.totals?.some(sum => sum !== null) && renderTotalsRow('total', 'Total de las filas mostradas', tableView.totals, true)}
+                  </>
+                ) : (
+                  (tableView?.rowIndexes ?? parsedCsvData.rows.map((_, index) => index)).map(renderDataRow)
+                )}
               </tbody>
             </table>
+            {shownRowCount === 0 && (
+              <p className="p-4 text-sm text-center text-slate-500">Ninguna fila cumple los filtros.</p>
+            )}
+            {columnTypeMenu && parsedCsvData.headers[columnTypeMenu.index] !== undefined && (
+              <ColumnTypeMenu
+                header={parsedCsvData.headers[columnTypeMenu.index]}
+                x={columnTypeMenu.x}
+                y={columnTypeMenu.y}
+                current={columnTypeOverrides[parsedCsvData.headers[columnTypeMenu.index]] ?? null}
+                inferred={inferColumnType(parsedCsvData.rows.map(row => row[columnTypeMenu.index] ?? ''), locale)}
+                locale={locale}
+                onSelect={(setting) => onColumnTypeChange(sheetName, parsedCsvData.headers[columnTypeMenu.index], setting)}
+                onClose={() => setColumnTypeMenu(null)}
+              />
+            )}
+            {columnFilterMenu && columnSettings[columnFilterMenu.index] && (
+              <ColumnFilterMenu
+                key={columnFilterMenu.index}
+                header={parsedCsvData.headers[columnFilterMenu.index]}
+                x={columnFilterMenu.x}
+                y={columnFilterMenu.y}
+                filter={tableViewState.filters[columnFilterMenu.index] ?? EMPTY_COLUMN_FILTER}
+                setting={columnSettings[columnFilterMenu.index]}
+                locale={locale}
+                onChange={(filter) => setTableViewState(prev => ({ ...prev, filters: { ...prev.filters, [columnFilterMenu.index]: filter } }))}
+                onClose={() => setColumnFilterMenu(null)}
+              />
+            )}
           </div>
+          </>
         );
       }
     }
@@ -365,7 +751,7 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
         onChange={(e) => onContentChange(e.target.value)}
         placeholder="Empieza a escribir tu documento aquí..."
         className="w-full flex-1 p-3.5 border border-slate-300 rounded-lg resize-none focus:ring-2 focus:ring-sky-400 focus:border-sky-400 text-slate-800 bg-white leading-relaxed font-sans text-base placeholder-slate-400 min-h-0"
-        disabled={isCollaborating}
+        disabled={isReadOnly}
         aria-label={`Contenido del documento ${fileName}`}
       />
     );
@@ -379,6 +765,7 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
       menuItems.push(
         <button key="insert-above" onClick={() => handleInsertRow(true)} className="flex items-center w-full text-left px-3 py-2 text-sm text-slate-700 hover:bg-slate-100 transition-colors"><ArrowUpCircleIcon className="w-4 h-4 mr-2.5" /> Insertar fila arriba</button>,
         <button key="insert-below" onClick={() => handleInsertRow(false)} className="flex items-center w-full text-left px-3 py-2 text-sm text-slate-700 hover:bg-slate-100 transition-colors"><ArrowDownCircleIcon className="w-4 h-4 mr-2.5" /> Insertar fila abajo</button>,
+        <button key="duplicate" onClick={handleDuplicateRow} className="flex items-center w-full text-left px-3 py-2 text-sm text-slate-700 hover:bg-slate-100 transition-colors"><DocumentDuplicateIcon className="w-4 h-4 mr-2.5" /> Duplicar fila</button>,
         <div key="divider-row" className="my-1 border-t border-slate-100"></div>,
         <button key="delete-row" onClick={handleDeleteRow} className="flex items-center w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50 transition-colors"><TrashIcon className="w-4 h-4 mr-2.5" /> Eliminar fila</button>
       );
@@ -428,6 +815,22 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
 
           {/* Action Buttons Group - aligned to the end of this row on sm+ */}
           <div className='flex flex-wrap items-center gap-x-2.5 gap-y-2 justify-start sm:justify-end flex-shrink-0'>
+            {journalEntries && !proposalDiff && (
+              <div className="flex rounded-md border border-slate-300 overflow-hidden text-sm" role="group" aria-label="Vista del libro diario">
+                <button
+                  onClick={() => setShowJournalAsTable(false)}
+                  className={`px-3 py-1.5 ${!showJournalAsTable ? 'bg-sky-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                >
+                  Asientos
+                </button>
+                <button
+                  onClick={() => setShowJournalAsTable(true)}
+                  className={`px-3 py-1.5 border-l border-slate-300 ${showJournalAsTable ? 'bg-sky-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                >
+                  Tabla
+                </button>
+              </div>
+            )}
             {isCollaborating && (
               <div className="flex items-center text-sm text-sky-600 font-medium px-2 py-1 bg-sky-100 rounded-md">
                 <svg className="animate-spin h-4 w-4 sm:h-5 sm:w-5 mr-2 text-sky-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -481,6 +884,18 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
             >
               Descargar
             </Button>
+            {activeFile?.original && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onDownloadOriginal}
+                leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />}
+                title={`Descargar el archivo subido sin cambios (${activeFile.original.name})`}
+                className="text-slate-600 hover:text-sky-700 hover:bg-sky-50"
+              >
+                Original
+              </Button>
+            )}
           </div>
         </div>
 
@@ -489,12 +904,31 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
           <h2 className="text-xl sm:text-2xl font-semibold text-slate-800 truncate pt-1">
             {fileName}
           </h2>
+          {report && (
+            <p className="mt-1 flex items-center gap-1.5 text-sm text-slate-600">
+              <ChartBarIcon className="w-4 h-4 text-sky-600 flex-shrink-0" />
+              {REPORT_KIND_LABELS[report.kind]} de la carpeta "{getFolderNameById(report.folderId)}", {formatLedgerPeriod(report)}
+              {report.comparison && ` comparado con ${report.kind === 'balance_sheet' ? report.comparison.to : formatLedgerPeriod(report.comparison)}`}, generado el {new Date(report.generatedAt).toLocaleString()}.
+            </p>
+          )}
         </div>
       </div>
       
       <div className="flex-1 min-h-0 flex flex-col overflow-y-auto bg-white rounded-lg shadow-sm border border-slate-200">
         {renderContent()}
       </div>
+      {sheets && !proposalDiff && !report && (
+        <SheetTabs
+          sheets={sheets}
+          activeIndex={sheetIndex}
+          onSelect={setActiveSheetIndex}
+          onAdd={handleAddSheet}
+          onRename={handleRenameSheet}
+          onDelete={handleDeleteSheet}
+          onMove={handleMoveSheet}
+          isReadOnly={isReadOnly}
+        />
+      )}
       
       <div className="text-xs text-slate-600 mt-3 pt-3 border-t border-slate-200 flex items-center justify-between">
         <div className="flex items-center gap-3">
@@ -511,12 +945,16 @@ export const DocumentEditor: React.FC<DocumentEditorProps> = ({
         </div>
       </div>
       <p className="text-xs text-slate-500 mt-1.5">
-        {isCsvMode && parsedCsvData && !csvParsingError ? 
+        {report ?
+         'Informe generado: es de solo lectura. Duplícalo para editar una copia o genéralo de nuevo para actualizarlo.' :
+         isJournalView ?
+         (isCollaborating ? '' : 'Los cambios se guardan al salir de cada campo. Solo se pueden contabilizar los asientos que cuadran; los contabilizados no se editan.') :
+         isCsvMode && parsedCsvData && !csvParsingError ? 
          (isCollaborating ? '' : 'Los cambios se guardan al salir de la celda. Haz clic derecho en la tabla para opciones de fila/columna.') :
          (isCollaborating ? '' : 'Ambos, tú y la IA, pueden editar este documento.')
         }
          {!isCollaborating && (canUndo || canRedo) && " Usa Deshacer/Rehacer para navegar los cambios."}
-         {isExcelFile && !isDocxFile && <span className="block mt-0.5">Nota Excel: Solo se edita la primera hoja. Formato y otras hojas no se conservan. La descarga será un nuevo archivo Excel simple.</span>}
+         {isExcelFile && !isDocxFile && !report && <span className="block mt-0.5">Nota Excel: Al descargar, los cambios se escriben sobre el archivo subido: las fórmulas, formatos y anchos de columna de las celdas que no cambiaste se conservan.</span>}
          {isDocxFile && <span className="block mt-0.5 text-amber-700 bg-amber-50 p-1 rounded-md">Nota Word: Estás viendo una vista previa de texto. Imágenes, tablas y formato avanzado no se muestran. La descarga será en formato .txt.</span>}
       </p>
       {renderContextMenu()}
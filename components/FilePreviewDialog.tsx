@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { ArrowDownTrayIcon } from './icons';
+import { AppFile, FileOriginal } from '../types';
+import { isPreviewableMimeType } from '../utils/helpers';
+
+interface FilePreviewDialogProps {
+  file: AppFile & { original: FileOriginal };
+  loadOriginal: (fileId: string) => Promise<Blob | null>;
+  onDownloadOriginal: () => void;
+  onOpenInEditor?: () => void; // Only for files with editable content
+  onClose: () => void;
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Shows the original upload of a file: images and PDFs are displayed by the browser,
+ * other originals (.xlsx, .docx...) can only be downloaded.
+ */
+export const FilePreviewDialog: React.FC<FilePreviewDialogProps> = ({ file, loadOriginal, onDownloadOriginal, onOpenInEditor, onClose }) => {
+  const { original } = file;
+  const canPreview = isPreviewableMimeType(original.mimeType);
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'missing' | 'error'>(canPreview ? 'loading' : 'ready');
+
+  useEffect(() => {
+    if (!canPreview) return;
+    let url: string | null = null;
+    let isCancelled = false;
+    loadOriginal(file.id)
+      .then(blob => {
+        if (isCancelled) return;
+        if (!blob) {
+          setStatus('missing');
+          return;
+        }
+        // Some backends lose the type; the browser needs it to pick the image or PDF viewer
+        url = URL.createObjectURL(blob.type ? blob : new Blob([blob], { type: original.mimeType }));
+        setObjectUrl(url);
+        setStatus('ready');
+      })
+      .catch(error => {
+        console.error("Error loading file original for preview:", error);
+        if (!isCancelled) setStatus('error');
+      });
+    return () => {
+      isCancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file.id, original.mimeType, canPreview, loadOriginal]);
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onClose}
+      title={file.name}
+      size="xl"
+      footer={<>
+        <Button variant="secondary" onClick={onClose}>Cerrar</Button>
+        {onOpenInEditor && <Button variant="secondary" onClick={onOpenInEditor}>Abrir en el editor</Button>}
+        <Button variant="primary" onClick={onDownloadOriginal} leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />} disabled={status === 'missing'}>Descargar original</Button>
+      </>}
+    >
+      <p className="text-xs text-slate-500 mb-3">
+        Original: {original.name} · {formatFileSize(original.size)} · {original.mimeType}
+      </p>
+      {status === 'loading' && <p className="text-sm text-slate-500 py-12 text-center">Cargando vista previa...</p>}
+      {status === 'missing' && <p className="text-sm text-red-600 py-12 text-center">No se encontró el archivo original en el almacenamiento.</p>}
+      {status === 'error' && <p className="text-sm text-red-600 py-12 text-center">No se pudo cargar el archivo original.</p>}
+      {status === 'ready' && !canPreview && (
+        <p className="text-sm text-slate-600 py-12 text-center">No hay vista previa para este tipo de archivo. Puedes descargar el original sin cambios.</p>
+      )}
+      {status === 'ready' && objectUrl && (
+        original.mimeType === 'application/pdf'
+          ? <iframe src={objectUrl} title={`Vista previa de ${original.name}`} className="w-full h-[65vh] rounded border border-slate-200" />
+          : <img src={objectUrl} alt={original.name} className="max-h-[65vh] mx-auto object-contain rounded border border-slate-200 bg-slate-50" />
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { PlusIcon, PlusCircleIcon, TrashIcon, CheckCircleIcon, XCircleIcon } from './icons';
+import { JournalEntry, JournalLine } from '../types';
+import {
+  getJournalEntryTotals,
+  validateJournalEntry,
+  postJournalEntry,
+  nextJournalEntryId,
+  createJournalLine,
+  parseAmount,
+  formatAmount,
+  JournalEntryError,
+} from '../utils/journal';
+
+interface JournalEditorProps {
+  entries: JournalEntry[];
+  onEntriesChange: (entries: JournalEntry[]) => void;
+  isCollaborating: boolean;
+}
+
+const amountInputValue = (amount: number): string => (amount === 0 ? '' : isNaN(amount) ? '?' : amount.toFixed(2));
+
+const todayIsoDate = (): string => new Date().toISOString().slice(0, 10);
+
+export const JournalEditor: React.FC<JournalEditorProps> = ({ entries, onEntriesChange, isCollaborating }) => {
+  const [postError, setPostError] = useState<string | null>(null);
+
+  const updateEntry = (entryId: string, changes: Partial<JournalEntry>) => {
+    onEntriesChange(entries.map(entry => (entry.id === entryId ? { ...entry, ...changes } : entry)));
+  };
+
+  const updateLine = (entry: JournalEntry, lineIndex: number, changes: Partial<JournalLine>) => {
+    updateEntry(entry.id, { lines: entry.lines.map((line, i) => (i === lineIndex ? { ...line, ...changes } : line)) });
+  };
+
+  const handleAddEntry = () => {
+    const currency = entries[entries.length - 1]?.lines[0]?.currency;
+    onEntriesChange([
+      ...entries,
+      { id: nextJournalEntryId(entries), date: todayIsoDate(), reference: '', memo: '', status: 'draft', lines: [createJournalLine(currency), createJournalLine(currency)] },
+    ]);
+  };
+
+  const handlePostEntry = (entry: JournalEntry) => {
+    try {
+      const posted = postJournalEntry(entry);
+      setPostError(null);
+      updateEntry(entry.id, posted);
+    } catch (error) {
+      if (!(error instanceof JournalEntryError)) throw error;
+      setPostError(error.message);
+    }
+  };
+
+  const postedCount = entries.filter(entry => entry.status === 'posted').length;
+  const inputClasses = "w-full px-2 py-1 text-sm border border-slate-300 rounded focus:outline-none focus:ring-1 focus:ring-sky-400 disabled:bg-slate-50 disabled:text-slate-600 disabled:border-slate-200";
+
+  const renderEntry = (entry: JournalEntry) => {
+    const isPosted = entry.status === 'posted';
+    const isReadOnly = isPosted || isCollaborating;
+    const problems = validateJournalEntry(entry);
+    const totals = getJournalEntryTotals(entry);
+
+    return (
+      <div key={entry.id} className={`rounded-lg border shadow-sm ${isPosted ? 'border-slate-200 bg-slate-50/60' : 'border-slate-300 bg-white'}`}>
+        <div className="flex flex-wrap items-end gap-3 px-4 py-3 border-b border-slate-200">
+          <div className="text-sm font-semibold text-slate-700 w-20">Asiento {entry.id}</div>
+          <label className="text-xs text-slate-500">
+            Fecha
+            <input
+              key={`date-${entry.date}`}
+              type="date"
+              defaultValue={entry.date}
+              onBlur={(e) => e.target.value !== entry.date && updateEntry(entry.id, { date: e.target.value })}
+              className={`${inputClasses} mt-0.5 w-40`}
+              disabled={isReadOnly}
+            />
+          </label>
+          <label className="text-xs text-slate-500">
+            Referencia
+            <input
+              key={`ref-${entry.reference}`}
+              defaultValue={entry.reference}
+              onBlur={(e) => e.target.value !== entry.reference && updateEntry(entry.id, { reference: e.target.value })}
+              className={`${inputClasses} mt-0.5 w-36`}
+              disabled={isReadOnly}
+            />
+          </label>
+          <label className="text-xs text-slate-500 flex-1 min-w-[12rem]">
+            Concepto
+            <input
+              key={`memo-${entry.memo}`}
+              defaultValue={entry.memo}
+              onBlur={(e) => e.target.value !== entry.memo && updateEntry(entry.id, { memo: e.target.value })}
+              className={`${inputClasses} mt-0.5`}
+              disabled={isReadOnly}
+            />
+          </label>
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${isPosted ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+            {isPosted ? 'Contabilizado' : 'Borrador'}
+          </span>
+        </div>
+
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-slate-500 text-left">
+              <th className="px-4 py-1.5 font-medium">Cuenta</th>
+              <th className="px-2 py-1.5 font-medium w-32 text-right">Debe</th>
+              <th className="px-2 py-1.5 font-medium w-32 text-right">Haber</th>
+              <th className="px-2 py-1.5 font-medium w-20">Moneda</th>
+              <th className="px-2 py-1.5 w-10"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {entry.lines.map((line, lineIndex) => (
+              <tr key={lineIndex} className="border-t border-slate-100">
+                <td className="px-4 py-1">
+                  <input
+                    key={`account-${line.account}`}
+                    defaultValue={line.account}
+                    onBlur={(e) => e.target.value !== line.account && updateLine(entry, lineIndex, { account: e.target.value.trim() })}
+                    className={inputClasses}
+                    placeholder="Código o nombre de la cuenta"
+                    disabled={isReadOnly}
+                    aria-label={`Cuenta de la línea ${lineIndex + 1} del asiento ${entry.id}`}
+                  />
+                </td>
+                {(['debit', 'credit'] as const).map(side => (
+                  <td key={side} className="px-2 py-1">
+                    <input
+                      key={`${side}-${line[side]}`}
+                      defaultValue={amountInputValue(line[side])}
+                      onBlur={(e) => {
+                        const amount = parseAmount(e.target.value);
+                        if (!Object.is(amount, line[side])) updateLine(entry, lineIndex, { [side]: amount });
+                      }}
+                      className={`${inputClasses} text-right font-mono ${isNaN(line[side]) ? 'border-red-400 bg-red-50' : ''}`}
+                      inputMode="decimal"
+                      disabled={isReadOnly}
+                      aria-label={`${side === 'debit' ? 'Debe' : 'Haber'} de la línea ${lineIndex + 1} del asiento ${entry.id}`}
+                    />
+                  </td>
+                ))}
+                <td className="px-2 py-1">
+                  <input
+                    key={`currency-${line.currency}`}
+                    defaultValue={line.currency}
+                    onBlur={(e) => {
+                      const currency = e.target.value.trim().toUpperCase();
+                      if (currency && currency !== line.currency) updateLine(entry, lineIndex, { currency });
+                    }}
+                    className={`${inputClasses} uppercase`}
+                    maxLength={3}
+                    disabled={isReadOnly}
+                    aria-label={`Moneda de la línea ${lineIndex + 1} del asiento ${entry.id}`}
+                  />
+                </td>
+                <td className="px-2 py-1 text-center">
+                  {!isReadOnly && entry.lines.length > 1 && (
+                    <button
+                      onClick={() => updateEntry(entry.id, { lines: entry.lines.filter((_, i) => i !== lineIndex) })}
+                      className="p-1 text-slate-400 hover:text-red-600 rounded"
+                      title="Eliminar línea"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {totals.map(total => (
+              <tr key={total.currency} className="border-t border-slate-200 text-slate-600 font-medium">
+                <td className="px-4 py-1.5 text-right text-xs">Total {total.currency}</td>
+                <td className="px-2 py-1.5 text-right font-mono">{formatAmount(total.debit)}</td>
+                <td className="px-2 py-1.5 text-right font-mono">{formatAmount(total.credit)}</td>
+                <td colSpan={2}></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {(!isPosted || problems.length > 0) && (
+          <div className="flex flex-wrap items-start justify-between gap-3 px-4 py-3 border-t border-slate-200">
+            {problems.length > 0 ? (
+              <ul className="text-xs text-red-600 space-y-0.5">
+                {isPosted && <li className="font-medium">Este asiento está contabilizado pero ya no es válido:</li>}
+                {problems.map((problem, i) => <li key={i} className="flex items-center gap-1"><XCircleIcon className="w-3.5 h-3.5 flex-shrink-0" />{problem}</li>)}
+              </ul>
+            ) : (
+              <p className="flex items-center gap-1 text-xs text-emerald-700"><CheckCircleIcon className="w-4 h-4" /> El asiento cuadra.</p>
+            )}
+            {!isPosted && (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateEntry(entry.id, { lines: [...entry.lines, createJournalLine(entry.lines[entry.lines.length - 1]?.currency)] })}
+                  leftIcon={<PlusCircleIcon className="w-4 h-4" />}
+                  disabled={isCollaborating}
+                >
+                  Agregar línea
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onEntriesChange(entries.filter(e => e.id !== entry.id))}
+                  leftIcon={<TrashIcon className="w-4 h-4" />}
+                  className="text-red-600 hover:bg-red-50"
+                  disabled={isCollaborating}
+                >
+                  Eliminar
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => handlePostEntry(entry)}
+                  leftIcon={<CheckCircleIcon className="w-4 h-4" />}
+                  disabled={isCollaborating || problems.length > 0}
+                  title={problems.length > 0 ? "Corrige los problemas del asiento para poder contabilizarlo" : "Contabilizar el asiento"}
+                >
+                  Contabilizar
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-slate-200">
+        <p className="text-sm text-slate-600">
+          {entries.length} {entries.length === 1 ? 'asiento' : 'asientos'}, {postedCount} {postedCount === 1 ? 'contabilizado' : 'contabilizados'}
+        </p>
+        <Button variant="secondary" size="sm" onClick={handleAddEntry} leftIcon={<PlusIcon className="w-4 h-4" />} disabled={isCollaborating}>
+          Nuevo asiento
+        </Button>
+      </div>
+      {postError && (
+        <div className="mx-4 mt-3 p-3 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm">{postError}</div>
+      )}
+      <div className="flex-1 overflow-auto min-h-0 p-4 space-y-4">
+        {entries.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-10">
+            El libro diario está vacío. Crea un asiento o pídele a la IA que registre una operación.
+          </p>
+        ) : entries.map(renderEntry)}
+      </div>
+    </div>
+  );
+};
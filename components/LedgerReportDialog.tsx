@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { CheckCircleIcon, XCircleIcon, BookOpenIcon } from './icons';
+import { AppFile, LedgerColumnMapping, ReportKind } from '../types';
+import { parseCsv } from '../utils/tabularDataParser';
+import { isJournalContent } from '../utils/journal';
+import { collectTableHeaders, isLedgerColumnMappingComplete, LedgerPeriod, REPORT_KIND_LABELS } from '../utils/ledger';
+import { previousYearPeriod } from '../utils/financialStatements';
+
+interface LedgerReportDialogProps {
+  folderName: string;
+  sourceFiles: AppFile[]; // Tables of the folder (see getLedgerSourceFiles)
+  initialMapping: LedgerColumnMapping;
+  onGenerate: (kind: ReportKind, period: LedgerPeriod, comparison: LedgerPeriod | null, mapping: LedgerColumnMapping) => boolean;
+  onClose: () => void;
+}
+
+const MAPPING_FIELDS: { field: keyof LedgerColumnMapping; label: string; required: boolean }[] = [
+  { field: 'date', label: 'Fecha', required: true },
+  { field: 'account', label: 'Cuenta', required: true },
+  { field: 'debit', label: 'Debe', required: true },
+  { field: 'credit', label: 'Haber', required: true },
+  { field: 'description', label: 'Concepto', required: false },
+];
+
+const FINANCIAL_STATEMENTS: ReportKind[] = ['income_statement', 'balance_sheet', 'cash_flow'];
+
+/**
+ * Asks for the report type, period (and comparison period for financial statements) and
+ * column mapping of a folder's journal-style tables, showing which tables will be read
+ * with the current mapping.
+ */
+export const LedgerReportDialog: React.FC<LedgerReportDialogProps> = ({ folderName, sourceFiles, initialMapping, onGenerate, onClose }) => {
+  const [kind, setKind] = useState<ReportKind>('trial_balance');
+  const [period, setPeriod] = useState<LedgerPeriod>({ from: '', to: '' });
+  const [comparison, setComparison] = useState<LedgerPeriod | null>(null);
+  const [mapping, setMapping] = useState<LedgerColumnMapping>(initialMapping);
+
+  const headers = useMemo(() => collectTableHeaders(sourceFiles), [sourceFiles]);
+  const isFinancialStatement = FINANCIAL_STATEMENTS.includes(kind);
+  const isBalanceSheet = kind === 'balance_sheet';
+  const isRangeValid = (range: LedgerPeriod) => isBalanceSheet ? range.to !== '' : range.from === '' || range.to === '' || range.from <= range.to;
+  const isPeriodValid = isRangeValid(period) && (!isFinancialStatement || comparison === null || isRangeValid(comparison));
+  const canGenerate = sourceFiles.length > 0 && isLedgerColumnMappingComplete(mapping) && isPeriodValid;
+
+  const handlePeriodChange = (changes: Partial<LedgerPeriod>) => {
+    const next = { ...period, ...changes };
+    setPeriod(next);
+    // The comparison follows the period until the user edits it
+    if (comparison && JSON.stringify(comparison) === JSON.stringify(previousYearPeriod(period))) setComparison(previousYearPeriod(next));
+  };
+
+  const describeFile = (file: AppFile): { isReadable: boolean; note: string } => {
+    if (isJournalContent(file.content)) return { isReadable: true, note: 'Libro diario: solo asientos contabilizados' };
+    const fileHeaders = (parseCsv(file.content)?.headers ?? []).map(header => header.toLowerCase());
+    const missing = [mapping.date, mapping.account, mapping.debit, mapping.credit]
+      .filter(header => header && !fileHeaders.includes(header.toLowerCase()));
+    return missing.length > 0
+      ? { isReadable: false, note: `Faltan: ${Array.from(new Set(missing)).join(', ')}` }
+      : { isReadable: true, note: 'Columnas encontradas' };
+  };
+
+  const handleGenerate = () => {
+    if (onGenerate(kind, period, isFinancialStatement ? comparison : null, mapping)) onClose();
+  };
+
+  const selectClasses = "w-full p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 bg-white text-sm";
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onClose}
+      title={`Informes de "${folderName}"`}
+      footer={<><Button variant="secondary" onClick={onClose}>Cancelar</Button><Button variant="primary" onClick={handleGenerate} disabled={!canGenerate}>Generar</Button></>}
+    >
+      <div className="space-y-4 text-sm max-h-[60vh] overflow-y-auto pr-1">
+        <div>
+          <label htmlFor="ledgerReportKind" className="block font-medium text-slate-700 mb-1">Informe</label>
+          <select id="ledgerReportKind" value={kind} onChange={(e) => setKind(e.target.value as ReportKind)} className={selectClasses}>
+            {(Object.keys(REPORT_KIND_LABELS) as ReportKind[]).map(option => <option key={option} value={option}>{REPORT_KIND_LABELS[option]}</option>)}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {!isBalanceSheet && (
+            <label className="block font-medium text-slate-700">
+              Desde
+              <input type="date" value={period.from} onChange={(e) => handlePeriodChange({ from: e.target.value })} className={`${selectClasses} mt-1`} />
+            </label>
+          )}
+          <label className="block font-medium text-slate-700">
+            {isBalanceSheet ? 'Fecha del balance *' : 'Hasta'}
+            <input type="date" value={period.to} onChange={(e) => handlePeriodChange({ to: e.target.value })} className={`${selectClasses} mt-1`} />
+          </label>
+        </div>
+        {isFinancialStatement && (
+          <div>
+            <label className="flex items-center gap-2 text-slate-700 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={comparison !== null}
+                onChange={(e) => setComparison(e.target.checked ? previousYearPeriod(period) : null)}
+                className="rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+              />
+              Comparar con un periodo anterior
+            </label>
+            {comparison && (
+              <div className="grid grid-cols-2 gap-3 mt-2">
+                {!isBalanceSheet && (
+                  <label className="block text-xs text-slate-500">
+                    Desde (comparativo)
+                    <input type="date" value={comparison.from} onChange={(e) => setComparison({ ...comparison, from: e.target.value })} className={`${selectClasses} mt-0.5`} />
+                  </label>
+                )}
+                <label className="block text-xs text-slate-500">
+                  {isBalanceSheet ? 'Fecha comparativa *' : 'Hasta (comparativo)'}
+                  <input type="date" value={comparison.to} onChange={(e) => setComparison({ ...comparison, to: e.target.value })} className={`${selectClasses} mt-0.5`} />
+                </label>
+              </div>
+            )}
+          </div>
+        )}
+        {!isPeriodValid && (
+          <p className="text-xs text-red-600">
+            {isBalanceSheet ? 'Indica la fecha del balance (y la comparativa, si comparas).' : 'La fecha inicial no puede ser posterior a la final.'}
+          </p>
+        )}
+        <p className="text-xs text-slate-500">
+          {isBalanceSheet ? 'El balance incluye todos los movimientos hasta la fecha indicada.'
+            : isFinancialStatement ? 'Sin fecha inicial se incluyen todos los movimientos hasta la fecha final.'
+            : 'Sin fecha inicial se incluyen todos los movimientos anteriores; los movimientos previos al periodo forman el saldo inicial.'}
+          {isFinancialStatement && ' Las cuentas se clasifican según su tipo en el plan de cuentas; el flujo de efectivo usa además su categoría de flujo.'}
+        </p>
+
+        <fieldset>
+          <legend className="font-medium text-slate-700 mb-1">Columnas</legend>
+          <div className="grid grid-cols-2 gap-3">
+            {MAPPING_FIELDS.map(({ field, label, required }) => (
+              <label key={field} className="block text-xs text-slate-500">
+                {label}{required ? ' *' : ''}
+                <select
+                  value={mapping[field]}
+                  onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value }))}
+                  className={`${selectClasses} mt-0.5`}
+                >
+                  <option value="">{required ? '— Elige una columna —' : '— Ninguna —'}</option>
+                  {headers.map(header => <option key={header} value={header}>{header}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-1.5">Si el Debe y el Haber están en la misma columna, los importes positivos se toman como Debe y los negativos como Haber.</p>
+        </fieldset>
+
+        <div>
+          <p className="font-medium text-slate-700 mb-1">Archivos de la carpeta ({sourceFiles.length})</p>
+          {sourceFiles.length === 0 ? (
+            <p className="text-xs text-slate-500">No hay archivos CSV o Excel en esta carpeta.</p>
+          ) : (
+            <ul className="space-y-1">
+              {sourceFiles.map(file => {
+                const { isReadable, note } = describeFile(file);
+                const Icon = isJournalContent(file.content) ? BookOpenIcon : isReadable ? CheckCircleIcon : XCircleIcon;
+                return (
+                  <li key={`${file.id}/${file.name}`} className="flex items-center gap-2 text-xs">
+                    <Icon className={`w-4 h-4 flex-shrink-0 ${isReadable ? 'text-emerald-600' : 'text-slate-400'}`} />
+                    <span className="truncate text-slate-700">{file.name}</span>
+                    <span className={`ml-auto flex-shrink-0 ${isReadable ? 'text-slate-500' : 'text-amber-700'}`}>{note}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,11 +1,19 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Folder, AppFile, NotificationType } from '../types';
-import { FolderIcon, FileIcon, ExcelFileIcon, DocxFileIcon, PlusIcon, UploadIcon, ChevronRightIcon, HomeIcon, EllipsisVerticalIcon, TrashIcon, ArrowPathIcon, PencilIcon, DocumentDuplicateIcon, RefreshIcon, ArchiveBoxArrowDownIcon } from './icons';
+import { Folder, AppFile, NotificationType, LedgerColumnMapping, ReportKind } from '../types';
+import { FolderIcon, FileIcon, ExcelFileIcon, DocxFileIcon, PlusIcon, UploadIcon, ChevronRightIcon, HomeIcon, EllipsisVerticalIcon, TrashIcon, ArrowPathIcon, PencilIcon, DocumentDuplicateIcon, RefreshIcon, ArchiveBoxArrowDownIcon, BookOpenIcon, ChartBarIcon, PhotoIcon, EyeIcon, ArrowDownTrayIcon } from './icons';
 import { Button } from './Button';
 import { Modal } from './Modal';
+import { LedgerReportDialog } from './LedgerReportDialog';
+import { FilePreviewDialog } from './FilePreviewDialog';
+import { PdfImportDialog } from './PdfImportDialog';
 import { parseExcelToCsvString } from '../utils/tabularDataParser'; 
 import { parseDocxToText } from '../utils/docxParser';
+import { parseBankStatement, bankTransactionsToCsv, BankStatementError, BankStatementParseResult, BANK_STATEMENT_EXTENSIONS, BANK_STATEMENT_FORMAT_LABELS } from '../utils/bankStatementParser';
+import { getLedgerSourceFiles, isGeneratedReport, LedgerPeriod } from '../utils/ledger';
+import { parsePdf, PdfParseResult } from '../utils/pdfParser';
+import { isBinaryFileName } from '../utils/helpers';
+import { decodeText, normalizeCsvText, CSV_DELIMITER_LABELS } from '../utils/csv';
 
 interface MediaExplorerProps {
   allFolders: Folder[];
@@ -13,7 +21,13 @@ interface MediaExplorerProps {
   activeFileId: string | null;
   onSelectFile: (fileId: string) => void;
   onCreateFolder: (folderName: string, parentId: string | null) => void;
-  onCreateFile: (fileName: string, folderId: string | null, content?: string) => void;
+  onUploadFile: (upload: File, fileName: string, folderId: string | null, content: string) => void; // Keeps the upload as the file's original
+  onLoadFileOriginal: (fileId: string) => Promise<Blob | null>;
+  onDownloadFileOriginal: (fileId: string) => void;
+  onCreateJournal: (folderId: string | null) => void; // Creates and opens an empty journal
+  getLedgerColumnMapping: (folderId: string | null) => LedgerColumnMapping;
+  locale: string; // Workspace locale, used to calculate the formulas of the tables a report reads
+  onGenerateLedgerReport: (kind: ReportKind, folderId: string | null, period: LedgerPeriod, comparison: LedgerPeriod | null, mapping: LedgerColumnMapping) => boolean; // False if nothing was generated
   getFolderNameById: (id: string) => string;
   
   onMoveItems: (itemIds: string[], itemTypes: ('file' | 'folder')[], targetParentId: string | null) => void;
@@ -27,8 +41,9 @@ interface MediaExplorerProps {
   showNotification: (type: NotificationType, message: string, title?: string) => void;
 }
 
-type ModalType = null | 'createFolder' | 'moveItem' | 'renameItem' | 'confirmAction'; 
+type ModalType = null | 'createFolder' | 'moveItem' | 'renameItem' | 'confirmAction' | 'ledgerReport'; 
 interface ItemToModify { id: string; name: string; type: 'file' | 'folder'; originalParentId?: string | null; }
+interface PendingPdfImport { upload: File; folderId: string | null; result: PdfParseResult; }
 interface ConfirmActionDetails { title: string; message: string; confirmText: string; onConfirm: () => void; itemType?: 'file' | 'folder'; itemName?: string; }
 
 const EXCEL_EXTENSIONS = ['.xlsx', '.xls'];
@@ -37,6 +52,7 @@ const EXCEL_MIME_TYPES = [
   'application/vnd.ms-excel' // .xls
 ];
 const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const PDF_MIME_TYPE = 'application/pdf';
 
 
 export const MediaExplorer: React.FC<MediaExplorerProps> = ({
@@ -45,7 +61,13 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
   activeFileId,
   onSelectFile,
   onCreateFolder,
-  onCreateFile,
+  onUploadFile,
+  onLoadFileOriginal,
+  onDownloadFileOriginal,
+  onCreateJournal,
+  getLedgerColumnMapping,
+  locale,
+  onGenerateLedgerReport,
   getFolderNameById,
   onMoveItems,
   onDeleteItems, // Soft delete
@@ -74,6 +96,9 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
   const [showTrashView, setShowTrashView] = useState(false);
   const [selectedItems, setSelectedItems] = useState<Record<string, 'file' | 'folder'>>({});
   const [confirmActionDetails, setConfirmActionDetails] = useState<ConfirmActionDetails | null>(null);
+  const [previewFileId, setPreviewFileId] = useState<string | null>(null);
+  const previewFile = allFiles.find(f => f.id === previewFileId);
+  const [pdfImports, setPdfImports] = useState<PendingPdfImport[]>([]); // Parsed PDFs waiting for the user's choice, in upload order
 
   const currentFolderId = currentPathIds.length > 0 ? currentPathIds[currentPathIds.length - 1] : null;
 
@@ -200,6 +225,27 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
     setShowActionsMenu(null);
   }
 
+  /** Creates a CSV file with the statement's transactions and reports what was imported. */
+  const importBankStatement = (upload: File, statement: BankStatementParseResult, targetFolderId: string | null) => {
+    const fileName = upload.name;
+    const formatLabel = BANK_STATEMENT_FORMAT_LABELS[statement.format];
+    const rejectedNote = statement.rejected.length > 0
+      ? ` ${statement.rejected.length} rechazado(s): ${statement.rejected.slice(0, 3).map(rejected => `movimiento ${rejected.position}, ${rejected.reason}`).join(' ')}`
+      : '';
+    if (statement.transactions.length === 0) {
+      showNotification('error', `No se encontraron movimientos válidos en ${fileName} (${formatLabel}).${rejectedNote}`, "Importación Fallida");
+      return;
+    }
+    const baseName = fileName.includes('.') ? fileName.substring(0, fileName.lastIndexOf('.')) : fileName;
+    onUploadFile(upload, `${baseName}.csv`, targetFolderId, bankTransactionsToCsv(statement.transactions));
+    const hasProblems = statement.rejected.length > 0 || statement.warnings.length > 0;
+    showNotification(
+      hasProblems ? 'info' : 'success',
+      `${statement.transactions.length} movimiento(s) encontrado(s) en ${fileName} (${formatLabel}).${rejectedNote}${statement.warnings.map(warning => ` ${warning}`).join('')}`,
+      "Extracto Importado"
+    );
+  };
+
   const processDroppedFiles = async (files: FileList, targetFolderId: string | null) => {
     if (files && files.length > 0) {
       for (let i = 0; i < files.length; i++) {
@@ -207,6 +253,9 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
         const fileExtension = `.${file.name.split('.').pop()?.toLowerCase() || ''}`;
         const isExcel = EXCEL_EXTENSIONS.includes(fileExtension) || EXCEL_MIME_TYPES.includes(file.type);
         const isDocx = fileExtension === '.docx' || file.type === DOCX_MIME_TYPE;
+        const isBankStatement = BANK_STATEMENT_EXTENSIONS.includes(fileExtension);
+        const isPdf = fileExtension === '.pdf' || file.type === PDF_MIME_TYPE;
+        const isImage = file.type.startsWith('image/') || isBinaryFileName(file.name);
         const isTextLike = file.type.startsWith('text/') || 
                            file.type === 'application/json' ||
                            ['.csv', '.md', '.json', '.txt', '.xml', '.html', '.js', '.css', '.rtf'].some(ext => file.name.toLowerCase().endsWith(ext));
@@ -215,7 +264,7 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
           try {
             const arrayBuffer = await file.arrayBuffer();
             const textContent = await parseDocxToText(arrayBuffer);
-            onCreateFile(file.name, targetFolderId, textContent);
+            onUploadFile(file, file.name, targetFolderId, textContent);
           } catch (error) { 
             console.error("Error processing DOCX file:", file.name, error); 
             showNotification('error', `Error al procesar el archivo DOCX ${file.name}. Es posible que el archivo esté corrupto o en un formato no compatible.`, "Fallo de Procesamiento");
@@ -225,16 +274,52 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
             const arrayBuffer = await file.arrayBuffer();
             const csvContent = await parseExcelToCsvString(arrayBuffer);
             if (csvContent) {
-              onCreateFile(file.name, targetFolderId, csvContent);
+              onUploadFile(file, file.name, targetFolderId, csvContent);
             } else {
-              showNotification('error', `No se pudo procesar la primera hoja del archivo Excel: ${file.name}. Puede estar vacío o en un formato no soportado.`);
+              showNotification('error', `No se pudo procesar el archivo Excel: ${file.name}. Sus hojas pueden estar vacías o estar en un formato no soportado.`);
             }
           } catch (error) { console.error("Error reading Excel file:", error); showNotification('error', `Error al leer el archivo Excel ${file.name}.`); }
-        } else if (isTextLike) {
+        } else if (isBankStatement || isTextLike) {
+          try {
+            const { text: content, encoding } = decodeText(await file.arrayBuffer());
+            // OFX, CAMT.053 (.xml) and MT940 (.sta, .txt) statements become a table of transactions
+            const statement = parseBankStatement(file.name, content);
+            if (statement) {
+              importBankStatement(file, statement, targetFolderId);
+            } else if (file.name.toLowerCase().endsWith('.csv')) {
+              // CSV documents are kept comma-separated, whatever the program that exported them used
+              const { text, delimiter } = normalizeCsvText(content);
+              onUploadFile(file, file.name, targetFolderId, text);
+              const conversions = [
+                ...(encoding !== 'UTF-8' ? [`codificación ${encoding}`] : []),
+                ...(delimiter !== ',' ? [`separador ${CSV_DELIMITER_LABELS[delimiter]}`] : []),
+              ];
+              if (conversions.length > 0) {
+                showNotification('info', `${file.name} se leyó con ${conversions.join(' y ')} y se guardó como CSV UTF-8 separado por comas. El original se conserva para descargarlo.`, "CSV Convertido");
+              }
+            } else {
+              onUploadFile(file, file.name, targetFolderId, content);
+            }
+          } catch (error) {
+            console.error("Error reading file:", error);
+            showNotification('error', error instanceof BankStatementError ? `${file.name}: ${error.message}` : `Error al leer ${file.name}.`, error instanceof BankStatementError ? "Importación Fallida" : undefined);
+          }
+        } else if (isPdf) {
           try {
-            const content = await file.text();
-            onCreateFile(file.name, targetFolderId, content);
-          } catch (error) { console.error("Error reading file:", error); showNotification('error', `Error al leer ${file.name}.`); }
+            const result = await parsePdf(await file.arrayBuffer());
+            if (result.text) {
+              setPdfImports(prev => [...prev, { upload: file, folderId: targetFolderId, result }]);
+            } else {
+              onUploadFile(file, file.name, targetFolderId, '');
+              showNotification('info', `${file.name} no contiene texto (puede ser un documento escaneado). Se guardó para vista previa.`, "PDF sin Texto");
+            }
+          } catch (error) {
+            console.error("Error processing PDF file:", file.name, error);
+            onUploadFile(file, file.name, targetFolderId, '');
+            showNotification('error', `No se pudo leer el texto de ${file.name}; puede estar dañado o protegido con contraseña. Se guardó para vista previa.`, "Fallo de Procesamiento");
+          }
+        } else if (isImage) {
+          onUploadFile(file, file.name, targetFolderId, ''); // Kept as the original only; opened in the preview
         } else { 
           showNotification('error', `El tipo de archivo de ${file.name} no es admitido.`, "Subida Fallida"); 
         }
@@ -536,6 +621,16 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
               <button onClick={(e) => { e.stopPropagation(); openMoveModalForSingleItem(item, type); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 hover:bg-slate-100 flex items-center transition-colors duration-150">
                 <ArrowPathIcon className="w-4 h-4 mr-2.5 text-slate-500" /> Mover
               </button>
+              {type === 'file' && (item as AppFile).original && (
+                <>
+                  <button onClick={(e) => { e.stopPropagation(); setPreviewFileId(item.id); setShowActionsMenu(null); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 hover:bg-slate-100 flex items-center transition-colors duration-150">
+                    <EyeIcon className="w-4 h-4 mr-2.5 text-slate-500" /> Vista Previa
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); onDownloadFileOriginal(item.id); setShowActionsMenu(null); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 hover:bg-slate-100 flex items-center transition-colors duration-150">
+                    <ArrowDownTrayIcon className="w-4 h-4 mr-2.5 text-slate-500" /> Descargar Original
+                  </button>
+                </>
+              )}
               {type === 'file' && (
                 <button onClick={(e) => { e.stopPropagation(); handleDuplicateFileAction(item as AppFile); }} className="w-full text-left px-3 py-2 text-sm text-slate-700 hover:bg-slate-100 flex items-center transition-colors duration-150">
                   <DocumentDuplicateIcon className="w-4 h-4 mr-2.5 text-slate-500" /> Duplicar
@@ -585,9 +680,11 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
                   if(e.target) e.target.value = ''; 
                 }
               }}
-              accept=".txt,.csv,.md,.json,text/plain,text/csv,application/json,.xlsx,.xls,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+              accept=".txt,.csv,.md,.json,text/plain,text/csv,application/json,.xml,.ofx,.qfx,.sta,.mt940,.940,.xlsx,.xls,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document,.pdf,application/pdf,image/*"
             />
             <Button onClick={openCreateFolderModal} variant="secondary" leftIcon={<PlusIcon className="w-4 h-4"/>} size="sm">Nueva Carpeta</Button>
+            <Button onClick={() => onCreateJournal(currentFolderId)} variant="secondary" leftIcon={<BookOpenIcon className="w-4 h-4"/>} size="sm">Nuevo Libro Diario</Button>
+            <Button onClick={() => setActiveModal('ledgerReport')} variant="secondary" leftIcon={<ChartBarIcon className="w-4 h-4"/>} size="sm" title="Libro mayor, balances y estados financieros de los archivos de esta carpeta">Informes</Button>
             </>
           )}
           <Button 
@@ -700,10 +797,14 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
               const fileExtension = `.${file.name.split('.').pop()?.toLowerCase() || ''}`;
               const isExcelFile = EXCEL_EXTENSIONS.includes(fileExtension);
               const isDocxFile = fileExtension === '.docx';
+              const isPreviewOnly = isBinaryFileName(file.name) && !!file.original; // Images and PDFs open in the preview, not the editor
               let CurrentFileIcon = FileIcon;
               let iconColor = "text-emerald-600";
 
-              if (isDocxFile) { CurrentFileIcon = DocxFileIcon; iconColor = "text-blue-600"; } 
+              if (isGeneratedReport(file)) { CurrentFileIcon = ChartBarIcon; iconColor = "text-sky-600"; }
+              else if (isPreviewOnly && file.original!.mimeType.startsWith('image/')) { CurrentFileIcon = PhotoIcon; iconColor = "text-violet-600"; }
+              else if (isPreviewOnly) { iconColor = "text-red-600"; }
+              else if (isDocxFile) { CurrentFileIcon = DocxFileIcon; iconColor = "text-blue-600"; } 
               else if (isExcelFile) { CurrentFileIcon = ExcelFileIcon; iconColor = "text-green-600"; }
 
               return (
@@ -714,9 +815,11 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
                   onDragEnd={handleDragEnd}
                   onClick={(e) => {
                      if (e.target instanceof HTMLInputElement && e.target.type === 'checkbox') return;
-                     if (!showTrashView) onSelectFile(file.id);
+                     if (showTrashView) return;
+                     if (isPreviewOnly) setPreviewFileId(file.id);
+                     else onSelectFile(file.id);
                   }}
-                  title={showTrashView ? file.name : `Abrir archivo ${file.name}`}
+                  title={showTrashView ? file.name : `${isPreviewOnly ? 'Ver' : 'Abrir archivo'} ${file.name}`}
                   className={`flex items-center space-x-3 p-3 bg-white rounded-lg shadow hover:shadow-lg transition-all duration-150 ease-in-out border relative group 
                               ${showTrashView ? 'cursor-default' : 'cursor-pointer'}
                               ${activeFileId === file.id && !showTrashView ? 'border-sky-500 bg-sky-50/60 ring-1 ring-sky-500' : ''}
@@ -815,6 +918,40 @@ export const MediaExplorer: React.FC<MediaExplorerProps> = ({
         </Modal>
       )}
 
+      {activeModal === 'ledgerReport' && (
+        <LedgerReportDialog
+          folderName={currentFolderId ? getFolderNameById(currentFolderId) : 'Archivos'}
+          sourceFiles={getLedgerSourceFiles(allFiles, currentFolderId, locale)}
+          initialMapping={getLedgerColumnMapping(currentFolderId)}
+          onGenerate={(kind, period, comparison, mapping) => onGenerateLedgerReport(kind, currentFolderId, period, comparison, mapping)}
+          onClose={() => setActiveModal(null)}
+        />
+      )}
+
+      {previewFile?.original && (
+        <FilePreviewDialog
+          file={{ ...previewFile, original: previewFile.original }}
+          loadOriginal={onLoadFileOriginal}
+          onDownloadOriginal={() => onDownloadFileOriginal(previewFile.id)}
+          onOpenInEditor={isBinaryFileName(previewFile.name) || previewFile.deletedAt ? undefined : () => { setPreviewFileId(null); onSelectFile(previewFile.id); }}
+          onClose={() => setPreviewFileId(null)}
+        />
+      )}
+
+      {pdfImports.length > 0 && (
+        <PdfImportDialog
+          key={`${pdfImports[0].upload.name}-${pdfImports.length}`}
+          fileName={pdfImports[0].upload.name}
+          result={pdfImports[0].result}
+          onImport={(fileName, content) => {
+            const { upload, folderId } = pdfImports[0];
+            onUploadFile(upload, fileName, folderId, content);
+            setPdfImports(prev => prev.slice(1));
+          }}
+          onCancel={() => setPdfImports(prev => prev.slice(1))}
+        />
+      )}
+
       {activeModal === 'confirmAction' && confirmActionDetails && (
         <Modal 
             isOpen={true} 
@@ -6,9 +6,10 @@ interface ModalProps {
   title: string;
   children: React.ReactNode;
   footer?: React.ReactNode;
+  size?: 'md' | 'xl'; // 'xl' for content that needs room, such as file previews
 }
 
-export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children, footer }) => {
+export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children, footer, size = 'md' }) => {
   const titleId = useId();
 
   useEffect(() => {
@@ -35,7 +36,7 @@ export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children,
       aria-modal="true"
       aria-labelledby={titleId}
     >
-      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md transform transition-all duration-300 ease-in-out scale-95 opacity-0 animate-modalShow">
+      <div className={`bg-white rounded-lg shadow-xl p-6 w-full ${size === 'xl' ? 'max-w-4xl' : 'max-w-md'} transform transition-all duration-300 ease-in-out scale-95 opacity-0 animate-modalShow`}>
         <div className="flex justify-between items-center mb-4 pb-4 border-b border-slate-200">
           <h3 id={titleId} className="text-xl font-semibold text-slate-800">{title}</h3>
           <button
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { PdfParseResult, pdfTableToCsv } from '../utils/pdfParser';
+
+interface PdfImportDialogProps {
+  fileName: string;
+  result: PdfParseResult;
+  onImport: (fileName: string, content: string) => void; // content is '' to keep only the PDF
+  onCancel: () => void;
+}
+
+type ImportChoice = number | 'text' | 'original'; // A number is the index of a detected table
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_TEXT_LENGTH = 1500;
+
+/**
+ * Lets the user choose what an uploaded PDF becomes: one of the tables found in it (a CSV file),
+ * its full text (a text file) or just the PDF, kept for preview. The PDF is the original in every case.
+ */
+export const PdfImportDialog: React.FC<PdfImportDialogProps> = ({ fileName, result, onImport, onCancel }) => {
+  const [choice, setChoice] = useState<ImportChoice>(result.tables.length > 0 ? 0 : 'text');
+  const baseName = fileName.includes('.') ? fileName.substring(0, fileName.lastIndexOf('.')) : fileName;
+  const selectedTable = typeof choice === 'number' ? result.tables[choice] : null;
+
+  const targetName = typeof choice === 'number'
+    ? (result.tables.length > 1 ? `${baseName} (tabla ${choice + 1}).csv` : `${baseName}.csv`)
+    : choice === 'text' ? `${baseName}.txt` : fileName;
+
+  const handleImport = () => {
+    if (selectedTable) onImport(targetName, pdfTableToCsv(selectedTable));
+    else onImport(targetName, choice === 'text' ? result.text : '');
+  };
+
+  const optionClasses = (isSelected: boolean) =>
+    `flex items-start gap-2 p-2 rounded-md border cursor-pointer ${isSelected ? 'border-sky-500 bg-sky-50' : 'border-slate-200 hover:border-slate-300'}`;
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onCancel}
+      title={`Importar ${fileName}`}
+      size="xl"
+      footer={<><Button variant="secondary" onClick={onCancel}>Cancelar</Button><Button variant="primary" onClick={handleImport}>Importar</Button></>}
+    >
+      <div className="space-y-4 text-sm max-h-[65vh] overflow-y-auto pr-1">
+        <p className="text-slate-600">
+          {result.pageCount} página(s), {result.tables.length > 0 ? `${result.tables.length} tabla(s) encontrada(s)` : 'no se encontraron tablas'}. Elige qué importar; el PDF se conserva como original.
+        </p>
+
+        <div className="space-y-2">
+          {result.tables.map((table, index) => (
+            <label key={index} className={optionClasses(choice === index)}>
+              <input type="radio" name="pdfImportChoice" checked={choice === index} onChange={() => setChoice(index)} className="mt-0.5" />
+              <span>
+                <span className="font-medium text-slate-800">Tabla {index + 1}</span>
+                <span className="text-slate-500"> · página {table.page} · {table.headers.length} columnas × {table.rows.length} filas</span>
+                <span className="block text-xs text-slate-500 truncate">{table.headers.join(' | ')}</span>
+              </span>
+            </label>
+          ))}
+          <label className={optionClasses(choice === 'text')}>
+            <input type="radio" name="pdfImportChoice" checked={choice === 'text'} onChange={() => setChoice('text')} className="mt-0.5" />
+            <span className="font-medium text-slate-800">Texto completo</span>
+          </label>
+          <label className={optionClasses(choice === 'original')}>
+            <input type="radio" name="pdfImportChoice" checked={choice === 'original'} onChange={() => setChoice('original')} className="mt-0.5" />
+            <span className="font-medium text-slate-800">Solo el PDF, sin extraer datos</span>
+          </label>
+        </div>
+
+        <div>
+          <p className="font-medium text-slate-700 mb-1">Se creará "{targetName}"</p>
+          {selectedTable && (
+            <div className="overflow-x-auto border border-slate-200 rounded-md">
+              <table className="min-w-full text-xs">
+                <thead className="bg-slate-50">
+                  <tr>{selectedTable.headers.map((header, index) => <th key={index} className="px-2 py-1 text-left font-semibold text-slate-700 whitespace-nowrap">{header}</th>)}</tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {selectedTable.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                    <tr key={rowIndex}>{row.map((cell, index) => <td key={index} className="px-2 py-1 text-slate-600 whitespace-nowrap">{cell}</td>)}</tr>
+                  ))}
+                </tbody>
+              </table>
+              {selectedTable.rows.length > PREVIEW_ROWS && (
+                <p className="px-2 py-1 text-xs text-slate-500 border-t border-slate-100">y {selectedTable.rows.length - PREVIEW_ROWS} fila(s) más</p>
+              )}
+            </div>
+          )}
+          {choice === 'text' && (
+            <pre className="p-2 bg-slate-50 border border-slate-200 rounded-md text-xs text-slate-600 whitespace-pre-wrap max-h-60 overflow-y-auto">
+              {result.text.length > PREVIEW_TEXT_LENGTH ? `${result.text.slice(0, PREVIEW_TEXT_LENGTH)}...` : result.text}
+            </pre>
+          )}
+          {choice === 'original' && <p className="text-xs text-slate-500">El PDF se abrirá en la vista previa, sin contenido editable.</p>}
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { ReceiptForm } from './ReceiptForm';
+import { AppFile, ReceiptRecord } from '../types';
+import { isTabularFileName } from '../utils/helpers';
+import { isJournalContent } from '../utils/journal';
+import { isExpensesTableContent, validateReceipt } from '../utils/receipts';
+import { NEW_EXPENSES_FILE_NAME, PendingReceipt } from '../hooks/useReceiptExtraction';
+
+interface ReceiptExtractionDialogProps {
+  pendingReceipt: PendingReceipt;
+  files: AppFile[];
+  activeFileId: string | null; // Preselected when it is an expenses table
+  onSave: (receipt: ReceiptRecord, fileId: string | null) => boolean;
+  onClose: () => void;
+}
+
+const NEW_FILE_OPTION = '__new__';
+
+/**
+ * Shows the receipt read by the extract action in an editable form, checks that its amounts add
+ * up, and adds it as a row to the chosen expenses table (or a new one).
+ */
+export const ReceiptExtractionDialog: React.FC<ReceiptExtractionDialogProps> = ({ pendingReceipt, files, activeFileId, onSave, onClose }) => {
+  const [receipt, setReceipt] = useState<ReceiptRecord>(pendingReceipt.receipt);
+
+  const expenseFiles = useMemo(
+    () => files
+      .filter(file => !file.deletedAt && !file.report && isTabularFileName(file.name) && !isJournalContent(file.content) && isExpensesTableContent(file.content))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [files]
+  );
+  const [targetFileId, setTargetFileId] = useState<string>(
+    expenseFiles.some(file => file.id === activeFileId) ? activeFileId! : NEW_FILE_OPTION
+  );
+
+  const problems = validateReceipt(receipt);
+
+  const handleSave = () => {
+    onSave({ ...receipt, currency: receipt.currency.trim().toUpperCase() }, targetFileId === NEW_FILE_OPTION ? null : targetFileId);
+  };
+
+  const inputClasses = "w-full p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 bg-white text-sm";
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onClose}
+      title="Datos del Recibo"
+      footer={<><Button variant="secondary" onClick={onClose}>Cancelar</Button><Button variant="primary" onClick={handleSave} disabled={problems.length > 0}>Añadir a gastos</Button></>}
+    >
+      <div className="space-y-4 text-sm max-h-[60vh] overflow-y-auto pr-1">
+        <div className="flex gap-3 items-start">
+          {pendingReceipt.imagePreviewUrl && (
+            <img src={pendingReceipt.imagePreviewUrl} alt="Recibo" className="w-20 max-h-28 object-contain rounded border border-slate-200 bg-slate-50 flex-shrink-0" />
+          )}
+          <p className="text-xs text-slate-500">{pendingReceipt.message}</p>
+        </div>
+
+        <ReceiptForm receipt={receipt} onChange={setReceipt} />
+
+        <label className="block font-medium text-slate-700">
+          Tabla de gastos
+          <select value={targetFileId} onChange={(e) => setTargetFileId(e.target.value)} className={`${inputClasses} mt-1`}>
+            <option value={NEW_FILE_OPTION}>Nueva tabla "{NEW_EXPENSES_FILE_NAME}"</option>
+            {expenseFiles.map(file => <option key={file.id} value={file.id}>{file.name}</option>)}
+          </select>
+          <span className="block text-xs font-normal text-slate-500 mt-1">Se muestran las tablas con columnas de fecha y total. El recibo se añade como una fila al final.</span>
+        </label>
+      </div>
+    </Modal>
+  );
+};
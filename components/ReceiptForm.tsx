@@ -0,0 +1,137 @@
+import React from 'react';
+import { Button } from './Button';
+import { PlusIcon, TrashIcon, CheckCircleIcon } from './icons';
+import { ReceiptLineItem, ReceiptRecord } from '../types';
+import { formatAmount, parseAmount } from '../utils/journal';
+import { createReceiptLineItem, getReceiptLineItemsTotal, validateReceipt } from '../utils/receipts';
+
+interface ReceiptFormProps {
+  receipt: ReceiptRecord;
+  onChange: React.Dispatch<React.SetStateAction<ReceiptRecord>>;
+}
+
+const TEXT_FIELDS: { field: 'vendor' | 'taxId' | 'date' | 'currency' | 'paymentMethod'; label: string; type?: string }[] = [
+  { field: 'vendor', label: 'Proveedor *' },
+  { field: 'taxId', label: 'NIF / CIF' },
+  { field: 'date', label: 'Fecha *', type: 'date' },
+  { field: 'paymentMethod', label: 'Forma de pago' },
+  { field: 'currency', label: 'Moneda *' },
+];
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const inputClasses = "w-full p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 bg-white text-sm";
+
+/**
+ * Editable fields of a receipt (see ReceiptExtractionDialog and ReceiptInbox), with the problems
+ * found by validateReceipt and a shortcut to make the amounts add up.
+ */
+export const ReceiptForm: React.FC<ReceiptFormProps> = ({ receipt, onChange: setReceipt }) => {
+  const problems = validateReceipt(receipt);
+  const lineItemsTotal = getReceiptLineItemsTotal(receipt);
+  const isUnbalanced = toCents(lineItemsTotal) !== toCents(receipt.subtotal) || toCents(receipt.subtotal + receipt.tax) !== toCents(receipt.total);
+
+  const updateLineItem = (index: number, changes: Partial<ReceiptLineItem>) => {
+    setReceipt(prev => ({ ...prev, lineItems: prev.lineItems.map((item, i) => {
+      if (i !== index) return item;
+      const next = { ...item, ...changes };
+      // Editing the quantity or price recalculates the amount
+      const isPriceChange = 'quantity' in changes || 'unitPrice' in changes;
+      return isPriceChange && next.unitPrice !== 0 ? { ...next, amount: toCents(next.quantity * next.unitPrice) / 100 } : next;
+    }) }));
+  };
+
+  const handleRecalculate = () => {
+    setReceipt(prev => {
+      const subtotal = toCents(getReceiptLineItemsTotal(prev)) / 100;
+      return { ...prev, subtotal, total: (toCents(subtotal) + toCents(prev.tax)) / 100 };
+    });
+  };
+
+  const amountInput = (value: number, onChange: (value: number) => void, label: string) => (
+    <input
+      type="number"
+      step="0.01"
+      value={isNaN(value) ? '' : value}
+      onChange={(e) => onChange(parseAmount(e.target.value))}
+      className={`${inputClasses} text-right font-mono`}
+      aria-label={label}
+    />
+  );
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        {TEXT_FIELDS.map(({ field, label, type }) => (
+          <label key={field} className={`block text-xs text-slate-500 ${field === 'vendor' ? 'col-span-2' : ''}`}>
+            {label}
+            <input
+              type={type ?? 'text'}
+              value={receipt[field]}
+              onChange={(e) => setReceipt(prev => ({ ...prev, [field]: e.target.value }))}
+              className={`${inputClasses} mt-0.5`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <fieldset>
+        <legend className="font-medium text-slate-700 mb-1">Líneas</legend>
+        <div className="space-y-2">
+          {receipt.lineItems.map((item, index) => (
+            <div key={index} className="p-2 border border-slate-200 rounded-md bg-slate-50 space-y-1.5">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={item.description}
+                  onChange={(e) => updateLineItem(index, { description: e.target.value })}
+                  placeholder="Descripción"
+                  className={inputClasses}
+                  aria-label={`Descripción de la línea ${index + 1}`}
+                />
+                <button
+                  onClick={() => setReceipt(prev => ({ ...prev, lineItems: prev.lineItems.filter((_, i) => i !== index) }))}
+                  className="p-1.5 text-slate-400 hover:text-red-600"
+                  aria-label={`Eliminar la línea ${index + 1}`}
+                  title="Eliminar línea"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-xs text-slate-500">
+                <label>Cantidad{amountInput(item.quantity, quantity => updateLineItem(index, { quantity }), `Cantidad de la línea ${index + 1}`)}</label>
+                <label>Precio{amountInput(item.unitPrice, unitPrice => updateLineItem(index, { unitPrice }), `Precio de la línea ${index + 1}`)}</label>
+                <label>Importe{amountInput(item.amount, amount => updateLineItem(index, { amount }), `Importe de la línea ${index + 1}`)}</label>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <Button variant="secondary" size="sm" onClick={() => setReceipt(prev => ({ ...prev, lineItems: [...prev.lineItems, createReceiptLineItem()] }))}>
+            <PlusIcon className="w-4 h-4 mr-1" /> Añadir línea
+          </Button>
+          <span className="text-xs text-slate-500">Suma de líneas: <span className="font-mono">{formatAmount(lineItemsTotal)}</span></span>
+        </div>
+      </fieldset>
+
+      <div className="grid grid-cols-3 gap-2 text-xs text-slate-500">
+        <label>Base imponible{amountInput(receipt.subtotal, subtotal => setReceipt(prev => ({ ...prev, subtotal })), 'Base imponible')}</label>
+        <label>Impuestos{amountInput(receipt.tax, tax => setReceipt(prev => ({ ...prev, tax })), 'Impuestos')}</label>
+        <label>Total{amountInput(receipt.total, total => setReceipt(prev => ({ ...prev, total })), 'Total')}</label>
+      </div>
+
+      {problems.length > 0 ? (
+        <div className="p-2 rounded-md bg-amber-50 border border-amber-200 text-xs text-amber-800 space-y-0.5">
+          {problems.map(problem => <p key={problem}>{problem}</p>)}
+          {isUnbalanced && (
+            <button onClick={handleRecalculate} className="text-sky-700 hover:underline">Calcular la base imponible con las líneas y el total con los impuestos</button>
+          )}
+        </div>
+      ) : (
+        <p className="flex items-center gap-1.5 text-xs text-emerald-700">
+          <CheckCircleIcon className="w-4 h-4" /> Las líneas, la base imponible, los impuestos y el total cuadran.
+        </p>
+      )}
+    </>
+  );
+};
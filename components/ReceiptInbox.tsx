@@ -0,0 +1,389 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from './Button';
+import { Modal } from './Modal';
+import { ReceiptForm } from './ReceiptForm';
+import { InboxStackIcon, UploadIcon, TrashIcon, ArrowPathIcon, PencilIcon, CheckCircleIcon } from './icons';
+import { Account, AppFile, ReceiptInboxItem, ReceiptInboxStatus, ReceiptRecord } from '../types';
+import { isTabularFileName } from '../utils/helpers';
+import { formatAmount, isJournalContent } from '../utils/journal';
+import { DEFAULT_RECEIPT_POSTING_ACCOUNTS, isExpensesTableContent, ReceiptPostingAccounts } from '../utils/receipts';
+import { NEW_LEDGER_FILE_NAME } from '../hooks/useReceiptInbox';
+
+interface ReceiptInboxProps {
+  items: ReceiptInboxItem[];
+  processingIds: Set<string>;
+  files: AppFile[];
+  accounts: Account[];
+  onAddImages: (imageFiles: File[]) => void;
+  onLoadImage: (imageFileId: string) => Promise<Blob | null>;
+  onUpdateReceipt: (itemId: string, receipt: ReceiptRecord) => void;
+  onRetryItems: (itemIds: string[]) => void;
+  onDeleteItems: (itemIds: string[]) => void;
+  onApproveItems: (itemIds: string[], fileId: string | null, accounts: ReceiptPostingAccounts) => boolean;
+}
+
+const NEW_FILE_OPTION = '__new__';
+
+const STATUS_LABELS: Record<ReceiptInboxStatus, string> = {
+  pending: 'Pendiente',
+  extracted: 'Extraído',
+  needs_review: 'Revisar',
+  failed: 'Fallido',
+};
+
+const STATUS_CLASSES: Record<ReceiptInboxStatus, string> = {
+  pending: 'bg-slate-100 text-slate-600',
+  extracted: 'bg-emerald-100 text-emerald-700',
+  needs_review: 'bg-amber-100 text-amber-800',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const POSTING_FIELDS: { field: keyof ReceiptPostingAccounts; label: string }[] = [
+  { field: 'expense', label: 'Cuenta de gasto (base)' },
+  { field: 'tax', label: 'Cuenta de impuestos' },
+  { field: 'payment', label: 'Cuenta de pago (total)' },
+];
+
+interface ReceiptImageProps {
+  item: ReceiptInboxItem;
+  loadImage: (imageFileId: string) => Promise<Blob | null>;
+  className: string;
+}
+
+/** The image of an inbox item, read from the original of its file. */
+const ReceiptImage: React.FC<ReceiptImageProps> = ({ item, loadImage, className }) => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    let url: string | null = null;
+    let isCancelled = false;
+    loadImage(item.imageFileId)
+      .then(blob => {
+        if (isCancelled) return;
+        if (!blob) {
+          setIsMissing(true);
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        setObjectUrl(url);
+      })
+      .catch(error => {
+        console.error("Error loading receipt image:", error);
+        if (!isCancelled) setIsMissing(true);
+      });
+    return () => {
+      isCancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [item.imageFileId, loadImage]);
+
+  if (isMissing) {
+    return <div className={`${className} flex items-center justify-center text-[10px] text-slate-400`} title="No se encontró la imagen">—</div>;
+  }
+  return objectUrl ? <img src={objectUrl} alt={item.fileName} className={className} /> : <div className={`${className} bg-slate-100`} />;
+};
+
+interface ReceiptReviewDialogProps {
+  item: ReceiptInboxItem;
+  loadImage: (imageFileId: string) => Promise<Blob | null>;
+  receipt: ReceiptRecord;
+  onSave: (receipt: ReceiptRecord) => void;
+  onClose: () => void;
+}
+
+/** The image of an inbox item beside its editable receipt. */
+const ReceiptReviewDialog: React.FC<ReceiptReviewDialogProps> = ({ item, loadImage, receipt: initialReceipt, onSave, onClose }) => {
+  const [receipt, setReceipt] = useState<ReceiptRecord>(initialReceipt);
+
+  const handleSave = () => {
+    onSave({ ...receipt, currency: receipt.currency.trim().toUpperCase() });
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onClose}
+      title={`Revisar "${item.fileName}"`}
+      footer={<><Button variant="secondary" onClick={onClose}>Cancelar</Button><Button variant="primary" onClick={handleSave}>Guardar</Button></>}
+    >
+      <div className="space-y-4 text-sm max-h-[60vh] overflow-y-auto pr-1">
+        <ReceiptImage item={item} loadImage={loadImage} className="max-h-48 min-h-[3rem] mx-auto object-contain rounded border border-slate-200 bg-slate-50" />
+        <ReceiptForm receipt={receipt} onChange={setReceipt} />
+        <p className="text-xs text-slate-500">Puedes guardar un recibo que no cuadra; seguirá pendiente de revisión y no se podrá aprobar.</p>
+      </div>
+    </Modal>
+  );
+};
+
+/**
+ * The receipts inbox: a drop zone for receipt images, the extraction status of each one, a
+ * review form for the ones whose amounts do not add up, and bulk approval of the extracted
+ * receipts into a journal (as draft entries) or an expenses table.
+ */
+export const ReceiptInbox: React.FC<ReceiptInboxProps> = ({
+  items,
+  processingIds,
+  files,
+  accounts,
+  onAddImages,
+  onLoadImage,
+  onUpdateReceipt,
+  onRetryItems,
+  onDeleteItems,
+  onApproveItems,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showApproved, setShowApproved] = useState(false);
+  const [reviewItem, setReviewItem] = useState<ReceiptInboxItem | null>(null);
+  const [itemsToDelete, setItemsToDelete] = useState<string[]>([]);
+  const [targetFileId, setTargetFileId] = useState(NEW_FILE_OPTION);
+  const [postingAccounts, setPostingAccounts] = useState<ReceiptPostingAccounts>(DEFAULT_RECEIPT_POSTING_ACCOUNTS);
+
+  const ledgerFiles = useMemo(
+    () => files
+      .filter(file => !file.deletedAt && !file.report && isTabularFileName(file.name) && (isJournalContent(file.content) || isExpensesTableContent(file.content)))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [files]
+  );
+  const targetFile = ledgerFiles.find(file => file.id === targetFileId) ?? null;
+  const isJournalTarget = !targetFile || isJournalContent(targetFile.content);
+  const activeAccounts = useMemo(() => accounts.filter(account => account.isActive), [accounts]);
+
+  const visibleItems = items.filter(item => showApproved || !item.approvedFileId);
+  const approvableIds = items.filter(item => item.status === 'extracted' && !item.approvedFileId).map(item => item.id);
+  const selectedApprovable = approvableIds.filter(id => selectedIds.has(id));
+  const counts = (Object.keys(STATUS_LABELS) as ReceiptInboxStatus[]).map(status => ({
+    status,
+    count: items.filter(item => item.status === status && !item.approvedFileId).length,
+  }));
+  const approvedCount = items.filter(item => item.approvedFileId).length;
+  const failedIds = items.filter(item => item.status === 'failed').map(item => item.id);
+
+  const toggleSelected = (itemId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId); else next.add(itemId);
+      return next;
+    });
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (event.dataTransfer.files.length > 0) onAddImages(Array.from(event.dataTransfer.files));
+  };
+
+  const handleFileInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files && event.target.files.length > 0) onAddImages(Array.from(event.target.files));
+    event.target.value = '';
+  };
+
+  const handleApprove = () => {
+    if (onApproveItems(selectedApprovable, targetFileId === NEW_FILE_OPTION ? null : targetFileId, postingAccounts)) {
+      setSelectedIds(new Set());
+    }
+  };
+
+  const handleConfirmDelete = () => {
+    onDeleteItems(itemsToDelete);
+    setSelectedIds(prev => new Set(Array.from(prev).filter(id => !itemsToDelete.includes(id))));
+    setItemsToDelete([]);
+  };
+
+  const inputClasses = "w-full p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-sky-500 focus:border-sky-500 bg-white text-sm";
+
+  return (
+    <div className="flex-1 p-6 sm:p-8 overflow-y-auto bg-slate-50 h-full">
+      <header className="mb-6">
+        <h2 className="text-2xl font-semibold text-slate-800">Bandeja de Recibos</h2>
+        <p className="text-sm text-slate-500 mt-1">
+          Añade fotos de recibos y facturas: la IA extrae sus datos en segundo plano. Revisa los que no cuadran y aprueba los extraídos en un libro diario o una tabla de gastos.
+        </p>
+      </header>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`mb-4 p-6 border-2 border-dashed rounded-lg text-center transition-colors ${isDragging ? 'border-sky-400 bg-sky-50' : 'border-slate-300 bg-white'}`}
+      >
+        <UploadIcon className="w-10 h-10 text-slate-400 mx-auto mb-2" />
+        <p className="text-sm text-slate-600">Arrastra aquí las imágenes de los recibos o</p>
+        <Button variant="secondary" size="sm" className="mt-2" onClick={() => fileInputRef.current?.click()}>Elegir imágenes</Button>
+        <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={handleFileInputChange} className="hidden" />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+        {counts.map(({ status, count }) => (
+          <span key={status} className={`px-2 py-1 rounded-full font-medium ${STATUS_CLASSES[status]}`}>{STATUS_LABELS[status]}: {count}</span>
+        ))}
+        <label className="flex items-center gap-1.5 ml-auto text-slate-600 cursor-pointer select-none">
+          <input type="checkbox" checked={showApproved} onChange={(e) => setShowApproved(e.target.checked)} className="rounded border-slate-300 text-sky-600 focus:ring-sky-500" />
+          Mostrar aprobados ({approvedCount})
+        </label>
+        {failedIds.length > 0 && (
+          <Button variant="secondary" size="sm" onClick={() => onRetryItems(failedIds)}>
+            <ArrowPathIcon className="w-4 h-4 mr-1" /> Reintentar fallidos
+          </Button>
+        )}
+      </div>
+
+      {visibleItems.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-lg border border-dashed border-slate-300">
+          <InboxStackIcon className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+          <p className="text-slate-600 font-medium">{items.length === 0 ? 'La bandeja está vacía.' : 'Todos los recibos están aprobados.'}</p>
+        </div>
+      ) : (
+        <section className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden mb-4">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="px-3 py-2 w-8">
+                  <input
+                    type="checkbox"
+                    checked={approvableIds.length > 0 && selectedApprovable.length === approvableIds.length}
+                    onChange={(e) => setSelectedIds(e.target.checked ? new Set(approvableIds) : new Set())}
+                    disabled={approvableIds.length === 0}
+                    aria-label="Seleccionar todos los recibos extraídos"
+                    className="rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                  />
+                </th>
+                <th className="px-3 py-2 text-left">Recibo</th>
+                <th className="px-3 py-2 text-left">Estado</th>
+                <th className="px-3 py-2 text-left">Proveedor</th>
+                <th className="px-3 py-2 text-left">Fecha</th>
+                <th className="px-3 py-2 text-right">Total</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visibleItems.map(item => {
+                const isProcessing = processingIds.has(item.id);
+                const isApprovable = item.status === 'extracted' && !item.approvedFileId;
+                const approvedFile = item.approvedFileId ? files.find(file => file.id === item.approvedFileId) : null;
+                return (
+                  <tr key={item.id} className="align-top">
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(item.id)}
+                        onChange={() => toggleSelected(item.id)}
+                        disabled={!isApprovable}
+                        aria-label={`Seleccionar ${item.fileName}`}
+                        className="rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex items-center gap-2">
+                        <ReceiptImage item={item} loadImage={onLoadImage} className="w-10 h-10 object-cover rounded border border-slate-200 flex-shrink-0" />
+                        <span className="truncate max-w-[12rem] text-slate-700" title={item.fileName}>{item.fileName}</span>
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[item.status]}`}>
+                        {item.status === 'pending' && isProcessing ? 'Extrayendo...' : STATUS_LABELS[item.status]}
+                      </span>
+                      {item.approvedFileId && (
+                        <span className="block mt-1 text-xs text-emerald-700">Aprobado en {approvedFile?.name ?? 'un archivo eliminado'}</span>
+                      )}
+                      {item.message && item.status !== 'extracted' && <p className="mt-1 text-xs text-slate-500 max-w-xs">{item.message}</p>}
+                    </td>
+                    <td className="px-3 py-2 text-slate-700">{item.receipt?.vendor || '—'}</td>
+                    <td className="px-3 py-2 text-slate-700 whitespace-nowrap">{item.receipt?.date || '—'}</td>
+                    <td className="px-3 py-2 text-right font-mono whitespace-nowrap">{item.receipt ? `${formatAmount(item.receipt.total)} ${item.receipt.currency}` : '—'}</td>
+                    <td className="px-3 py-2">
+                      <div className="flex justify-end gap-1">
+                        {item.receipt && !item.approvedFileId && (
+                          <button onClick={() => setReviewItem(item)} className="p-1 text-slate-400 hover:text-sky-600 rounded" title="Revisar datos">
+                            <PencilIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                        {(item.status === 'failed' || item.status === 'needs_review') && (
+                          <button onClick={() => onRetryItems([item.id])} className="p-1 text-slate-400 hover:text-sky-600 rounded" title="Volver a extraer">
+                            <ArrowPathIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button onClick={() => setItemsToDelete([item.id])} className="p-1 text-slate-400 hover:text-red-600 rounded" title="Quitar de la bandeja">
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {approvableIds.length > 0 && (
+        <section className="bg-white rounded-lg border border-slate-200 shadow-sm p-4">
+          <h3 className="font-medium text-slate-800 mb-3">Aprobar recibos extraídos</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <label className="block text-sm font-medium text-slate-700">
+              Registrar en
+              <select value={targetFileId} onChange={(e) => setTargetFileId(e.target.value)} className={`${inputClasses} mt-1`}>
+                <option value={NEW_FILE_OPTION}>Nuevo libro diario "{NEW_LEDGER_FILE_NAME}"</option>
+                {ledgerFiles.map(file => <option key={file.id} value={file.id}>{file.name}</option>)}
+              </select>
+            </label>
+            {isJournalTarget && POSTING_FIELDS.map(({ field, label }) => (
+              <label key={field} className="block text-sm font-medium text-slate-700">
+                {label}
+                <input
+                  list="receiptInboxAccounts"
+                  value={postingAccounts[field]}
+                  onChange={(e) => setPostingAccounts(prev => ({ ...prev, [field]: e.target.value }))}
+                  className={`${inputClasses} mt-1 font-mono`}
+                />
+              </label>
+            ))}
+          </div>
+          <datalist id="receiptInboxAccounts">
+            {activeAccounts.map(account => <option key={account.id} value={account.code}>{account.name}</option>)}
+          </datalist>
+          <div className="flex items-center justify-between mt-3">
+            <p className="text-xs text-slate-500">
+              {isJournalTarget
+                ? 'Cada recibo se registra como un asiento en borrador: la base en la cuenta de gasto y los impuestos en la de impuestos, contra el total en la cuenta de pago.'
+                : 'Cada recibo se añade como una fila al final de la tabla de gastos.'}
+            </p>
+            <Button
+              variant="primary"
+              onClick={handleApprove}
+              disabled={selectedApprovable.length === 0 || (isJournalTarget && Object.values(postingAccounts).some(code => code.trim() === ''))}
+            >
+              <CheckCircleIcon className="w-4 h-4 mr-1" /> Aprobar seleccionados ({selectedApprovable.length})
+            </Button>
+          </div>
+        </section>
+      )}
+
+      {reviewItem?.receipt && (
+        <ReceiptReviewDialog
+          item={reviewItem}
+          loadImage={onLoadImage}
+          receipt={reviewItem.receipt}
+          onSave={(receipt) => onUpdateReceipt(reviewItem.id, receipt)}
+          onClose={() => setReviewItem(null)}
+        />
+      )}
+
+      <Modal
+        isOpen={itemsToDelete.length > 0}
+        onClose={() => setItemsToDelete([])}
+        title="Quitar de la bandeja"
+        footer={<>
+          <Button variant="secondary" onClick={() => setItemsToDelete([])}>Cancelar</Button>
+          <Button variant="danger" onClick={handleConfirmDelete}>Quitar</Button>
+        </>}
+      >
+        <p className="text-sm">¿Quitar {itemsToDelete.length === 1 ? 'este recibo' : `${itemsToDelete.length} recibos`} de la bandeja? Los asientos o filas ya aprobados no cambian.</p>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,427 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from './Button';
+import { Modal } from './Modal';
+import { ArrowsRightLeftIcon, SparklesIcon, PlusIcon, XMarkIcon, TrashIcon } from './icons';
+import { Account, AppFile, NotificationType, Reconciliation, ReconciliationMatch } from '../types';
+import { generateId } from '../utils/helpers';
+import { formatAmount } from '../utils/journal';
+import { updateWorkbookSheet } from '../utils/workbook';
+import { localeCurrency } from '../utils/columnTypes';
+import { getCashFlowCategory } from '../utils/chartOfAccounts';
+import { isGeneratedReport } from '../utils/ledger';
+import {
+  readCashTransactions,
+  resolveReconciliationMatches,
+  autoMatchTransactions,
+  validateManualMatch,
+  summarizeReconciliation,
+  appendMissingLedgerTransaction,
+  createReconciliation,
+  getReconciliationTables,
+  reconciliationTableKey,
+  toRowRef,
+  CashTransaction,
+  CashTransactionReadResult,
+  ReconciliationSide,
+  ReconciliationTable,
+} from '../utils/reconciliation';
+
+interface ReconciliationWorkspaceProps {
+  files: AppFile[];
+  accounts: Account[];
+  reconciliations: Reconciliation[];
+  locale: string; // Workspace locale, used to read the amounts and calculate the formulas of both tables
+  onSaveReconciliation: (reconciliation: Reconciliation) => void;
+  onDeleteReconciliation: (reconciliationId: string) => void;
+  onUpdateFileContent: (fileId: string, content: string) => void;
+  showNotification: (type: NotificationType, message: string, title?: string) => void;
+}
+
+type ReadState = { result: CashTransactionReadResult; error: null } | { result: null; error: string };
+
+const readSide = (table: ReconciliationTable | undefined, side: ReconciliationSide, bankAccount: string, locale: string): ReadState | null => {
+  if (!table) return null;
+  try {
+    return { result: readCashTransactions(table.content, side, bankAccount, locale), error: null };
+  } catch (error) {
+    return { result: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Puts a bank statement beside a ledger or cash book: matches their movements automatically
+ * (same amount, dates within a window, similar description) or by hand, records bank movements
+ * missing from the ledger, and shows what remains unreconciled. Each sheet of a workbook with
+ * several sheets is a table of its own. The matches are saved as a Reconciliation linked to both tables.
+ */
+export const ReconciliationWorkspace: React.FC<ReconciliationWorkspaceProps> = ({
+  files,
+  accounts,
+  reconciliations,
+  locale,
+  onSaveReconciliation,
+  onDeleteReconciliation,
+  onUpdateFileContent,
+  showNotification,
+}) => {
+  const tables = useMemo(() => getReconciliationTables(files, locale), [files, locale]);
+  const cashAccounts = useMemo(() => accounts.filter(account => account.isActive && getCashFlowCategory(account) === 'cash'), [accounts]);
+
+  const [statementKey, setStatementKey] = useState(''); // See reconciliationTableKey
+  const [ledgerKey, setLedgerKey] = useState('');
+  const [draft, setDraft] = useState<Reconciliation | null>(null); // Not saved until the user changes something
+  const [selectedStatementRows, setSelectedStatementRows] = useState<Set<number>>(new Set());
+  const [selectedLedgerRows, setSelectedLedgerRows] = useState<Set<number>>(new Set());
+  const [showOnlyPending, setShowOnlyPending] = useState(false);
+  const [reconciliationToDelete, setReconciliationToDelete] = useState<Reconciliation | null>(null);
+
+  const isSelected = (item: Reconciliation) =>
+    reconciliationTableKey(item.statementFileId, item.statementSheet) === statementKey && reconciliationTableKey(item.ledgerFileId, item.ledgerSheet) === ledgerKey;
+  const saved = reconciliations.find(isSelected) ?? null;
+  const reconciliation = saved ?? (draft && isSelected(draft) ? draft : null);
+
+  const statementTable = tables.find(table => table.key === statementKey);
+  const ledgerTable = tables.find(table => table.key === ledgerKey);
+
+  const selectTables = (nextStatementKey: string, nextLedgerKey: string) => {
+    setStatementKey(nextStatementKey);
+    setLedgerKey(nextLedgerKey);
+    setSelectedStatementRows(new Set());
+    setSelectedLedgerRows(new Set());
+    const nextStatement = tables.find(table => table.key === nextStatementKey);
+    const nextLedger = tables.find(table => table.key === nextLedgerKey);
+    setDraft(nextStatement && nextLedger ? createReconciliation(nextStatement, nextLedger, cashAccounts[0]?.code ?? '') : null);
+  };
+
+  const bankAccount = reconciliation?.bankAccount ?? '';
+  const statementRead = useMemo(() => readSide(statementTable, 'statement', '', locale), [statementTable, locale]);
+  const ledgerRead = useMemo(() => readSide(ledgerTable, 'ledger', bankAccount, locale), [ledgerTable, bankAccount, locale]);
+  const statementTransactions = statementRead?.result?.transactions ?? [];
+  const ledgerTransactions = ledgerRead?.result?.transactions ?? [];
+
+  const { resolved, stale } = useMemo(
+    () => resolveReconciliationMatches(reconciliation?.matches ?? [], statementTransactions, ledgerTransactions),
+    [reconciliation, statementTransactions, ledgerTransactions]
+  );
+  const summary = useMemo(() => summarizeReconciliation(statementTransactions, ledgerTransactions, resolved), [statementTransactions, ledgerTransactions, resolved]);
+
+  // Number shown next to matched rows, so the two sides of a match can be told apart
+  const matchNumbers = useMemo(() => {
+    const statement = new Map<number, { number: number; match: ReconciliationMatch }>();
+    const ledger = new Map<number, { number: number; match: ReconciliationMatch }>();
+    resolved.forEach(({ match, statementTransactions: matchedStatement, ledgerTransactions: matchedLedger }, i) => {
+      matchedStatement.forEach(transaction => statement.set(transaction.row, { number: i + 1, match }));
+      matchedLedger.forEach(transaction => ledger.set(transaction.row, { number: i + 1, match }));
+    });
+    return { statement, ledger };
+  }, [resolved]);
+
+  const updateReconciliation = (changes: Partial<Reconciliation>) => {
+    if (reconciliation) onSaveReconciliation({ ...reconciliation, ...changes });
+  };
+
+  const addMatches = (matches: ReconciliationMatch[]) => updateReconciliation({ matches: [...(reconciliation?.matches ?? []), ...matches] });
+
+  const removeMatch = (matchId: string) => updateReconciliation({ matches: (reconciliation?.matches ?? []).filter(match => match.id !== matchId) });
+
+  const unmatchedStatement = statementTransactions.filter(transaction => !matchNumbers.statement.has(transaction.row));
+  const unmatchedLedger = ledgerTransactions.filter(transaction => !matchNumbers.ledger.has(transaction.row));
+  const selectedStatement = unmatchedStatement.filter(transaction => selectedStatementRows.has(transaction.row));
+  const selectedLedger = unmatchedLedger.filter(transaction => selectedLedgerRows.has(transaction.row));
+  const needsBankAccount = (ledgerRead?.result?.hasAccountColumn ?? false) && bankAccount.trim() === '';
+  const canCreateMissing = selectedStatement.length > 0 && selectedLedger.length === 0 && !!ledgerTable && !isGeneratedReport(ledgerTable.file) && !needsBankAccount && !ledgerRead?.error;
+
+  const clearSelection = () => {
+    setSelectedStatementRows(new Set());
+    setSelectedLedgerRows(new Set());
+  };
+
+  const handleAutoMatch = () => {
+    if (!reconciliation) return;
+    const matches = autoMatchTransactions(unmatchedStatement, unmatchedLedger, reconciliation.dateWindowDays);
+    if (matches.length > 0) addMatches(matches);
+    clearSelection();
+    showNotification(matches.length > 0 ? 'success' : 'info', matches.length > 0
+      ? `${matches.length} movimiento(s) conciliado(s) automáticamente.`
+      : "No hay movimientos pendientes con el mismo importe dentro del margen de fechas.");
+  };
+
+  const handleManualMatch = () => {
+    const problem = validateManualMatch(selectedStatement, selectedLedger);
+    if (problem) {
+      showNotification('error', problem, "No se Puede Conciliar");
+      return;
+    }
+    addMatches([{ id: generateId(), statementRows: selectedStatement.map(toRowRef), ledgerRows: selectedLedger.map(toRowRef), method: 'manual' }]);
+    clearSelection();
+  };
+
+  const handleCreateMissing = () => {
+    if (!ledgerTable || !reconciliation) return;
+    try {
+      // Rows are added to the sheet as stored, so its formulas are kept
+      let content = ledgerTable.file.content;
+      const matches: ReconciliationMatch[] = selectedStatement.map(statement => {
+        let added = statement;
+        content = updateWorkbookSheet(content, ledgerTable.sheet, sheetContent => {
+          const appended = appendMissingLedgerTransaction(sheetContent, statement, bankAccount, localeCurrency(locale));
+          added = appended.transaction;
+          return appended.content;
+        });
+        return { id: generateId(), statementRows: [toRowRef(statement)], ledgerRows: [toRowRef(added)], method: 'manual' };
+      });
+      onUpdateFileContent(ledgerTable.file.id, content);
+      addMatches(matches);
+      clearSelection();
+      showNotification('success', `${matches.length} movimiento(s) añadido(s) a "${ledgerTable.name}" y conciliado(s).`);
+    } catch (error) {
+      console.error("Error adding missing movements:", error);
+      showNotification('error', error instanceof Error ? error.message : "No se pudieron añadir los movimientos.", "Movimientos no Añadidos");
+    }
+  };
+
+  const handleDeleteReconciliation = () => {
+    if (!reconciliationToDelete) return;
+    onDeleteReconciliation(reconciliationToDelete.id);
+    if (reconciliationToDelete.id === saved?.id) selectTables('', '');
+    setReconciliationToDelete(null);
+  };
+
+  const toggleRow = (side: ReconciliationSide, row: number) => {
+    const setSelected = side === 'statement' ? setSelectedStatementRows : setSelectedLedgerRows;
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(row)) next.delete(row); else next.add(row);
+      return next;
+    });
+  };
+
+  const selectedTotal = (transactions: CashTransaction[]) => transactions.reduce((sum, transaction) => sum + Math.round(transaction.amount * 100), 0) / 100;
+  const tableName = (fileId: string, sheet: string | null | undefined) =>
+    tables.find(table => table.key === reconciliationTableKey(fileId, sheet))?.name ?? '(archivo eliminado)';
+  const inputClasses = "w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-400 bg-white";
+
+  const renderTransactions = (side: ReconciliationSide, title: string, read: ReadState | null, transactions: CashTransaction[]) => {
+    const numbers = side === 'statement' ? matchNumbers.statement : matchNumbers.ledger;
+    const selected = side === 'statement' ? selectedStatementRows : selectedLedgerRows;
+    const visible = showOnlyPending ? transactions.filter(transaction => !numbers.has(transaction.row)) : transactions;
+    return (
+      <section className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden flex flex-col min-h-0">
+        <h3 className="px-4 py-2.5 bg-slate-100 text-sm font-semibold text-slate-700">{title}</h3>
+        {read?.error ? (
+          <p className="px-4 py-6 text-sm text-red-600">{read.error}</p>
+        ) : (
+          <div className="overflow-y-auto max-h-[50vh]">
+            <table className="min-w-full text-sm">
+              <tbody>
+                {visible.map(transaction => {
+                  const matched = numbers.get(transaction.row);
+                  return (
+                    <tr
+                      key={transaction.row}
+                      onClick={() => !matched && toggleRow(side, transaction.row)}
+                      className={`border-t border-slate-100 ${matched ? 'text-slate-400' : 'cursor-pointer hover:bg-slate-50'} ${selected.has(transaction.row) && !matched ? 'bg-sky-50' : ''}`}
+                    >
+                      <td className="pl-4 py-2 w-8">
+                        {matched ? (
+                          <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${matched.match.method === 'auto' ? 'bg-emerald-100 text-emerald-700' : 'bg-violet-100 text-violet-700'}`} title={matched.match.method === 'auto' ? 'Conciliado automáticamente' : 'Conciliado a mano'}>
+                            {matched.number}
+                          </span>
+                        ) : (
+                          <input type="checkbox" checked={selected.has(transaction.row)} readOnly className="rounded border-slate-300 text-sky-600 focus:ring-sky-500" aria-label={`Seleccionar fila ${transaction.row}`} />
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap font-mono text-xs">{transaction.date}</td>
+                      <td className="px-3 py-2">
+                        {transaction.description || <span className="italic text-slate-400">Sin concepto</span>}
+                        {transaction.reference && <span className="ml-2 text-xs text-slate-400">{transaction.reference}</span>}
+                      </td>
+                      <td className={`px-3 py-2 text-right font-mono whitespace-nowrap ${!matched && transaction.amount < 0 ? 'text-rose-700' : ''}`}>{formatAmount(transaction.amount)}</td>
+                      <td className="pr-3 py-2 w-8">
+                        {matched && (
+                          <button onClick={(e) => { e.stopPropagation(); removeMatch(matched.match.id); }} className="p-1 text-slate-400 hover:text-red-600 rounded" title="Deshacer conciliación">
+                            <XMarkIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {visible.length === 0 && (
+                  <tr><td colSpan={5} className="px-4 py-8 text-center text-slate-500">{transactions.length === 0 ? 'No hay movimientos.' : 'Todos los movimientos están conciliados.'}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {read?.result && read.result.rejectedRows.length > 0 && (
+          <p className="px-4 py-2 text-xs text-amber-700 border-t border-slate-100">
+            {read.result.rejectedRows.length} fila(s) no leída(s), p. ej. fila {read.result.rejectedRows[0].row}: {read.result.rejectedRows[0].reason}
+          </p>
+        )}
+      </section>
+    );
+  };
+
+  const summaryItems = [
+    { label: 'Movimientos del banco', value: summary.statementTotal },
+    { label: 'Movimientos en libros', value: summary.ledgerTotal },
+    { label: 'Conciliado', value: summary.reconciledTotal },
+    { label: 'Pendiente en el banco', value: summary.unreconciledStatementTotal },
+    { label: 'Pendiente en libros', value: summary.unreconciledLedgerTotal },
+    { label: 'Diferencia', value: summary.difference },
+  ];
+
+  return (
+    <div className="flex-1 p-6 sm:p-8 overflow-y-auto bg-slate-50 h-full">
+      <header className="mb-6">
+        <h2 className="text-2xl font-semibold text-slate-800">Conciliación Bancaria</h2>
+        <p className="text-sm text-slate-500 mt-1">
+          Compara un extracto bancario con el libro o la cuenta de bancos. Las conciliaciones se guardan y se pueden retomar.
+        </p>
+      </header>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+        <label className="block text-sm font-medium text-slate-700">
+          Extracto bancario
+          <select value={statementKey} onChange={(e) => selectTables(e.target.value, e.target.value === ledgerKey ? '' : ledgerKey)} className={`${inputClasses} mt-1`}>
+            <option value="">— Elige un archivo —</option>
+            {tables.map(table => <option key={table.key} value={table.key}>{table.name}</option>)}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-slate-700">
+          Libro o cuenta de bancos
+          <select value={ledgerKey} onChange={(e) => selectTables(statementKey, e.target.value)} className={`${inputClasses} mt-1`}>
+            <option value="">— Elige un archivo —</option>
+            {tables.filter(table => table.key !== statementKey).map(table => <option key={table.key} value={table.key}>{table.name}</option>)}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-slate-700">
+          Cuenta de bancos
+          <input
+            list="reconciliationBankAccounts"
+            value={bankAccount}
+            onChange={(e) => updateReconciliation({ bankAccount: e.target.value })}
+            disabled={!reconciliation}
+            placeholder="p. ej. 572"
+            className={`${inputClasses} mt-1 font-mono`}
+          />
+          <datalist id="reconciliationBankAccounts">
+            {cashAccounts.map(account => <option key={account.id} value={account.code}>{account.name}</option>)}
+          </datalist>
+        </label>
+        <label className="block text-sm font-medium text-slate-700">
+          Margen de fechas (días)
+          <input
+            type="number"
+            min={0}
+            max={60}
+            value={reconciliation?.dateWindowDays ?? ''}
+            onChange={(e) => updateReconciliation({ dateWindowDays: Math.max(0, Math.min(60, Number(e.target.value) || 0)) })}
+            disabled={!reconciliation}
+            className={`${inputClasses} mt-1`}
+          />
+        </label>
+      </div>
+
+      {!reconciliation ? (
+        <div className="text-center py-16 bg-white rounded-lg border border-dashed border-slate-300">
+          <ArrowsRightLeftIcon className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+          <p className="text-slate-600 font-medium">Elige el extracto bancario y el libro que quieres conciliar.</p>
+          <p className="text-sm text-slate-500 mt-1">El extracto necesita columnas de fecha e importe (como los extractos OFX, CAMT.053 o MT940 importados); el libro puede ser un libro diario, un libro mayor o un libro de caja.</p>
+          {reconciliations.length > 0 && (
+            <ul className="mt-6 max-w-xl mx-auto text-left text-sm divide-y divide-slate-100 border border-slate-200 rounded-md">
+              {reconciliations.map(item => (
+                <li key={item.id} className="flex items-center gap-3 px-3 py-2">
+                  <button
+                    onClick={() => selectTables(reconciliationTableKey(item.statementFileId, item.statementSheet), reconciliationTableKey(item.ledgerFileId, item.ledgerSheet))}
+                    className="flex-1 text-left text-sky-700 hover:underline truncate"
+                  >
+                    {tableName(item.statementFileId, item.statementSheet)} ↔ {tableName(item.ledgerFileId, item.ledgerSheet)}
+                  </button>
+                  <span className="text-xs text-slate-500 flex-shrink-0">{item.matches.length} conciliación(es), {new Date(item.updatedAt).toLocaleDateString()}</span>
+                  <button onClick={() => setReconciliationToDelete(item)} className="p-1 text-slate-400 hover:text-red-600 rounded" title="Eliminar conciliación">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-4">
+            {summaryItems.map(({ label, value }) => (
+              <div key={label} className={`p-3 rounded-lg border bg-white ${label === 'Diferencia' && Math.round(value * 100) !== 0 ? 'border-amber-300' : 'border-slate-200'}`}>
+                <p className="text-xs text-slate-500">{label}</p>
+                <p className="text-base font-semibold font-mono text-slate-800">{formatAmount(value)}</p>
+              </div>
+            ))}
+          </div>
+
+          {needsBankAccount && (
+            <p className="mb-3 p-3 rounded-md border bg-amber-50 border-amber-200 text-sm text-amber-800">
+              "{ledgerTable?.name}" tiene una columna de cuenta: indica la cuenta de bancos para leer solo sus movimientos.
+            </p>
+          )}
+          {stale.length > 0 && (
+            <div className="mb-3 p-3 rounded-md border bg-amber-50 border-amber-200 text-sm text-amber-800 flex justify-between items-center gap-3">
+              <span>{stale.length} conciliación(es) guardada(s) ya no coinciden con los archivos (se cambiaron o eliminaron filas) y no se cuentan.</span>
+              <button onClick={() => updateReconciliation({ matches: reconciliation.matches.filter(match => !stale.includes(match)) })} className="text-xs underline flex-shrink-0">Quitar</button>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <Button onClick={handleAutoMatch} variant="primary" size="sm" leftIcon={<SparklesIcon className="w-4 h-4" />} disabled={unmatchedStatement.length === 0 || unmatchedLedger.length === 0}>
+              Conciliar automáticamente
+            </Button>
+            <Button onClick={handleManualMatch} variant="secondary" size="sm" leftIcon={<ArrowsRightLeftIcon className="w-4 h-4" />} disabled={selectedStatement.length === 0 || selectedLedger.length === 0}>
+              Conciliar selección
+            </Button>
+            <Button onClick={handleCreateMissing} variant="secondary" size="sm" leftIcon={<PlusIcon className="w-4 h-4" />} disabled={!canCreateMissing} title={ledgerTable && isGeneratedReport(ledgerTable.file) ? 'Los informes generados no se pueden modificar' : 'Añade los movimientos del banco seleccionados al libro'}>
+              Crear en el libro
+            </Button>
+            {(selectedStatement.length > 0 || selectedLedger.length > 0) && (
+              <span className="text-xs text-slate-500">
+                Selección: banco {formatAmount(selectedTotal(selectedStatement))}, libro {formatAmount(selectedTotal(selectedLedger))}
+              </span>
+            )}
+            <label className="ml-auto flex items-center gap-2 text-sm text-slate-600 cursor-pointer select-none">
+              <input type="checkbox" checked={showOnlyPending} onChange={(e) => setShowOnlyPending(e.target.checked)} className="rounded border-slate-300 text-sky-600 focus:ring-sky-500" />
+              Solo pendientes
+            </label>
+            {saved && (
+              <Button onClick={() => setReconciliationToDelete(saved)} variant="ghost" size="sm" leftIcon={<TrashIcon className="w-4 h-4" />}>
+                Eliminar
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 mb-3">
+            Selecciona varios movimientos de un lado para dividir una partida: se concilian si suman lo mismo que la selección del otro lado.
+          </p>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {renderTransactions('statement', `Banco: ${statementTable?.name ?? ''}`, statementRead, statementTransactions)}
+            {renderTransactions('ledger', `Libro: ${ledgerTable?.name ?? ''}`, ledgerRead, ledgerTransactions)}
+          </div>
+        </>
+      )}
+
+      <Modal
+        isOpen={reconciliationToDelete !== null}
+        onClose={() => setReconciliationToDelete(null)}
+        title="Eliminar conciliación"
+        footer={<>
+          <Button variant="secondary" onClick={() => setReconciliationToDelete(null)}>Cancelar</Button>
+          <Button variant="danger" onClick={handleDeleteReconciliation}>Eliminar</Button>
+        </>}
+      >
+        {reconciliationToDelete && (
+          <p className="text-sm">
+            ¿Eliminar la conciliación de <strong>{tableName(reconciliationToDelete.statementFileId, reconciliationToDelete.statementSheet)}</strong> con <strong>{tableName(reconciliationToDelete.ledgerFileId, reconciliationToDelete.ledgerSheet)}</strong> y sus {reconciliationToDelete.matches.length} partida(s) conciliada(s)? Los archivos no cambian.
+          </p>
+        )}
+      </Modal>
+    </div>
+  );
+};
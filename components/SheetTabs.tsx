@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { PlusIcon, PencilIcon, TrashIcon, ArrowLeftCircleIcon, ArrowRightCircleIcon } from './icons';
+import { validateSheetName, WorkbookSheet } from '../utils/workbook';
+
+interface SheetTabsProps {
+  sheets: WorkbookSheet[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onAdd: () => void;
+  onRename: (index: number, name: string) => void; // Only called with names that pass validateSheetName
+  onDelete: (index: number) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  isReadOnly: boolean;
+}
+
+interface TabMenuState {
+  index: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * The sheet tabs of an Excel document, below the grid. Double-click a tab to rename it, drag it
+ * to reorder, or right-click it for the other options.
+ */
+export const SheetTabs: React.FC<SheetTabsProps> = ({ sheets, activeIndex, onSelect, onAdd, onRename, onDelete, onMove, isReadOnly }) => {
+  const [renamingIndex, setRenamingIndex] = useState<number | null>(null);
+  const [renameInput, setRenameInput] = useState('');
+  const [menu, setMenu] = useState<TabMenuState | null>(null);
+  const [deletingIndex, setDeletingIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const renameError = renamingIndex !== null ? validateSheetName(renameInput, sheets, renamingIndex) : null;
+
+  useEffect(() => {
+    if (!menu) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setMenu(null);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [menu]);
+
+  const startRename = (index: number) => {
+    if (isReadOnly) return;
+    setMenu(null);
+    setRenamingIndex(index);
+    setRenameInput(sheets[index].name);
+  };
+
+  const commitRename = () => {
+    if (renamingIndex !== null && !renameError && renameInput.trim() !== sheets[renamingIndex].name) {
+      onRename(renamingIndex, renameInput.trim());
+    }
+    setRenamingIndex(null);
+  };
+
+  const handleDrop = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) onMove(dragIndex, index);
+    setDragIndex(null);
+  };
+
+  const menuItemClasses = "flex items-center w-full text-left px-3 py-2 text-sm text-slate-700 hover:bg-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex items-center gap-1 mt-2 overflow-x-auto flex-shrink-0" role="tablist" aria-label="Hojas del libro">
+      {sheets.map((sheet, index) => (
+        renamingIndex === index ? (
+          <input
+            key={index}
+            type="text"
+            value={renameInput}
+            onChange={(e) => setRenameInput(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename();
+              if (e.key === 'Escape') setRenamingIndex(null);
+            }}
+            className={`px-2 py-1 text-sm w-36 border rounded-md focus:outline-none focus:ring-2 ${renameError ? 'border-red-400 focus:ring-red-300' : 'border-sky-400 focus:ring-sky-300'}`}
+            title={renameError ?? undefined}
+            aria-invalid={renameError !== null}
+            aria-label={`Nuevo nombre de la hoja ${sheet.name}`}
+            autoFocus
+          />
+        ) : (
+          <button
+            key={index}
+            role="tab"
+            aria-selected={index === activeIndex}
+            draggable={!isReadOnly}
+            onClick={() => onSelect(index)}
+            onDoubleClick={() => startRename(index)}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              if (!isReadOnly) setMenu({ index, x: e.clientX, y: e.clientY });
+            }}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => { if (dragIndex !== null) e.preventDefault(); }}
+            onDrop={(e) => handleDrop(e, index)}
+            onDragEnd={() => setDragIndex(null)}
+            className={`px-3 py-1 text-sm rounded-md border whitespace-nowrap transition-colors ${index === activeIndex ? 'bg-sky-600 border-sky-600 text-white' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-100'} ${dragIndex === index ? 'opacity-50' : ''}`}
+            title={isReadOnly ? sheet.name : `${sheet.name}: doble clic para renombrar, arrastra para reordenar, clic derecho para más opciones`}
+          >
+            {sheet.name}
+          </button>
+        )
+      ))}
+      {!isReadOnly && (
+        <button
+          onClick={onAdd}
+          className="p-1 rounded-md text-slate-500 hover:text-sky-700 hover:bg-sky-50 transition-colors"
+          title="Agregar hoja"
+          aria-label="Agregar hoja"
+        >
+          <PlusIcon className="w-5 h-5" />
+        </button>
+      )}
+
+      {menu && (
+        <div
+          ref={menuRef}
+          className="fixed z-50 w-52 bg-white rounded-md shadow-xl border border-slate-200 py-1"
+          style={{ top: menu.y, left: menu.x }}
+        >
+          <button onClick={() => startRename(menu.index)} className={menuItemClasses}><PencilIcon className="w-4 h-4 mr-2.5" /> Renombrar</button>
+          <button onClick={() => { onMove(menu.index, menu.index - 1); setMenu(null); }} disabled={menu.index === 0} className={menuItemClasses}><ArrowLeftCircleIcon className="w-4 h-4 mr-2.5" /> Mover a la izquierda</button>
+          <button onClick={() => { onMove(menu.index, menu.index + 1); setMenu(null); }} disabled={menu.index === sheets.length - 1} className={menuItemClasses}><ArrowRightCircleIcon className="w-4 h-4 mr-2.5" /> Mover a la derecha</button>
+          <div className="my-1 border-t border-slate-100"></div>
+          <button
+            onClick={() => { setDeletingIndex(menu.index); setMenu(null); }}
+            disabled={sheets.length <= 1}
+            className="flex items-center w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={sheets.length <= 1 ? "Un libro necesita al menos una hoja" : undefined}
+          >
+            <TrashIcon className="w-4 h-4 mr-2.5" /> Eliminar hoja
+          </button>
+        </div>
+      )}
+
+      {deletingIndex !== null && sheets[deletingIndex] && (
+        <Modal
+          isOpen={true}
+          onClose={() => setDeletingIndex(null)}
+          title="Eliminar Hoja"
+          footer={<>
+            <Button variant="secondary" onClick={() => setDeletingIndex(null)}>Cancelar</Button>
+            <Button variant="danger" onClick={() => { onDelete(deletingIndex); setDeletingIndex(null); }}>Eliminar</Button>
+          </>}
+        >
+          <p className="text-sm text-slate-600">¿Eliminar la hoja "{sheets[deletingIndex].name}" y todos sus datos? Puedes recuperarla con Deshacer.</p>
+        </Modal>
+      )}
+    </div>
+  );
+};
@@ -1,18 +1,24 @@
 
 import React from 'react';
-import { FolderIcon, SparklesIcon } from './icons';
+import { FolderIcon, SparklesIcon, BookOpenIcon, ArrowsRightLeftIcon, InboxStackIcon } from './icons';
 import { Button } from './Button';
+import { MainSection } from '../types';
+import { WORKSPACE_LOCALES } from '../constants';
 
 interface SidebarProps {
-  activeMainSection: 'media'; 
-  onNavigateTo: (section: 'media') => void;
+  activeMainSection: MainSection;
+  onNavigateTo: (section: MainSection) => void;
+  locale: string; // Workspace locale for numbers, amounts and dates in tables
+  onLocaleChange: (locale: string) => void;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
   activeMainSection,
   onNavigateTo,
+  locale,
+  onLocaleChange,
 }) => {
-  const navItemClasses = (section: 'media') =>
+  const navItemClasses = (section: MainSection) =>
     `w-full flex items-center space-x-3 px-3 py-2.5 rounded-md text-sm font-medium group relative
      ${activeMainSection === section 
        ? 'bg-slate-700 text-white shadow-inner border-l-4 border-sky-500 pl-[calc(0.75rem-4px)]' // Adjusted padding for border
@@ -37,10 +43,45 @@ export const Sidebar: React.FC<SidebarProps> = ({
           <FolderIcon className="w-5 h-5 flex-shrink-0" />
           <span>Archivos</span>
         </button>
+        <button
+          onClick={() => onNavigateTo('accounts')}
+          className={`${navItemClasses('accounts')} transition-all duration-200 ease-in-out`}
+          aria-current={activeMainSection === 'accounts' ? 'page' : undefined}
+        >
+          <BookOpenIcon className="w-5 h-5 flex-shrink-0" />
+          <span>Plan de Cuentas</span>
+        </button>
+        <button
+          onClick={() => onNavigateTo('reconciliation')}
+          className={`${navItemClasses('reconciliation')} transition-all duration-200 ease-in-out`}
+          aria-current={activeMainSection === 'reconciliation' ? 'page' : undefined}
+        >
+          <ArrowsRightLeftIcon className="w-5 h-5 flex-shrink-0" />
+          <span>Conciliación Bancaria</span>
+        </button>
+        <button
+          onClick={() => onNavigateTo('receipts')}
+          className={`${navItemClasses('receipts')} transition-all duration-200 ease-in-out`}
+          aria-current={activeMainSection === 'receipts' ? 'page' : undefined}
+        >
+          <InboxStackIcon className="w-5 h-5 flex-shrink-0" />
+          <span>Bandeja de Recibos</span>
+        </button>
       </nav>
 
-      <div className="mt-auto pt-6 text-center">
-        <p className="text-xs text-slate-500">© 2025 AI Accounting Assistant</p>
+      <div className="mt-auto pt-6 space-y-4">
+        <label className="block px-1">
+          <span className="block text-xs font-medium text-slate-400 mb-1">Formato regional</span>
+          <select
+            value={locale}
+            onChange={(e) => onLocaleChange(e.target.value)}
+            className="w-full px-2 py-1.5 text-sm bg-slate-800 text-slate-200 border border-slate-700 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500"
+            title="Cómo se leen y muestran los números, importes y fechas de las tablas"
+          >
+            {WORKSPACE_LOCALES.map(option => <option key={option.code} value={option.code}>{option.label}</option>)}
+          </select>
+        </label>
+        <p className="text-xs text-slate-500 text-center">© 2025 AI Accounting Assistant</p>
       </div>
     </div>
   );
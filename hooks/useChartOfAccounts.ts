@@ -0,0 +1,84 @@
+import { useCallback } from 'react';
+import { Account, NotificationType } from '../types';
+import { storageAdapter } from '../services/storage';
+import { usePersistedState } from './usePersistedState';
+import { validateAccount, getDescendantAccountIds, importAccountsFromTable, AccountImportResult } from '../utils/chartOfAccounts';
+import { ParsedCsvData } from '../utils/tabularDataParser';
+
+interface ChartOfAccountsProps {
+  showNotification: (type: NotificationType, message: string, title?: string) => void;
+}
+
+/**
+ * Owns the persisted chart of accounts. Every change is validated (unique code, no cycles)
+ * before it is stored; problems are reported through showNotification.
+ */
+export const useChartOfAccounts = ({ showNotification }: ChartOfAccountsProps) => {
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error("Chart of accounts storage error:", error);
+    showNotification('error', `No se pudo cargar o guardar el plan de cuentas (${storageAdapter.backend}).`, "Error de Almacenamiento");
+  }, [showNotification]);
+
+  const [accounts, setAccounts, isLoaded] = usePersistedState<Account[]>(
+    [],
+    () => storageAdapter.loadAccounts(),
+    (next, previous) => storageAdapter.saveAccounts(next, previous),
+    handleStorageError
+  );
+
+  /**
+   * Adds a new account or replaces the account with the same id.
+   * @returns True if the account was saved, false if it was invalid.
+   */
+  const saveAccount = useCallback((account: Account): boolean => {
+    const normalized = { ...account, code: account.code.trim(), name: account.name.trim() };
+    const problems = validateAccount(normalized, accounts);
+    if (problems.length > 0) {
+      showNotification('error', problems.join(' '), "Cuenta no Válida");
+      return false;
+    }
+    const exists = accounts.some(a => a.id === normalized.id);
+    setAccounts(prev => exists ? prev.map(a => (a.id === normalized.id ? normalized : a)) : [...prev, normalized]);
+    showNotification('success', `Cuenta ${normalized.code} ${exists ? 'actualizada' : 'creada'}.`);
+    return true;
+  }, [accounts, setAccounts, showNotification]);
+
+  const setAccountActive = useCallback((accountId: string, isActive: boolean) => {
+    setAccounts(prev => prev.map(a => (a.id === accountId ? { ...a, isActive } : a)));
+  }, [setAccounts]);
+
+  /** Deletes an account together with its subaccounts. */
+  const deleteAccount = useCallback((accountId: string) => {
+    const removedIds = getDescendantAccountIds(accounts, accountId);
+    removedIds.add(accountId);
+    setAccounts(prev => prev.filter(a => !removedIds.has(a.id)));
+    showNotification('success', `${removedIds.size} cuenta(s) eliminada(s).`);
+  }, [accounts, setAccounts, showNotification]);
+
+  /**
+   * Merges an imported CSV/Excel table into the chart (see importAccountsFromTable).
+   * @returns The import result, or null if the table could not be read.
+   */
+  const importAccounts = useCallback((data: ParsedCsvData, sourceName: string): AccountImportResult | null => {
+    try {
+      const result = importAccountsFromTable(data, accounts);
+      setAccounts(result.accounts);
+      const summary = `${result.createdCount} creada(s), ${result.updatedCount} actualizada(s), ${result.rejected.length} rechazada(s).`;
+      showNotification(result.rejected.length > 0 ? 'info' : 'success', `Importación de "${sourceName}": ${summary}`, "Plan de Cuentas Importado");
+      return result;
+    } catch (error) {
+      console.error("Error importing chart of accounts:", error);
+      showNotification('error', error instanceof Error ? error.message : `No se pudo importar "${sourceName}".`, "Importación Fallida");
+      return null;
+    }
+  }, [accounts, setAccounts, showNotification]);
+
+  return {
+    isLoaded,
+    accounts,
+    saveAccount,
+    setAccountActive,
+    deleteAccount,
+    importAccounts,
+  };
+};
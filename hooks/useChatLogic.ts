@@ -1,33 +1,158 @@
 
-import { useState, useEffect, useCallback } from 'react';
-import { ChatMessage, AIResponse, AISuggestionType, AppFile, NotificationType } from '../types';
-import { getAIResponse } from '../services/geminiService';
-import { generateId, dateReviver } from '../utils/helpers';
-
-const LS_CHAT_MESSAGES_KEY = 'aiLedgerApp_chatMessages_v1';
+import { useState, useCallback, useRef, Dispatch, SetStateAction } from 'react';
+import { ChatMessage, AIResponse, AISuggestionType, AppFile, NotificationType, DocumentProposal, ConversationHistory, Account } from '../types';
+import { aiProvider, AIResponseCancelledError } from '../services/ai';
+import { generateId, isTabularFileName } from '../utils/helpers';
+import { applyDocumentPatch, DocumentPatchError } from '../utils/documentPatch';
+import { buildConversationHistory } from '../utils/conversationHistory';
+import { appendJournalEntryProposals, JournalEntryError } from '../utils/journal';
+import { updateWorkbookSheet, WorkbookError } from '../utils/workbook';
+import { isGeneratedReport } from '../utils/ledger';
+import { CHAT_HISTORY_TOKEN_BUDGET, CHAT_HISTORY_MAX_TURNS, CHAT_HISTORY_SUMMARY_TOKEN_BUDGET } from '../constants';
 
 interface ChatLogicProps {
+  chatMessages: ChatMessage[]; // All threads, from useChatThreads
+  setChatMessages: Dispatch<SetStateAction<ChatMessage[]>>;
   showNotification: (type: NotificationType, message: string, title?: string) => void;
   updateDocumentContentWithHistory: (fileId: string, newContent: string) => void;
+  getCurrentFileContent: (fileId: string) => string | undefined; // Latest content, which may have changed while the AI was answering
+  accounts: Account[]; // Chart of accounts sent with every message
+  isReviewModeEnabled: boolean; // Workspace setting (see useWorkspaceSettings)
 }
 
-export const useChatLogic = ({ showNotification, updateDocumentContentWithHistory }: ChatLogicProps) => {
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>(() => {
-    const savedMessages = localStorage.getItem(LS_CHAT_MESSAGES_KEY);
-    return savedMessages ? JSON.parse(savedMessages, dateReviver).sort((a: ChatMessage, b: ChatMessage) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()) : [];
-  });
+export const useChatLogic = ({ chatMessages, setChatMessages, showNotification, updateDocumentContentWithHistory, getCurrentFileContent, accounts, isReviewModeEnabled }: ChatLogicProps) => {
   const [isAILoading, setIsAILoading] = useState(false);
   const [isAICollaborating, setIsAICollaborating] = useState(false); // For visual feedback during AI doc update
   const [previousDocumentContentForUndo, setPreviousDocumentContentForUndo] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [pendingProposal, setPendingProposal] = useState<DocumentProposal | null>(null);
 
-  useEffect(() => {
-    localStorage.setItem(LS_CHAT_MESSAGES_KEY, JSON.stringify(chatMessages));
-  }, [chatMessages]);
-  
   const addMessageToList = (message: ChatMessage) => {
     setChatMessages(prev => [...prev, message].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()));
   };
 
+  const updateMessage = (messageId: string, changes: Partial<ChatMessage>) => {
+    setChatMessages(prev => prev.map(msg => (msg.id === messageId ? { ...msg, ...changes } : msg)));
+  };
+
+  /** Earlier turns of a thread to send as context, trimmed to the token budget. */
+  const getThreadHistory = (messagesBefore: ChatMessage[], threadFileId: string | null): ConversationHistory | null =>
+    buildConversationHistory(
+      messagesBefore.filter(msg => (msg.fileId ?? null) === threadFileId),
+      CHAT_HISTORY_TOKEN_BUDGET,
+      CHAT_HISTORY_MAX_TURNS,
+      CHAT_HISTORY_SUMMARY_TOKEN_BUDGET
+    );
+
+  const applyAIContent = useCallback((fileId: string, previousContent: string, newContent: string) => {
+    setPreviousDocumentContentForUndo(previousContent);
+    setIsAICollaborating(true); // For visual feedback in DocumentEditor
+    updateDocumentContentWithHistory(fileId, newContent);
+    setTimeout(() => setIsAICollaborating(false), 500); // Reset visual feedback
+  }, [updateDocumentContentWithHistory]);
+
+  /**
+   * Streams the AI reply into the placeholder message `aiMessageId`.
+   * The chat bubble fills in as text arrives; a document change is applied (or, in review
+   * mode, proposed) only after the complete response has been received and validated. A whole
+   * rewrite of a document the user edited meanwhile is always proposed rather than applied.
+   */
+  const streamAIReply = useCallback(async (
+    aiMessageId: string,
+    messageText: string,
+    activeFile: AppFile | undefined | null,
+    imagePart: ChatMessage['imagePart'] | undefined,
+    history: ConversationHistory | null
+  ) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      const documentContext = activeFile ? activeFile.content : "";
+      const aiResult: AIResponse = await aiProvider.streamResponse(messageText, documentContext, imagePart, history, accounts, {
+        signal: abortController.signal,
+        onChatMessageProgress: (partialText) => updateMessage(aiMessageId, { text: partialText }),
+      });
+
+      let finalText = aiResult.chat_message;
+      const isDocumentChange = aiResult.action_type === AISuggestionType.DOCUMENT_UPDATE ||
+        aiResult.action_type === AISuggestionType.DOCUMENT_PATCH ||
+        aiResult.action_type === AISuggestionType.JOURNAL_ENTRIES;
+      if (isDocumentChange && activeFile) {
+        // Changes are computed against the current content, which may have been edited while the AI was answering
+        const baseContent = getCurrentFileContent(activeFile.id);
+        let proposedContent: string | null = null;
+        if (baseContent === undefined) {
+          finalText += " (Nota: El documento ya no existe; no se aplicaron los cambios.)";
+        } else if (isGeneratedReport(activeFile)) {
+          finalText += " (Nota: El documento es un informe generado de solo lectura; no se aplicaron los cambios. Duplícalo para editar una copia.)";
+        } else if (aiResult.action_type === AISuggestionType.DOCUMENT_UPDATE && typeof aiResult.new_document_content === 'string') {
+          proposedContent = aiResult.new_document_content;
+        } else if (aiResult.action_type === AISuggestionType.DOCUMENT_PATCH && aiResult.patch_operations && baseContent !== documentContext) {
+          // Row and line numbers refer to the content the AI read; an inserted or deleted row would shift them
+          finalText += " (No se aplicaron los cambios: el documento se editó mientras la IA respondía. Vuelve a pedírselo.)";
+        } else if (aiResult.action_type === AISuggestionType.DOCUMENT_PATCH && aiResult.patch_operations) {
+          // Rows or lines that do not hold the original values the AI read make the whole patch fail
+          try {
+            proposedContent = applyDocumentPatch(baseContent, aiResult.patch_operations, isTabularFileName(activeFile.name));
+          } catch (patchError) {
+            if (!(patchError instanceof DocumentPatchError)) throw patchError;
+            console.warn("Rejected AI document patch:", patchError.message, aiResult.patch_operations);
+            finalText += ` (No se aplicaron los cambios: ${patchError.message})`;
+          }
+        } else if (aiResult.action_type === AISuggestionType.JOURNAL_ENTRIES && aiResult.journal_entries) {
+          // Proposed entries are added as drafts; the user posts them once reviewed
+          try {
+            let unbalancedCount = 0;
+            proposedContent = updateWorkbookSheet(baseContent, aiResult.sheet, sheetContent => {
+              const appended = appendJournalEntryProposals(sheetContent, aiResult.journal_entries!);
+              unbalancedCount = appended.unbalancedCount;
+              return appended.content;
+            });
+            finalText += " (Los asientos se agregaron como borrador; revísalos y contabilízalos.";
+            finalText += unbalancedCount > 0 ? ` ${unbalancedCount} de ellos no cuadran y no se podrán contabilizar hasta corregirlos.)` : ')';
+          } catch (journalError) {
+            if (!(journalError instanceof JournalEntryError || journalError instanceof WorkbookError)) throw journalError;
+            finalText += ` (No se registraron los asientos: ${journalError.message})`;
+          }
+        }
+
+        if (baseContent !== undefined && proposedContent !== null) {
+          if (proposedContent === baseContent) {
+            finalText += " (El documento no cambió.)";
+          } else if (isReviewModeEnabled) {
+            setPendingProposal({ fileId: activeFile.id, baseContent, proposedContent, createdAt: new Date() });
+            finalText += " (Revisa los cambios propuestos en el editor antes de aplicarlos.)";
+          } else if (aiResult.action_type === AISuggestionType.DOCUMENT_UPDATE && baseContent !== documentContext) {
+            // The whole document was rewritten from the content the AI read, so applying it would drop the user's edits
+            setPendingProposal({ fileId: activeFile.id, baseContent, proposedContent, createdAt: new Date() });
+            finalText += " (El documento se editó mientras la IA respondía; revisa los cambios propuestos en el editor para no perder tus ediciones.)";
+          } else {
+            applyAIContent(activeFile.id, baseContent, proposedContent);
+          }
+        }
+      } else if (isDocumentChange && !activeFile) {
+        finalText += " (Nota: No hay un documento activo para aplicar cambios.)";
+      }
+      updateMessage(aiMessageId, { text: finalText, isStreaming: false });
+
+    } catch (error) {
+      if (error instanceof AIResponseCancelledError) {
+        setChatMessages(prev => prev.map(msg => msg.id === aiMessageId
+          ? { ...msg, text: msg.text ? `${msg.text} (Respuesta cancelada)` : "Respuesta cancelada.", isStreaming: false }
+          : msg));
+      } else {
+        console.error("Error in AI interaction (streamAIReply):", error);
+        updateMessage(aiMessageId, { text: "Hubo un problema contactando a la IA.", isStreaming: false });
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setIsAILoading(false);
+    }
+  }, [getCurrentFileContent, accounts, isReviewModeEnabled, applyAIContent]);
+
   const sendNewMessage = useCallback(async (
     messageText: string, 
     activeFile: AppFile | undefined | null,
@@ -38,62 +163,34 @@ export const useChatLogic = ({ showNotification, updateDocumentContentWithHistor
       showNotification('info', "Por favor, escribe un mensaje o adjunta una imagen.", "Mensaje Vacío");
       return;
     }
-    if (!activeFile && !imagePart && messageText.trim()) {
-      showNotification('info', "Por favor, abre un documento o adjunta una imagen para chatear.", "Contexto Requerido");
-      return;
-    }
 
+    // The document passed in is the thread's file; without one the message goes to the general thread
+    const threadFileId = activeFile?.id ?? null;
     const userMessage: ChatMessage = { 
         id: generateId(), 
+        fileId: threadFileId,
         sender: 'user', 
         text: messageText, 
         timestamp: new Date(), 
         imagePart, 
         imagePreviewUrl 
     };
+    const aiPlaceholderMessage: ChatMessage = {
+        id: generateId(),
+        fileId: threadFileId,
+        sender: 'ai',
+        text: '',
+        timestamp: new Date(),
+        isStreaming: true,
+    };
+    const history = getThreadHistory(chatMessages, threadFileId);
     addMessageToList(userMessage);
+    addMessageToList(aiPlaceholderMessage);
     setIsAILoading(true);
     setPreviousDocumentContentForUndo(null);
 
-    try {
-      const documentContext = activeFile ? activeFile.content : "";
-      const aiResult: AIResponse = await getAIResponse(messageText, documentContext, imagePart);
-      
-      if (aiResult.action_type === AISuggestionType.DOCUMENT_UPDATE && aiResult.new_document_content !== null && activeFile) {
-        setPreviousDocumentContentForUndo(activeFile.content);
-        setIsAICollaborating(true); // For visual feedback in DocumentEditor
-        updateDocumentContentWithHistory(activeFile.id, aiResult.new_document_content);
-        setTimeout(() => setIsAICollaborating(false), 500); // Reset visual feedback
-      } else if (aiResult.action_type === AISuggestionType.DOCUMENT_UPDATE && !activeFile) {
-        addMessageToList({ 
-          id: generateId(), 
-          sender: 'ai', 
-          text: aiResult.chat_message + " (Nota: No hay un documento activo para aplicar cambios.)", 
-          timestamp: new Date() 
-        });
-        setIsAILoading(false);
-        return;
-      }
-      
-      addMessageToList({ 
-        id: generateId(), 
-        sender: 'ai', 
-        text: aiResult.chat_message, 
-        timestamp: new Date() 
-      });
-
-    } catch (error) {
-      console.error("Error in AI interaction (sendNewMessage):", error);
-      addMessageToList({ 
-        id: generateId(), 
-        sender: 'ai', 
-        text: "Hubo un problema contactando a la IA.", 
-        timestamp: new Date() 
-      });
-    } finally {
-      setIsAILoading(false);
-    }
-  }, [showNotification, updateDocumentContentWithHistory]);
+    await streamAIReply(aiPlaceholderMessage.id, messageText, activeFile, imagePart, history);
+  }, [chatMessages, showNotification, streamAIReply]);
 
 
   const editAndRegenerateMessage = useCallback(async (
@@ -126,69 +223,58 @@ export const useChatLogic = ({ showNotification, updateDocumentContentWithHistor
       imagePreviewUrl: originalUserMessageImagePreviewUrl,
     };
   
-    if (userMessageIndex + 1 < tempUpdatedMessages.length && tempUpdatedMessages[userMessageIndex + 1].sender === 'ai') {
-      oldAiMessageIdToRemove = tempUpdatedMessages[userMessageIndex + 1].id;
+    // The reply to replace is the next message of the same thread (other threads may be interleaved in time)
+    const threadFileId = tempUpdatedMessages[userMessageIndex].fileId ?? null;
+    const history = getThreadHistory(tempUpdatedMessages.slice(0, userMessageIndex), threadFileId);
+    const nextThreadMessage = tempUpdatedMessages.slice(userMessageIndex + 1).find(msg => (msg.fileId ?? null) === threadFileId);
+    if (nextThreadMessage && nextThreadMessage.sender === 'ai') {
+      oldAiMessageIdToRemove = nextThreadMessage.id;
     }
   
     if (oldAiMessageIdToRemove) {
       tempUpdatedMessages = tempUpdatedMessages.filter(msg => msg.id !== oldAiMessageIdToRemove);
     }
+
+    // Placeholder for the regenerated reply, right after the edited message
+    const aiPlaceholderMessage: ChatMessage = {
+      id: generateId(),
+      fileId: threadFileId,
+      sender: 'ai',
+      text: '',
+      timestamp: new Date(),
+      isStreaming: true,
+    };
+    tempUpdatedMessages.push(aiPlaceholderMessage);
     
     setChatMessages([...tempUpdatedMessages].sort((a,b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()));
   
-    try {
-      const documentContext = activeFile ? activeFile.content : "";
-      const aiResult: AIResponse = await getAIResponse(newText, documentContext, originalUserMessageImagePart);
-  
-      const newAiResponseMessage: ChatMessage = {
-        id: generateId(),
-        sender: 'ai',
-        text: aiResult.chat_message,
-        timestamp: new Date()
-      };
-  
-      if (aiResult.action_type === AISuggestionType.DOCUMENT_UPDATE && aiResult.new_document_content !== null && activeFile) {
-        setPreviousDocumentContentForUndo(activeFile.content);
-        setIsAICollaborating(true);
-        updateDocumentContentWithHistory(activeFile.id, aiResult.new_document_content);
-        setTimeout(() => setIsAICollaborating(false), 500);
-      } else if (aiResult.action_type === AISuggestionType.DOCUMENT_UPDATE && !activeFile) {
-        newAiResponseMessage.text += " (Nota: No hay un documento activo para aplicar cambios.)";
-      }
-      
-      setChatMessages((prev: ChatMessage[]): ChatMessage[] => {
-        const finalMessages = [...prev]; 
-        const updatedUserMessageIdx = finalMessages.findIndex(m => m.id === originalUserMessageId);
-        if (updatedUserMessageIdx !== -1) {
-          finalMessages.splice(updatedUserMessageIdx + 1, 0, newAiResponseMessage);
-        } else {
-          finalMessages.push(newAiResponseMessage);
-        }
-        return finalMessages.sort((a,b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-      });
-  
-    } catch (error) {
-      console.error("Error in AI interaction (edit/regenerate):", error);
-      const errorResponseMessage: ChatMessage = {
-        id: generateId(),
-        sender: 'ai',
-        text: "Hubo un problema contactando a la IA durante la regeneración.",
-        timestamp: new Date()
-      };
-      setChatMessages((prev: ChatMessage[]): ChatMessage[] => {
-          const finalMessages = [...prev];
-          const updatedUserMessageIdx = finalMessages.findIndex(m => m.id === originalUserMessageId);
-          if (updatedUserMessageIdx !== -1) {
-            finalMessages.splice(updatedUserMessageIdx + 1, 0, errorResponseMessage);
-          } else {
-            finalMessages.push(errorResponseMessage);
-          }
-          return finalMessages.sort((a,b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-      });
-    } finally {
-      setIsAILoading(false);
+    await streamAIReply(aiPlaceholderMessage.id, newText, activeFile, originalUserMessageImagePart, history);
+  }, [chatMessages, showNotification, streamAIReply]);
+
+  const cancelAIResponse = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Applies the reviewed proposal. `acceptedContent` is the proposal with the hunks the user accepted.
+   * If the document was edited after the proposal was made, nothing is applied.
+   */
+  const acceptProposal = useCallback((acceptedContent: string) => {
+    if (!pendingProposal) return;
+    const currentContent = getCurrentFileContent(pendingProposal.fileId);
+    setPendingProposal(null);
+    if (currentContent !== pendingProposal.baseContent) {
+      showNotification('error', "El documento cambió después de que la IA propusiera los cambios. Pídele que lo intente de nuevo.", "Propuesta Desactualizada");
+      return;
+    }
+    if (acceptedContent !== currentContent) {
+      applyAIContent(pendingProposal.fileId, currentContent, acceptedContent);
     }
-  }, [chatMessages, showNotification, updateDocumentContentWithHistory]);
+  }, [pendingProposal, getCurrentFileContent, showNotification, applyAIContent]);
+
+  const rejectProposal = useCallback(() => {
+    setPendingProposal(null);
+  }, []);
 
   const deleteChatMessage = useCallback((messageId: string) => {
     setChatMessages(prev => prev.filter(msg => msg.id !== messageId).sort((a,b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()));
@@ -203,32 +289,36 @@ export const useChatLogic = ({ showNotification, updateDocumentContentWithHistor
     }
   }, [previousDocumentContentForUndo, updateDocumentContentWithHistory, showNotification]);
 
-  const addWelcomeMessage = useCallback((fileName: string, isNewFile: boolean) => {
+  const addWelcomeMessage = useCallback((fileId: string, fileName: string, isNewFile: boolean) => {
     const welcomeText = isNewFile 
       ? `Has creado y abierto "${fileName}". ¿En qué puedo ayudarte?`
       : `Has abierto "${fileName}". ¿En qué puedo ayudarte?`;
     
     setChatMessages((prevMessages) => {
-      // Remove previous "Has abierto..." style messages to keep chat clean
-      const filteredMessages = prevMessages.filter(m => !(m.sender === 'ai' && (m.text.startsWith("Has abierto") || m.text.startsWith("Has creado y abierto")) ));
+      // Only greet in an empty thread; an existing conversation is shown as it was left
+      if (prevMessages.some(m => m.fileId === fileId)) return prevMessages;
       const newMessage: ChatMessage = {
         id: generateId(),
+        fileId,
         sender: 'ai',
         text: welcomeText,
         timestamp: new Date()
       };
-      return [...filteredMessages, newMessage].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      return [...prevMessages, newMessage].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
     });
   }, []);
 
 
   return {
-    chatMessages,
     isAILoading,
     isAICollaborating,
     previousDocumentContentForUndo, // For DocumentEditor to consume
     sendNewMessage,
     editAndRegenerateMessage,
+    cancelAIResponse,
+    pendingProposal,
+    acceptProposal,
+    rejectProposal,
     deleteChatMessage,
     undoAIDocumentChange,
     addWelcomeMessage,
@@ -0,0 +1,49 @@
+import { useCallback } from 'react';
+import { ChatMessage } from '../types';
+import { generateId } from '../utils/helpers';
+import { storageAdapter } from '../services/storage';
+import { usePersistedState } from './usePersistedState';
+
+const CHAT_SAVE_DEBOUNCE_MS = 300; // Streaming replies update the message on every chunk
+
+const byTimestamp = (a: ChatMessage, b: ChatMessage) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+/**
+ * Owns the persisted chat messages. Every message belongs to a thread: the file it is about
+ * (`fileId`), or the general thread when `fileId` is null/absent (including messages saved
+ * before threads existed). Threads follow their file through duplicate and permanent delete;
+ * a trashed file keeps its thread so it comes back on restore.
+ */
+export const useChatThreads = () => {
+  const [chatMessages, setChatMessages, isLoaded] = usePersistedState<ChatMessage[]>(
+    [],
+    async () => (await storageAdapter.loadChatMessages())
+      // A reply that was still streaming when the page closed can never finish
+      .map(msg => (msg.isStreaming ? { ...msg, isStreaming: false } : msg))
+      .sort(byTimestamp),
+    (next, previous) => storageAdapter.saveChatMessages(next, previous),
+    undefined,
+    CHAT_SAVE_DEBOUNCE_MS
+  );
+
+  const copyThread = useCallback((fromFileId: string, toFileId: string) => {
+    setChatMessages(prev => {
+      const copies = prev
+        .filter(msg => msg.fileId === fromFileId)
+        .map(msg => ({ ...msg, id: generateId(), fileId: toFileId, isStreaming: false }));
+      return copies.length > 0 ? [...prev, ...copies].sort(byTimestamp) : prev;
+    });
+  }, []);
+
+  const deleteThreads = useCallback((fileIds: string[]) => {
+    setChatMessages(prev => prev.filter(msg => !msg.fileId || !fileIds.includes(msg.fileId)));
+  }, []);
+
+  return {
+    isLoaded,
+    chatMessages,
+    setChatMessages,
+    copyThread,
+    deleteThreads,
+  };
+};
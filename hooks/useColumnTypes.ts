@@ -0,0 +1,68 @@
+import { useCallback } from 'react';
+import { ColumnTypeSetting, FileColumnTypes, NotificationType } from '../types';
+import { storageAdapter } from '../services/storage';
+import { usePersistedState } from './usePersistedState';
+
+interface ColumnTypesProps {
+  showNotification: (type: NotificationType, message: string, title?: string) => void;
+}
+
+const NO_OVERRIDES: Record<string, ColumnTypeSetting> = {}; // Shared, so a sheet without overrides keeps the same object
+
+/**
+ * The column types the user chose in the grid header (see utils/columnTypes.ts). Columns without a
+ * chosen type get an inferred one. They are persisted through the storage adapter and follow their
+ * file through duplicate and permanent delete. The locale they are read in is a workspace setting
+ * (see useWorkspaceSettings).
+ */
+export const useColumnTypes = ({ showNotification }: ColumnTypesProps) => {
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error("Column types storage error:", error);
+    showNotification('error', `No se pudieron cargar o guardar los tipos de columna (${storageAdapter.backend}).`, "Error de Almacenamiento");
+  }, [showNotification]);
+
+  const [columnTypes, setColumnTypes, isLoaded] = usePersistedState<Record<string, FileColumnTypes>>(
+    {},
+    () => storageAdapter.loadColumnTypes(),
+    (next, previous) => storageAdapter.saveColumnTypes(next, previous),
+    handleStorageError
+  );
+
+  /** The types chosen for the columns of a sheet, by header. */
+  const getColumnTypeOverrides = useCallback((fileId: string, sheetName: string): Record<string, ColumnTypeSetting> =>
+    columnTypes[fileId]?.[sheetName] ?? NO_OVERRIDES,
+  [columnTypes]);
+
+  /** Chooses the type of a column, or goes back to the inferred type with null. */
+  const setColumnTypeOverride = useCallback((fileId: string, sheetName: string, header: string, setting: ColumnTypeSetting | null) => {
+    setColumnTypes(prev => {
+      const sheetOverrides = { ...prev[fileId]?.[sheetName] };
+      if (setting) sheetOverrides[header] = setting;
+      else delete sheetOverrides[header];
+      return { ...prev, [fileId]: { ...prev[fileId], [sheetName]: sheetOverrides } };
+    });
+  }, [setColumnTypes]);
+
+  /** Gives a duplicated file the column types of the original. */
+  const copyFileColumnTypes = useCallback((fromFileId: string, toFileId: string) => {
+    setColumnTypes(prev => (prev[fromFileId] ? { ...prev, [toFileId]: prev[fromFileId] } : prev));
+  }, [setColumnTypes]);
+
+  /** Removes the column types of permanently deleted files. */
+  const deleteFileColumnTypes = useCallback((fileIds: string[]) => {
+    setColumnTypes(prev => {
+      if (!fileIds.some(fileId => fileId in prev)) return prev;
+      const next = { ...prev };
+      fileIds.forEach(fileId => delete next[fileId]);
+      return next;
+    });
+  }, [setColumnTypes]);
+
+  return {
+    isLoaded,
+    getColumnTypeOverrides,
+    setColumnTypeOverride,
+    copyFileColumnTypes,
+    deleteFileColumnTypes,
+  };
+};
@@ -1,23 +1,20 @@
 
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback } from 'react';
+import { DocumentHistoryEntry } from '../types';
+import { storageAdapter } from '../services/storage';
+import { usePersistedState } from './usePersistedState';
 
-const LS_DOCUMENT_HISTORIES_KEY = 'aiLedgerApp_documentHistories_v1'; // v1 to avoid conflict with App.tsx's old key immediately
 const MAX_HISTORY_STEPS = 50;
-
-export interface DocumentHistoryEntry {
-  history: string[];
-  currentIndex: number;
-}
+const HISTORY_SAVE_DEBOUNCE_MS = 500;
 
 export const useDocumentHistory = () => {
-  const [documentHistories, setDocumentHistories] = useState<Record<string, DocumentHistoryEntry>>(() => {
-    const savedHistories = localStorage.getItem(LS_DOCUMENT_HISTORIES_KEY);
-    return savedHistories ? JSON.parse(savedHistories) : {};
-  });
-
-  useEffect(() => {
-    localStorage.setItem(LS_DOCUMENT_HISTORIES_KEY, JSON.stringify(documentHistories));
-  }, [documentHistories]);
+  const [documentHistories, setDocumentHistories, isLoaded] = usePersistedState<Record<string, DocumentHistoryEntry>>(
+    {},
+    () => storageAdapter.loadDocumentHistories(),
+    (next, previous) => storageAdapter.saveDocumentHistories(next, previous),
+    undefined,
+    HISTORY_SAVE_DEBOUNCE_MS
+  );
 
   const initializeHistory = useCallback((fileId: string, initialContent: string) => {
     setDocumentHistories(prev => {
@@ -114,6 +111,7 @@ export const useDocumentHistory = () => {
 
 
   return {
+    isLoaded,
     documentHistories, // Mainly for direct inspection or complex scenarios, prefer specific functions
     initializeHistory,
     addHistoryStep,
@@ -1,49 +1,66 @@
 
-import { useState, useEffect, useCallback } from 'react';
-import { Folder, AppFile } from '../types';
-import { generateId, dateReviver } from '../utils/helpers';
+import { useState, useCallback } from 'react';
+import { Folder, AppFile, FileOriginal, ReportSource } from '../types';
+import { downloadBlob, generateId, getFileCopyFields } from '../utils/helpers';
+import { storageAdapter } from '../services/storage';
+import { usePersistedState } from './usePersistedState';
 
-const LS_FOLDERS_KEY = 'aiLedgerApp_folders_v3';
-const LS_FILES_KEY = 'aiLedgerApp_files_v3';
+const FILES_SAVE_DEBOUNCE_MS = 500; // Editor keystrokes update file content; batch them into one write
 
 interface FileSystemProps {
   showNotification: (type: 'success' | 'error' | 'info', message: string, title?: string) => void;
   initializeHistory: (fileId: string, initialContent: string) => void;
   deleteFileHistory: (fileId: string) => void;
   resetFileHistory: (fileId: string, content: string) => void;
+  copyChatThread: (fromFileId: string, toFileId: string) => void;
+  deleteChatThreads: (fileIds: string[]) => void;
+  deleteFileReconciliations: (fileIds: string[]) => void;
+  copyFileColumnTypes: (fromFileId: string, toFileId: string) => void;
+  deleteFileColumnTypes: (fileIds: string[]) => void;
 }
 
 export const useFileSystem = ({ 
   showNotification, 
   initializeHistory, 
   deleteFileHistory,
-  resetFileHistory 
+  resetFileHistory,
+  copyChatThread,
+  deleteChatThreads,
+  deleteFileReconciliations,
+  copyFileColumnTypes,
+  deleteFileColumnTypes
 }: FileSystemProps) => {
-  const [folders, setFolders] = useState<Folder[]>(() => {
-    const savedFolders = localStorage.getItem(LS_FOLDERS_KEY);
-    return savedFolders ? JSON.parse(savedFolders, dateReviver) : [];
-  });
-  const [files, setFiles] = useState<AppFile[]>(() => {
-    const savedFiles = localStorage.getItem(LS_FILES_KEY);
-    return savedFiles ? JSON.parse(savedFiles, dateReviver) : [];
-  });
-  const [activeFileId, setActiveFileId] = useState<string | null>(null);
-
-  useEffect(() => {
-    localStorage.setItem(LS_FOLDERS_KEY, JSON.stringify(folders));
-  }, [folders]);
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error("File system storage error:", error);
+    showNotification('error', `No se pudieron cargar o guardar los archivos (${storageAdapter.backend}).`, "Error de Almacenamiento");
+  }, [showNotification]);
 
-  useEffect(() => {
-    localStorage.setItem(LS_FILES_KEY, JSON.stringify(files));
-  }, [files]);
+  // Folders are declared before files so their saves are issued first (a new file may live in a new folder).
+  const [folders, setFolders, areFoldersLoaded] = usePersistedState<Folder[]>(
+    [],
+    () => storageAdapter.loadFolders(),
+    (next, previous) => storageAdapter.saveFolders(next, previous),
+    handleStorageError
+  );
+  const [files, setFiles, areFilesLoaded] = usePersistedState<AppFile[]>(
+    [],
+    () => storageAdapter.loadFiles(),
+    (next, previous) => storageAdapter.saveFiles(next, previous),
+    handleStorageError,
+    FILES_SAVE_DEBOUNCE_MS
+  );
+  const [activeFileId, setActiveFileId] = useState<string | null>(null);
 
-  const createFolder = useCallback((folderName: string, parentId: string | null) => {
+  const createFolder = useCallback((folderName: string, parentId: string | null): Folder => {
     const newFolder: Folder = { id: generateId(), name: folderName, parentId, deletedAt: null };
     setFolders(prev => [...prev, newFolder]);
     showNotification('success', `Carpeta "${newFolder.name}" creada.`);
+    return newFolder;
   }, [showNotification]);
 
-  const createFile = useCallback((fileName: string, folderId: string | null, content?: string): AppFile => {
+  const createFile = useCallback((
+    fileName: string, folderId: string | null, content?: string, openAfterCreate = content === undefined, report?: ReportSource, original?: FileOriginal
+  ): AppFile => {
     const initialContent = content === undefined ? "" : content; // Default to empty string if content is for new file
     const newFile: AppFile = { 
         id: generateId(), 
@@ -51,12 +68,14 @@ export const useFileSystem = ({
         folderId, 
         content: initialContent, 
         createdAt: new Date(), 
-        deletedAt: null 
+        deletedAt: null,
+        report: report ?? null,
+        original: original ?? null
     };
     setFiles(prev => [...prev, newFile]);
     initializeHistory(newFile.id, initialContent);
     
-    if (content === undefined) { // A new, empty file was created by user action
+    if (openAfterCreate) { // A new file was created by user action
       setActiveFileId(newFile.id); 
       // Welcome message for new file will be handled by chat logic based on activeFileId change
     } else { // File was uploaded/processed
@@ -65,6 +84,38 @@ export const useFileSystem = ({
     return newFile;
   }, [showNotification, initializeHistory]);
 
+  /**
+   * Creates a file from an upload and keeps the uploaded bytes as its original.
+   * @param content Text or CSV parsed from the upload; '' for images and PDFs, which are only previewed.
+   */
+  const createFileFromUpload = useCallback((upload: File, fileName: string, folderId: string | null, content: string): AppFile => {
+    const newFile = createFile(fileName, folderId, content, false, undefined, {
+      name: upload.name,
+      mimeType: upload.type || 'application/octet-stream',
+      size: upload.size,
+    });
+    storageAdapter.saveFileOriginal(newFile.id, upload).catch(handleStorageError);
+    return newFile;
+  }, [createFile, handleStorageError]);
+
+  const loadFileOriginal = useCallback((fileId: string) => storageAdapter.loadFileOriginal(fileId), []);
+
+  const downloadFileOriginal = useCallback(async (fileId: string) => {
+    const file = files.find(f => f.id === fileId);
+    if (!file?.original) return;
+    try {
+      const original = await storageAdapter.loadFileOriginal(fileId);
+      if (original) {
+        downloadBlob(original, file.original.name);
+      } else {
+        showNotification('error', `No se encontró el archivo original de "${file.name}".`, "Descarga Fallida");
+      }
+    } catch (error) {
+      console.error("Error loading file original:", error);
+      showNotification('error', `No se pudo cargar el archivo original de "${file.name}" (${storageAdapter.backend}).`, "Descarga Fallida");
+    }
+  }, [files, showNotification]);
+
   const selectFile = useCallback((fileId: string | null) => {
     if (fileId === null) {
         setActiveFileId(null);
@@ -173,13 +224,16 @@ export const useFileSystem = ({
     setFolders(prevFolders => prevFolders.filter(f => !allFoldersToDeletePerm.includes(f.id)));
     
     allFilesToDeletePerm.forEach(id => deleteFileHistory(id));
+    deleteChatThreads(allFilesToDeletePerm);
+    deleteFileReconciliations(allFilesToDeletePerm);
+    deleteFileColumnTypes(allFilesToDeletePerm);
 
     if (activeFileId && allFilesToDeletePerm.includes(activeFileId)) {
         setActiveFileId(null);
     }
     const count = allFilesToDeletePerm.length + allFoldersToDeletePerm.length;
     showNotification('success', `${count} elemento(s) eliminado(s) permanentemente.`);
-  }, [files, folders, activeFileId, getAllDescendantAndSelfIds, showNotification, deleteFileHistory]);
+  }, [files, folders, activeFileId, getAllDescendantAndSelfIds, showNotification, deleteFileHistory, deleteChatThreads, deleteFileReconciliations, deleteFileColumnTypes]);
   
   const moveItems = useCallback((itemIdsToMove: string[], itemTypes: ('file' | 'folder')[], targetParentId: string | null) => {
     setFiles(prevFiles => 
@@ -210,19 +264,30 @@ export const useFileSystem = ({
   const duplicateFile = (fileId: string) => {
     const originalFile = files.find(f => f.id === fileId);
     if (!originalFile) return;
-    const newFileName = `Copia de ${originalFile.name}`;
+    const copy = getFileCopyFields(originalFile);
     // Use the createFile function to handle new file creation and history initialization
-    createFile(newFileName, originalFile.folderId, originalFile.content);
+    const newFile = createFile(copy.name, copy.folderId, copy.content, undefined, copy.report ?? undefined, copy.original ?? undefined);
+    copyChatThread(originalFile.id, newFile.id); // The copy starts with the original's conversation
+    copyFileColumnTypes(originalFile.id, newFile.id);
+    if (originalFile.original) { // The copy keeps the uploaded file too
+      storageAdapter.loadFileOriginal(originalFile.id)
+        .then(upload => upload && storageAdapter.saveFileOriginal(newFile.id, upload))
+        .catch(handleStorageError);
+    }
     // showNotification is handled by createFile for uploaded/processed files
   };
 
   return {
+    isLoaded: areFoldersLoaded && areFilesLoaded,
     folders,
     files,
     activeFileId,
     setActiveFileId: selectFile, // Renamed for clarity, selectFile handles logic
     createFolder,
     createFile,
+    createFileFromUpload,
+    loadFileOriginal,
+    downloadFileOriginal,
     selectFile, // Keep selectFile for direct use if needed
     updateFileContentOnly,
     deleteItems,
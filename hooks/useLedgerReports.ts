@@ -0,0 +1,132 @@
+import { useState, useCallback } from 'react';
+import { Account, AppFile, LedgerColumnMapping, NotificationType, ReportKind, ReportSource } from '../types';
+import { serializeCsv, ParsedCsvData } from '../utils/tabularDataParser';
+import {
+  getLedgerSourceFiles,
+  collectTableHeaders,
+  suggestLedgerColumnMapping,
+  readLedgerPostings,
+  buildGeneralLedger,
+  buildTrialBalance,
+  isTrialBalanceBalanced,
+  generalLedgerToTable,
+  trialBalanceToTable,
+  formatLedgerPeriod,
+  LedgerPeriod,
+  REPORT_KIND_LABELS,
+} from '../utils/ledger';
+import { buildIncomeStatement, buildBalanceSheet, buildCashFlowStatement, financialStatementToTable, FinancialStatement } from '../utils/financialStatements';
+
+const LS_LEDGER_MAPPINGS_KEY = 'aiLedgerApp_ledgerColumnMappings_v1';
+const ROOT_FOLDER_KEY = '__root__'; // Mapping key of the root folder (folder ids are never this)
+
+interface LedgerReportsProps {
+  files: AppFile[];
+  accounts: Account[];
+  locale: string; // Workspace locale, used to read the amounts of mapped tables
+  createFile: (fileName: string, folderId: string | null, content: string, openAfterCreate: boolean, report: ReportSource) => AppFile;
+  showNotification: (type: NotificationType, message: string, title?: string) => void;
+}
+
+const loadColumnMappings = (): Record<string, LedgerColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(LS_LEDGER_MAPPINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Generates the general ledger, trial balance and financial statements of a folder's
+ * journal-style tables as read-only report files. The column mapping used for each folder
+ * is remembered.
+ */
+export const useLedgerReports = ({ files, accounts, locale, createFile, showNotification }: LedgerReportsProps) => {
+  const [columnMappings, setColumnMappings] = useState<Record<string, LedgerColumnMapping>>(loadColumnMappings);
+
+  /** The mapping last used for the folder, or one guessed from its tables' headers. */
+  const getColumnMapping = useCallback((folderId: string | null): LedgerColumnMapping =>
+    columnMappings[folderId ?? ROOT_FOLDER_KEY] ?? suggestLedgerColumnMapping(collectTableHeaders(getLedgerSourceFiles(files, folderId, locale))),
+  [columnMappings, files, locale]);
+
+  const saveColumnMapping = useCallback((folderId: string | null, mapping: LedgerColumnMapping) => {
+    setColumnMappings(prev => {
+      const next = { ...prev, [folderId ?? ROOT_FOLDER_KEY]: mapping };
+      localStorage.setItem(LS_LEDGER_MAPPINGS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  /**
+   * Reads the folder's tables and opens the report as a new file in the same folder.
+   * @param period The report's period; the balance sheet uses only its end date.
+   * @param comparison The prior period shown next to financial statements, or null for none.
+   * @returns True if the report was created, false if there was nothing to report.
+   */
+  const generateReport = useCallback((
+    kind: ReportKind,
+    folderId: string | null,
+    period: LedgerPeriod,
+    comparison: LedgerPeriod | null,
+    mapping: LedgerColumnMapping
+  ): boolean => {
+    const isFinancialStatement = kind === 'income_statement' || kind === 'balance_sheet' || kind === 'cash_flow';
+    if (isFinancialStatement && accounts.length === 0) {
+      showNotification('error', "Los estados financieros clasifican las cuentas según el plan de cuentas. Crea o importa el plan de cuentas primero.", "Informe no Generado");
+      return false;
+    }
+    saveColumnMapping(folderId, mapping);
+    const read = readLedgerPostings(getLedgerSourceFiles(files, folderId, locale), mapping, accounts, locale);
+    if (read.postings.length === 0) {
+      const reasons = read.skippedFiles.map(skipped => `${skipped.fileName}: ${skipped.reason}`);
+      if (read.draftEntryCount > 0) reasons.push(`${read.draftEntryCount} asiento(s) sin contabilizar.`);
+      showNotification('error', `No se encontraron movimientos en la carpeta. ${reasons.join(' ')}`.trim(), "Informe no Generado");
+      return false;
+    }
+
+    let table: ParsedCsvData;
+    let isBalanced = true;
+    let statement: FinancialStatement | null = null;
+    const periods = comparison ? [period, comparison] : [period];
+    if (kind === 'trial_balance') {
+      const rows = buildTrialBalance(read.postings, period, accounts);
+      isBalanced = isTrialBalanceBalanced(rows);
+      table = trialBalanceToTable(rows);
+    } else if (kind === 'general_ledger') {
+      table = generalLedgerToTable(buildGeneralLedger(read.postings, period, accounts), period);
+    } else {
+      statement = kind === 'income_statement' ? buildIncomeStatement(read.postings, periods, accounts)
+        : kind === 'balance_sheet' ? buildBalanceSheet(read.postings, periods.map(p => p.to), accounts)
+        : buildCashFlowStatement(read.postings, periods, accounts);
+      table = financialStatementToTable(statement);
+    }
+    const periodLabel = kind === 'balance_sheet' ? `a ${period.to}` : formatLedgerPeriod(period);
+    createFile(
+      `${REPORT_KIND_LABELS[kind]} (${periodLabel}).xlsx`,
+      folderId,
+      serializeCsv(table),
+      true,
+      { kind, folderId, from: kind === 'balance_sheet' ? '' : period.from, to: period.to, comparison, generatedAt: new Date() }
+    );
+
+    const notes = [`${read.postings.length} movimiento(s) de ${read.readFiles.length} archivo(s).`];
+    if (read.skippedFiles.length > 0) notes.push(`Archivos omitidos: ${read.skippedFiles.map(skipped => `${skipped.fileName} (${skipped.reason})`).join(' ')}`);
+    if (read.rejectedRows.length > 0) {
+      const examples = read.rejectedRows.slice(0, 3).map(rejected => `${rejected.fileName}, fila ${rejected.row}: ${rejected.reason}`);
+      notes.push(`${read.rejectedRows.length} fila(s) rechazada(s), p. ej. ${examples.join(' ')}`);
+    }
+    if (read.draftEntryCount > 0) notes.push(`${read.draftEntryCount} asiento(s) en borrador no incluidos.`);
+    if (!isBalanced) notes.push("Atención: el total del Debe no coincide con el del Haber.");
+    if (statement && statement.unclassifiedAccounts.length > 0) {
+      notes.push(`Cuentas que no están en el plan de cuentas: ${statement.unclassifiedAccounts.join(', ')}.`);
+    }
+    const hasProblems = read.skippedFiles.length > 0 || read.rejectedRows.length > 0 || !isBalanced || (statement?.unclassifiedAccounts.length ?? 0) > 0;
+    showNotification(hasProblems ? 'info' : 'success', notes.join(' '), `${REPORT_KIND_LABELS[kind]} Generado`);
+    return true;
+  }, [files, accounts, locale, createFile, showNotification, saveColumnMapping]);
+
+  return {
+    getColumnMapping,
+    generateReport,
+  };
+};
@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef, useCallback, Dispatch, SetStateAction } from 'react';
+
+/**
+ * State that is loaded from and saved to a storage adapter (see services/storage).
+ * Loading is asynchronous: `isLoaded` stays false until `load` resolves, and nothing
+ * is saved before that so an empty initial value can never overwrite stored data.
+ * Every later change is passed to `save` together with the last saved value.
+ *
+ * With `debounceMs > 0`, rapid changes (e.g. typing) are collapsed into one save that
+ * runs once the value has been stable for that long. Because `save` always receives
+ * the last saved value, adapters still see every record that changed in between.
+ * Pending changes are flushed when the page is hidden or the component unmounts.
+ */
+export const usePersistedState = <S>(
+  initialValue: S,
+  load: () => Promise<S>,
+  save: (next: S, previous: S) => Promise<void>,
+  onError: (error: unknown) => void = (error) => console.error("Storage error:", error),
+  debounceMs: number = 0
+): [S, Dispatch<SetStateAction<S>>, boolean] => {
+  const [value, setValue] = useState<S>(initialValue);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const lastSavedRef = useRef<S>(initialValue);
+  const latestValueRef = useRef<S>(initialValue);
+  const pendingSaveTimerRef = useRef<number | null>(null);
+  const saveRef = useRef(save);
+  const onErrorRef = useRef(onError);
+  saveRef.current = save;
+  onErrorRef.current = onError;
+  latestValueRef.current = value;
+
+  const flush = useCallback(() => {
+    if (pendingSaveTimerRef.current !== null) {
+      clearTimeout(pendingSaveTimerRef.current);
+      pendingSaveTimerRef.current = null;
+    }
+    const next = latestValueRef.current;
+    if (next === lastSavedRef.current) return;
+    const previous = lastSavedRef.current;
+    lastSavedRef.current = next;
+    saveRef.current(next, previous).catch(error => onErrorRef.current(error));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    load()
+      .then(loaded => {
+        if (cancelled) return;
+        lastSavedRef.current = loaded;
+        latestValueRef.current = loaded;
+        setValue(loaded);
+      })
+      .catch(error => {
+        if (!cancelled) onErrorRef.current(error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => { cancelled = true; };
+    // Loads once on mount; the adapter is chosen at startup and never changes.
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded || value === lastSavedRef.current) return;
+    if (debounceMs <= 0) {
+      flush();
+      return;
+    }
+    if (pendingSaveTimerRef.current !== null) clearTimeout(pendingSaveTimerRef.current);
+    pendingSaveTimerRef.current = window.setTimeout(flush, debounceMs);
+  }, [value, isLoaded, debounceMs, flush]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+
+  return [value, setValue, isLoaded];
+};
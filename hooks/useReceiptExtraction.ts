@@ -0,0 +1,98 @@
+import { useState, useCallback } from 'react';
+import { AppFile, ChatMessage, NotificationType, ReceiptRecord } from '../types';
+import { aiProvider } from '../services/ai';
+import { appendReceiptToExpenses, ReceiptError, validateReceipt } from '../utils/receipts';
+
+export const NEW_EXPENSES_FILE_NAME = 'Gastos.csv';
+
+// A receipt read from an image, waiting for the user's review in ReceiptExtractionDialog
+export interface PendingReceipt {
+  receipt: ReceiptRecord;
+  message: string;
+  imagePreviewUrl: string | null;
+  folderId: string | null; // Where a new expenses file is created
+}
+
+interface ReceiptExtractionProps {
+  files: AppFile[];
+  createFile: (fileName: string, folderId: string | null, content: string, openAfterCreate: boolean) => AppFile;
+  updateFileContent: (fileId: string, newContent: string) => void;
+  showNotification: (type: NotificationType, message: string, title?: string) => void;
+}
+
+/**
+ * The extract action of the chat: reads a receipt or invoice from an attached image with the AI
+ * provider and, once the user has reviewed it, adds it as a row to an expenses table.
+ */
+export const useReceiptExtraction = ({ files, createFile, updateFileContent, showNotification }: ReceiptExtractionProps) => {
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [pendingReceipt, setPendingReceipt] = useState<PendingReceipt | null>(null);
+
+  /**
+   * Reads the image and opens the result for review. When nothing can be read, the user is told
+   * why and no review is opened.
+   * @param folderId Folder of the active file, where a new expenses file would be created.
+   */
+  const extractReceipt = useCallback(async (
+    imagePart: NonNullable<ChatMessage['imagePart']>,
+    imagePreviewUrl: string | null,
+    folderId: string | null
+  ) => {
+    setIsExtracting(true);
+    try {
+      const { receipt, message } = await aiProvider.extractReceipt(imagePart);
+      if (!receipt) {
+        showNotification('error', message, "Extracción Fallida");
+        return;
+      }
+      setPendingReceipt({ receipt, message, imagePreviewUrl, folderId });
+    } finally {
+      setIsExtracting(false);
+    }
+  }, [showNotification]);
+
+  const dismissReceipt = useCallback(() => setPendingReceipt(null), []);
+
+  /**
+   * Adds the reviewed receipt to an expenses table.
+   * @param fileId The expenses file, or null to create NEW_EXPENSES_FILE_NAME in the pending receipt's folder.
+   * @returns True if the receipt was added.
+   */
+  const saveReceipt = useCallback((receipt: ReceiptRecord, fileId: string | null): boolean => {
+    const problems = validateReceipt(receipt);
+    if (problems.length > 0) {
+      showNotification('error', problems.join(' '), "Recibo no Guardado");
+      return false;
+    }
+    const file = fileId ? files.find(f => f.id === fileId && !f.deletedAt) : null;
+    if (fileId && !file) {
+      showNotification('error', "El archivo de gastos elegido ya no existe.", "Recibo no Guardado");
+      return false;
+    }
+    try {
+      const content = appendReceiptToExpenses(file?.content ?? '', receipt);
+      if (file) {
+        updateFileContent(file.id, content);
+      } else {
+        createFile(NEW_EXPENSES_FILE_NAME, pendingReceipt?.folderId ?? null, content, false);
+      }
+    } catch (error) {
+      if (error instanceof ReceiptError) {
+        showNotification('error', error.message, "Recibo no Guardado");
+        return false;
+      }
+      throw error;
+    }
+    showNotification('success', `Gasto de ${receipt.vendor} añadido a "${file?.name ?? NEW_EXPENSES_FILE_NAME}".`, "Recibo Guardado");
+    setPendingReceipt(null);
+    return true;
+  }, [files, createFile, updateFileContent, showNotification, pendingReceipt]);
+
+  return {
+    isExtracting,
+    pendingReceipt,
+    extractReceipt,
+    dismissReceipt,
+    saveReceipt,
+  };
+};
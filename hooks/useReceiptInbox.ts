@@ -0,0 +1,249 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppFile, ChatMessage, Folder, NotificationType, ReceiptExtraction, ReceiptInboxItem, ReceiptRecord } from '../types';
+import { storageAdapter } from '../services/storage';
+import { aiProvider } from '../services/ai';
+import { usePersistedState } from './usePersistedState';
+import { generateId } from '../utils/helpers';
+import { createJobQueue, JobQueue } from '../utils/jobQueue';
+import { appendJournalEntryProposals, isJournalContent, JournalEntryError } from '../utils/journal';
+import { appendReceiptToExpenses, receiptToJournalEntryProposal, ReceiptError, ReceiptPostingAccounts, validateReceipt } from '../utils/receipts';
+
+const EXTRACTION_CONCURRENCY = 3;
+const EXTRACTION_MAX_ATTEMPTS = 3;
+const EXTRACTION_RETRY_DELAY_MS = 2000;
+
+export const NEW_LEDGER_FILE_NAME = 'Libro diario.csv';
+export const RECEIPTS_FOLDER_NAME = 'Recibos'; // Root folder that keeps the inbox images as files
+
+type ImagePart = NonNullable<ChatMessage['imagePart']>['inlineData'];
+
+interface ReceiptInboxProps {
+  files: AppFile[];
+  folders: Folder[];
+  createFile: (fileName: string, folderId: string | null, content: string, openAfterCreate: boolean) => AppFile;
+  createFolder: (folderName: string, parentId: string | null) => Folder;
+  createFileFromUpload: (upload: File, fileName: string, folderId: string | null, content: string) => AppFile;
+  loadFileOriginal: (fileId: string) => Promise<Blob | null>;
+  updateFileContent: (fileId: string, newContent: string) => void;
+  showNotification: (type: NotificationType, message: string, title?: string) => void;
+}
+
+const readImage = (image: Blob, mimeType: string): Promise<ImagePart> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve({ data: (reader.result as string).split(',')[1] ?? '', mimeType });
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(image);
+});
+
+/** The item after its extraction finished, with the status that follows from the result. */
+const settleItem = (item: ReceiptInboxItem, outcome: { result: ReceiptExtraction } | { error: unknown }, attempts: number): ReceiptInboxItem => {
+  const base = { ...item, attempts, updatedAt: new Date() };
+  if ('error' in outcome) {
+    const message = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+    return { ...base, status: 'failed', message };
+  }
+  const { receipt, message } = outcome.result;
+  if (!receipt) return { ...base, status: 'failed', receipt: null, message };
+  return { ...base, status: validateReceipt(receipt).length > 0 ? 'needs_review' : 'extracted', receipt, message };
+};
+
+/**
+ * The receipts inbox: images dropped by the user are saved as files (with the image as their
+ * original) in the RECEIPTS_FOLDER_NAME folder, and each one gets an inbox item that refers to its
+ * file and is extracted in the background by a job queue (EXTRACTION_CONCURRENCY at a time,
+ * retrying temporary failures). Each item ends as 'extracted' (its amounts add up), 'needs_review'
+ * or 'failed'; extracted items can then be approved in bulk into a journal or an expenses table.
+ * Pending items left by a previous session are queued again on load. Deleting an item keeps its
+ * image file.
+ */
+export const useReceiptInbox = ({
+  files,
+  folders,
+  createFile,
+  createFolder,
+  createFileFromUpload,
+  loadFileOriginal,
+  updateFileContent,
+  showNotification
+}: ReceiptInboxProps) => {
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error("Receipt inbox storage error:", error);
+    showNotification('error', `No se pudo cargar o guardar la bandeja de recibos (${storageAdapter.backend}).`, "Error de Almacenamiento");
+  }, [showNotification]);
+
+  const [items, setItems, isLoaded] = usePersistedState<ReceiptInboxItem[]>(
+    [],
+    () => storageAdapter.loadReceiptInbox(),
+    (next, previous) => storageAdapter.saveReceiptInbox(next, previous),
+    handleStorageError
+  );
+
+  const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
+  const settledIdsRef = useRef(new Set<string>()); // Finished in this session; not queued again until retried
+  // Images added in this session, by file id: their originals may still be being written to storage
+  const uploadsRef = useRef(new Map<string, File>());
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  const loadFileOriginalRef = useRef(loadFileOriginal);
+  loadFileOriginalRef.current = loadFileOriginal;
+
+  const loadReceiptImage = async (imageFileId: string): Promise<ImagePart> => {
+    const image = uploadsRef.current.get(imageFileId) ?? await loadFileOriginalRef.current(imageFileId);
+    if (!image) throw new Error("No se encontró la imagen del recibo; puede que su archivo se haya eliminado.");
+    // Some backends lose the type of the original; the file keeps it
+    const mimeType = image.type || filesRef.current.find(f => f.id === imageFileId)?.original?.mimeType || 'image/jpeg';
+    const imagePart = await readImage(image, mimeType);
+    uploadsRef.current.delete(imageFileId); // Saved by now; a retry reads it from storage
+    return imagePart;
+  };
+
+  const queueRef = useRef<JobQueue<string> | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createJobQueue<string, ReceiptExtraction>(
+      async imageFileId => aiProvider.extractReceipt({ inlineData: await loadReceiptImage(imageFileId) }),
+      {
+        concurrency: EXTRACTION_CONCURRENCY,
+        maxAttempts: EXTRACTION_MAX_ATTEMPTS,
+        retryDelayMs: EXTRACTION_RETRY_DELAY_MS,
+        shouldRetry: result => !result.receipt && !!result.isRetryable,
+        onAttempt: id => setProcessingIds(prev => new Set(prev).add(id)),
+        onDone: (id, outcome, attempts) => {
+          settledIdsRef.current.add(id);
+          setProcessingIds(prev => {
+            const next = new Set(prev);
+            next.delete(id);
+            return next;
+          });
+          setItems(prev => prev.map(item => (item.id === id ? settleItem(item, outcome, attempts) : item)));
+        },
+      }
+    );
+  }
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    items
+      .filter(item => item.status === 'pending' && !settledIdsRef.current.has(item.id))
+      .forEach(item => queueRef.current!.enqueue(item.id, item.imageFileId));
+  }, [isLoaded, items]);
+
+  /** The receipts folder, created at the root the first time it is needed. */
+  const getReceiptsFolderId = useCallback((): string => {
+    const existing = folders.find(folder => folder.parentId === null && !folder.deletedAt && folder.name === RECEIPTS_FOLDER_NAME);
+    return existing ? existing.id : createFolder(RECEIPTS_FOLDER_NAME, null).id;
+  }, [folders, createFolder]);
+
+  /** Saves the images as files in the receipts folder and adds them to the inbox as pending items; other files are skipped. */
+  const addImages = useCallback((imageFiles: File[]) => {
+    const images = imageFiles.filter(file => file.type.startsWith('image/'));
+    const skipped = imageFiles.length - images.length;
+    const added: ReceiptInboxItem[] = [];
+    if (images.length > 0) {
+      const folderId = getReceiptsFolderId();
+      images.forEach(file => {
+        const imageFile = createFileFromUpload(file, file.name, folderId, ''); // Kept as the original only, like other image uploads
+        uploadsRef.current.set(imageFile.id, file);
+        const now = new Date();
+        added.push({
+          id: generateId(),
+          fileName: file.name,
+          imageFileId: imageFile.id,
+          status: 'pending',
+          attempts: 0,
+          receipt: null,
+          message: '',
+          approvedFileId: null,
+          createdAt: now,
+          updatedAt: now,
+        });
+      });
+      setItems(prev => [...prev, ...added]);
+    }
+
+    const notes = [`${added.length} imagen(es) añadida(s) a la bandeja y guardada(s) en la carpeta "${RECEIPTS_FOLDER_NAME}".`];
+    if (skipped > 0) notes.push(`${skipped} archivo(s) omitido(s) porque no son imágenes.`);
+    showNotification(added.length > 0 ? (notes.length > 1 ? 'info' : 'success') : 'error', notes.join(' '), "Bandeja de Recibos");
+  }, [getReceiptsFolderId, createFileFromUpload, setItems, showNotification]);
+
+  /** Saves the user's corrections; the item becomes 'extracted' once its amounts add up. */
+  const updateReceipt = useCallback((itemId: string, receipt: ReceiptRecord) => {
+    setItems(prev => prev.map(item => item.id === itemId
+      ? { ...item, receipt, status: validateReceipt(receipt).length > 0 ? 'needs_review' : 'extracted', updatedAt: new Date() }
+      : item));
+  }, [setItems]);
+
+  /** Queues the items for a new extraction, discarding their current result. */
+  const retryItems = useCallback((itemIds: string[]) => {
+    itemIds.forEach(id => settledIdsRef.current.delete(id));
+    setItems(prev => prev.map(item => itemIds.includes(item.id)
+      ? { ...item, status: 'pending', attempts: 0, receipt: null, message: '', approvedFileId: null, updatedAt: new Date() }
+      : item));
+  }, [setItems]);
+
+  const deleteItems = useCallback((itemIds: string[]) => {
+    itemIds.forEach(id => {
+      queueRef.current!.cancel(id);
+      settledIdsRef.current.delete(id);
+    });
+    setProcessingIds(prev => new Set(Array.from(prev).filter(id => !itemIds.includes(id))));
+    setItems(prev => prev.filter(item => !itemIds.includes(item.id)));
+  }, [setItems]);
+
+  /**
+   * Records extracted receipts in a ledger file: as draft entries in a journal, or as rows in
+   * an expenses table. Items that are not extracted or were already approved are left out.
+   * @param fileId The journal or expenses table, or null to create NEW_LEDGER_FILE_NAME.
+   * @param accounts Accounts of the journal entries; unused for expenses tables.
+   * @returns True if any receipt was recorded.
+   */
+  const approveItems = useCallback((itemIds: string[], fileId: string | null, accounts: ReceiptPostingAccounts): boolean => {
+    const approvable = items.filter(item => itemIds.includes(item.id) && item.status === 'extracted' && item.receipt && !item.approvedFileId);
+    if (approvable.length === 0) {
+      showNotification('info', "Selecciona recibos extraídos que no se hayan aprobado todavía.", "Nada que Aprobar");
+      return false;
+    }
+    const file = fileId ? files.find(f => f.id === fileId && !f.deletedAt) : null;
+    if (fileId && !file) {
+      showNotification('error', "El archivo elegido ya no existe.", "Recibos no Aprobados");
+      return false;
+    }
+    const receipts = approvable.map(item => item.receipt!);
+    const content = file?.content ?? '';
+    let nextContent: string;
+    try {
+      nextContent = !file || isJournalContent(content)
+        ? appendJournalEntryProposals(content, receipts.map(receipt => receiptToJournalEntryProposal(receipt, accounts))).content
+        : receipts.reduce((current, receipt) => appendReceiptToExpenses(current, receipt), content);
+    } catch (error) {
+      if (error instanceof ReceiptError || error instanceof JournalEntryError) {
+        showNotification('error', error.message, "Recibos no Aprobados");
+        return false;
+      }
+      throw error;
+    }
+
+    const targetFile = file ?? createFile(NEW_LEDGER_FILE_NAME, null, nextContent, false);
+    if (file) updateFileContent(file.id, nextContent);
+    const approvedIds = new Set(approvable.map(item => item.id));
+    setItems(prev => prev.map(item => approvedIds.has(item.id) ? { ...item, approvedFileId: targetFile.id, updatedAt: new Date() } : item));
+    const skipped = itemIds.length - approvable.length;
+    showNotification(
+      'success',
+      `${approvable.length} recibo(s) registrado(s) en "${targetFile.name}"${!file || isJournalContent(content) ? ' como asientos en borrador' : ''}.` +
+        (skipped > 0 ? ` ${skipped} omitido(s) por no estar extraídos o estar ya aprobados.` : ''),
+      "Recibos Aprobados"
+    );
+    return true;
+  }, [items, files, createFile, updateFileContent, setItems, showNotification]);
+
+  return {
+    isLoaded,
+    items,
+    processingIds,
+    addImages,
+    updateReceipt,
+    retryItems,
+    deleteItems,
+    approveItems,
+  };
+};
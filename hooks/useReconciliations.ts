@@ -0,0 +1,49 @@
+import { useCallback } from 'react';
+import { NotificationType, Reconciliation } from '../types';
+import { storageAdapter } from '../services/storage';
+import { usePersistedState } from './usePersistedState';
+
+interface ReconciliationsProps {
+  showNotification: (type: NotificationType, message: string, title?: string) => void;
+}
+
+/**
+ * Owns the persisted bank reconciliations. Each one links a statement file and a ledger file by
+ * id; it is removed when either file is permanently deleted, and kept while they are in the trash.
+ */
+export const useReconciliations = ({ showNotification }: ReconciliationsProps) => {
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error("Reconciliation storage error:", error);
+    showNotification('error', `No se pudieron cargar o guardar las conciliaciones (${storageAdapter.backend}).`, "Error de Almacenamiento");
+  }, [showNotification]);
+
+  const [reconciliations, setReconciliations, isLoaded] = usePersistedState<Reconciliation[]>(
+    [],
+    () => storageAdapter.loadReconciliations(),
+    (next, previous) => storageAdapter.saveReconciliations(next, previous),
+    handleStorageError
+  );
+
+  /** Adds a new reconciliation or replaces the one with the same id. */
+  const saveReconciliation = useCallback((reconciliation: Reconciliation) => {
+    const saved = { ...reconciliation, updatedAt: new Date() };
+    setReconciliations(prev => prev.some(r => r.id === saved.id) ? prev.map(r => (r.id === saved.id ? saved : r)) : [...prev, saved]);
+  }, [setReconciliations]);
+
+  const deleteReconciliation = useCallback((reconciliationId: string) => {
+    setReconciliations(prev => prev.filter(r => r.id !== reconciliationId));
+  }, [setReconciliations]);
+
+  /** Removes the reconciliations of permanently deleted files. */
+  const deleteFileReconciliations = useCallback((fileIds: string[]) => {
+    setReconciliations(prev => prev.filter(r => !fileIds.includes(r.statementFileId) && !fileIds.includes(r.ledgerFileId)));
+  }, [setReconciliations]);
+
+  return {
+    isLoaded,
+    reconciliations,
+    saveReconciliation,
+    deleteReconciliation,
+    deleteFileReconciliations,
+  };
+};
@@ -0,0 +1,54 @@
+import { useCallback } from 'react';
+import { NotificationType, WorkspaceSettings } from '../types';
+import { DEFAULT_WORKSPACE_LOCALE, WORKSPACE_LOCALES } from '../constants';
+import { storageAdapter } from '../services/storage';
+import { usePersistedState } from './usePersistedState';
+
+interface WorkspaceSettingsProps {
+  showNotification: (type: NotificationType, message: string, title?: string) => void;
+}
+
+const DEFAULT_SETTINGS: WorkspaceSettings = { locale: DEFAULT_WORKSPACE_LOCALE, reviewAIChanges: false };
+
+const loadSettings = async (): Promise<WorkspaceSettings> => {
+  const stored = await storageAdapter.loadWorkspaceSettings();
+  if (!stored) return DEFAULT_SETTINGS;
+  // Settings saved before a field existed get its default
+  const settings = { ...DEFAULT_SETTINGS, ...stored };
+  return WORKSPACE_LOCALES.some(option => option.code === settings.locale) ? settings : { ...settings, locale: DEFAULT_WORKSPACE_LOCALE };
+};
+
+/**
+ * Workspace-wide preferences, persisted through the storage adapter: the locale used to read and
+ * show numbers, amounts and dates in tables, and whether AI document changes are reviewed as a
+ * diff before they are applied.
+ */
+export const useWorkspaceSettings = ({ showNotification }: WorkspaceSettingsProps) => {
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error("Workspace settings storage error:", error);
+    showNotification('error', `No se pudieron cargar o guardar las preferencias del espacio de trabajo (${storageAdapter.backend}).`, "Error de Almacenamiento");
+  }, [showNotification]);
+
+  const [settings, setSettings, isLoaded] = usePersistedState<WorkspaceSettings>(
+    DEFAULT_SETTINGS,
+    loadSettings,
+    (next, previous) => storageAdapter.saveWorkspaceSettings(next, previous),
+    handleStorageError
+  );
+
+  const setLocale = useCallback((nextLocale: string) => {
+    setSettings(prev => ({ ...prev, locale: nextLocale }));
+  }, [setSettings]);
+
+  const setIsReviewModeEnabled = useCallback((enabled: boolean) => {
+    setSettings(prev => ({ ...prev, reviewAIChanges: enabled }));
+  }, [setSettings]);
+
+  return {
+    isLoaded,
+    locale: settings.locale,
+    setLocale,
+    isReviewModeEnabled: settings.reviewAIChanges,
+    setIsReviewModeEnabled,
+  };
+};
@@ -0,0 +1,161 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// db.ts opens the database when it is first imported, so the path is set before the server is loaded
+process.env.AI_LEDGER_DB_PATH = ':memory:';
+process.env.AI_PROVIDER = 'mock';
+
+// node:sqlite ships with Node 22.13 and later (see engines in package.json)
+const sqliteMissing = await import('node:sqlite').then(() => false, () => true);
+
+let server: Server;
+let baseUrl = '';
+
+const request = async (method: string, path: string, body?: unknown) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  return { status: response.status, body: response.status === 204 ? null : await response.json() };
+};
+
+const REPORT = { kind: 'trial_balance', folderId: null, from: '', to: '2025-12-31', generatedAt: '2026-01-02T10:00:00.000Z' };
+
+describe('API server', { skip: sqliteMissing && 'node:sqlite needs Node 22.13 or later' }, () => {
+  before(async () => {
+    const { createApiServer } = await import('./app');
+    server = createApiServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  describe('router', () => {
+    it('answers 404 for unknown paths and 405 for known paths with another method', async () => {
+      assert.equal((await request('GET', '/api/unknown')).body.errorCode, 'NOT_FOUND');
+      const wrongMethod = await request('PATCH', '/api/folders');
+      assert.equal(wrongMethod.status, 405);
+      assert.equal(wrongMethod.body.errorCode, 'METHOD_NOT_ALLOWED');
+    });
+
+    it('rejects path params that are not valid percent-encoding', async () => {
+      assert.equal((await request('GET', '/api/files/%E0%A4%A')).status, 400);
+    });
+  });
+
+  describe('request bodies', () => {
+    it('rejects bodies that are not a JSON object', async () => {
+      for (const body of ['{"name": ', '[{"name": "Bancos"}]', '"Bancos"']) {
+        const response = await request('POST', '/api/folders', body);
+        assert.equal(response.status, 400, body);
+        assert.equal(response.body.errorCode, 'INVALID_INPUT');
+      }
+    });
+
+    it('rejects missing or mistyped fields', async () => {
+      assert.equal((await request('POST', '/api/folders', { name: '  ' })).status, 400);
+      assert.equal((await request('POST', '/api/files', { name: 'a.csv', content: 12 })).status, 400);
+      assert.equal((await request('POST', '/api/files', { name: 'a.csv', report: { ...REPORT, kind: 'forecast' } })).status, 400);
+      assert.equal((await request('POST', '/api/files', { name: 'a.csv', folderId: 'missing' })).status, 400);
+    });
+
+    it('rejects invalid list queries', async () => {
+      assert.equal((await request('GET', '/api/files?limit=0')).status, 400);
+      assert.equal((await request('GET', '/api/folders?sortBy=size')).status, 400);
+      assert.equal((await request('GET', '/api/folders?deleted=yes')).status, 400);
+    });
+  });
+
+  describe('folders', () => {
+    it('creates folders, and answers 409 for an id that is taken and 404 for an unknown one', async () => {
+      const created = await request('POST', '/api/folders', { id: 'bancos', name: ' Bancos ', parentId: null });
+      assert.equal(created.status, 201);
+      assert.equal(created.body.name, 'Bancos');
+      assert.equal((await request('POST', '/api/folders', { id: 'bancos', name: 'Otra' })).status, 409);
+      assert.equal((await request('PUT', '/api/folders/desconocida', { name: 'X' })).status, 404);
+      assert.equal((await request('PUT', '/api/folders/bancos', {})).status, 400);
+    });
+
+    it('does not move a folder into one of its subfolders', async () => {
+      await request('POST', '/api/folders', { id: 'padre', name: 'Padre' });
+      await request('POST', '/api/folders', { id: 'hija', name: 'Hija', parentId: 'padre' });
+      assert.equal((await request('PUT', '/api/folders/padre', { parentId: 'hija' })).status, 400);
+      assert.equal((await request('POST', '/api/batch/move', { items: [{ id: 'padre', type: 'folder' }], targetParentId: 'padre' })).status, 400);
+    });
+
+    it('moves the contents of a folder to the trash with it, and restores them', async () => {
+      await request('POST', '/api/folders', { id: 'archivo', name: 'Archivo' });
+      await request('POST', '/api/folders', { id: 'archivo-2024', name: '2024', parentId: 'archivo' });
+      await request('POST', '/api/files', { id: 'diario-2024', name: 'diario.csv', folderId: 'archivo-2024' });
+
+      const deleted = await request('DELETE', '/api/folders/archivo');
+      assert.equal(deleted.status, 200);
+      assert.ok(deleted.body.deletedAt);
+      assert.ok((await request('GET', '/api/files/diario-2024')).body.deletedAt);
+      assert.equal((await request('POST', '/api/files', { name: 'b.csv', folderId: 'archivo-2024' })).status, 400);
+
+      await request('POST', '/api/folders/archivo/restore');
+      assert.equal((await request('GET', '/api/files/diario-2024')).body.deletedAt, null);
+    });
+  });
+
+  describe('files', () => {
+    it('keeps generated reports read-only, and lets their copies be edited', async () => {
+      const created = await request('POST', '/api/files', { id: 'balance', name: 'Balance.csv', content: 'Cuenta,Saldo', report: REPORT });
+      assert.equal(created.status, 201);
+      assert.equal(created.body.report.kind, 'trial_balance');
+      assert.equal((await request('PUT', '/api/files/balance', { content: 'editado' })).status, 400);
+      assert.equal((await request('PUT', '/api/files/balance', { name: 'Balance 2025.csv' })).status, 200);
+
+      const copy = await request('POST', '/api/files/balance/duplicate');
+      assert.equal(copy.status, 201);
+      assert.equal(copy.body.name, 'Copia de Balance 2025.csv');
+      assert.equal(copy.body.report.editableCopy, true);
+      assert.equal((await request('PUT', `/api/files/${copy.body.id}`, { content: 'editado' })).body.content, 'editado');
+    });
+
+    it('stores the original upload of a file and copies it with the file', async () => {
+      await request('POST', '/api/files', { id: 'extracto', name: 'extracto.csv' });
+      assert.equal((await request('GET', '/api/files/extracto/original')).status, 404);
+      assert.equal((await fetch(`${baseUrl}/api/files/extracto/original`, { method: 'PUT', body: 'bytes' })).status, 400);
+
+      const upload = await fetch(`${baseUrl}/api/files/extracto/original`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'text/csv', 'X-File-Name': encodeURIComponent('extracto marzo.csv') },
+        body: 'Fecha,Importe',
+      });
+      assert.equal(upload.status, 200);
+      const copy = await request('POST', '/api/files/extracto/duplicate');
+      const download = await fetch(`${baseUrl}/api/files/${copy.body.id}/original`);
+      assert.equal(download.headers.get('content-type'), 'text/csv');
+      assert.equal(await download.text(), 'Fecha,Importe');
+    });
+  });
+
+  describe('batch', () => {
+    it('validates the items and reports the ones that do not exist', async () => {
+      assert.equal((await request('POST', '/api/batch/delete', { items: [] })).status, 400);
+      const invalid = await request('POST', '/api/batch/delete', { items: [{ id: 'x', type: 'drive' }] });
+      assert.equal(invalid.status, 400);
+      assert.deepEqual(invalid.body.details, { item: { id: 'x', type: 'drive' } });
+
+      const missing = await request('POST', '/api/batch/restore', { items: [{ id: 'nadie', type: 'file' }] });
+      assert.equal(missing.status, 404);
+      assert.deepEqual(missing.body.details, { missing: [{ id: 'nadie', type: 'file' }] });
+      assert.equal((await request('POST', '/api/batch/move', { items: [{ id: 'x', type: 'file' }] })).status, 400);
+    });
+
+    it('deletes files and folders for good, with their contents', async () => {
+      await request('POST', '/api/folders', { id: 'borrar', name: 'Borrar' });
+      await request('POST', '/api/files', { id: 'borrar-diario', name: 'diario.csv', folderId: 'borrar' });
+      const deleted = await request('POST', '/api/batch/delete-permanent', { items: [{ id: 'borrar', type: 'folder' }] });
+      assert.deepEqual(deleted.body, { permanentlyDeletedFiles: 1, permanentlyDeletedFolders: 1 });
+      assert.equal((await request('GET', '/api/files/borrar-diario')).status, 404);
+      assert.equal((await request('DELETE', '/api/folders/borrar/permanent')).status, 404);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { createServer, Server } from 'node:http';
+import { Router } from './router';
+import { ApiError, sendError } from './http';
+import { registerFolderRoutes } from './routes/folders';
+import { registerFileRoutes } from './routes/files';
+import { registerAIRoutes } from './routes/ai';
+import { registerBatchRoutes } from './routes/batch';
+
+/**
+ * Creates the API server with every route registered, without starting it.
+ * server/index.ts listens on PORT; the tests listen on a free port.
+ */
+export const createApiServer = (): Server => {
+  const router = new Router();
+  registerFolderRoutes(router);
+  registerFileRoutes(router);
+  registerAIRoutes(router);
+  registerBatchRoutes(router);
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    try {
+      const match = router.match(req.method || 'GET', url.pathname);
+      if (match === null) {
+        throw new ApiError(404, 'NOT_FOUND', `No endpoint for ${req.method} ${url.pathname}.`);
+      }
+      if (match === 'method-not-allowed') {
+        throw new ApiError(405, 'METHOD_NOT_ALLOWED', `Method ${req.method} is not allowed for ${url.pathname}.`);
+      }
+      await match.handler({ req, res, params: match.params, query: url.searchParams });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+};
@@ -0,0 +1,79 @@
+import { DatabaseSync } from 'node:sqlite';
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+
+const DB_PATH = process.env.AI_LEDGER_DB_PATH || path.resolve('data', 'ai-ledger.sqlite');
+
+mkdirSync(path.dirname(DB_PATH), { recursive: true });
+
+/**
+ * Embedded SQLite database (node:sqlite, no native add-ons) shared by all repositories.
+ * Dates are stored as ISO-8601 strings; `deleted_at` is NULL for items not in the trash.
+ * `files.report` holds the JSON ReportSource of generated reports and their copies (NULL for other files).
+ * `file_originals` holds the bytes of uploaded files, at most one row per file.
+ */
+export const db = new DatabaseSync(DB_PATH);
+
+db.exec(`
+  PRAGMA journal_mode = WAL;
+  PRAGMA foreign_keys = ON;
+
+  CREATE TABLE IF NOT EXISTS folders (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    parent_id TEXT REFERENCES folders(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    deleted_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_folders_parent ON folders(parent_id);
+
+  CREATE TABLE IF NOT EXISTS files (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    folder_id TEXT REFERENCES folders(id) ON DELETE CASCADE,
+    content TEXT NOT NULL DEFAULT '',
+    report TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    deleted_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_files_folder ON files(folder_id);
+
+  CREATE TABLE IF NOT EXISTS file_originals (
+    file_id TEXT PRIMARY KEY REFERENCES files(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    data BLOB NOT NULL,
+    created_at TEXT NOT NULL
+  );
+`);
+
+// Columns added after the first schema; CREATE TABLE IF NOT EXISTS leaves existing tables as they were
+const fileColumns = db.prepare('PRAGMA table_info(files)').all() as unknown as { name: string }[];
+if (!fileColumns.some(column => column.name === 'report')) {
+  db.exec('ALTER TABLE files ADD COLUMN report TEXT');
+}
+
+/**
+ * Runs `work` inside a transaction, rolling back if it throws.
+ * Used by the cascading and batch operations so they never apply partially.
+ */
+export const transaction = <T>(work: () => T): T => {
+  db.exec('BEGIN');
+  try {
+    const result = work();
+    db.exec('COMMIT');
+    return result;
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+};
+
+export const SORT_COLUMNS = {
+  name: 'name COLLATE NOCASE',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+} as const;
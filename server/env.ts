@@ -0,0 +1,8 @@
+import { existsSync } from 'node:fs';
+
+// Load the same .env.local the Vite app uses, then expose GEMINI_API_KEY under the
+// name services/ai/index.ts reads. Must be imported before any route module.
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
@@ -0,0 +1,201 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import type { ApiErrorResponse, PaginatedResponse } from '../api-spec';
+import { isRecord } from '../utils/helpers';
+
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // Excel imports are sent as pre-parsed CSV, and file originals as raw bytes
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 500;
+
+/**
+ * Error thrown by route handlers. It is converted into an ApiErrorResponse body
+ * with the given HTTP status by the request dispatcher in server/index.ts.
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly errorCode: string,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const badRequest = (message: string, details?: unknown) => new ApiError(400, 'INVALID_INPUT', message, details);
+export const notFound = (message: string) => new ApiError(404, 'NOT_FOUND', message);
+export const conflict = (message: string) => new ApiError(409, 'CONFLICT', message);
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+export const sendNoContent = (res: ServerResponse) => {
+  res.writeHead(204);
+  res.end();
+};
+
+export const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof ApiError) {
+    const body: ApiErrorResponse = { errorCode: error.errorCode, message: error.message };
+    if (error.details !== undefined) body.details = error.details;
+    sendJson(res, error.status, body);
+    return;
+  }
+  console.error('Unhandled server error:', error);
+  const body: ApiErrorResponse = {
+    errorCode: 'SERVER_ERROR',
+    message: error instanceof Error ? error.message : 'Unexpected server error.',
+  };
+  sendJson(res, 500, body);
+};
+
+/**
+ * Sends a binary body (a file original) as a download named `fileName`.
+ */
+export const sendBinary = (res: ServerResponse, contentType: string, fileName: string, data: Uint8Array) => {
+  res.writeHead(200, {
+    'Content-Type': contentType,
+    'Content-Length': data.length,
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+  });
+  res.end(data);
+};
+
+/**
+ * Reads the raw request body.
+ * @throws ApiError (413) if it is too large.
+ */
+export const readRawBody = async (req: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ApiError(413, 'INVALID_INPUT', 'Request body is too large.');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Reads and parses a JSON request body. An empty body is returned as an empty object
+ * so endpoints without a body (restore, duplicate...) can share the same code path.
+ * @throws ApiError (400) if the body is not valid JSON or is too large.
+ */
+export const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const raw = (await readRawBody(req)).toString('utf-8').trim();
+  if (raw === '') return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed) || Array.isArray(parsed)) {
+      throw badRequest('Request body must be a JSON object.');
+    }
+    return parsed;
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    throw badRequest('Request body is not valid JSON.');
+  }
+};
+
+export type SortField = 'name' | 'createdAt' | 'updatedAt';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListQuery {
+  deleted: boolean;
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  limit: number;
+  offset: number;
+}
+
+const parseNonNegativeInt = (value: string | null, name: string): number | null => {
+  if (value === null || value === '') return null;
+  if (!/^\d+$/.test(value)) {
+    throw badRequest(`Query parameter '${name}' must be a non-negative integer.`);
+  }
+  return parseInt(value, 10);
+};
+
+/**
+ * Parses the common list query parameters (deleted, sortBy, sortOrder, limit, offset/page)
+ * described in api-spec.ts, applying the documented defaults.
+ * @throws ApiError (400) on invalid values.
+ */
+export const parseListQuery = (params: URLSearchParams): ListQuery => {
+  const deletedParam = params.get('deleted');
+  if (deletedParam !== null && deletedParam !== 'true' && deletedParam !== 'false') {
+    throw badRequest("Query parameter 'deleted' must be 'true' or 'false'.");
+  }
+
+  const sortBy = (params.get('sortBy') || 'name') as SortField;
+  if (!['name', 'createdAt', 'updatedAt'].includes(sortBy)) {
+    throw badRequest("Query parameter 'sortBy' must be one of 'name', 'createdAt', 'updatedAt'.");
+  }
+  const sortOrder = (params.get('sortOrder') || 'asc') as SortOrder;
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    throw badRequest("Query parameter 'sortOrder' must be 'asc' or 'desc'.");
+  }
+
+  const limit = parseNonNegativeInt(params.get('limit'), 'limit') ?? DEFAULT_PAGE_LIMIT;
+  if (limit < 1 || limit > MAX_PAGE_LIMIT) {
+    throw badRequest(`Query parameter 'limit' must be between 1 and ${MAX_PAGE_LIMIT}.`);
+  }
+
+  // 'offset' takes precedence over 'page' when both are given.
+  let offset = parseNonNegativeInt(params.get('offset'), 'offset');
+  if (offset === null) {
+    const page = parseNonNegativeInt(params.get('page'), 'page') ?? 1;
+    if (page < 1) throw badRequest("Query parameter 'page' must be 1 or greater.");
+    offset = (page - 1) * limit;
+  }
+
+  return { deleted: deletedParam === 'true', sortBy, sortOrder, limit, offset };
+};
+
+/**
+ * Reads an optional parent/folder filter. Absent means "no filter" (undefined),
+ * the literal 'null' (or an empty value) means root items only.
+ */
+export const parseParentFilter = (params: URLSearchParams, name: string): string | null | undefined => {
+  if (!params.has(name)) return undefined;
+  const value = params.get(name);
+  return value === null || value === '' || value === 'null' ? null : value;
+};
+
+export const buildPage = <T>(items: T[], totalItems: number, query: ListQuery): PaginatedResponse<T> => ({
+  items,
+  totalItems,
+  currentPage: Math.floor(query.offset / query.limit) + 1,
+  totalPages: Math.max(1, Math.ceil(totalItems / query.limit)),
+  limit: query.limit,
+});
+
+// --- Request body validation helpers ---
+
+export const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw badRequest(`Field '${field}' is required and must be a non-empty string.`);
+  }
+  return value.trim();
+};
+
+export const optionalString = (body: Record<string, unknown>, field: string): string | undefined => {
+  const value = body[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw badRequest(`Field '${field}' must be a string.`);
+  return value;
+};
+
+/** Reads a nullable id field: undefined if absent, null for root, otherwise the id string. */
+export const optionalNullableId = (body: Record<string, unknown>, field: string): string | null | undefined => {
+  const value = body[field];
+  if (value === undefined || value === null) return value;
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw badRequest(`Field '${field}' must be a string id or null.`);
+  }
+  return value;
+};
@@ -0,0 +1,8 @@
+import './env';
+import { createApiServer } from './app';
+
+const PORT = Number(process.env.PORT) || 3001;
+
+createApiServer().listen(PORT, () => {
+  console.log(`AI Ledger API listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,130 @@
+import { transaction } from './db';
+import { ApiError, badRequest, notFound } from './http';
+import type { BatchItem } from '../api-spec';
+import { isRecord } from '../utils/helpers';
+import {
+  StoredFolder, getFolder, collectDescendants, isSelfOrDescendant, setFoldersDeletedAt, deleteFoldersPermanently, updateFolder,
+} from './repositories/folders';
+import { StoredFile, getFile, setFilesDeletedAt, deleteFilesPermanently, updateFile } from './repositories/files';
+
+/**
+ * Trash and move operations shared by the single-item endpoints and /api/batch/*.
+ * Folder operations cascade to every nested subfolder and file, like the client-side useFileSystem hook.
+ */
+
+const isBatchItem = (item: unknown): item is BatchItem =>
+  isRecord(item) && typeof item.id === 'string' && (item.type === 'file' || item.type === 'folder');
+
+/** Reads the `items` field of a batch request, copying only the id and type of each item. */
+export const requireBatchItems = (value: unknown): BatchItem[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw badRequest("Field 'items' must be a non-empty array.");
+  }
+  return value.map(item => {
+    if (!isBatchItem(item)) {
+      throw badRequest("Each item must have a string 'id' and a 'type' of 'file' or 'folder'.", { item });
+    }
+    return { id: item.id, type: item.type };
+  });
+};
+
+const assertItemsExist = (items: BatchItem[]) => {
+  const missing = items.filter(item => !(item.type === 'file' ? getFile(item.id) : getFolder(item.id)));
+  if (missing.length > 0) {
+    throw new ApiError(404, 'NOT_FOUND', 'Some items do not exist.', { missing });
+  }
+};
+
+const expandItems = (items: BatchItem[]): { folderIds: string[]; fileIds: string[] } => {
+  const folderIds = new Set<string>();
+  const fileIds = new Set<string>();
+  const descendants = collectDescendants(items.filter(i => i.type === 'folder').map(i => i.id));
+  descendants.folderIds.forEach(id => folderIds.add(id));
+  descendants.fileIds.forEach(id => fileIds.add(id));
+  items.filter(i => i.type === 'file').forEach(i => fileIds.add(i.id));
+  return { folderIds: [...folderIds], fileIds: [...fileIds] };
+};
+
+const loadUpdated = (folderIds: string[], fileIds: string[]): Array<StoredFolder | StoredFile> => [
+  ...folderIds.map(id => getFolder(id)!),
+  ...fileIds.map(id => getFile(id)!),
+];
+
+export const softDeleteItems = (items: BatchItem[]) => {
+  assertItemsExist(items);
+  return transaction(() => {
+    const { folderIds, fileIds } = expandItems(items);
+    const now = new Date().toISOString();
+    setFoldersDeletedAt(folderIds, now);
+    setFilesDeletedAt(fileIds, now);
+    return { deletedFiles: fileIds.length, deletedFolders: folderIds.length, updatedItems: loadUpdated(folderIds, fileIds) };
+  });
+};
+
+export const restoreItems = (items: BatchItem[]) => {
+  assertItemsExist(items);
+  return transaction(() => {
+    const { folderIds, fileIds } = expandItems(items);
+    setFoldersDeletedAt(folderIds, null);
+    setFilesDeletedAt(fileIds, null);
+    return { restoredFiles: fileIds.length, restoredFolders: folderIds.length, updatedItems: loadUpdated(folderIds, fileIds) };
+  });
+};
+
+export const permanentlyDeleteItems = (items: BatchItem[]) => {
+  assertItemsExist(items);
+  return transaction(() => {
+    const { folderIds, fileIds } = expandItems(items);
+    deleteFilesPermanently(fileIds);
+    deleteFoldersPermanently(folderIds);
+    return { permanentlyDeletedFiles: fileIds.length, permanentlyDeletedFolders: folderIds.length };
+  });
+};
+
+/**
+ * Validates that a folder can be used as a parent/destination: it must exist and not be in the trash.
+ * `null` (root) is always valid.
+ */
+export const assertValidTargetFolder = (targetId: string | null, field: string) => {
+  if (targetId === null) return;
+  const target = getFolder(targetId);
+  if (!target) throw badRequest(`Folder '${targetId}' referenced by '${field}' does not exist.`);
+  if (target.deletedAt) throw badRequest(`Folder '${targetId}' referenced by '${field}' is in the trash.`);
+};
+
+/**
+ * Rejects moving a folder into itself or one of its own subfolders.
+ */
+export const assertNoFolderCycle = (folderId: string, targetId: string | null) => {
+  if (targetId !== null && isSelfOrDescendant(folderId, targetId)) {
+    throw badRequest('A folder cannot be moved into itself or one of its subfolders.', { folderId, targetParentId: targetId });
+  }
+};
+
+export const moveItems = (items: BatchItem[], targetParentId: string | null) => {
+  assertItemsExist(items);
+  assertValidTargetFolder(targetParentId, 'targetParentId');
+  items.filter(i => i.type === 'folder').forEach(i => assertNoFolderCycle(i.id, targetParentId));
+  return transaction(() => {
+    const updatedItems: Array<StoredFolder | StoredFile> = items.map(item =>
+      item.type === 'folder' ? updateFolder(item.id, { parentId: targetParentId }) : updateFile(item.id, { folderId: targetParentId })
+    );
+    return {
+      movedFiles: items.filter(i => i.type === 'file').length,
+      movedFolders: items.filter(i => i.type === 'folder').length,
+      updatedItems,
+    };
+  });
+};
+
+export const requireFolder = (id: string): StoredFolder => {
+  const folder = getFolder(id);
+  if (!folder) throw notFound(`Folder '${id}' not found.`);
+  return folder;
+};
+
+export const requireFile = (id: string): StoredFile => {
+  const file = getFile(id);
+  if (!file) throw notFound(`File '${id}' not found.`);
+  return file;
+};
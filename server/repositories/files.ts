@@ -0,0 +1,126 @@
+import { db, SORT_COLUMNS } from '../db';
+import type { AppFile, FileOriginal, ReportSource } from '../../types';
+import type { ListQuery } from '../http';
+import { generateId } from '../../utils/helpers';
+
+export interface StoredFile extends AppFile {
+  updatedAt: Date;
+}
+
+interface FileRow {
+  id: string;
+  name: string;
+  folder_id: string | null;
+  content?: string;
+  report: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  original_name: string | null;
+  original_mime_type: string | null;
+  original_size: number | null;
+}
+
+// Files with the metadata of their original upload (NULL columns when there is none)
+const FILES_WITH_ORIGINAL = `(
+  SELECT files.*, o.name AS original_name, o.mime_type AS original_mime_type, o.size AS original_size
+  FROM files LEFT JOIN file_originals o ON o.file_id = files.id
+)`;
+
+const toReportSource = (json: string): ReportSource => {
+  const report = JSON.parse(json);
+  return { ...report, generatedAt: new Date(report.generatedAt) };
+};
+
+const toFile = (row: FileRow): StoredFile => ({
+  id: row.id,
+  name: row.name,
+  folderId: row.folder_id,
+  content: row.content ?? '',
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+  deletedAt: row.deleted_at ? new Date(row.deleted_at) : null,
+  report: row.report ? toReportSource(row.report) : null,
+  original: row.original_name !== null
+    ? { name: row.original_name, mimeType: row.original_mime_type ?? 'application/octet-stream', size: row.original_size ?? 0 }
+    : null,
+});
+
+const toFileMetadata = (row: FileRow): Omit<StoredFile, 'content'> => {
+  const { content, ...metadata } = toFile(row);
+  return metadata;
+};
+
+export const getFile = (id: string): StoredFile | null => {
+  const row = db.prepare(`SELECT * FROM ${FILES_WITH_ORIGINAL} WHERE id = ?`).get(id) as FileRow | undefined;
+  return row ? toFile(row) : null;
+};
+
+export const createFile = (
+  name: string, folderId: string | null, content: string, id: string = generateId(), report: ReportSource | null = null
+): StoredFile => {
+  const now = new Date().toISOString();
+  db.prepare('INSERT INTO files (id, name, folder_id, content, report, created_at, updated_at, deleted_at) VALUES (?, ?, ?, ?, ?, ?, ?, NULL)')
+    .run(id, name, folderId, content, report ? JSON.stringify(report) : null, now, now);
+  return getFile(id)!;
+};
+
+/**
+ * Lists file metadata (without content) matching the trash flag and optional folder filter.
+ * `folderId === undefined` means "any folder"; `null` means root files only.
+ */
+export const listFiles = (query: ListQuery, folderId: string | null | undefined): { items: Omit<StoredFile, 'content'>[]; total: number } => {
+  const where: string[] = [query.deleted ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL'];
+  const params: (string | number)[] = [];
+  if (folderId === null) {
+    where.push('folder_id IS NULL');
+  } else if (folderId !== undefined) {
+    where.push('folder_id = ?');
+    params.push(folderId);
+  }
+  const whereSql = where.join(' AND ');
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM files WHERE ${whereSql}`).get(...params) as { total: number };
+  const rows = db.prepare(
+    `SELECT id, name, folder_id, report, created_at, updated_at, deleted_at, original_name, original_mime_type, original_size
+     FROM ${FILES_WITH_ORIGINAL} WHERE ${whereSql}
+     ORDER BY ${SORT_COLUMNS[query.sortBy]} ${query.sortOrder.toUpperCase()}, id LIMIT ? OFFSET ?`
+  ).all(...params, query.limit, query.offset) as unknown as FileRow[];
+  return { items: rows.map(toFileMetadata), total };
+};
+
+export const updateFile = (id: string, changes: { name?: string; folderId?: string | null; content?: string }): StoredFile => {
+  const current = getFile(id)!;
+  db.prepare('UPDATE files SET name = ?, folder_id = ?, content = ?, updated_at = ? WHERE id = ?').run(
+    changes.name ?? current.name,
+    changes.folderId === undefined ? current.folderId : changes.folderId,
+    changes.content ?? current.content,
+    new Date().toISOString(),
+    id
+  );
+  return getFile(id)!;
+};
+
+export const setFilesDeletedAt = (ids: string[], deletedAt: string | null) => {
+  const now = new Date().toISOString();
+  const stmt = db.prepare('UPDATE files SET deleted_at = ?, updated_at = ? WHERE id = ?');
+  ids.forEach(id => stmt.run(deletedAt, now, id));
+};
+
+export const deleteFilesPermanently = (ids: string[]) => {
+  const stmt = db.prepare('DELETE FROM files WHERE id = ?');
+  ids.forEach(id => stmt.run(id));
+};
+
+export const getFileOriginal = (fileId: string): (FileOriginal & { data: Uint8Array }) | null => {
+  const row = db.prepare('SELECT name, mime_type, size, data FROM file_originals WHERE file_id = ?').get(fileId) as
+    { name: string; mime_type: string; size: number; data: Uint8Array } | undefined;
+  return row ? { name: row.name, mimeType: row.mime_type, size: row.size, data: row.data } : null;
+};
+
+/** Stores the original upload of a file, replacing the previous one. */
+export const saveFileOriginal = (fileId: string, { name, mimeType }: Omit<FileOriginal, 'size'>, data: Uint8Array) => {
+  db.prepare(
+    `INSERT INTO file_originals (file_id, name, mime_type, size, data, created_at) VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(file_id) DO UPDATE SET name = excluded.name, mime_type = excluded.mime_type, size = excluded.size, data = excluded.data, created_at = excluded.created_at`
+  ).run(fileId, name, mimeType, data.length, data, new Date().toISOString());
+};
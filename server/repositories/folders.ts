@@ -0,0 +1,110 @@
+import { db, SORT_COLUMNS } from '../db';
+import type { Folder } from '../../types';
+import type { ListQuery } from '../http';
+import { generateId } from '../../utils/helpers';
+
+export interface StoredFolder extends Folder {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface FolderRow {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+const toFolder = (row: FolderRow): StoredFolder => ({
+  id: row.id,
+  name: row.name,
+  parentId: row.parent_id,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+  deletedAt: row.deleted_at ? new Date(row.deleted_at) : null,
+});
+
+export const getFolder = (id: string): StoredFolder | null => {
+  const row = db.prepare('SELECT * FROM folders WHERE id = ?').get(id) as FolderRow | undefined;
+  return row ? toFolder(row) : null;
+};
+
+export const createFolder = (name: string, parentId: string | null, id: string = generateId()): StoredFolder => {
+  const now = new Date().toISOString();
+  db.prepare('INSERT INTO folders (id, name, parent_id, created_at, updated_at, deleted_at) VALUES (?, ?, ?, ?, ?, NULL)')
+    .run(id, name, parentId, now, now);
+  return getFolder(id)!;
+};
+
+/**
+ * Lists folders matching the trash flag and optional parent filter.
+ * `parentId === undefined` means "any parent"; `null` means root folders only.
+ */
+export const listFolders = (query: ListQuery, parentId: string | null | undefined): { items: StoredFolder[]; total: number } => {
+  const where: string[] = [query.deleted ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL'];
+  const params: (string | number)[] = [];
+  if (parentId === null) {
+    where.push('parent_id IS NULL');
+  } else if (parentId !== undefined) {
+    where.push('parent_id = ?');
+    params.push(parentId);
+  }
+  const whereSql = where.join(' AND ');
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM folders WHERE ${whereSql}`).get(...params) as { total: number };
+  const rows = db.prepare(
+    `SELECT * FROM folders WHERE ${whereSql} ORDER BY ${SORT_COLUMNS[query.sortBy]} ${query.sortOrder.toUpperCase()}, id LIMIT ? OFFSET ?`
+  ).all(...params, query.limit, query.offset) as unknown as FolderRow[];
+  return { items: rows.map(toFolder), total };
+};
+
+export const updateFolder = (id: string, changes: { name?: string; parentId?: string | null }): StoredFolder => {
+  const current = getFolder(id)!;
+  db.prepare('UPDATE folders SET name = ?, parent_id = ?, updated_at = ? WHERE id = ?').run(
+    changes.name ?? current.name,
+    changes.parentId === undefined ? current.parentId : changes.parentId,
+    new Date().toISOString(),
+    id
+  );
+  return getFolder(id)!;
+};
+
+/**
+ * Collects the given folders plus every nested subfolder and every file inside them,
+ * mirroring getAllDescendantAndSelfIds in hooks/useFileSystem.ts.
+ */
+export const collectDescendants = (folderIds: string[]): { folderIds: string[]; fileIds: string[] } => {
+  if (folderIds.length === 0) return { folderIds: [], fileIds: [] };
+  const placeholders = folderIds.map(() => '?').join(', ');
+  const folderRows = db.prepare(`
+    WITH RECURSIVE tree(id) AS (
+      SELECT id FROM folders WHERE id IN (${placeholders})
+      UNION
+      SELECT folders.id FROM folders JOIN tree ON folders.parent_id = tree.id
+    )
+    SELECT id FROM tree
+  `).all(...folderIds) as { id: string }[];
+  const allFolderIds = folderRows.map(r => r.id);
+  if (allFolderIds.length === 0) return { folderIds: [], fileIds: [] };
+  const filePlaceholders = allFolderIds.map(() => '?').join(', ');
+  const fileRows = db.prepare(`SELECT id FROM files WHERE folder_id IN (${filePlaceholders})`).all(...allFolderIds) as { id: string }[];
+  return { folderIds: allFolderIds, fileIds: fileRows.map(r => r.id) };
+};
+
+/** Returns true if `candidateId` is `folderId` itself or one of its subfolders. */
+export const isSelfOrDescendant = (folderId: string, candidateId: string): boolean =>
+  collectDescendants([folderId]).folderIds.includes(candidateId);
+
+export const setFoldersDeletedAt = (ids: string[], deletedAt: string | null) => {
+  const now = new Date().toISOString();
+  const stmt = db.prepare('UPDATE folders SET deleted_at = ?, updated_at = ? WHERE id = ?');
+  ids.forEach(id => stmt.run(deletedAt, now, id));
+};
+
+export const deleteFoldersPermanently = (ids: string[]) => {
+  // Children are removed by ON DELETE CASCADE, but callers pass the full tree anyway
+  // so the returned counts match what was actually removed.
+  const stmt = db.prepare('DELETE FROM folders WHERE id = ?');
+  ids.forEach(id => stmt.run(id));
+};
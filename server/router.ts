@@ -0,0 +1,66 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { badRequest } from './http';
+
+export interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: Record<string, string>;
+  query: URLSearchParams;
+}
+
+export type RouteHandler = (ctx: RouteContext) => Promise<void> | void;
+
+interface Route {
+  method: string;
+  segments: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Minimal path router. Patterns use `:name` segments, e.g. `/api/files/:id/restore`.
+ */
+export class Router {
+  private routes: Route[] = [];
+
+  add(method: string, pattern: string, handler: RouteHandler) {
+    this.routes.push({ method, segments: pattern.split('/').filter(Boolean), handler });
+  }
+
+  /**
+   * Finds the handler for a request.
+   * @returns The handler and its path params, `'method-not-allowed'` if the path exists for another method, or null.
+   * @throws ApiError (400) if a path param is not valid percent-encoding.
+   */
+  match(method: string, pathname: string): { handler: RouteHandler; params: Record<string, string> } | 'method-not-allowed' | null {
+    const pathSegments = pathname.split('/').filter(Boolean);
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const params = matchSegments(route.segments, pathSegments);
+      if (!params) continue;
+      if (route.method === method) return { handler: route.handler, params };
+      pathMatched = true;
+    }
+    return pathMatched ? 'method-not-allowed' : null;
+  }
+}
+
+const decodePathSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw badRequest(`Path segment '${segment}' is not valid percent-encoding.`);
+  }
+};
+
+const matchSegments = (pattern: string[], path: string[]): Record<string, string> | null => {
+  if (pattern.length !== path.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      params[pattern[i].slice(1)] = decodePathSegment(path[i]);
+    } else if (pattern[i] !== path[i]) {
+      return null;
+    }
+  }
+  return params;
+};
@@ -0,0 +1,75 @@
+import { Router } from '../router';
+import { sendJson, readJsonBody, optionalString, badRequest } from '../http';
+import { aiProvider } from '../../services/ai';
+import { ACCOUNT_TYPES } from '../../utils/chartOfAccounts';
+import { isRecord } from '../../utils/helpers';
+import type { AIInteractionRequest, AIInteractionResponse, ReceiptExtractionRequest, ReceiptExtractionResponse } from '../../api-spec';
+import type { Account, ConversationTurn } from '../../types';
+
+type ImagePart = NonNullable<AIInteractionRequest['imagePart']>;
+
+const isValidImagePart = (imagePart: unknown): imagePart is ImagePart =>
+  isRecord(imagePart) && isRecord(imagePart.inlineData) &&
+  typeof imagePart.inlineData.data === 'string' && typeof imagePart.inlineData.mimeType === 'string';
+
+const isValidTurn = (turn: unknown): turn is ConversationTurn =>
+  isRecord(turn) && (turn.role === 'user' || turn.role === 'model') && typeof turn.text === 'string';
+
+const isValidAccount = (account: unknown): account is Account =>
+  isRecord(account) && typeof account.id === 'string' && typeof account.code === 'string' && typeof account.name === 'string' &&
+  ACCOUNT_TYPES.some(type => type === account.type) && (account.parentId === null || typeof account.parentId === 'string') &&
+  typeof account.isActive === 'boolean';
+
+/** Copies only the fields of the image part, so nothing else in the request reaches the provider. */
+const toImagePart = ({ inlineData }: ImagePart): ImagePart => ({ inlineData: { data: inlineData.data, mimeType: inlineData.mimeType } });
+
+export const registerAIRoutes = (router: Router) => {
+  // POST /api/ai/interaction
+  router.add('POST', '/api/ai/interaction', async ({ req, res }) => {
+    const body = await readJsonBody(req);
+    const { imagePart, conversationHistory: history, accounts } = body;
+    if (imagePart !== undefined && !isValidImagePart(imagePart)) {
+      throw badRequest("Field 'imagePart' must contain 'inlineData' with string 'data' and 'mimeType'.");
+    }
+    const request: AIInteractionRequest = {
+      userMessage: optionalString(body, 'userMessage') ?? '',
+      documentContent: optionalString(body, 'documentContent') ?? '',
+      imagePart: imagePart && toImagePart(imagePart),
+    };
+    if (history !== undefined && history !== null) {
+      if (
+        !isRecord(history) || (history.summary !== null && typeof history.summary !== 'string') ||
+        !Array.isArray(history.turns) || !history.turns.every(isValidTurn)
+      ) {
+        throw badRequest("Field 'conversationHistory' must contain 'summary' (string or null) and 'turns' with 'role' ('user' or 'model') and string 'text'.");
+      }
+      request.conversationHistory = { summary: history.summary, turns: history.turns.map(turn => ({ role: turn.role, text: turn.text })) };
+    }
+    if (accounts !== undefined && accounts !== null) {
+      if (!Array.isArray(accounts) || !accounts.every(isValidAccount)) {
+        throw badRequest("Field 'accounts' must be an array of accounts with 'id', 'code', 'name', 'type', 'parentId' and 'isActive'.");
+      }
+      request.accounts = accounts;
+    }
+    if (request.userMessage.trim() === '' && !request.imagePart) {
+      throw badRequest("Either 'userMessage' or 'imagePart' must be provided.");
+    }
+    // generateResponse never throws: API and parsing failures come back as a chat_reply explaining the error.
+    const aiResponse: AIInteractionResponse = await aiProvider.generateResponse(
+      request.userMessage, request.documentContent, request.imagePart, request.conversationHistory, request.accounts
+    );
+    sendJson(res, 200, aiResponse);
+  });
+
+  // POST /api/ai/extract-receipt
+  router.add('POST', '/api/ai/extract-receipt', async ({ req, res }) => {
+    const { imagePart } = await readJsonBody(req);
+    if (!isValidImagePart(imagePart)) {
+      throw badRequest("Field 'imagePart' must contain 'inlineData' with string 'data' and 'mimeType'.");
+    }
+    const request: ReceiptExtractionRequest = { imagePart: toImagePart(imagePart) };
+    // extractReceipt never throws: failures come back as a null receipt with a message explaining the error.
+    const extraction: ReceiptExtractionResponse = await aiProvider.extractReceipt(request.imagePart);
+    sendJson(res, 200, extraction);
+  });
+};
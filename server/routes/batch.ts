@@ -0,0 +1,38 @@
+import { Router } from '../router';
+import { sendJson, readJsonBody, optionalNullableId, badRequest } from '../http';
+import { softDeleteItems, restoreItems, permanentlyDeleteItems, moveItems, requireBatchItems } from '../operations';
+import type { BatchDeleteRequest, BatchRestoreRequest, BatchPermanentDeleteRequest, BatchMoveRequest } from '../../api-spec';
+
+export const registerBatchRoutes = (router: Router) => {
+  // POST /api/batch/delete
+  router.add('POST', '/api/batch/delete', async ({ req, res }) => {
+    const body = await readJsonBody(req);
+    const request: BatchDeleteRequest = { items: requireBatchItems(body.items) };
+    sendJson(res, 200, softDeleteItems(request.items));
+  });
+
+  // POST /api/batch/restore
+  router.add('POST', '/api/batch/restore', async ({ req, res }) => {
+    const body = await readJsonBody(req);
+    const request: BatchRestoreRequest = { items: requireBatchItems(body.items) };
+    sendJson(res, 200, restoreItems(request.items));
+  });
+
+  // POST /api/batch/delete-permanent
+  router.add('POST', '/api/batch/delete-permanent', async ({ req, res }) => {
+    const body = await readJsonBody(req);
+    const request: BatchPermanentDeleteRequest = { items: requireBatchItems(body.items) };
+    sendJson(res, 200, permanentlyDeleteItems(request.items));
+  });
+
+  // POST /api/batch/move
+  router.add('POST', '/api/batch/move', async ({ req, res }) => {
+    const body = await readJsonBody(req);
+    const targetParentId = optionalNullableId(body, 'targetParentId');
+    if (targetParentId === undefined) {
+      throw badRequest("Field 'targetParentId' is required (use null for the root).");
+    }
+    const request: BatchMoveRequest = { items: requireBatchItems(body.items), targetParentId };
+    sendJson(res, 200, moveItems(request.items, request.targetParentId));
+  });
+};
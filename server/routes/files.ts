@@ -0,0 +1,145 @@
+import { Router } from '../router';
+import {
+  sendJson, sendNoContent, sendBinary, readJsonBody, readRawBody, parseListQuery, parseParentFilter, buildPage, requireString, optionalString, optionalNullableId,
+  badRequest, conflict, notFound,
+} from '../http';
+import { isRecord } from '../../utils/helpers';
+import { createFile, getFile, listFiles, updateFile, getFileOriginal, saveFileOriginal } from '../repositories/files';
+import { softDeleteItems, restoreItems, permanentlyDeleteItems, requireFile, assertValidTargetFolder } from '../operations';
+import type { CreateFileRequest, UpdateFileRequest } from '../../api-spec';
+import type { ReportKind, ReportSource } from '../../types';
+
+const REPORT_KINDS: ReportKind[] = ['general_ledger', 'trial_balance', 'income_statement', 'balance_sheet', 'cash_flow'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A ReportSource as sent in JSON, with `generatedAt` as a string. */
+type ReportSourceBody = Omit<ReportSource, 'generatedAt'> & { generatedAt: string };
+
+const isPeriodDate = (date: unknown): date is string => date === '' || (typeof date === 'string' && ISO_DATE.test(date));
+
+const isPeriod = (period: unknown): period is { from: string; to: string } =>
+  isRecord(period) && isPeriodDate(period.from) && isPeriodDate(period.to);
+
+const isReportSourceBody = (report: unknown): report is ReportSourceBody =>
+  isRecord(report) &&
+  REPORT_KINDS.some(kind => kind === report.kind) &&
+  (report.folderId === null || typeof report.folderId === 'string') &&
+  (report.comparison === undefined || report.comparison === null || isPeriod(report.comparison)) &&
+  typeof report.generatedAt === 'string' && !isNaN(new Date(report.generatedAt).getTime()) &&
+  (report.editableCopy === undefined || typeof report.editableCopy === 'boolean') &&
+  isPeriod(report);
+
+/** Reads the optional `report` field of a create request (see ReportSource in types.ts). */
+const optionalReportSource = (body: Record<string, unknown>): ReportSource | null => {
+  const report = body.report;
+  if (report === undefined || report === null) return null;
+  if (!isReportSourceBody(report)) throw badRequest("Field 'report' must be null or { kind, folderId, from, to, comparison?, generatedAt, editableCopy? }.");
+  return {
+    kind: report.kind,
+    folderId: report.folderId,
+    from: report.from,
+    to: report.to,
+    comparison: report.comparison ? { from: report.comparison.from, to: report.comparison.to } : null,
+    generatedAt: new Date(report.generatedAt),
+    ...(report.editableCopy ? { editableCopy: true } : {}),
+  };
+};
+
+export const registerFileRoutes = (router: Router) => {
+  // POST /api/files
+  router.add('POST', '/api/files', async ({ req, res }) => {
+    const body = await readJsonBody(req);
+    const request: CreateFileRequest = {
+      id: optionalNullableId(body, 'id') ?? undefined,
+      name: requireString(body, 'name'),
+      folderId: optionalNullableId(body, 'folderId') ?? null,
+      content: optionalString(body, 'content'),
+      report: optionalReportSource(body),
+    };
+    if (request.id && getFile(request.id)) throw conflict(`File '${request.id}' already exists.`);
+    assertValidTargetFolder(request.folderId, 'folderId');
+    sendJson(res, 201, createFile(request.name, request.folderId, request.content ?? '', request.id, request.report));
+  });
+
+  // GET /api/files (metadata only, no content)
+  router.add('GET', '/api/files', ({ res, query }) => {
+    const listQuery = parseListQuery(query);
+    const { items, total } = listFiles(listQuery, parseParentFilter(query, 'folderId'));
+    sendJson(res, 200, buildPage(items, total, listQuery));
+  });
+
+  // GET /api/files/:id (includes content)
+  router.add('GET', '/api/files/:id', ({ res, params }) => {
+    sendJson(res, 200, requireFile(params.id));
+  });
+
+  // PUT /api/files/:id
+  router.add('PUT', '/api/files/:id', async ({ req, res, params }) => {
+    requireFile(params.id);
+    const body = await readJsonBody(req);
+    const request: UpdateFileRequest = { content: optionalString(body, 'content') };
+    if (body.name !== undefined) request.name = requireString(body, 'name');
+    if (body.folderId !== undefined) request.folderId = optionalNullableId(body, 'folderId');
+    if (request.name === undefined && request.folderId === undefined && request.content === undefined) {
+      throw badRequest("At least one of 'name', 'folderId' or 'content' must be provided.");
+    }
+    if (request.folderId !== undefined) assertValidTargetFolder(request.folderId, 'folderId');
+    const report = getFile(params.id)?.report;
+    if (request.content !== undefined && report && !report.editableCopy) throw badRequest('Generated reports are read-only.');
+    sendJson(res, 200, updateFile(params.id, request));
+  });
+
+  // DELETE /api/files/:id (soft delete)
+  router.add('DELETE', '/api/files/:id', ({ res, params }) => {
+    softDeleteItems([{ id: params.id, type: 'file' }]);
+    sendJson(res, 200, requireFile(params.id));
+  });
+
+  // POST /api/files/:id/restore
+  router.add('POST', '/api/files/:id/restore', ({ res, params }) => {
+    restoreItems([{ id: params.id, type: 'file' }]);
+    sendJson(res, 200, requireFile(params.id));
+  });
+
+  // DELETE /api/files/:id/permanent
+  router.add('DELETE', '/api/files/:id/permanent', ({ res, params }) => {
+    permanentlyDeleteItems([{ id: params.id, type: 'file' }]);
+    sendNoContent(res);
+  });
+
+  // POST /api/files/:id/duplicate
+  router.add('POST', '/api/files/:id/duplicate', ({ res, params }) => {
+    const original = requireFile(params.id);
+    if (original.deletedAt) throw badRequest('Files in the trash cannot be duplicated.');
+    // Same fields as getFileCopyFields in utils/helpers.ts; a copy of a report can be edited but is still not a ledger source
+    const report = original.report ? { ...original.report, editableCopy: true } : null;
+    const copy = createFile(`Copia de ${original.name}`, original.folderId, original.content, undefined, report);
+    const upload = getFileOriginal(original.id);
+    if (upload) saveFileOriginal(copy.id, upload, upload.data);
+    sendJson(res, 201, requireFile(copy.id));
+  });
+
+  // PUT /api/files/:id/original (raw bytes; Content-Type and the URI-encoded X-File-Name header describe them)
+  router.add('PUT', '/api/files/:id/original', async ({ req, res, params }) => {
+    requireFile(params.id);
+    let name: string;
+    try {
+      name = decodeURIComponent(String(req.headers['x-file-name'] ?? '')).trim();
+    } catch {
+      throw badRequest("Header 'X-File-Name' must be URI-encoded.");
+    }
+    if (!name) throw badRequest("Header 'X-File-Name' is required.");
+    const data = await readRawBody(req);
+    if (data.length === 0) throw badRequest('Request body must contain the file bytes.');
+    saveFileOriginal(params.id, { name, mimeType: req.headers['content-type'] || 'application/octet-stream' }, data);
+    sendJson(res, 200, requireFile(params.id));
+  });
+
+  // GET /api/files/:id/original
+  router.add('GET', '/api/files/:id/original', ({ res, params }) => {
+    requireFile(params.id);
+    const original = getFileOriginal(params.id);
+    if (!original) throw notFound(`File '${params.id}' has no original upload.`);
+    sendBinary(res, original.mimeType, original.name, original.data);
+  });
+};
@@ -0,0 +1,66 @@
+import { Router } from '../router';
+import {
+  sendJson, sendNoContent, readJsonBody, parseListQuery, parseParentFilter, buildPage, requireString, optionalNullableId, badRequest, conflict,
+} from '../http';
+import { createFolder, getFolder, listFolders, updateFolder } from '../repositories/folders';
+import {
+  softDeleteItems, restoreItems, permanentlyDeleteItems, requireFolder, assertValidTargetFolder, assertNoFolderCycle,
+} from '../operations';
+import type { CreateFolderRequest, UpdateFolderRequest } from '../../api-spec';
+
+export const registerFolderRoutes = (router: Router) => {
+  // POST /api/folders
+  router.add('POST', '/api/folders', async ({ req, res }) => {
+    const body = await readJsonBody(req);
+    const request: CreateFolderRequest = {
+      id: optionalNullableId(body, 'id') ?? undefined,
+      name: requireString(body, 'name'),
+      parentId: optionalNullableId(body, 'parentId') ?? null,
+    };
+    if (request.id && getFolder(request.id)) throw conflict(`Folder '${request.id}' already exists.`);
+    assertValidTargetFolder(request.parentId, 'parentId');
+    sendJson(res, 201, createFolder(request.name, request.parentId, request.id));
+  });
+
+  // GET /api/folders
+  router.add('GET', '/api/folders', ({ res, query }) => {
+    const listQuery = parseListQuery(query);
+    const { items, total } = listFolders(listQuery, parseParentFilter(query, 'parentId'));
+    sendJson(res, 200, buildPage(items, total, listQuery));
+  });
+
+  // PUT /api/folders/:id
+  router.add('PUT', '/api/folders/:id', async ({ req, res, params }) => {
+    requireFolder(params.id);
+    const body = await readJsonBody(req);
+    const request: UpdateFolderRequest = {};
+    if (body.name !== undefined) request.name = requireString(body, 'name');
+    if (body.parentId !== undefined) request.parentId = optionalNullableId(body, 'parentId');
+    if (request.name === undefined && request.parentId === undefined) {
+      throw badRequest("At least one of 'name' or 'parentId' must be provided.");
+    }
+    if (request.parentId !== undefined) {
+      assertValidTargetFolder(request.parentId, 'parentId');
+      assertNoFolderCycle(params.id, request.parentId);
+    }
+    sendJson(res, 200, updateFolder(params.id, request));
+  });
+
+  // DELETE /api/folders/:id (soft delete, cascades to contents)
+  router.add('DELETE', '/api/folders/:id', ({ res, params }) => {
+    softDeleteItems([{ id: params.id, type: 'folder' }]);
+    sendJson(res, 200, requireFolder(params.id));
+  });
+
+  // POST /api/folders/:id/restore
+  router.add('POST', '/api/folders/:id/restore', ({ res, params }) => {
+    restoreItems([{ id: params.id, type: 'folder' }]);
+    sendJson(res, 200, requireFolder(params.id));
+  });
+
+  // DELETE /api/folders/:id/permanent
+  router.add('DELETE', '/api/folders/:id/permanent', ({ res, params }) => {
+    permanentlyDeleteItems([{ id: params.id, type: 'folder' }]);
+    sendNoContent(res);
+  });
+};
@@ -0,0 +1,62 @@
+import { AIResponse, ChatMessage, ConversationHistory, Account, ReceiptExtraction } from '../../types';
+
+export type AIProviderName = 'gemini' | 'mock';
+
+/**
+ * Thrown by AIProvider.streamResponse when the caller aborts the request through its AbortSignal.
+ */
+export class AIResponseCancelledError extends Error {
+  constructor() {
+    super("The AI response was cancelled.");
+    this.name = 'AIResponseCancelledError';
+  }
+}
+
+export interface AIStreamOptions {
+  /** Called with the full `chat_message` text received so far, each time it grows. */
+  onChatMessageProgress?: (partialChatMessage: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Contract for the model behind the chat, used by useChatLogic and the API server.
+ * `history` carries earlier turns of the chat thread (see utils/conversationHistory.ts), and
+ * `accounts` the chart of accounts, whose active accounts the model must use (see utils/chartOfAccounts.ts).
+ * Implementations never throw for API or parsing failures: those come back as a
+ * CHAT_REPLY explaining the problem (or, for extractReceipt, a null receipt). Only a cancelled
+ * stream throws (AIResponseCancelledError).
+ */
+export interface AIProvider {
+  readonly name: AIProviderName;
+
+  generateResponse(
+    userMessage: string,
+    documentContent: string,
+    imagePart?: ChatMessage['imagePart'],
+    history?: ConversationHistory | null,
+    accounts?: Account[] | null
+  ): Promise<AIResponse>;
+
+  /**
+   * Streaming variant of generateResponse. The `chat_message` is reported through
+   * `onChatMessageProgress` as it arrives; the returned AIResponse (including any
+   * `new_document_content`) is only produced once the whole response has been received
+   * and validated, so callers never apply a partial document.
+   * @throws AIResponseCancelledError if `signal` is aborted.
+   */
+  streamResponse(
+    userMessage: string,
+    documentContent: string,
+    imagePart: ChatMessage['imagePart'] | undefined,
+    history: ConversationHistory | null | undefined,
+    accounts: Account[] | null | undefined,
+    options?: AIStreamOptions
+  ): Promise<AIResponse>;
+
+  /**
+   * The extract action: reads a receipt or invoice from an image as a ReceiptRecord
+   * (see utils/receipts.ts). The record is not validated; amounts that do not add up are
+   * left for the user to review.
+   */
+  extractReceipt(imagePart: NonNullable<ChatMessage['imagePart']>): Promise<ReceiptExtraction>;
+}
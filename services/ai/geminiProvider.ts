@@ -0,0 +1,268 @@
+import { GoogleGenAI, GenerateContentResponse, Part, Content } from "@google/genai";
+import { AIResponse, AISuggestionType, ChatMessage, ConversationHistory, Account, ReceiptExtraction } from '../../types'; // Added ChatMessage for imagePart
+import { GEMINI_MODEL_TEXT, AI_SYSTEM_INSTRUCTION, AI_RECEIPT_EXTRACTION_INSTRUCTION } from '../../constants';
+import { extractPartialJsonStringField } from '../../utils/partialJson';
+import { isDocumentPatchOperationList } from '../../utils/documentPatch';
+import { isJournalEntryProposalList } from '../../utils/journal';
+import { formatChartOfAccountsForPrompt } from '../../utils/chartOfAccounts';
+import { isRecord } from '../../utils/helpers';
+import { parseReceiptExtraction } from '../../utils/receipts';
+import { AIProvider, AIResponseCancelledError, AIStreamOptions } from './AIProvider';
+
+const MISSING_API_KEY_RESPONSE: AIResponse = {
+  action_type: AISuggestionType.CHAT_REPLY,
+  new_document_content: null, // Ensure consistent structure
+  chat_message: "AI features are disabled because the API key is not configured.",
+};
+
+/** The system instruction, followed by the user's chart of accounts when there is one. */
+const buildSystemInstruction = (accounts: Account[] | null | undefined): string => {
+  const chart = accounts ? formatChartOfAccountsForPrompt(accounts) : null;
+  if (!chart) return AI_SYSTEM_INSTRUCTION;
+  return `${AI_SYSTEM_INSTRUCTION}
+CHART OF ACCOUNTS:
+The user keeps the following chart of accounts (code, name and type; subaccounts are indented under their parent).
+Use these accounts whenever you categorize amounts or write journal entries: in 'journal_entries' set 'account' to the account code exactly as listed, preferring the most specific subaccount that fits.
+Do not invent account codes. If no account fits, use the closest one and say in 'chat_message' which account the user may want to create.
+${chart}
+`;
+};
+
+const buildContentParts = (
+  userMessage: string,
+  documentContent: string,
+  imagePart?: ChatMessage['imagePart'],
+  conversationSummary?: string | null
+): Part[] => {
+  const summaryContext = conversationSummary ? `Summary of earlier conversation:\n${conversationSummary}\n\n` : '';
+  const promptWithContext = `${summaryContext}User message: "${userMessage}"\n\nCurrent document content:\n---\n${documentContent}\n---`;
+
+  const contentParts: Part[] = [{ text: promptWithContext }];
+
+  if (imagePart) {
+    contentParts.unshift(imagePart); // Add image part at the beginning if it exists
+  }
+  return contentParts;
+};
+
+/**
+ * Builds the multi-turn `contents`: earlier turns, then the current message with the document.
+ * The conversation must start with a user turn and alternate roles, so leading model turns
+ * (e.g. the welcome message) are dropped and consecutive turns of the same role are merged.
+ */
+const buildContents = (
+  userMessage: string,
+  documentContent: string,
+  imagePart: ChatMessage['imagePart'] | undefined,
+  history: ConversationHistory | null | undefined
+): Content[] => {
+  const contents: Content[] = [];
+  history?.turns.forEach(turn => {
+    if (contents.length === 0 && turn.role === 'model') return;
+    const last = contents[contents.length - 1];
+    if (last && last.role === turn.role) {
+      last.parts = [{ text: `${last.parts?.[0]?.text ?? ''}\n\n${turn.text}` }];
+    } else {
+      contents.push({ role: turn.role, parts: [{ text: turn.text }] });
+    }
+  });
+
+  const currentParts = buildContentParts(userMessage, documentContent, imagePart, history?.summary);
+  const last = contents[contents.length - 1];
+  if (last && last.role === 'user') {
+    // An earlier message without a reply (e.g. cancelled) is sent together with the current one
+    last.parts = [...currentParts.slice(0, -1), { text: `${last.parts?.[0]?.text ?? ''}\n\n${currentParts[currentParts.length - 1].text}` }];
+  } else {
+    contents.push({ role: 'user', parts: currentParts });
+  }
+  return contents;
+};
+
+/** The model's raw text without the Markdown code fence it sometimes wraps JSON in. */
+const stripCodeFence = (rawText: string): string => {
+  const jsonStr = rawText.trim();
+  const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+  const match = jsonStr.match(fenceRegex);
+  return match && match[2] ? match[2].trim() : jsonStr;
+};
+
+const AI_SUGGESTION_TYPES: unknown[] = Object.values(AISuggestionType);
+
+/** The fields every response must have: a known action_type, the chat message, and new_document_content as a string or null. */
+const hasAIResponseFields = (value: unknown): value is Record<string, unknown> & Pick<AIResponse, 'action_type' | 'chat_message'> =>
+  isRecord(value) && AI_SUGGESTION_TYPES.includes(value.action_type) && typeof value.chat_message === 'string' &&
+  (typeof value.new_document_content === 'string' || value.new_document_content === null);
+
+/** True if the parsed JSON is a response the app can act on: it has the fields its action needs, well-formed. */
+const isAIResponse = (value: unknown): value is AIResponse => {
+  if (!hasAIResponseFields(value)) return false;
+  switch (value.action_type) {
+    case AISuggestionType.DOCUMENT_UPDATE:
+      return typeof value.new_document_content === 'string';
+    case AISuggestionType.DOCUMENT_PATCH:
+      return isDocumentPatchOperationList(value.patch_operations);
+    case AISuggestionType.JOURNAL_ENTRIES:
+      return isJournalEntryProposalList(value.journal_entries) && (value.sheet === undefined || value.sheet === null || typeof value.sheet === 'string');
+    default:
+      return true;
+  }
+};
+
+// Shown when a response has the common fields but not the ones its action needs
+const INVALID_ACTION_MESSAGES: Partial<Record<AISuggestionType, string>> = {
+  [AISuggestionType.DOCUMENT_UPDATE]: "Sorry, I tried to update the document but received invalid content data. Please try again.",
+  [AISuggestionType.DOCUMENT_PATCH]: "Sorry, I tried to edit the document but received invalid patch operations. Please try again.",
+  [AISuggestionType.JOURNAL_ENTRIES]: "Sorry, I tried to record journal entries but received invalid entry data. Please try again.",
+};
+
+/**
+ * Parses and validates the model's raw JSON text.
+ * Invalid structures are turned into a CHAT_REPLY explaining the problem; JSON syntax errors are thrown.
+ */
+const parseAIResponseText = (rawText: string): AIResponse => {
+  const jsonStr = stripCodeFence(rawText);
+
+  const parsedResponse: unknown = JSON.parse(jsonStr); // This is where "Bad control character" error occurs if AI doesn't escape properly
+
+  if (!isAIResponse(parsedResponse)) {
+    const actionType = hasAIResponseFields(parsedResponse) ? parsedResponse.action_type : null;
+    console.error(actionType ? `Invalid fields for AI action '${actionType}':` : "Invalid AI response structure or missing/invalid critical fields:", parsedResponse);
+    return {
+      action_type: AISuggestionType.CHAT_REPLY,
+      new_document_content: null,
+      chat_message: (actionType && INVALID_ACTION_MESSAGES[actionType]) ?? "Sorry, I received an unexpected response structure from the AI. Please try again.",
+    };
+  }
+
+  if (parsedResponse.action_type === AISuggestionType.CHAT_REPLY && parsedResponse.new_document_content !== null) {
+    // Non-critical: the instruction asks for null, but the reply is still usable
+    console.warn("AI suggested chat reply but 'new_document_content' was not null.", parsedResponse);
+  }
+
+  return parsedResponse;
+};
+
+const toErrorResponse = (error: unknown): AIResponse => {
+  console.error("Error calling Gemini API or parsing response:", error);
+  let errorMessage = "Sorry, I encountered an error. Please try again.";
+  if (error instanceof Error) {
+      // Check if it's a JSON parsing error specifically, which the new instruction aims to prevent
+      if (error.message.includes("JSON at position") || error.name === "SyntaxError") {
+           errorMessage = `Sorry, there was an issue understanding the AI's response format (JSON). Please try again. Details: ${error.message}`;
+      } else {
+          errorMessage = `Sorry, I encountered an error: ${error.message}. Please try again.`;
+      }
+  }
+  return {
+    action_type: AISuggestionType.CHAT_REPLY,
+    new_document_content: null,
+    chat_message: errorMessage,
+  };
+};
+
+/**
+ * AIProvider backed by the Gemini API (@google/genai), model GEMINI_MODEL_TEXT.
+ * Without an API key every call answers with a CHAT_REPLY saying AI features are disabled.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): AIProvider => {
+  if (!apiKey) {
+    console.error("API_KEY environment variable not set. AI features will not work.");
+  }
+  const ai = new GoogleGenAI({ apiKey: apiKey || "MISSING_API_KEY" });
+
+  const generateResponse = async (
+    userMessage: string,
+    documentContent: string,
+    imagePart?: ChatMessage['imagePart'], // Optional image part
+    history?: ConversationHistory | null,
+    accounts?: Account[] | null
+  ): Promise<AIResponse> => {
+    if (!apiKey) {
+      return MISSING_API_KEY_RESPONSE;
+    }
+
+    try {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: GEMINI_MODEL_TEXT,
+        contents: buildContents(userMessage, documentContent, imagePart, history),
+        config: {
+          systemInstruction: buildSystemInstruction(accounts),
+          responseMimeType: "application/json",
+        },
+      });
+
+      return parseAIResponseText(response.text ?? '');
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  };
+
+  const streamResponse = async (
+    userMessage: string,
+    documentContent: string,
+    imagePart: ChatMessage['imagePart'] | undefined,
+    history: ConversationHistory | null | undefined,
+    accounts: Account[] | null | undefined,
+    { onChatMessageProgress, signal }: AIStreamOptions = {}
+  ): Promise<AIResponse> => {
+    if (!apiKey) {
+      onChatMessageProgress?.(MISSING_API_KEY_RESPONSE.chat_message);
+      return MISSING_API_KEY_RESPONSE;
+    }
+
+    let rawText = '';
+    let lastReportedChatMessage = '';
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: GEMINI_MODEL_TEXT,
+        contents: buildContents(userMessage, documentContent, imagePart, history),
+        config: {
+          systemInstruction: buildSystemInstruction(accounts),
+          responseMimeType: "application/json",
+          abortSignal: signal,
+        },
+      });
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) throw new AIResponseCancelledError();
+        rawText += chunk.text ?? '';
+        const partialChatMessage = extractPartialJsonStringField(rawText, 'chat_message');
+        if (partialChatMessage !== null && partialChatMessage !== lastReportedChatMessage) {
+          lastReportedChatMessage = partialChatMessage;
+          onChatMessageProgress?.(partialChatMessage);
+        }
+      }
+      if (signal?.aborted) throw new AIResponseCancelledError();
+
+      return parseAIResponseText(rawText);
+    } catch (error) {
+      if (error instanceof AIResponseCancelledError || signal?.aborted) {
+        throw new AIResponseCancelledError();
+      }
+      return toErrorResponse(error);
+    }
+  };
+
+  const extractReceipt = async (imagePart: NonNullable<ChatMessage['imagePart']>): Promise<ReceiptExtraction> => {
+    if (!apiKey) {
+      return { receipt: null, message: MISSING_API_KEY_RESPONSE.chat_message };
+    }
+
+    try {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: GEMINI_MODEL_TEXT,
+        contents: [{ role: 'user', parts: [imagePart, { text: "Extract the data of this receipt or invoice." }] }],
+        config: {
+          systemInstruction: AI_RECEIPT_EXTRACTION_INSTRUCTION,
+          responseMimeType: "application/json",
+        },
+      });
+
+      return parseReceiptExtraction(JSON.parse(stripCodeFence(response.text ?? '')));
+    } catch (error) {
+      return { receipt: null, message: toErrorResponse(error).chat_message, isRetryable: true };
+    }
+  };
+
+  return { name: 'gemini', generateResponse, streamResponse, extractReceipt };
+};
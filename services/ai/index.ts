@@ -0,0 +1,33 @@
+import { AIProvider, AIProviderName } from './AIProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+export type { AIProvider, AIProviderName, AIStreamOptions } from './AIProvider';
+export { AIResponseCancelledError } from './AIProvider';
+
+const DEFAULT_PROVIDER: AIProviderName = 'gemini';
+
+export const createAIProvider = (name: AIProviderName): AIProvider => {
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider(process.env.API_KEY);
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+const resolveProviderName = (configured: string | undefined): AIProviderName => {
+  if (configured === 'gemini' || configured === 'mock') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown AI_PROVIDER "${configured}". Falling back to "${DEFAULT_PROVIDER}".`);
+  }
+  return DEFAULT_PROVIDER;
+};
+
+/**
+ * The AI provider used by the chat and the API server, chosen once at startup from the
+ * AI_PROVIDER setting in .env.local ('gemini' | 'mock'). Defaults to Gemini.
+ */
+export const aiProvider: AIProvider = createAIProvider(resolveProviderName(process.env.AI_PROVIDER));
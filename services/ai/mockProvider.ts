@@ -0,0 +1,262 @@
+import { AIResponse, AISuggestionType, ChatMessage, ConversationHistory, DocumentPatchOperation, JournalEntryProposal, Account, ReceiptExtraction } from '../../types';
+import { parseCsv } from '../../utils/tabularDataParser';
+import { parseWorkbookContent } from '../../utils/workbook';
+import { DEFAULT_CURRENCY } from '../../constants';
+import { AIProvider, AIResponseCancelledError, AIStreamOptions } from './AIProvider';
+
+export interface MockAIRequest {
+  userMessage: string;
+  documentContent: string;
+  imagePart?: ChatMessage['imagePart'];
+  history?: ConversationHistory | null;
+  accounts?: Account[] | null;
+}
+
+/**
+ * One scripted answer of the mock provider. Rules are tried in order and the first match wins.
+ * A RegExp is tested against the trimmed user message and its match is passed to `respond`.
+ */
+export interface MockAIRule {
+  match: RegExp | ((request: MockAIRequest) => boolean);
+  respond: AIResponse | ((request: MockAIRequest, match: RegExpMatchArray | null) => AIResponse);
+}
+
+export interface MockProviderOptions {
+  /** Pause between streamed chunks, so the UI behaves as with a real model. 0 streams synchronously. */
+  chunkDelayMs?: number;
+  /** Answer of extractReceipt, whatever the image. Defaults to DEFAULT_MOCK_RECEIPT_EXTRACTION. */
+  receiptExtraction?: ReceiptExtraction;
+}
+
+const DEFAULT_CHUNK_DELAY_MS = 25;
+
+const chatReply = (chat_message: string): AIResponse => ({
+  action_type: AISuggestionType.CHAT_REPLY,
+  new_document_content: null,
+  chat_message,
+});
+
+const documentUpdate = (new_document_content: string, chat_message: string): AIResponse => ({
+  action_type: AISuggestionType.DOCUMENT_UPDATE,
+  new_document_content,
+  chat_message,
+});
+
+const documentPatch = (patch_operations: DocumentPatchOperation[], chat_message: string): AIResponse => ({
+  action_type: AISuggestionType.DOCUMENT_PATCH,
+  new_document_content: null,
+  patch_operations,
+  chat_message,
+});
+
+const journalEntries = (journal_entries: JournalEntryProposal[], chat_message: string): AIResponse => ({
+  action_type: AISuggestionType.JOURNAL_ENTRIES,
+  new_document_content: null,
+  journal_entries,
+  chat_message,
+});
+
+const countLines = (content: string): number => (content === '' ? 0 : content.split('\n').length);
+
+/**
+ * The script used by the app when AI_PROVIDER=mock. It covers adding, replacing, deleting
+ * (as a patch) and clearing document content, and recording journal entries, so the whole
+ * chat → document update flow can be exercised offline.
+ */
+export const DEFAULT_MOCK_RULES: MockAIRule[] = [
+  {
+    // "agrega: Manzanas,2" / "añade Manzanas,2" / "add: Apples,2" → appended as a new line (a new row for CSV)
+    match: /^(?:agrega|añade|add)(?:\s+(?:la\s+|una\s+)?(?:fila|línea|linea|row|line))?\s*:?\s*([\s\S]+)$/i,
+    respond: ({ documentContent }, match) => {
+      const newLine = (match?.[1] ?? '').trim();
+      const base = documentContent.replace(/\n+$/, '');
+      return documentUpdate(
+        base === '' ? newLine : `${base}\n${newLine}`,
+        `[Simulado] He agregado "${newLine}" al final del documento.`
+      );
+    },
+  },
+  {
+    // reemplaza "Enero" por "Febrero" / replace "Jan" with "Feb"
+    match: /^(?:reemplaza|replace)\s+"([^"]+)"\s+(?:por|con|with)\s+"([^"]*)"/i,
+    respond: ({ documentContent }, match) => {
+      const search = match?.[1] ?? '';
+      const replacement = match?.[2] ?? '';
+      const occurrences = documentContent.split(search).length - 1;
+      if (occurrences === 0) {
+        return chatReply(`[Simulado] No encontré "${search}" en el documento, así que no hice cambios.`);
+      }
+      return documentUpdate(
+        documentContent.split(search).join(replacement),
+        `[Simulado] He reemplazado ${occurrences} ${occurrences === 1 ? 'aparición' : 'apariciones'} de "${search}" por "${replacement}".`
+      );
+    },
+  },
+  {
+    // "elimina la fila 3" → delete_row patch (CSV); "elimina la fila 3 de la hoja Gastos" → the same on one sheet of a workbook;
+    // "elimina la línea 3" → replace_lines patch (text)
+    match: /^(?:elimina|borra|delete)\s+(?:la\s+)?(fila|row|línea|linea|line)\s+(\d+)(?:\s+(?:de\s+la\s+hoja|of\s+sheet)\s+(.+))?$/i,
+    respond: ({ documentContent }, match) => {
+      const target = (match?.[1] ?? '').toLowerCase();
+      const number = Number(match?.[2]);
+      const sheetName = match?.[3]?.trim();
+      if (target === 'fila' || target === 'row') {
+        const sheet = parseWorkbookContent(documentContent).find(s => !sheetName || s.name.toLowerCase() === sheetName.toLowerCase());
+        const originalValues = sheet ? parseCsv(sheet.content)?.rows[number - 1] : undefined;
+        return documentPatch(
+          [{ op: 'delete_row', row: number, ...(sheetName ? { sheet: sheetName } : {}), original_values: originalValues ?? [] }],
+          `[Simulado] He eliminado la fila ${number}${sheetName ? ` de la hoja "${sheetName}"` : ''}.`
+        );
+      }
+      const originalLine = documentContent.split('\n')[number - 1];
+      return documentPatch(
+        [{ op: 'replace_lines', start_line: number, end_line: number, new_lines: [], original_lines: originalLine !== undefined ? [originalLine] : [] }],
+        `[Simulado] He eliminado la línea ${number}.`
+      );
+    },
+  },
+  {
+    // "asiento 1200 de 621 a 572" → journal entry debiting 621 and crediting 572
+    match: /^(?:asiento|registra|entry)\s+(\d+(?:[.,]\d{1,2})?)\s+(?:de|debe|debit)\s+(\S+)\s+(?:a|haber|credit)\s+(\S+)$/i,
+    respond: ({ accounts }, match) => {
+      const amount = Number((match?.[1] ?? '0').replace(',', '.'));
+      const debitAccount = match?.[2] ?? '';
+      const creditAccount = match?.[3] ?? '';
+      const describe = (code: string) => {
+        const account = accounts?.find(a => a.code === code);
+        return account ? `${code} ${account.name}` : `${code} (no está en el plan de cuentas)`;
+      };
+      return journalEntries(
+        [{
+          date: new Date().toISOString().slice(0, 10),
+          reference: '',
+          memo: `Asiento simulado ${debitAccount} a ${creditAccount}`,
+          lines: [
+            { account: debitAccount, debit: amount, credit: 0, currency: DEFAULT_CURRENCY },
+            { account: creditAccount, debit: 0, credit: amount, currency: DEFAULT_CURRENCY },
+          ],
+        }],
+        `[Simulado] He propuesto un asiento de ${amount.toFixed(2)} con cargo a ${describe(debitAccount)} y abono a ${describe(creditAccount)}.`
+      );
+    },
+  },
+  {
+    match: /^(?:borra todo|limpia el documento|vacía el documento|clear)\b/i,
+    respond: documentUpdate('', '[Simulado] He vaciado el documento.'),
+  },
+  {
+    match: ({ imagePart }) => !!imagePart,
+    respond: ({ imagePart }) => chatReply(
+      `[Simulado] Recibí una imagen (${imagePart?.inlineData.mimeType}). El proveedor simulado no analiza imágenes; usa el proveedor Gemini para extraer datos de ella.`
+    ),
+  },
+  {
+    match: () => true,
+    respond: ({ userMessage, documentContent, history }) => chatReply(
+      `[Simulado] Recibí tu mensaje: "${userMessage.trim()}". El documento actual tiene ${countLines(documentContent)} líneas ` +
+      `y la conversación incluye ${history?.turns.length ?? 0} turnos anteriores${history?.summary ? ' más un resumen' : ''}. ` +
+      `Prueba con «agrega: ...», «reemplaza "a" por "b"», «elimina la fila 2», «asiento 100 de 600 a 572» o «limpia el documento» para ver una actualización del documento.`
+    ),
+  },
+];
+
+/**
+ * The receipt read by extractReceipt when AI_PROVIDER=mock. Its amounts add up, so it can be
+ * added to an expenses table as is.
+ */
+export const DEFAULT_MOCK_RECEIPT_EXTRACTION: ReceiptExtraction = {
+  receipt: {
+    vendor: 'Papelería Ejemplo S.L.',
+    taxId: 'B12345678',
+    date: '2025-03-14',
+    lineItems: [
+      { description: 'Paquete de folios A4', quantity: 2, unitPrice: 4.5, amount: 9 },
+      { description: 'Bolígrafos (caja de 12)', quantity: 1, unitPrice: 6, amount: 6 },
+    ],
+    subtotal: 15,
+    tax: 3.15,
+    total: 18.15,
+    currency: DEFAULT_CURRENCY,
+    paymentMethod: 'Tarjeta',
+  },
+  message: '[Simulado] El proveedor simulado no analiza imágenes; estos son datos de ejemplo.',
+};
+
+const resolveRule = (rules: MockAIRule[], request: MockAIRequest): AIResponse => {
+  const message = request.userMessage.trim();
+  for (const rule of rules) {
+    let match: RegExpMatchArray | null = null;
+    if (rule.match instanceof RegExp) {
+      match = message.match(rule.match);
+      if (!match) continue;
+    } else if (!rule.match(request)) {
+      continue;
+    }
+    return typeof rule.respond === 'function' ? rule.respond(request, match) : { ...rule.respond };
+  }
+  return chatReply("[Simulado] No hay ninguna respuesta programada para este mensaje.");
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new AIResponseCancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AIResponseCancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Offline AIProvider that answers from a fixed script instead of calling a model.
+ * The same request always produces the same response, which makes it suitable for
+ * development without an API key, demos and tests.
+ * @param rules The script to answer from, tried in order. Defaults to DEFAULT_MOCK_RULES.
+ */
+export const createMockProvider = (
+  rules: MockAIRule[] = DEFAULT_MOCK_RULES,
+  { chunkDelayMs = DEFAULT_CHUNK_DELAY_MS, receiptExtraction = DEFAULT_MOCK_RECEIPT_EXTRACTION }: MockProviderOptions = {}
+): AIProvider => {
+  const generateResponse = async (
+    userMessage: string,
+    documentContent: string,
+    imagePart?: ChatMessage['imagePart'],
+    history?: ConversationHistory | null,
+    accounts?: Account[] | null
+  ): Promise<AIResponse> => resolveRule(rules, { userMessage, documentContent, imagePart, history, accounts });
+
+  const streamResponse = async (
+    userMessage: string,
+    documentContent: string,
+    imagePart: ChatMessage['imagePart'] | undefined,
+    history: ConversationHistory | null | undefined,
+    accounts: Account[] | null | undefined,
+    { onChatMessageProgress, signal }: AIStreamOptions = {}
+  ): Promise<AIResponse> => {
+    const response = resolveRule(rules, { userMessage, documentContent, imagePart, history, accounts });
+    // Stream the chat message word by word, like the model would
+    const chunks = response.chat_message.match(/\S+\s*/g) ?? [];
+    let streamed = '';
+    for (const chunk of chunks) {
+      if (chunkDelayMs > 0) {
+        await wait(chunkDelayMs, signal);
+      } else if (signal?.aborted) {
+        throw new AIResponseCancelledError();
+      }
+      streamed += chunk;
+      onChatMessageProgress?.(streamed);
+    }
+    if (signal?.aborted) throw new AIResponseCancelledError();
+    return response;
+  };
+
+  const extractReceipt = async (): Promise<ReceiptExtraction> => structuredClone(receiptExtraction);
+
+  return { name: 'mock', generateResponse, streamResponse, extractReceipt };
+};
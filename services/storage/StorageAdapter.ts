@@ -0,0 +1,49 @@
+import { Folder, AppFile, ChatMessage, DocumentHistoryEntry, Account, Reconciliation, ReceiptInboxItem, FileColumnTypes, WorkspaceSettings } from '../../types';
+
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'rest';
+
+/**
+ * Persistence contract used by useFileSystem, useDocumentHistory, useChatThreads, useChartOfAccounts,
+ * useReconciliations, useReceiptInbox, useColumnTypes and useWorkspaceSettings.
+ * Every `save*` method receives the new state and the previously saved state, so
+ * record-oriented backends can write only what changed (see utils/collectionDiff.ts)
+ * while snapshot backends can simply store `next`.
+ * The bytes of uploaded files (AppFile.original) are stored apart, keyed by the file id, and are
+ * removed by `saveFiles` when their file is permanently deleted.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+
+  loadFolders(): Promise<Folder[]>;
+  saveFolders(next: Folder[], previous: Folder[]): Promise<void>;
+
+  loadFiles(): Promise<AppFile[]>;
+  saveFiles(next: AppFile[], previous: AppFile[]): Promise<void>;
+
+  /** The original upload of a file, or null if it has none or it was not found. */
+  loadFileOriginal(fileId: string): Promise<Blob | null>;
+  saveFileOriginal(fileId: string, original: Blob): Promise<void>;
+
+  loadDocumentHistories(): Promise<Record<string, DocumentHistoryEntry>>;
+  saveDocumentHistories(next: Record<string, DocumentHistoryEntry>, previous: Record<string, DocumentHistoryEntry>): Promise<void>;
+
+  loadChatMessages(): Promise<ChatMessage[]>;
+  saveChatMessages(next: ChatMessage[], previous: ChatMessage[]): Promise<void>;
+
+  loadAccounts(): Promise<Account[]>;
+  saveAccounts(next: Account[], previous: Account[]): Promise<void>;
+
+  loadReconciliations(): Promise<Reconciliation[]>;
+  saveReconciliations(next: Reconciliation[], previous: Reconciliation[]): Promise<void>;
+
+  loadReceiptInbox(): Promise<ReceiptInboxItem[]>;
+  saveReceiptInbox(next: ReceiptInboxItem[], previous: ReceiptInboxItem[]): Promise<void>;
+
+  /** Column types chosen by the user, by file id. */
+  loadColumnTypes(): Promise<Record<string, FileColumnTypes>>;
+  saveColumnTypes(next: Record<string, FileColumnTypes>, previous: Record<string, FileColumnTypes>): Promise<void>;
+
+  /** The workspace settings, or null if they were never saved. */
+  loadWorkspaceSettings(): Promise<WorkspaceSettings | null>;
+  saveWorkspaceSettings(next: WorkspaceSettings, previous: WorkspaceSettings): Promise<void>;
+}
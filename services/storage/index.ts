@@ -0,0 +1,37 @@
+import { StorageAdapter, StorageBackend } from './StorageAdapter';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { createIndexedDbAdapter } from './indexedDbAdapter';
+import { createRestApiAdapter } from './restApiAdapter';
+
+export type { StorageAdapter, StorageBackend } from './StorageAdapter';
+
+// IndexedDB stores each file and history as its own record and is not limited by the ~5MB localStorage quota.
+const DEFAULT_BACKEND: StorageBackend = typeof indexedDB !== 'undefined' ? 'indexedDB' : 'localStorage';
+
+export const createStorageAdapter = (backend: StorageBackend): StorageAdapter => {
+  switch (backend) {
+    case 'indexedDB':
+      return createIndexedDbAdapter();
+    case 'rest':
+      return createRestApiAdapter(createIndexedDbAdapter());
+    case 'localStorage':
+      return createLocalStorageAdapter();
+  }
+};
+
+const resolveBackend = (configured: string | undefined): StorageBackend => {
+  if (configured === 'localStorage' || configured === 'indexedDB' || configured === 'rest') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown STORAGE_BACKEND "${configured}". Falling back to "${DEFAULT_BACKEND}".`);
+  }
+  return DEFAULT_BACKEND;
+};
+
+/**
+ * The storage adapter used by the app, chosen once at startup from the
+ * STORAGE_BACKEND setting in .env.local ('localStorage' | 'indexedDB' | 'rest').
+ * Defaults to IndexedDB when the browser supports it.
+ */
+export const storageAdapter: StorageAdapter = createStorageAdapter(resolveBackend(process.env.STORAGE_BACKEND));
@@ -0,0 +1,84 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { IDBFactory } from 'fake-indexeddb';
+import { createIndexedDbAdapter } from './indexedDbAdapter';
+import { LS_COLUMN_TYPES_KEY, LS_DOCUMENT_HISTORIES_KEY, LS_FILES_KEY, LS_FOLDERS_KEY } from './localStorageAdapter';
+
+// The adapter runs in the browser; the tests give it an empty in-memory IndexedDB and localStorage each time
+const storedItems = new Map<string, string>();
+const memoryStorage = {
+  getItem: (key: string) => storedItems.get(key) ?? null,
+  setItem: (key: string, value: string) => { storedItems.set(key, value); },
+  removeItem: (key: string) => { storedItems.delete(key); },
+};
+Object.defineProperty(globalThis, 'localStorage', { value: memoryStorage, configurable: true });
+
+const LEGACY_LOCALE_KEY = 'aiLedgerApp_workspaceLocale_v1';
+const LEGACY_REVIEW_MODE_KEY = 'aiLedgerApp_reviewAIChanges_v1';
+
+const setLegacy = (key: string, value: unknown) => storedItems.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+
+/** Creates the database as version 5 wrote it, before the column types and settings stores existed. */
+const createVersion5Database = () => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open('aiLedgerApp', 5);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    ['folders', 'files', 'chatMessages', 'accounts', 'reconciliations', 'receiptInbox'].forEach(name => db.createObjectStore(name, { keyPath: 'id' }));
+    ['fileOriginals', 'documentHistories'].forEach(name => db.createObjectStore(name));
+    request.transaction!.objectStore('folders').put({ id: 'bancos', name: 'Bancos', parentId: null });
+  };
+  request.onsuccess = () => { request.result.close(); resolve(); };
+  request.onerror = () => reject(request.error);
+});
+
+describe('IndexedDB adapter', () => {
+  beforeEach(() => {
+    Object.defineProperty(globalThis, 'indexedDB', { value: new IDBFactory(), configurable: true });
+    storedItems.clear();
+  });
+
+  it('imports the localStorage workspace when the database is created, and frees the keys', async () => {
+    setLegacy(LS_FOLDERS_KEY, [{ id: 'bancos', name: 'Bancos', parentId: null }]);
+    setLegacy(LS_FILES_KEY, [{ id: 'diario', name: 'diario.csv', folderId: 'bancos', content: 'Asiento', createdAt: '2025-01-10T09:00:00.000Z' }]);
+    setLegacy(LS_DOCUMENT_HISTORIES_KEY, { diario: { history: ['', 'Asiento'], currentIndex: 1 } });
+    setLegacy(LS_COLUMN_TYPES_KEY, { diario: { Debe: { type: 'currency', currency: 'EUR' } } });
+    setLegacy(LEGACY_LOCALE_KEY, 'en-US');
+
+    const adapter = createIndexedDbAdapter();
+    const [file] = await adapter.loadFiles();
+    assert.deepEqual(await adapter.loadFolders(), [{ id: 'bancos', name: 'Bancos', parentId: null }]);
+    assert.ok(file.createdAt instanceof Date);
+    assert.deepEqual(await adapter.loadDocumentHistories(), { diario: { history: ['', 'Asiento'], currentIndex: 1 } });
+    assert.deepEqual(await adapter.loadColumnTypes(), { diario: { Debe: { type: 'currency', currency: 'EUR' } } });
+    assert.deepEqual(await adapter.loadWorkspaceSettings(), { locale: 'en-US', reviewAIChanges: false });
+    assert.deepEqual([...storedItems.keys()], []);
+  });
+
+  it('imports only the column types and settings when upgrading from version 5', async () => {
+    await createVersion5Database();
+    setLegacy(LS_FOLDERS_KEY, [{ id: 'antigua', name: 'Antigua', parentId: null }]);
+    setLegacy(LS_COLUMN_TYPES_KEY, { diario: { Fecha: { type: 'date' } } });
+    setLegacy(LEGACY_REVIEW_MODE_KEY, 'true');
+
+    const adapter = createIndexedDbAdapter();
+    assert.deepEqual(await adapter.loadFolders(), [{ id: 'bancos', name: 'Bancos', parentId: null }]);
+    assert.deepEqual(await adapter.loadColumnTypes(), { diario: { Fecha: { type: 'date' } } });
+    assert.deepEqual(await adapter.loadWorkspaceSettings(), { locale: 'es-ES', reviewAIChanges: true });
+    // The folders key was already imported by version 1; a stale copy is left alone
+    assert.deepEqual([...storedItems.keys()], [LS_FOLDERS_KEY]);
+  });
+
+  it('writes only the items that changed since the previous snapshot', async () => {
+    const adapter = createIndexedDbAdapter();
+    const bancos = { id: 'bancos', name: 'Bancos', parentId: null };
+    const caja = { id: 'caja', name: 'Caja', parentId: null };
+    await adapter.saveFolders([bancos, caja], []);
+
+    // Renamed through another snapshot; the next save still holds the old object, which is unchanged for it and not written again
+    await adapter.saveFolders([{ ...bancos, name: 'Bancos (editado)' }], [bancos]);
+    await adapter.saveFolders([bancos, { id: 'ventas', name: 'Ventas', parentId: null }], [bancos, caja]);
+
+    const folders = await adapter.loadFolders();
+    assert.deepEqual(folders.map(folder => [folder.id, folder.name]), [['bancos', 'Bancos (editado)'], ['ventas', 'Ventas']]);
+  });
+});
@@ -0,0 +1,217 @@
+import { StorageAdapter } from './StorageAdapter';
+import { DocumentHistoryEntry, FileColumnTypes, WorkspaceSettings } from '../../types';
+import { diffById, diffRecord } from '../../utils/collectionDiff';
+import { dateReviver } from '../../utils/helpers';
+import { DEFAULT_WORKSPACE_LOCALE } from '../../constants';
+import { LS_FOLDERS_KEY, LS_FILES_KEY, LS_DOCUMENT_HISTORIES_KEY, LS_CHAT_MESSAGES_KEY, LS_COLUMN_TYPES_KEY } from './localStorageAdapter';
+
+const DB_NAME = 'aiLedgerApp';
+const DB_VERSION = 6; // 2: accounts store, 3: reconciliations store, 4: receiptInbox store, 5: fileOriginals store, 6: columnTypes and settings stores
+
+type StoreName = 'folders' | 'files' | 'fileOriginals' | 'documentHistories' | 'chatMessages' | 'accounts' | 'reconciliations' | 'receiptInbox' |
+  'columnTypes' | 'settings';
+
+const LEGACY_LOCAL_STORAGE_KEYS = [LS_FOLDERS_KEY, LS_FILES_KEY, LS_DOCUMENT_HISTORIES_KEY, LS_CHAT_MESSAGES_KEY];
+// Written to localStorage by useColumnTypes and useChatLogic whatever the backend, before the adapter stored them
+const LEGACY_WORKSPACE_LOCALE_KEY = 'aiLedgerApp_workspaceLocale_v1';
+const LEGACY_REVIEW_MODE_KEY = 'aiLedgerApp_reviewAIChanges_v1';
+const LEGACY_COLUMN_TYPES_KEYS = [LS_COLUMN_TYPES_KEY, LEGACY_WORKSPACE_LOCALE_KEY, LEGACY_REVIEW_MODE_KEY];
+const WORKSPACE_SETTINGS_KEY = 'workspace'; // The only record of the settings store
+
+const readLegacyJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved, dateReviver) : fallback;
+  } catch (error) {
+    console.error(`Could not read legacy localStorage key "${key}" for migration:`, error);
+    return fallback;
+  }
+};
+
+/**
+ * Copies the data written by the localStorage backend into the freshly created stores.
+ * Runs inside the upgrade transaction, so either everything is imported or the database is not created.
+ * @returns true if any legacy data was found.
+ */
+const importLegacyLocalStorage = (transaction: IDBTransaction): boolean => {
+  const folders = readLegacyJson<{ id: string }[]>(LS_FOLDERS_KEY, []);
+  const files = readLegacyJson<{ id: string }[]>(LS_FILES_KEY, []);
+  const histories = readLegacyJson<Record<string, DocumentHistoryEntry>>(LS_DOCUMENT_HISTORIES_KEY, {});
+  const chatMessages = readLegacyJson<{ id: string }[]>(LS_CHAT_MESSAGES_KEY, []);
+
+  folders.forEach(folder => transaction.objectStore('folders').put(folder));
+  files.forEach(file => transaction.objectStore('files').put(file));
+  Object.entries(histories).forEach(([fileId, entry]) => transaction.objectStore('documentHistories').put(entry, fileId));
+  chatMessages.forEach(message => transaction.objectStore('chatMessages').put(message));
+
+  return folders.length + files.length + Object.keys(histories).length + chatMessages.length > 0;
+};
+
+/**
+ * Copies the column types, workspace locale and review mode that useColumnTypes and useChatLogic kept in
+ * localStorage into the stores added in version 6.
+ * @returns true if any was found.
+ */
+const importLegacyColumnTypes = (transaction: IDBTransaction): boolean => {
+  const columnTypes = readLegacyJson<Record<string, FileColumnTypes>>(LS_COLUMN_TYPES_KEY, {});
+  const locale = localStorage.getItem(LEGACY_WORKSPACE_LOCALE_KEY);
+  const reviewMode = localStorage.getItem(LEGACY_REVIEW_MODE_KEY);
+
+  Object.entries(columnTypes).forEach(([fileId, fileColumnTypes]) => transaction.objectStore('columnTypes').put(fileColumnTypes, fileId));
+  if (locale !== null || reviewMode !== null) {
+    const settings: WorkspaceSettings = { locale: locale ?? DEFAULT_WORKSPACE_LOCALE, reviewAIChanges: reviewMode === 'true' };
+    transaction.objectStore('settings').put(settings, WORKSPACE_SETTINGS_KEY);
+  }
+
+  return Object.keys(columnTypes).length > 0 || locale !== null || reviewMode !== null;
+};
+
+/**
+ * Opens (and on first use creates) the app database.
+ * Folders, files, chat messages, accounts, reconciliations and inbox receipts are keyed by their `id`; document histories,
+ * file originals (Blobs) and column types are stored out-of-line, keyed by the file id they belong to. The workspace
+ * settings are a single record of the settings store.
+ * When the database is first created, existing localStorage data is migrated into it
+ * and the localStorage keys are removed to free their quota.
+ */
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  let migratedLegacyData = false;
+  let migratedLegacyColumnTypes = false;
+  request.onupgradeneeded = (event) => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains('folders')) db.createObjectStore('folders', { keyPath: 'id' });
+    if (!db.objectStoreNames.contains('files')) db.createObjectStore('files', { keyPath: 'id' });
+    if (!db.objectStoreNames.contains('fileOriginals')) db.createObjectStore('fileOriginals');
+    if (!db.objectStoreNames.contains('documentHistories')) db.createObjectStore('documentHistories');
+    if (!db.objectStoreNames.contains('chatMessages')) db.createObjectStore('chatMessages', { keyPath: 'id' });
+    if (!db.objectStoreNames.contains('accounts')) db.createObjectStore('accounts', { keyPath: 'id' });
+    if (!db.objectStoreNames.contains('reconciliations')) db.createObjectStore('reconciliations', { keyPath: 'id' });
+    if (!db.objectStoreNames.contains('receiptInbox')) db.createObjectStore('receiptInbox', { keyPath: 'id' });
+    if (!db.objectStoreNames.contains('columnTypes')) db.createObjectStore('columnTypes');
+    if (!db.objectStoreNames.contains('settings')) db.createObjectStore('settings');
+    if (event.oldVersion === 0 && request.transaction) {
+      migratedLegacyData = importLegacyLocalStorage(request.transaction);
+    }
+    if (event.oldVersion < 6 && request.transaction) {
+      migratedLegacyColumnTypes = importLegacyColumnTypes(request.transaction);
+    }
+  };
+  request.onsuccess = () => {
+    if (migratedLegacyData) {
+      LEGACY_LOCAL_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+      console.info("Migrated workspace data from localStorage to IndexedDB.");
+    }
+    if (migratedLegacyColumnTypes) {
+      LEGACY_COLUMN_TYPES_KEYS.forEach(key => localStorage.removeItem(key));
+    }
+    resolve(request.result);
+  };
+  request.onerror = () => reject(request.error);
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Stores every folder, file, file original, history, chat message, account, reconciliation, inbox receipt and the column types
+ * of each file as its own IndexedDB record, so a save only writes the records that changed.
+ */
+export const createIndexedDbAdapter = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) dbPromise = openDatabase();
+    return dbPromise;
+  };
+
+  const getAll = async <T>(storeName: StoreName): Promise<T[]> => {
+    const db = await getDb();
+    return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+  };
+
+  /** Applies puts and deletes to one store in a single transaction. */
+  const writeRecords = async (storeName: StoreName, puts: { value: unknown; key?: string }[], deleteKeys: string[]) => {
+    if (puts.length === 0 && deleteKeys.length === 0) return;
+    const db = await getDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(storeName, 'readwrite');
+      const store = transaction.objectStore(storeName);
+      puts.forEach(({ value, key }) => (key === undefined ? store.put(value) : store.put(value, key)));
+      deleteKeys.forEach(key => store.delete(key));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  /** Reads a store whose records are keyed out-of-line by file id. */
+  const getAllByKey = async <T>(storeName: StoreName): Promise<Record<string, T>> => {
+    const db = await getDb();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll() as IDBRequest<T[]>),
+    ]);
+    const records: Record<string, T> = {};
+    keys.forEach((key, index) => { records[String(key)] = values[index]; });
+    return records;
+  };
+
+  const saveRecord = <T>(storeName: StoreName) => async (next: Record<string, T>, previous: Record<string, T>) => {
+    const { changed, removedKeys } = diffRecord(previous, next);
+    await writeRecords(storeName, Object.entries(changed).map(([key, value]) => ({ key, value })), removedKeys);
+  };
+
+  const saveCollection = <T extends { id: string }>(storeName: StoreName) => async (next: T[], previous: T[]) => {
+    const { changed, removedIds } = diffById(previous, next);
+    await writeRecords(storeName, changed.map(value => ({ value })), removedIds);
+  };
+
+  return {
+    backend: 'indexedDB',
+
+    loadFolders: () => getAll('folders'),
+    saveFolders: saveCollection('folders'),
+
+    loadFiles: () => getAll('files'),
+    saveFiles: async (next, previous) => {
+      const { changed, removedIds } = diffById(previous, next);
+      await writeRecords('files', changed.map(value => ({ value })), removedIds);
+      await writeRecords('fileOriginals', [], removedIds);
+    },
+
+    loadFileOriginal: async (fileId) => {
+      const db = await getDb();
+      const original = await requestToPromise(db.transaction('fileOriginals', 'readonly').objectStore('fileOriginals').get(fileId));
+      return original instanceof Blob ? original : null;
+    },
+    saveFileOriginal: (fileId, original) => writeRecords('fileOriginals', [{ key: fileId, value: original }], []),
+
+    loadDocumentHistories: () => getAllByKey<DocumentHistoryEntry>('documentHistories'),
+    saveDocumentHistories: saveRecord('documentHistories'),
+
+    loadChatMessages: () => getAll('chatMessages'),
+    saveChatMessages: saveCollection('chatMessages'),
+
+    loadAccounts: () => getAll('accounts'),
+    saveAccounts: saveCollection('accounts'),
+
+    loadReconciliations: () => getAll('reconciliations'),
+    saveReconciliations: saveCollection('reconciliations'),
+
+    loadReceiptInbox: () => getAll('receiptInbox'),
+    saveReceiptInbox: saveCollection('receiptInbox'),
+
+    loadColumnTypes: () => getAllByKey<FileColumnTypes>('columnTypes'),
+    saveColumnTypes: saveRecord('columnTypes'),
+
+    loadWorkspaceSettings: async () => {
+      const db = await getDb();
+      const settings = await requestToPromise(db.transaction('settings', 'readonly').objectStore('settings').get(WORKSPACE_SETTINGS_KEY));
+      return (settings as WorkspaceSettings | undefined) ?? null;
+    },
+    saveWorkspaceSettings: (next) => writeRecords('settings', [{ key: WORKSPACE_SETTINGS_KEY, value: next }], []),
+  };
+};
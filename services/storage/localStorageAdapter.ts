@@ -0,0 +1,77 @@
+import { StorageAdapter } from './StorageAdapter';
+import { dateReviver } from '../../utils/helpers';
+import { diffById } from '../../utils/collectionDiff';
+
+// Keys kept from the original hooks so existing browser data keeps loading.
+export const LS_FOLDERS_KEY = 'aiLedgerApp_folders_v3';
+export const LS_FILES_KEY = 'aiLedgerApp_files_v3';
+export const LS_DOCUMENT_HISTORIES_KEY = 'aiLedgerApp_documentHistories_v1';
+export const LS_CHAT_MESSAGES_KEY = 'aiLedgerApp_chatMessages_v1';
+export const LS_ACCOUNTS_KEY = 'aiLedgerApp_accounts_v1';
+export const LS_RECONCILIATIONS_KEY = 'aiLedgerApp_reconciliations_v1';
+export const LS_RECEIPT_INBOX_KEY = 'aiLedgerApp_receiptInbox_v1';
+export const LS_COLUMN_TYPES_KEY = 'aiLedgerApp_columnTypes_v1';
+export const LS_WORKSPACE_SETTINGS_KEY = 'aiLedgerApp_workspaceSettings_v1';
+const LS_FILE_ORIGINAL_KEY_PREFIX = 'aiLedgerApp_fileOriginal_v1_'; // One data URL per file, keyed by file id
+
+const readJson = <T>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  return saved ? JSON.parse(saved, dateReviver) : fallback;
+};
+
+const writeJson = (key: string, value: unknown) => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Stores each collection as a single JSON snapshot in localStorage.
+ * File originals are stored as data URLs, so large uploads quickly reach the ~5MB quota.
+ */
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  backend: 'localStorage',
+
+  loadFolders: async () => readJson(LS_FOLDERS_KEY, []),
+  saveFolders: async (next) => writeJson(LS_FOLDERS_KEY, next),
+
+  loadFiles: async () => readJson(LS_FILES_KEY, []),
+  saveFiles: async (next, previous) => {
+    writeJson(LS_FILES_KEY, next);
+    diffById(previous, next).removedIds.forEach(id => localStorage.removeItem(LS_FILE_ORIGINAL_KEY_PREFIX + id));
+  },
+
+  loadFileOriginal: async (fileId) => {
+    const dataUrl = localStorage.getItem(LS_FILE_ORIGINAL_KEY_PREFIX + fileId);
+    return dataUrl ? (await fetch(dataUrl)).blob() : null;
+  },
+  saveFileOriginal: async (fileId, original) => {
+    localStorage.setItem(LS_FILE_ORIGINAL_KEY_PREFIX + fileId, await blobToDataUrl(original));
+  },
+
+  loadDocumentHistories: async () => readJson(LS_DOCUMENT_HISTORIES_KEY, {}),
+  saveDocumentHistories: async (next) => writeJson(LS_DOCUMENT_HISTORIES_KEY, next),
+
+  loadChatMessages: async () => readJson(LS_CHAT_MESSAGES_KEY, []),
+  saveChatMessages: async (next) => writeJson(LS_CHAT_MESSAGES_KEY, next),
+
+  loadAccounts: async () => readJson(LS_ACCOUNTS_KEY, []),
+  saveAccounts: async (next) => writeJson(LS_ACCOUNTS_KEY, next),
+
+  loadReconciliations: async () => readJson(LS_RECONCILIATIONS_KEY, []),
+  saveReconciliations: async (next) => writeJson(LS_RECONCILIATIONS_KEY, next),
+
+  loadReceiptInbox: async () => readJson(LS_RECEIPT_INBOX_KEY, []),
+  saveReceiptInbox: async (next) => writeJson(LS_RECEIPT_INBOX_KEY, next),
+
+  loadColumnTypes: async () => readJson(LS_COLUMN_TYPES_KEY, {}),
+  saveColumnTypes: async (next) => writeJson(LS_COLUMN_TYPES_KEY, next),
+
+  loadWorkspaceSettings: async () => readJson(LS_WORKSPACE_SETTINGS_KEY, null),
+  saveWorkspaceSettings: async (next) => writeJson(LS_WORKSPACE_SETTINGS_KEY, next),
+});
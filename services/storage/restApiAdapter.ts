@@ -0,0 +1,222 @@
+import { StorageAdapter } from './StorageAdapter';
+import { Folder, AppFile } from '../../types';
+import type {
+  ApiErrorResponse, PaginatedResponse, CreateFolderRequest, UpdateFolderRequest, CreateFileRequest, UpdateFileRequest, ListFilesResponse,
+} from '../../api-spec';
+import { dateReviver } from '../../utils/helpers';
+import { diffById } from '../../utils/collectionDiff';
+
+const API_BASE_URL = process.env.API_BASE_URL || '/api';
+const PAGE_LIMIT = 500;
+
+/**
+ * Error raised for non-2xx responses; carries the server's ApiErrorResponse body when there is one.
+ */
+export class ApiRequestError extends Error {
+  constructor(public readonly status: number, public readonly apiError?: ApiErrorResponse) {
+    super(apiError?.message || `API request failed with status ${status}`);
+    this.name = 'ApiRequestError';
+  }
+}
+
+const apiRequest = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  if (!response.ok) {
+    let apiError: ApiErrorResponse | undefined;
+    try { apiError = JSON.parse(text); } catch { /* non-JSON error body */ }
+    throw new ApiRequestError(response.status, apiError);
+  }
+  return (text ? JSON.parse(text, dateReviver) : null) as T;
+};
+
+/** Sends a file's original upload as raw bytes (see PUT /api/files/:id/original in api-spec.ts). */
+const uploadOriginal = async (fileId: string, original: Blob, fileName: string) => {
+  const response = await fetch(`${API_BASE_URL}/files/${fileId}/original`, {
+    method: 'PUT',
+    headers: { 'Content-Type': original.type || 'application/octet-stream', 'X-File-Name': encodeURIComponent(fileName) },
+    body: original,
+  });
+  if (!response.ok) {
+    let apiError: ApiErrorResponse | undefined;
+    try { apiError = await response.json(); } catch { /* non-JSON error body */ }
+    throw new ApiRequestError(response.status, apiError);
+  }
+};
+
+/** Fetches every page of a list endpoint. */
+const listAll = async <T>(path: string, deleted: boolean): Promise<T[]> => {
+  const items: T[] = [];
+  let offset = 0;
+  for (;;) {
+    const page = await apiRequest<PaginatedResponse<T>>('GET', `${path}?deleted=${deleted}&limit=${PAGE_LIMIT}&offset=${offset}`);
+    items.push(...page.items);
+    offset += page.items.length;
+    if (page.items.length === 0 || offset >= page.totalItems) return items;
+  }
+};
+
+const toFolder = (folder: Folder): Folder => ({
+  id: folder.id, name: folder.name, parentId: folder.parentId, deletedAt: folder.deletedAt ?? null,
+});
+
+const toFile = (file: AppFile): AppFile => ({
+  id: file.id, name: file.name, folderId: file.folderId, content: file.content, createdAt: file.createdAt, deletedAt: file.deletedAt ?? null,
+  report: file.report ?? null, original: file.original ?? null,
+});
+
+/** Permanent deletes cascade on the server, so a child may already be gone. */
+const ignoreNotFound = (error: unknown) => {
+  if (!(error instanceof ApiRequestError && error.status === 404)) throw error;
+};
+
+/**
+ * Talks to the api-spec.ts endpoints (see server/). Folders and files live on the server;
+ * the spec has no endpoints for document histories, chat messages, accounts, reconciliations, the receipts inbox, column types
+ * or workspace settings, so those are kept in `localAdapter` (IndexedDB, see ./index.ts).
+ *
+ * The adapter remembers the last state it synced for every item and translates each
+ * change into the matching create/update/trash/restore/delete call. Writes are queued
+ * so a folder is always created before the files saved into it, and a file before its
+ * original upload (originals of files not created yet wait in `pendingOriginals`).
+ */
+export const createRestApiAdapter = (localAdapter: StorageAdapter): StorageAdapter => {
+  const syncedFolders = new Map<string, Folder>();
+  const syncedFiles = new Map<string, AppFile>();
+  const pendingOriginals = new Map<string, Blob>();
+
+  let writeQueue: Promise<void> = Promise.resolve();
+  const enqueue = (task: () => Promise<void>): Promise<void> => {
+    const run = writeQueue.then(task);
+    writeQueue = run.catch(() => {});
+    return run;
+  };
+
+  const syncTrashState = async (resource: 'folders' | 'files', id: string, wasDeleted: boolean, isDeleted: boolean) => {
+    if (isDeleted && !wasDeleted) await apiRequest('DELETE', `/${resource}/${id}`);
+    if (!isDeleted && wasDeleted) await apiRequest('POST', `/${resource}/${id}/restore`);
+  };
+
+  const saveFolder = async (folder: Folder) => {
+    const synced = syncedFolders.get(folder.id);
+    if (!synced) {
+      const request: CreateFolderRequest = { id: folder.id, name: folder.name, parentId: folder.parentId };
+      await apiRequest('POST', '/folders', request);
+    } else if (synced.name !== folder.name || synced.parentId !== folder.parentId) {
+      const request: UpdateFolderRequest = { name: folder.name, parentId: folder.parentId };
+      await apiRequest('PUT', `/folders/${folder.id}`, request);
+    }
+    await syncTrashState('folders', folder.id, !!synced?.deletedAt, !!folder.deletedAt);
+    syncedFolders.set(folder.id, folder);
+  };
+
+  const saveFile = async (file: AppFile) => {
+    const synced = syncedFiles.get(file.id);
+    if (!synced) {
+      const request: CreateFileRequest = { id: file.id, name: file.name, folderId: file.folderId, content: file.content, report: file.report ?? null };
+      await apiRequest('POST', '/files', request);
+      const original = pendingOriginals.get(file.id);
+      if (original) {
+        await uploadOriginal(file.id, original, file.original?.name ?? file.name);
+        pendingOriginals.delete(file.id);
+      }
+    } else {
+      const request: UpdateFileRequest = {};
+      if (synced.name !== file.name) request.name = file.name;
+      if (synced.folderId !== file.folderId) request.folderId = file.folderId;
+      if (synced.content !== file.content) request.content = file.content;
+      if (Object.keys(request).length > 0) await apiRequest('PUT', `/files/${file.id}`, request);
+    }
+    await syncTrashState('files', file.id, !!synced?.deletedAt, !!file.deletedAt);
+    syncedFiles.set(file.id, file);
+  };
+
+  return {
+    backend: 'rest',
+
+    loadFolders: async () => {
+      const folders = [...await listAll<Folder>('/folders', false), ...await listAll<Folder>('/folders', true)].map(toFolder);
+      folders.forEach(folder => syncedFolders.set(folder.id, folder));
+      return folders;
+    },
+    saveFolders: (next, previous) => enqueue(async () => {
+      const { changed, removedIds } = diffById(previous, next);
+      // Create parents before children: a folder is ready once its parent exists on the server.
+      const pending = [...changed];
+      while (pending.length > 0) {
+        const readyIndex = pending.findIndex(f => f.parentId === null || syncedFolders.has(f.parentId) || !pending.some(p => p.id === f.parentId));
+        const [folder] = pending.splice(readyIndex === -1 ? 0 : readyIndex, 1);
+        await saveFolder(folder);
+      }
+      for (const id of removedIds) {
+        await apiRequest('DELETE', `/folders/${id}/permanent`).catch(ignoreNotFound);
+        syncedFolders.delete(id);
+      }
+    }),
+
+    loadFiles: async () => {
+      const metadata = [
+        ...await listAll<ListFilesResponse['items'][number]>('/files', false),
+        ...await listAll<ListFilesResponse['items'][number]>('/files', true),
+      ];
+      // List responses omit content, so each file body is fetched individually.
+      const files = (await Promise.all(metadata.map(item => apiRequest<AppFile>('GET', `/files/${item.id}`)))).map(toFile);
+      files.forEach(file => syncedFiles.set(file.id, file));
+      return files;
+    },
+    saveFiles: (next, previous) => enqueue(async () => {
+      const { changed, removedIds } = diffById(previous, next);
+      for (const file of changed) {
+        await saveFile(file);
+      }
+      for (const id of removedIds) {
+        await apiRequest('DELETE', `/files/${id}/permanent`).catch(ignoreNotFound);
+        syncedFiles.delete(id);
+        pendingOriginals.delete(id);
+      }
+    }),
+
+    loadFileOriginal: async (fileId) => {
+      const pending = pendingOriginals.get(fileId);
+      if (pending) return pending;
+      const response = await fetch(`${API_BASE_URL}/files/${fileId}/original`);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new ApiRequestError(response.status);
+      return response.blob();
+    },
+    saveFileOriginal: (fileId, original) => {
+      pendingOriginals.set(fileId, original);
+      return enqueue(async () => {
+        const synced = syncedFiles.get(fileId);
+        if (!synced || pendingOriginals.get(fileId) !== original) return; // Uploaded by saveFile once the file is created
+        await uploadOriginal(fileId, original, synced.original?.name ?? synced.name);
+        pendingOriginals.delete(fileId);
+      });
+    },
+
+    loadDocumentHistories: () => localAdapter.loadDocumentHistories(),
+    saveDocumentHistories: (next, previous) => localAdapter.saveDocumentHistories(next, previous),
+
+    loadChatMessages: () => localAdapter.loadChatMessages(),
+    saveChatMessages: (next, previous) => localAdapter.saveChatMessages(next, previous),
+
+    loadAccounts: () => localAdapter.loadAccounts(),
+    saveAccounts: (next, previous) => localAdapter.saveAccounts(next, previous),
+
+    loadReconciliations: () => localAdapter.loadReconciliations(),
+    saveReconciliations: (next, previous) => localAdapter.saveReconciliations(next, previous),
+
+    loadReceiptInbox: () => localAdapter.loadReceiptInbox(),
+    saveReceiptInbox: (next, previous) => localAdapter.saveReceiptInbox(next, previous),
+
+    loadColumnTypes: () => localAdapter.loadColumnTypes(),
+    saveColumnTypes: (next, previous) => localAdapter.saveColumnTypes(next, previous),
+
+    loadWorkspaceSettings: () => localAdapter.loadWorkspaceSettings(),
+    saveWorkspaceSettings: (next, previous) => localAdapter.saveWorkspaceSettings(next, previous),
+  };
+};
@@ -13,10 +13,50 @@ export interface AppFile {
   content: string;
   createdAt: Date;
   deletedAt?: Date | null; // Timestamp if in trash, null otherwise
+  report?: ReportSource | null; // Set for reports generated by the app, which are read-only, and for their duplicates
+  original?: FileOriginal | null; // Set for uploaded files; the bytes are kept unchanged by the storage adapter
+}
+
+/** The uploaded file an AppFile was created from (.xlsx, .docx, an image, a PDF...). */
+export interface FileOriginal {
+  name: string; // Name of the uploaded file, used when it is downloaded
+  mimeType: string;
+  size: number; // Bytes
+}
+
+export type ReportKind = 'general_ledger' | 'trial_balance' | 'income_statement' | 'balance_sheet' | 'cash_flow';
+
+/** How a generated report file was produced. */
+export interface ReportSource {
+  kind: ReportKind;
+  folderId: string | null; // Folder whose journal-style files were read
+  from: string; // First date included (YYYY-MM-DD), '' for no lower bound
+  to: string; // Last date included (YYYY-MM-DD), '' for no upper bound; the balance sheet's date
+  comparison?: { from: string; to: string } | null; // Prior period shown next to the financial statements
+  generatedAt: Date;
+  editableCopy?: boolean; // Set on a duplicate of a report: it can be edited, but like the report it is not read as a ledger source
+}
+
+/**
+ * Headers of the columns that hold each field in a folder's journal-style tables.
+ * When `debit` and `credit` name the same column, it holds signed amounts (negative = credit).
+ */
+export interface LedgerColumnMapping {
+  date: string;
+  account: string;
+  debit: string;
+  credit: string;
+  description: string; // '' if the tables have no description column
+}
+
+export interface DocumentHistoryEntry {
+  history: string[];
+  currentIndex: number;
 }
 
 export interface ChatMessage {
   id: string;
+  fileId?: string | null; // Thread: the file this conversation is about; null/absent for the general thread
   sender: 'user' | 'ai';
   text: string;
   timestamp: Date;
@@ -31,17 +71,192 @@ export interface ChatMessage {
   fullText?: string; // For AI messages, the complete text to be streamed
 }
 
+// Earlier turns of a chat thread sent to the model for multi-turn context (see utils/conversationHistory.ts)
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ConversationHistory {
+  summary: string | null; // Condensed older turns that did not fit in the token budget
+  turns: ConversationTurn[]; // Most recent turns, oldest first
+}
+
+// Entry of the thread selector in ChatPanel; id is the file id, or null for the general thread
+export interface ChatThreadSummary {
+  id: string | null;
+  name: string;
+  messageCount: number;
+}
+
+// Chart of accounts (see utils/chartOfAccounts.ts). Accounts form a tree through parentId, like folders.
+export type AccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+// Where changes in a balance sheet account's balance go in the cash flow statement; 'cash' marks cash and bank accounts
+export type CashFlowCategory = 'cash' | 'operating' | 'investing' | 'financing';
+
+export interface Account {
+  id: string;
+  code: string; // Unique, e.g. "572" or "5720001"
+  name: string;
+  type: AccountType;
+  parentId: string | null; // null for top-level accounts
+  isActive: boolean; // Inactive accounts are kept for existing documents but not offered to the AI
+  cashFlowCategory?: CashFlowCategory | null; // null or absent: derived from the type and name (see getCashFlowCategory)
+}
+
+// Type of a table column (see utils/columnTypes.ts): how its cells are read, checked and shown
+export type ColumnType = 'text' | 'integer' | 'decimal' | 'currency' | 'percentage' | 'date' | 'boolean';
+
+export interface ColumnTypeSetting {
+  type: ColumnType;
+  currency?: string; // ISO 4217 code, e.g. "EUR"; only for 'currency' columns
+}
+
+// Column types chosen by the user for one file: sheet name -> header -> type
+export type FileColumnTypes = Record<string, Record<string, ColumnTypeSetting>>;
+
+export interface WorkspaceSettings {
+  locale: string; // Workspace locale used to read and show table cells, e.g. "es-ES" (see WORKSPACE_LOCALES)
+  reviewAIChanges: boolean; // AI document changes are shown as a diff to accept or reject before they are applied
+}
+
+// Bank reconciliation (see utils/reconciliation.ts). Rows are numbered from 1 (the first data row, after the header).
+export interface ReconciliationRowRef {
+  row: number;
+  date: string; // YYYY-MM-DD; with the amount, finds the row again if rows were inserted or deleted above it
+  amount: number; // Money in positive, money out negative
+}
+
+export interface ReconciliationMatch {
+  id: string;
+  statementRows: ReconciliationRowRef[]; // Several rows on either side when one movement was split
+  ledgerRows: ReconciliationRowRef[];
+  method: 'auto' | 'manual';
+}
+
+/** Matches between a bank statement file and a ledger or cash book file. */
+export interface Reconciliation {
+  id: string;
+  statementFileId: string;
+  statementSheet?: string | null; // Sheet of a workbook with several sheets; absent or null for a file with a single table
+  ledgerFileId: string;
+  ledgerSheet?: string | null;
+  bankAccount: string; // Account code whose lines are read from a ledger with an account column, '' for every row
+  dateWindowDays: number; // Automatic matching accepts this many days between the two dates
+  matches: ReconciliationMatch[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export enum AISuggestionType {
   DOCUMENT_UPDATE = "document_update",
+  DOCUMENT_PATCH = "document_patch",
+  JOURNAL_ENTRIES = "journal_entries",
   CHAT_REPLY = "chat_reply",
 }
 
+// Double-entry journal. A journal document is a CSV with one row per line (see utils/journal.ts).
+export interface JournalLine {
+  account: string;
+  debit: number; // NaN when the cell does not hold a valid amount
+  credit: number;
+  currency: string; // ISO 4217 code, e.g. "EUR"
+}
+
+export type JournalEntryStatus = 'draft' | 'posted';
+
+export interface JournalEntry {
+  id: string; // Entry number, unique within the journal
+  date: string; // YYYY-MM-DD
+  reference: string;
+  memo: string;
+  status: JournalEntryStatus; // Only balanced entries can be posted
+  lines: JournalLine[];
+}
+
+// Entry proposed by the AI; it is added to the journal as a draft
+export type JournalEntryProposal = Omit<JournalEntry, 'id' | 'status'>;
+
+// Receipt or invoice read from an image by the AI extract action (see utils/receipts.ts)
+export interface ReceiptLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // Line total before tax
+}
+
+export interface ReceiptRecord {
+  vendor: string;
+  taxId: string; // Vendor's tax identification number (NIF/CIF, VAT number...), '' if not printed
+  date: string; // YYYY-MM-DD
+  lineItems: ReceiptLineItem[];
+  subtotal: number;
+  tax: number;
+  total: number;
+  currency: string; // ISO 4217 code, e.g. "EUR"
+  paymentMethod: string; // e.g. "Tarjeta", "Efectivo"; '' if not printed
+}
+
+// Result of the extract action; receipt is null when nothing could be read, and message says why
+export interface ReceiptExtraction {
+  receipt: ReceiptRecord | null;
+  message: string;
+  isRetryable?: boolean; // The failure was an error that may not happen again (network, rate limit...)
+}
+
+// Receipts inbox (see hooks/useReceiptInbox.ts): images extracted in the background, then reviewed and approved
+export type ReceiptInboxStatus = 'pending' | 'extracted' | 'needs_review' | 'failed';
+
+export interface ReceiptInboxItem {
+  id: string;
+  fileName: string;
+  imageFileId: string; // File whose original is the image, in the receipts folder (see useReceiptInbox)
+  status: ReceiptInboxStatus; // 'extracted' once the receipt passes validateReceipt, 'needs_review' otherwise
+  attempts: number; // Extraction attempts of the last run
+  receipt: ReceiptRecord | null;
+  message: string; // Last extraction message or error
+  approvedFileId: string | null; // Ledger file the receipt was approved into
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Row operations for CSV/Excel documents. Rows are numbered from 1 (the first data row, after the header).
+// `sheet` names the sheet of a workbook with several sheets (see utils/workbook.ts); rows are numbered per sheet.
+// `original_values` and `original_lines` are the cells or lines as the AI read them, so a wrong number is caught.
+export type CsvPatchOperation =
+  | { op: 'insert_row'; after_row: number; values: string[]; sheet?: string } // after_row 0 inserts right below the header
+  | { op: 'update_row'; row: number; values: string[]; original_values: string[]; sheet?: string }
+  | { op: 'delete_row'; row: number; original_values: string[]; sheet?: string };
+
+// Line-range replacement for text documents. Lines are numbered from 1; start_line = end_line + 1 inserts without replacing.
+export interface TextPatchOperation {
+  op: 'replace_lines';
+  start_line: number;
+  end_line: number;
+  new_lines: string[];
+  original_lines: string[];
+}
+
+export type DocumentPatchOperation = CsvPatchOperation | TextPatchOperation;
+
 export interface AIResponse {
   action_type: AISuggestionType;
   new_document_content?: string | null; // Ensure it can be null
+  patch_operations?: DocumentPatchOperation[] | null; // Only for document_patch
+  journal_entries?: JournalEntryProposal[] | null; // Only for journal_entries
+  sheet?: string | null; // Only for journal_entries: the sheet of a workbook with several sheets that holds the journal
   chat_message: string;
 }
 
+// An AI document change waiting for the user's review (review mode), see useChatLogic
+export interface DocumentProposal {
+  fileId: string;
+  baseContent: string; // Content the proposal was computed against
+  proposedContent: string;
+  createdAt: Date;
+}
+
 export type NotificationType = 'success' | 'error' | 'info';
 
 export interface NotificationContent {
@@ -50,4 +265,4 @@ export interface NotificationContent {
   title?: string;
 }
 
-export type MainSection = 'media'; // Currently only 'media' is supported
+export type MainSection = 'media' | 'accounts' | 'reconciliation' | 'receipts';
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseBankStatement } from './bankStatementParser';
+
+// OFX only gives the closing balance (LEDGERBAL), so running balances are counted backward from it
+const ofx = (transactions: string) => `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>${transactions}</BANKTRANLIST>
+<LEDGERBAL><BALAMT>150.00<DTASOF>20250131</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+const transaction = (date: string, amount: string, name: string) =>
+  `<STMTTRN><TRNTYPE>OTHER<DTPOSTED>${date}<TRNAMT>${amount}<FITID>${name}<NAME>${name}</STMTTRN>`;
+
+describe('parseBankStatement', () => {
+  it('counts balances backward from the closing balance', () => {
+    const result = parseBankStatement('extracto.ofx', ofx(transaction('20250105', '-50.00', 'Luz') + transaction('20250110', '200.00', 'Nómina')))!;
+    assert.deepEqual(result.transactions.map(t => t.balance), [-50, 150]);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it('leaves balances empty with a warning when a transaction of a closing-balance-only statement was rejected', () => {
+    const result = parseBankStatement('extracto.ofx', ofx(transaction('20250105', 'abc', 'Luz') + transaction('20250110', '200.00', 'Nómina')))!;
+    assert.equal(result.rejected.length, 1);
+    assert.deepEqual(result.transactions.map(t => t.balance), [null]);
+    assert.equal(result.warnings.length, 1);
+    assert.match(result.warnings[0], /No se calcularon los saldos/);
+  });
+});
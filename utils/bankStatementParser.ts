@@ -0,0 +1,353 @@
+import { parseAmount } from './journal';
+import { parseLedgerDate } from './ledger';
+import { ParsedCsvData, serializeCsv } from './tabularDataParser';
+
+/** Columns of an imported bank statement. */
+export const BANK_STATEMENT_HEADERS = ['Fecha', 'Concepto', 'Importe', 'Saldo', 'Referencia'];
+
+export type BankStatementFormat = 'ofx' | 'camt053' | 'mt940';
+
+export const BANK_STATEMENT_FORMAT_LABELS: Record<BankStatementFormat, string> = {
+  ofx: 'OFX',
+  camt053: 'CAMT.053',
+  mt940: 'MT940',
+};
+
+/** Extensions that are always read as bank statements. Other files (.xml, .txt) are recognized by their content. */
+export const BANK_STATEMENT_EXTENSIONS = ['.ofx', '.qfx', '.sta', '.mt940', '.940'];
+
+export interface BankTransaction {
+  date: string; // Booking date, YYYY-MM-DD
+  description: string;
+  amount: number; // Positive for money in, negative for money out
+  balance: number | null; // Balance after the transaction, null if the statement gives no balance to start from
+  reference: string;
+}
+
+export interface RejectedBankTransaction {
+  position: number; // 1-based position of the transaction in the file
+  reason: string;
+}
+
+export interface BankStatementParseResult {
+  format: BankStatementFormat;
+  transactions: BankTransaction[];
+  rejected: RejectedBankTransaction[];
+  warnings: string[]; // E.g. a closing balance that does not match the transactions
+}
+
+/**
+ * Thrown when a file is in a bank statement format but cannot be read. The message is shown to the user.
+ */
+export class BankStatementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BankStatementError';
+  }
+}
+
+/** The transactions of one account statement, before running balances are added. */
+interface StatementBlock {
+  transactions: Omit<BankTransaction, 'balance'>[];
+  openingBalance: number | null;
+  closingBalance: number | null;
+  rejectedCount: number; // Transactions of this statement that were rejected
+}
+
+// Balances are computed in cents so that long statements do not drift
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const formatBalance = (cents: number): string => (cents / 100).toFixed(2);
+
+/**
+ * Adds the balance after each transaction, counting forward from the opening balance or, if the
+ * statement only has a closing balance, backward from it. Transactions are sorted by date.
+ * Counting backward needs every transaction, so balances are left empty (with a warning) when
+ * some of the statement's transactions were rejected.
+ */
+const withRunningBalances = (block: StatementBlock, warnings: string[]): BankTransaction[] => {
+  const transactions = [...block.transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const totalCents = transactions.reduce((sum, transaction) => sum + toCents(transaction.amount), 0);
+  const canCountBackward = block.closingBalance !== null && block.rejectedCount === 0;
+  if (block.openingBalance === null && block.closingBalance !== null && !canCountBackward) {
+    warnings.push(`No se calcularon los saldos: el extracto solo indica el saldo final (${block.closingBalance.toFixed(2)}) y se rechazaron ${block.rejectedCount} movimiento(s), así que el saldo inicial no se puede deducir.`);
+  }
+  const openingCents = block.openingBalance !== null
+    ? toCents(block.openingBalance)
+    : canCountBackward ? toCents(block.closingBalance!) - totalCents : null;
+  if (block.openingBalance !== null && block.closingBalance !== null && openingCents! + totalCents !== toCents(block.closingBalance)) {
+    warnings.push(`El saldo final del extracto (${block.closingBalance.toFixed(2)}) no coincide con el calculado (${formatBalance(openingCents! + totalCents)}).`);
+  }
+  let balanceCents = openingCents;
+  return transactions.map(transaction => {
+    if (balanceCents !== null) balanceCents += toCents(transaction.amount);
+    return { ...transaction, balance: balanceCents === null ? null : balanceCents / 100 };
+  });
+};
+
+/** Reads an amount with a dot or a comma as decimal separator, an optional leading + and an optional trailing separator (MT940 writes 100,). */
+const parseStatementAmount = (value: string): number => parseAmount(value.trim().replace(/^\+/, '').replace(/[.,]$/, ''));
+
+// --- OFX / QFX ---
+
+const decodeOfxText = (value: string): string =>
+  value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').trim();
+
+/** Value of a leaf element. OFX 1.x (SGML) does not close leaf elements, OFX 2.x (XML) does. */
+const ofxField = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeOfxText(match[1]) : '';
+};
+
+// OFX dates are YYYYMMDD optionally followed by the time and time zone
+const parseOfxDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? parseLedgerDate(`${match[1]}-${match[2]}-${match[3]}`) : null;
+};
+
+const parseOfx = (content: string, rejected: RejectedBankTransaction[]): StatementBlock[] => {
+  const statements = Array.from(content.matchAll(/<(?:CC)?STMTRS>([\s\S]*?)<\/(?:CC)?STMTRS>/gi), match => match[1]);
+  if (statements.length === 0) throw new BankStatementError("El archivo OFX no contiene ningún extracto de cuenta.");
+  let position = 0;
+  return statements.map(statement => {
+    const rejectedBefore = rejected.length;
+    const transactions = Array.from(statement.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi), match => match[1]).flatMap(block => {
+      position++;
+      const date = parseOfxDate(ofxField(block, 'DTPOSTED'));
+      const amount = parseStatementAmount(ofxField(block, 'TRNAMT'));
+      if (!date) {
+        rejected.push({ position, reason: `Fecha no válida: "${ofxField(block, 'DTPOSTED')}".` });
+        return [];
+      }
+      if (ofxField(block, 'TRNAMT') === '' || isNaN(amount)) {
+        rejected.push({ position, reason: `Importe no válido: "${ofxField(block, 'TRNAMT')}".` });
+        return [];
+      }
+      const name = ofxField(block, 'NAME');
+      const memo = ofxField(block, 'MEMO');
+      return [{
+        date,
+        description: memo && memo !== name ? [name, memo].filter(Boolean).join(' - ') : name,
+        amount,
+        reference: ofxField(block, 'CHECKNUM') || ofxField(block, 'REFNUM') || ofxField(block, 'FITID'),
+      }];
+    });
+    const ledgerBalance = statement.match(/<LEDGERBAL>([\s\S]*?)<\/LEDGERBAL>/i)?.[1];
+    const closingBalance = ledgerBalance ? parseStatementAmount(ofxField(ledgerBalance, 'BALAMT')) : NaN;
+    return { transactions, openingBalance: null, closingBalance: isNaN(closingBalance) ? null : closingBalance, rejectedCount: rejected.length - rejectedBefore };
+  });
+};
+
+// --- CAMT.053 (ISO 20022 XML) ---
+
+const childElements = (element: Element, name: string): Element[] =>
+  Array.from(element.childNodes).filter((node): node is Element => node.nodeType === 1 && (node as Element).localName === name);
+
+/** The first element at the path of child element names below `element`, ignoring namespaces. */
+const xmlChild = (element: Element | null, ...path: string[]): Element | null =>
+  path.reduce<Element | null>((current, name) => (current ? childElements(current, name)[0] ?? null : null), element);
+
+const xmlText = (element: Element | null, ...path: string[]): string => xmlChild(element, ...path)?.textContent?.trim() ?? '';
+
+/** A CAMT amount with its credit/debit indicator, negative for debits. */
+const camtAmount = (element: Element): number => {
+  const amount = parseStatementAmount(xmlText(element, 'Amt'));
+  return xmlText(element, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+};
+
+const camtDate = (element: Element | null): string | null => {
+  const value = xmlText(element, 'Dt') || xmlText(element, 'DtTm');
+  return value ? parseLedgerDate(value) : null;
+};
+
+/** Balance of the given types (OPBD opening booked, PRCD previous closing, CLBD closing booked), or null. */
+const camtBalance = (statement: Element, types: string[]): number | null => {
+  const balance = childElements(statement, 'Bal').find(candidate =>
+    types.includes(xmlText(candidate, 'Tp', 'CdOrPrtry', 'Cd')) || types.includes(xmlText(candidate, 'Tp', 'CdOrPrtry', 'Prtry')));
+  if (!balance) return null;
+  const amount = camtAmount(balance);
+  return isNaN(amount) ? null : amount;
+};
+
+const parseCamt053 = (content: string, rejected: RejectedBankTransaction[]): StatementBlock[] => {
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) throw new BankStatementError("El archivo CAMT.053 no es un XML válido.");
+  const statements = Array.from(document.getElementsByTagNameNS('*', 'Stmt'));
+  if (statements.length === 0) throw new BankStatementError("El archivo CAMT.053 no contiene ningún extracto de cuenta.");
+  let position = 0;
+  return statements.map(statement => {
+    const rejectedBefore = rejected.length;
+    const transactions = childElements(statement, 'Ntry').flatMap(entry => {
+      position++;
+      const status = xmlText(entry, 'Sts', 'Cd') || xmlText(entry, 'Sts');
+      const date = camtDate(xmlChild(entry, 'BookgDt')) ?? camtDate(xmlChild(entry, 'ValDt'));
+      const amount = camtAmount(entry);
+      if (status !== '' && status !== 'BOOK') {
+        rejected.push({ position, reason: `Movimiento no contabilizado (estado ${status}).` });
+        return [];
+      }
+      if (!date) {
+        rejected.push({ position, reason: "Falta la fecha de contabilización." });
+        return [];
+      }
+      if (xmlText(entry, 'Amt') === '' || isNaN(amount)) {
+        rejected.push({ position, reason: `Importe no válido: "${xmlText(entry, 'Amt')}".` });
+        return [];
+      }
+      const details = xmlChild(entry, 'NtryDtls', 'TxDtls');
+      // The counterparty is the creditor of a payment and the debtor of a receipt
+      const parties = xmlChild(details, 'RltdPties');
+      const counterparty = amount < 0
+        ? xmlText(parties, 'Cdtr', 'Nm') || xmlText(parties, 'Cdtr', 'Pty', 'Nm')
+        : xmlText(parties, 'Dbtr', 'Nm') || xmlText(parties, 'Dbtr', 'Pty', 'Nm');
+      const remittance = details ? childElements(xmlChild(details, 'RmtInf') ?? details, 'Ustrd').map(line => line.textContent?.trim() ?? '').join(' ') : '';
+      const endToEndId = xmlText(details, 'Refs', 'EndToEndId');
+      return [{
+        date,
+        description: [counterparty, remittance || xmlText(entry, 'AddtlNtryInf')].filter(Boolean).join(' - '),
+        amount,
+        reference: xmlText(entry, 'AcctSvcrRef') || (endToEndId !== 'NOTPROVIDED' ? endToEndId : '') || xmlText(details, 'Refs', 'AcctSvcrRef'),
+      }];
+    });
+    return {
+      transactions,
+      openingBalance: camtBalance(statement, ['OPBD', 'PRCD']),
+      closingBalance: camtBalance(statement, ['CLBD']),
+      rejectedCount: rejected.length - rejectedBefore,
+    };
+  });
+};
+
+// --- MT940 (SWIFT) ---
+
+// YYMMDD; years before 80 are in the 2000s
+const parseMt940Date = (value: string): string | null => {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const year = Number(match[1]) < 80 ? `20${match[1]}` : `19${match[1]}`;
+  return parseLedgerDate(`${year}-${match[2]}-${match[3]}`);
+};
+
+/** A :60F:/:62F: balance: C or D, YYMMDD date, currency and amount. */
+const parseMt940Balance = (value: string | undefined): number | null => {
+  const match = value?.match(/^([CD])\d{6}[A-Z]{3}([\d,]+)/);
+  if (!match) return null;
+  const amount = parseStatementAmount(match[2]);
+  return isNaN(amount) ? null : match[1] === 'D' ? -amount : amount;
+};
+
+/**
+ * The text of a :86: field. Structured German fields (a three-digit code followed by ?NN
+ * subfields) keep only the purpose (?20–?29) and counterparty name (?32–?33) subfields.
+ */
+const mt940Description = (value: string): string => {
+  const text = value.replace(/\r?\n/g, '');
+  if (!/^\d{3}\?/.test(text)) return value.replace(/\s*\r?\n\s*/g, ' ').trim();
+  const subfields = Array.from(text.matchAll(/\?(\d{2})([^?]*)/g), match => ({ code: Number(match[1]), value: match[2].trim() }));
+  const pick = (from: number, to: number) => subfields.filter(({ code }) => code >= from && code <= to).map(({ value }) => value).join('');
+  return [pick(32, 33), pick(20, 29)].filter(Boolean).join(' - ');
+};
+
+// :61: value date, optional entry date, mark (C, D, RC, RD), optional funds code, amount, type code, references
+const MT940_STATEMENT_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?([\d,]+)([A-Z][A-Z0-9]{3})?([^\r\n]*)(?:\r?\n([\s\S]*))?$/;
+
+const parseMt940 = (content: string, rejected: RejectedBankTransaction[]): StatementBlock[] => {
+  // Each field starts with :tag: at the beginning of a line and runs until the next field
+  const text = content.replace(/\{[1235]:(?:[^{}]|\{[^{}]*\})*\}/g, '').replace(/\{4:/g, ''); // SWIFT message headers and trailers
+  const fields = Array.from(text.matchAll(/^:(\d{2}[A-Z]?):([\s\S]*?)(?=^:\d{2}[A-Z]?:|^-\}?\s*$|(?![\s\S]))/gm), match => ({ tag: match[1], value: match[2].trim() }));
+  const statements: StatementBlock[] = [];
+  let statement: StatementBlock | null = null;
+  let position = 0;
+  let pendingTransaction: Omit<BankTransaction, 'balance'> | null = null; // Waits for its :86: description
+  const reject = (block: StatementBlock, reason: string) => {
+    rejected.push({ position, reason });
+    block.rejectedCount++;
+  };
+  for (const { tag, value } of fields) {
+    if (tag === '20' || !statement) {
+      statement = { transactions: [], openingBalance: null, closingBalance: null, rejectedCount: 0 };
+      statements.push(statement);
+    }
+    if (tag === '60F' || tag === '60M') {
+      statement.openingBalance = parseMt940Balance(value);
+    } else if (tag === '62F' || tag === '62M') {
+      statement.closingBalance = parseMt940Balance(value);
+    } else if (tag === '61') {
+      position++;
+      pendingTransaction = null;
+      const match = value.match(MT940_STATEMENT_LINE);
+      const date = match ? parseMt940Date(match[1]) : null;
+      const amount = match ? parseStatementAmount(match[5]) : NaN;
+      if (!match) {
+        reject(statement, `Línea de movimiento no válida: "${value.split(/\r?\n/)[0]}".`);
+      } else if (!date) {
+        reject(statement, `Fecha no válida: "${match[1]}".`);
+      } else if (isNaN(amount)) {
+        reject(statement, `Importe no válido: "${match[5]}".`);
+      } else {
+        const [customerReference, bankReference = ''] = match[7].split('//');
+        const isDebit = match[3] === 'D' || match[3] === 'RC'; // A reversed credit takes money out
+        pendingTransaction = {
+          date,
+          description: (match[8] ?? '').replace(/\s*\r?\n\s*/g, ' ').trim(),
+          amount: isDebit ? -amount : amount,
+          reference: (customerReference.trim() !== 'NONREF' ? customerReference.trim() : '') || bankReference.trim(),
+        };
+        statement.transactions.push(pendingTransaction);
+      }
+    } else if (tag === '86' && pendingTransaction) {
+      pendingTransaction.description = mt940Description(value) || pendingTransaction.description;
+      pendingTransaction = null;
+    }
+  }
+  if (statements.length === 0) throw new BankStatementError("El archivo MT940 no contiene ningún extracto de cuenta.");
+  return statements;
+};
+
+/**
+ * Recognizes a bank statement by its file extension or, for .xml and text files, its content.
+ * @returns The format, or null if the file is not a bank statement.
+ */
+export const detectBankStatementFormat = (fileName: string, content: string): BankStatementFormat | null => {
+  const extension = `.${fileName.split('.').pop()?.toLowerCase() || ''}`;
+  if (extension === '.ofx' || extension === '.qfx') return 'ofx';
+  if (BANK_STATEMENT_EXTENSIONS.includes(extension)) return 'mt940';
+  const start = content.slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(start)) return 'ofx';
+  if (/urn:iso:std:iso:20022:tech:xsd:camt\.053|<(\w+:)?BkToCstmrStmt[\s>]/.test(start)) return 'camt053';
+  if (/^:20:/m.test(content) && /^:61:/m.test(content) && /^:60[FM]:/m.test(content)) return 'mt940';
+  return null;
+};
+
+/**
+ * Reads the transactions of an OFX/QFX, CAMT.053 or MT940 bank statement. Transactions without a
+ * valid date or amount (and CAMT entries that are not booked) are rejected; the balance after each
+ * transaction is worked out from the statement's opening or closing balance.
+ * @returns The parse result, or null if the file is not a bank statement (see detectBankStatementFormat).
+ * @throws BankStatementError if the file is in a bank statement format but cannot be read.
+ */
+export const parseBankStatement = (fileName: string, content: string): BankStatementParseResult | null => {
+  const format = detectBankStatementFormat(fileName, content);
+  if (!format) return null;
+  const rejected: RejectedBankTransaction[] = [];
+  const warnings: string[] = [];
+  const blocks = format === 'ofx' ? parseOfx(content, rejected)
+    : format === 'camt053' ? parseCamt053(content, rejected)
+    : parseMt940(content, rejected);
+  return { format, transactions: blocks.flatMap(block => withRunningBalances(block, warnings)), rejected, warnings };
+};
+
+/** Converts bank transactions to a table with the BANK_STATEMENT_HEADERS columns. */
+export const bankTransactionsToTable = (transactions: BankTransaction[]): ParsedCsvData => ({
+  headers: [...BANK_STATEMENT_HEADERS],
+  rows: transactions.map(transaction => [
+    transaction.date,
+    transaction.description,
+    transaction.amount.toFixed(2),
+    transaction.balance === null ? '' : transaction.balance.toFixed(2),
+    transaction.reference,
+  ]),
+});
+
+/** CSV content of the imported statement. */
+export const bankTransactionsToCsv = (transactions: BankTransaction[]): string => serializeCsv(bankTransactionsToTable(transactions));
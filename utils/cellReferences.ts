@@ -0,0 +1,234 @@
+/** A cell in A1 notation. Rows and columns are numbered from 1, as in Excel. */
+export interface CellReference {
+  column: number;
+  row: number;
+  absoluteColumn: boolean; // Written with $ before the column letters
+  absoluteRow: boolean; // Written with $ before the row number
+}
+
+/** A cell or range reference found in a formula, with its sheet prefix if it has one. */
+export interface FormulaReference {
+  sheet: string | null;
+  start: CellReference;
+  end: CellReference | null; // Set for ranges (A1:B5)
+}
+
+/** Rows or columns inserted (`delta` > 0) before, or deleted (`delta` < 0) starting at, position `at`. */
+export interface ReferenceShift {
+  axis: 'row' | 'column';
+  at: number;
+  delta: number;
+}
+
+export const REF_ERROR = '#REF!';
+
+const MAX_COLUMN = 16384; // XFD
+const MAX_ROW = 1048576;
+
+// A reference, possibly with a sheet prefix, starting at the scanner's position (sticky)
+const REFERENCE_AT = /(?:('(?:[^']|'')+'|[\p{L}_][\p{L}\d_.]*)!)?(\$?)([A-Za-z]{1,3})(\$?)(\d+)(?::(\$?)([A-Za-z]{1,3})(\$?)(\d+))?/uy;
+const IDENTIFIER_CHARACTER = /[\p{L}\d_.$]/u;
+
+/** Column letters ("A", "AB") to a column number from 1. */
+export const columnLettersToNumber = (letters: string): number =>
+  letters.toUpperCase().split('').reduce((number, letter) => number * 26 + letter.charCodeAt(0) - 64, 0);
+
+/** A column number from 1 to its letters (1 is "A", 28 is "AB"). */
+export const columnNumberToLetters = (column: number): string => {
+  let letters = '';
+  for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+export const formatCellReference = (ref: CellReference): string =>
+  `${ref.absoluteColumn ? '$' : ''}${columnNumberToLetters(ref.column)}${ref.absoluteRow ? '$' : ''}${ref.row}`;
+
+/** A sheet name as written before "!" in a formula, quoted unless it is a plain name that does not look like a cell. */
+export const formatSheetPrefix = (sheetName: string): string =>
+  /^[\p{L}_][\p{L}\d_.]*$/u.test(sheetName) && !/^[A-Za-z]{1,3}\d+$/.test(sheetName) ? `${sheetName}!` : `'${sheetName.replace(/'/g, "''")}'!`;
+
+export const formatFormulaReference = (ref: FormulaReference): string =>
+  `${ref.sheet !== null ? formatSheetPrefix(ref.sheet) : ''}${formatCellReference(ref.start)}${ref.end ? `:${formatCellReference(ref.end)}` : ''}`;
+
+const toCellReference = (absoluteColumn: string, letters: string, absoluteRow: string, row: string): CellReference | null => {
+  const reference = { column: columnLettersToNumber(letters), row: Number(row), absoluteColumn: absoluteColumn === '$', absoluteRow: absoluteRow === '$' };
+  return reference.column <= MAX_COLUMN && reference.row >= 1 && reference.row <= MAX_ROW ? reference : null;
+};
+
+/**
+ * Reads the cell or range reference that starts at `index` of a formula, if there is one. Names
+ * that only look like a cell (LOG10( , a sheet name before "!", part of a longer name) are not references.
+ * @returns The reference and the length of its text.
+ */
+export const matchReferenceAt = (formula: string, index: number): { ref: FormulaReference; length: number } | null => {
+  if (index > 0 && IDENTIFIER_CHARACTER.test(formula[index - 1])) return null;
+  REFERENCE_AT.lastIndex = index;
+  const match = REFERENCE_AT.exec(formula);
+  if (!match) return null;
+  const next = formula[index + match[0].length] ?? '';
+  if (IDENTIFIER_CHARACTER.test(next) || next === '(' || next === '!') return null;
+  const [text, sheet, startColumnAbsolute, startLetters, startRowAbsolute, startRow, endColumnAbsolute, endLetters, endRowAbsolute, endRow] = match;
+  const start = toCellReference(startColumnAbsolute, startLetters, startRowAbsolute, startRow);
+  const end = endLetters ? toCellReference(endColumnAbsolute, endLetters, endRowAbsolute, endRow) : null;
+  if (!start || (endLetters && !end)) return null;
+  const sheetName = sheet === undefined ? null : sheet.startsWith("'") ? sheet.slice(1, -1).replace(/''/g, "'") : sheet;
+  return { ref: { sheet: sheetName, start, end }, length: text.length };
+};
+
+/** True if a cell's text is a formula (starts with "="). */
+export const isFormula = (text: string): boolean => text.startsWith('=') && text.length > 1;
+
+/** Index just after the string literal that starts at `index` (a '"'), with "" as an escaped quote. */
+export const skipStringLiteral = (formula: string, index: number): number => {
+  let end = index + 1;
+  while (end < formula.length && !(formula[end] === '"' && formula[end + 1] !== '"')) end += formula[end] === '"' ? 2 : 1;
+  return end + 1;
+};
+
+/** Replaces the separators outside string literals of a formula (text without "="). */
+const replaceSeparators = (formula: string, from: string, to: string): string => {
+  let result = '';
+  for (let i = 0; i < formula.length;) {
+    if (formula[i] === '"') {
+      const end = skipStringLiteral(formula, i);
+      result += formula.slice(i, end);
+      i = end;
+    } else {
+      result += formula[i] === from ? to : formula[i];
+      i++;
+    }
+  }
+  return result;
+};
+
+/** A formula as written in the content: "=" and ";" between arguments. Accepts Excel's form (no "=", commas). */
+export const toContentFormula = (formula: string): string =>
+  `=${replaceSeparators(formula.startsWith('=') ? formula.slice(1) : formula, ',', ';')}`;
+
+/** A formula of the content as Excel stores it: without "=" and with commas between arguments. */
+export const toExcelFormula = (text: string): string => replaceSeparators(text.startsWith('=') ? text.slice(1) : text, ';', ',');
+
+/**
+ * Rewrites the cell and range references of a formula (text after "="), leaving string
+ * literals, function names and everything else as written.
+ * @param transform Receives each reference and returns its replacement text, or null to keep it.
+ */
+export const mapFormulaReferences = (formula: string, transform: (ref: FormulaReference) => string | null): string => {
+  let result = '';
+  let i = 0;
+  while (i < formula.length) {
+    if (formula[i] === '"') {
+      const end = skipStringLiteral(formula, i);
+      result += formula.slice(i, end);
+      i = end;
+      continue;
+    }
+    const match = matchReferenceAt(formula, i);
+    if (match) {
+      result += transform(match.ref) ?? formula.slice(i, i + match.length);
+      i += match.length;
+      continue;
+    }
+    result += formula[i];
+    i++;
+  }
+  return result;
+};
+
+/** Lists the references of a formula (see mapFormulaReferences). */
+export const findFormulaReferences = (formula: string): FormulaReference[] => {
+  const references: FormulaReference[] = [];
+  mapFormulaReferences(formula, ref => {
+    references.push(ref);
+    return null;
+  });
+  return references;
+};
+
+/**
+ * Moves one coordinate of a reference for a shift. Inside deleted rows or columns, a range
+ * start snaps to the first position after the deletion and a range end to the last one before it.
+ * @returns The new position, or null if it was deleted (single cells only).
+ */
+const shiftPosition = (position: number, shift: ReferenceShift, boundary: 'cell' | 'start' | 'end'): number | null => {
+  if (position < shift.at) return position;
+  if (shift.delta > 0) return position + shift.delta;
+  const deletedEnd = shift.at - shift.delta; // First position after the deleted ones
+  if (position >= deletedEnd) return position + shift.delta;
+  if (boundary === 'start') return shift.at;
+  if (boundary === 'end') return shift.at - 1;
+  return null;
+};
+
+/**
+ * Adjusts the references of a formula after rows or columns were inserted or deleted in a
+ * sheet, as Excel does: references below or to the right move, ranges grow or shrink, and
+ * references to deleted cells become #REF!.
+ * @param formula The formula, without "=".
+ * @param shift The rows or columns inserted or deleted.
+ * @param isSameSheet Whether the formula is on the sheet that changed; unprefixed references are only shifted then.
+ * @param sheetName The sheet that changed; references prefixed with it are always shifted.
+ */
+export const shiftFormulaReferences = (formula: string, shift: ReferenceShift, isSameSheet: boolean, sheetName: string): string =>
+  mapFormulaReferences(formula, ref => {
+    const isAffected = ref.sheet === null ? isSameSheet : ref.sheet.toLowerCase() === sheetName.toLowerCase();
+    if (!isAffected) return null;
+    const key = shift.axis;
+    if (!ref.end) {
+      const position = shiftPosition(ref.start[key], shift, 'cell');
+      return position === null ? REF_ERROR : formatFormulaReference({ ...ref, start: { ...ref.start, [key]: position } });
+    }
+    const start = shiftPosition(ref.start[key], shift, 'start');
+    const end = shiftPosition(ref.end[key], shift, 'end');
+    if (start === null || end === null || end < start) return REF_ERROR;
+    return formatFormulaReference({ ...ref, start: { ...ref.start, [key]: start }, end: { ...ref.end, [key]: end } });
+  });
+
+/**
+ * Maps a row to another numbering of the same sheet. For rows with no equivalent, a range start
+ * snaps to the next row that has one and a range end to the previous one; a single cell is null.
+ */
+export type RowMapping = (row: number, boundary: 'cell' | 'start' | 'end') => number | null;
+
+/**
+ * Renumbers the rows of the references of a formula (text without "=").
+ * @param mappingOf The mapping for the references to a sheet (null for the formula's own sheet), or null to keep them.
+ */
+export const mapFormulaRows = (formula: string, mappingOf: (sheet: string | null) => RowMapping | null): string =>
+  mapFormulaReferences(formula, ref => {
+    const mapping = mappingOf(ref.sheet);
+    if (!mapping) return null;
+    if (!ref.end) {
+      const row = mapping(ref.start.row, 'cell');
+      if (row === null) return REF_ERROR;
+      return row === ref.start.row ? null : formatFormulaReference({ ...ref, start: { ...ref.start, row } });
+    }
+    const start = mapping(ref.start.row, 'start');
+    const end = mapping(ref.end.row, 'end');
+    if (start === null || end === null || end < start) return REF_ERROR;
+    if (start === ref.start.row && end === ref.end.row) return null;
+    return formatFormulaReference({ ...ref, start: { ...ref.start, row: start }, end: { ...ref.end, row: end } });
+  });
+
+/** Rewrites the references to a renamed sheet. */
+export const renameSheetInFormula = (formula: string, oldName: string, newName: string): string =>
+  mapFormulaReferences(formula, ref =>
+    ref.sheet !== null && ref.sheet.toLowerCase() === oldName.toLowerCase() ? formatFormulaReference({ ...ref, sheet: newName }) : null);
+
+/**
+ * Moves the relative parts of the references of a formula, as when a formula is copied to
+ * another cell: "A1" copied one row down is "A2", "$A$1" stays. A reference moved off the sheet becomes #REF!.
+ */
+export const translateFormula = (formula: string, rowDelta: number, columnDelta: number): string =>
+  mapFormulaReferences(formula, ref => {
+    const move = (cell: CellReference): CellReference | null => {
+      const moved = { ...cell, row: cell.absoluteRow ? cell.row : cell.row + rowDelta, column: cell.absoluteColumn ? cell.column : cell.column + columnDelta };
+      return moved.row >= 1 && moved.row <= MAX_ROW && moved.column >= 1 && moved.column <= MAX_COLUMN ? moved : null;
+    };
+    const start = move(ref.start);
+    const end = ref.end ? move(ref.end) : null;
+    if (!start || (ref.end && !end)) return REF_ERROR;
+    return formatFormulaReference({ ...ref, start, end });
+  });
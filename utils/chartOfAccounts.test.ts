@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Account, AccountType } from '../types';
+import {
+  exportAccountsToTable, flattenAccountTree, formatChartOfAccountsForPrompt, getCashFlowCategory, importAccountsFromTable, parseAccountType,
+  parseCashFlowCategory, validateAccount,
+} from './chartOfAccounts';
+
+const account = (code: string, name: string, type: AccountType, parentId: string | null = null, extra: Partial<Account> = {}): Account =>
+  ({ id: code, code, name, type, parentId, isActive: true, cashFlowCategory: null, ...extra });
+
+const CHART = [
+  account('57', 'Tesorería', 'asset'),
+  account('572', 'Bancos', 'asset', '57'),
+  account('570', 'Caja', 'asset', '57', { isActive: false }),
+  account('1', 'Financiación básica', 'equity'),
+  account('100', 'Capital social', 'equity', '1'),
+];
+
+// Parent code of each account, to compare charts whose ids were generated on import
+const describeChart = (accounts: Account[]) => {
+  const codeById = new Map(accounts.map(a => [a.id, a.code]));
+  return flattenAccountTree(accounts).map(({ account: a }) => [a.code, a.name, a.type, a.parentId ? codeById.get(a.parentId) : null, a.isActive, a.cashFlowCategory ?? null]);
+};
+
+describe('parseAccountType and parseCashFlowCategory', () => {
+  it('read English and Spanish names, ignoring case and accents', () => {
+    assert.equal(parseAccountType(' Patrimonio Neto '), 'equity');
+    assert.equal(parseAccountType('Income'), 'revenue');
+    assert.equal(parseAccountType('otros'), null);
+    assert.equal(parseCashFlowCategory('Inversión'), 'investing');
+    assert.equal(parseCashFlowCategory('Tesorería'), 'cash');
+    assert.equal(parseCashFlowCategory('otros'), null);
+  });
+});
+
+describe('getCashFlowCategory', () => {
+  it('uses the category set on the account, or derives it from its type and name', () => {
+    assert.equal(getCashFlowCategory(account('700', 'Ventas', 'revenue', null, { cashFlowCategory: 'operating' })), null);
+    assert.equal(getCashFlowCategory(account('211', 'Maquinaria', 'asset', null, { cashFlowCategory: 'investing' })), 'investing');
+    assert.equal(getCashFlowCategory(account('572', 'Bancos c/c', 'asset')), 'cash');
+    assert.equal(getCashFlowCategory(account('430', 'Clientes', 'asset')), 'operating');
+    assert.equal(getCashFlowCategory(account('400', 'Proveedores', 'liability')), 'operating');
+    assert.equal(getCashFlowCategory(account('100', 'Capital social', 'equity')), 'financing');
+  });
+});
+
+describe('flattenAccountTree', () => {
+  it('lists each account followed by its subaccounts, by code, and accounts without a parent at the top', () => {
+    const tree = flattenAccountTree([...CHART, account('4300001', 'Cliente huérfano', 'asset', 'borrada')]);
+    assert.deepEqual(tree.map(({ account: a, depth }) => [a.code, depth]), [['1', 0], ['100', 1], ['4300001', 0], ['57', 0], ['570', 1], ['572', 1]]);
+  });
+});
+
+describe('validateAccount', () => {
+  it('rejects empty, repeated or malformed codes and empty names', () => {
+    assert.deepEqual(validateAccount(account('', ' ', 'asset'), CHART), ['El código es obligatorio.', 'El nombre es obligatorio.']);
+    assert.deepEqual(validateAccount(account('57 2', 'Bancos', 'asset'), CHART), ['El código no puede contener espacios ni comas.']);
+    assert.deepEqual(validateAccount({ ...account('572', 'Bancos', 'asset'), id: 'nueva' }, CHART), ['Ya existe una cuenta con el código 572.']);
+    assert.deepEqual(validateAccount(CHART[1], CHART), []);
+  });
+
+  it('rejects a parent that is missing or is the account itself or one of its subaccounts', () => {
+    assert.deepEqual(validateAccount({ ...CHART[0], parentId: '572' }, CHART), ['Una cuenta no puede estar dentro de sí misma ni de una de sus subcuentas.']);
+    assert.deepEqual(validateAccount({ ...CHART[0], parentId: '57' }, CHART), ['Una cuenta no puede estar dentro de sí misma ni de una de sus subcuentas.']);
+    assert.deepEqual(validateAccount(account('5720001', 'Banco Sol', 'asset', 'borrada'), CHART), ['La cuenta padre no existe.']);
+  });
+});
+
+describe('importAccountsFromTable', () => {
+  it('places accounts under the account whose code is their longest prefix, and takes its type when none is given', () => {
+    const result = importAccountsFromTable({
+      headers: ['Código', 'Nombre', 'Tipo'],
+      rows: [['5720001', 'Banco Sol', ''], ['5720', 'Bancos euros', ''], ['572', 'Bancos e instituciones de crédito', 'Activo']],
+    }, CHART);
+    assert.equal(result.createdCount, 2);
+    assert.equal(result.updatedCount, 1);
+    assert.deepEqual(describeChart(result.accounts).filter(([code]) => String(code).startsWith('572')), [
+      ['572', 'Bancos e instituciones de crédito', 'asset', '57', true, null],
+      ['5720', 'Bancos euros', 'asset', '572', true, null],
+      ['5720001', 'Banco Sol', 'asset', '5720', true, null],
+    ]);
+  });
+
+  it('rejects rows it cannot place or type, by their row number', () => {
+    const result = importAccountsFromTable({
+      headers: ['Code', 'Name', 'Type', 'Parent code', 'Cash flow'],
+      rows: [['999', 'Sin tipo', '', '', ''], ['600', 'Compras', 'gastos', '6', ''], ['213', 'Maquinaria', 'activo', '', 'otra'], ['700', 'Ventas', 'ventas', '', '']],
+    }, CHART);
+    assert.deepEqual(result.rejected, [
+      { row: 1, reason: 'Falta el tipo de cuenta.' },
+      { row: 2, reason: 'La cuenta padre 6 no existe.' },
+      { row: 3, reason: 'Categoría de flujo de efectivo desconocida: "otra".' },
+      { row: 4, reason: 'Tipo de cuenta desconocido: "ventas".' },
+    ]);
+    assert.equal(result.accounts.length, CHART.length);
+  });
+
+  it('requires a code and a name column', () => {
+    assert.throws(() => importAccountsFromTable({ headers: ['Cuenta', 'Tipo'], rows: [] }, CHART), /columna de código/);
+  });
+
+  it('reads back an exported chart', () => {
+    const chart = [...CHART, account('211', 'Maquinaria', 'asset', null, { cashFlowCategory: 'investing' })];
+    const imported = importAccountsFromTable(exportAccountsToTable(chart), []);
+    assert.deepEqual(imported.rejected, []);
+    assert.deepEqual(describeChart(imported.accounts), describeChart(chart));
+  });
+});
+
+describe('formatChartOfAccountsForPrompt', () => {
+  it('describes the active accounts, indented by level', () => {
+    assert.equal(formatChartOfAccountsForPrompt(CHART), [
+      '1 Financiación básica (equity)',
+      '  100 Capital social (equity)',
+      '57 Tesorería (asset)',
+      '  572 Bancos (asset)',
+    ].join('\n'));
+    assert.equal(formatChartOfAccountsForPrompt([{ ...CHART[0], isActive: false }]), null);
+  });
+});
@@ -0,0 +1,297 @@
+import { Account, AccountType, CashFlowCategory } from '../types';
+import { ParsedCsvData } from './tabularDataParser';
+import { generateId } from './helpers';
+
+export const ACCOUNT_TYPES: AccountType[] = ['asset', 'liability', 'equity', 'revenue', 'expense'];
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  asset: 'Activo',
+  liability: 'Pasivo',
+  equity: 'Patrimonio neto',
+  revenue: 'Ingresos',
+  expense: 'Gastos',
+};
+
+export const CASH_FLOW_CATEGORIES: CashFlowCategory[] = ['cash', 'operating', 'investing', 'financing'];
+
+export const CASH_FLOW_CATEGORY_LABELS: Record<CashFlowCategory, string> = {
+  cash: 'Efectivo',
+  operating: 'Explotación',
+  investing: 'Inversión',
+  financing: 'Financiación',
+};
+
+const CASH_FLOW_CATEGORY_ALIASES: Record<CashFlowCategory, string[]> = {
+  cash: ['cash', 'efectivo', 'tesoreria'],
+  operating: ['operating', 'explotacion', 'operacion', 'operaciones'],
+  investing: ['investing', 'inversion', 'inversiones'],
+  financing: ['financing', 'financiacion', 'financiamiento'],
+};
+
+// Asset accounts with these words in their name count as cash unless a category is set
+const CASH_ACCOUNT_NAME_PATTERN = /\b(caja|bancos?|bank|cash|tesoreria|efectivo)\b/;
+
+// Accepted spellings of each type in imported files (compared lowercase, without accents)
+const ACCOUNT_TYPE_ALIASES: Record<AccountType, string[]> = {
+  asset: ['asset', 'assets', 'activo', 'activos'],
+  liability: ['liability', 'liabilities', 'pasivo', 'pasivos'],
+  equity: ['equity', 'patrimonio', 'patrimonio neto', 'capital'],
+  revenue: ['revenue', 'income', 'ingreso', 'ingresos'],
+  expense: ['expense', 'expenses', 'gasto', 'gastos'],
+};
+
+// Header names recognized when importing, per field
+const IMPORT_COLUMNS = {
+  code: ['codigo', 'code', 'cuenta', 'account', 'numero'],
+  name: ['nombre', 'name', 'descripcion', 'description', 'titulo'],
+  type: ['tipo', 'type', 'clase'],
+  parent: ['padre', 'parent', 'cuenta padre', 'codigo padre', 'parent code'],
+  active: ['activa', 'active', 'estado', 'status'],
+  cashFlow: ['flujo de efectivo', 'flujo', 'cash flow'],
+};
+
+/** Columns of exported charts of accounts, which can be imported back. */
+export const ACCOUNT_EXPORT_HEADERS = ['Código', 'Nombre', 'Tipo', 'Código padre', 'Activa', 'Flujo de efectivo'];
+
+// Most accounts sent to the AI; larger charts are cut at the deepest levels first
+const MAX_PROMPT_ACCOUNTS = 400;
+
+const normalize = (value: string): string =>
+  value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Codes sort as text, so subaccounts follow their parent (57, 572, 5720001, 6)
+const byCode = (a: Account, b: Account) => a.code.localeCompare(b.code);
+
+/**
+ * Reads an account type from its English or Spanish name.
+ * @returns The type, or null if the value is not recognized.
+ */
+export const parseAccountType = (value: string): AccountType | null => {
+  const normalized = normalize(value);
+  return ACCOUNT_TYPES.find(type => type === normalized || ACCOUNT_TYPE_ALIASES[type].includes(normalized)) ?? null;
+};
+
+/**
+ * Reads a cash flow category from its English or Spanish name.
+ * @returns The category, or null if the value is not recognized.
+ */
+export const parseCashFlowCategory = (value: string): CashFlowCategory | null => {
+  const normalized = normalize(value);
+  return CASH_FLOW_CATEGORIES.find(category => category === normalized || CASH_FLOW_CATEGORY_ALIASES[category].includes(normalized)) ?? null;
+};
+
+/**
+ * Section of the cash flow statement an account belongs to: its own category if set, otherwise
+ * cash for asset accounts named like cash or bank accounts, operating for other assets and
+ * liabilities, and financing for equity.
+ * @returns The category, or null for revenue and expense accounts (they make up the result).
+ */
+export const getCashFlowCategory = (account: Account): CashFlowCategory | null => {
+  if (account.type === 'revenue' || account.type === 'expense') return null;
+  if (account.cashFlowCategory) return account.cashFlowCategory;
+  if (account.type === 'equity') return 'financing';
+  if (account.type === 'asset' && CASH_ACCOUNT_NAME_PATTERN.test(normalize(account.name))) return 'cash';
+  return 'operating';
+};
+
+/** Ids of all accounts below `accountId`, at any depth. */
+export const getDescendantAccountIds = (accounts: Account[], accountId: string): Set<string> => {
+  const descendants = new Set<string>();
+  const pending = [accountId];
+  while (pending.length > 0) {
+    const parentId = pending.pop();
+    accounts.forEach(account => {
+      if (account.parentId === parentId && !descendants.has(account.id)) {
+        descendants.add(account.id);
+        pending.push(account.id);
+      }
+    });
+  }
+  return descendants;
+};
+
+/**
+ * Flattens the account tree in display order: each account followed by its children, siblings sorted by code.
+ * Accounts whose parent no longer exists are shown at the top level.
+ * @returns The accounts with their depth (0 for top-level accounts).
+ */
+export const flattenAccountTree = (accounts: Account[]): { account: Account; depth: number }[] => {
+  const ids = new Set(accounts.map(account => account.id));
+  const childrenOf = new Map<string | null, Account[]>();
+  accounts.forEach(account => {
+    const parentId = account.parentId && ids.has(account.parentId) ? account.parentId : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), account]);
+  });
+
+  const result: { account: Account; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (childrenOf.get(parentId) ?? []).sort(byCode).forEach(account => {
+      result.push({ account, depth });
+      visit(account.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return result;
+};
+
+/**
+ * Checks an account before it is saved.
+ * @param account The new or edited account.
+ * @param accounts The current chart of accounts (may contain the account being edited).
+ * @returns User-facing problems; empty if the account can be saved.
+ */
+export const validateAccount = (account: Account, accounts: Account[]): string[] => {
+  const problems: string[] = [];
+  const code = account.code.trim();
+  if (code === '') problems.push("El código es obligatorio.");
+  else if (/[,\s]/.test(code)) problems.push("El código no puede contener espacios ni comas.");
+  else if (accounts.some(other => other.id !== account.id && other.code === code)) {
+    problems.push(`Ya existe una cuenta con el código ${code}.`);
+  }
+  if (account.name.trim() === '') problems.push("El nombre es obligatorio.");
+  if (account.parentId !== null) {
+    if (account.parentId === account.id || getDescendantAccountIds(accounts, account.id).has(account.parentId)) {
+      problems.push("Una cuenta no puede estar dentro de sí misma ni de una de sus subcuentas.");
+    } else if (!accounts.some(other => other.id === account.parentId)) {
+      problems.push("La cuenta padre no existe.");
+    }
+  }
+  return problems;
+};
+
+/**
+ * Finds the account an imported code belongs under: the account with the longest code that is a
+ * prefix of it (e.g. 5720001 goes under 572), as in most national charts of accounts.
+ */
+const findParentByCodePrefix = (code: string, accounts: Account[]): Account | null =>
+  accounts
+    .filter(candidate => candidate.code !== code && code.startsWith(candidate.code))
+    .sort((a, b) => b.code.length - a.code.length)[0] ?? null;
+
+export interface AccountImportResult {
+  accounts: Account[]; // The whole chart after the import
+  createdCount: number;
+  updatedCount: number;
+  rejected: { row: number; reason: string }[]; // row is the 1-based data row of the imported table
+}
+
+/**
+ * Merges an imported table into the chart of accounts. Columns are recognized by their header
+ * (Código/Code, Nombre/Name, Tipo/Type, and optionally Código padre/Parent, Activa/Active and
+ * Flujo de efectivo/Cash flow).
+ * Rows whose code already exists update that account. Without a parent column, or when it is
+ * empty, the parent is the account whose code is the longest prefix of the row's code.
+ * Without a type, the parent's type is used.
+ * @param data The table read with parseCsv or from an Excel sheet.
+ * @param existing The current chart of accounts.
+ * @returns The merged chart and what happened to each row.
+ * @throws Error if the table has no code or name column.
+ */
+export const importAccountsFromTable = (data: ParsedCsvData, existing: Account[]): AccountImportResult => {
+  const headers = data.headers.map(normalize);
+  const columnOf = (field: keyof typeof IMPORT_COLUMNS) => headers.findIndex(header => IMPORT_COLUMNS[field].includes(header));
+  const codeColumn = columnOf('code');
+  const nameColumn = columnOf('name');
+  const typeColumn = columnOf('type');
+  const parentColumn = columnOf('parent');
+  const activeColumn = columnOf('active');
+  const cashFlowColumn = columnOf('cashFlow');
+  if (codeColumn === -1 || nameColumn === -1) {
+    throw new Error("La tabla debe tener una columna de código (Código) y otra de nombre (Nombre).");
+  }
+
+  const accounts = existing.map(account => ({ ...account }));
+  const rejected: AccountImportResult['rejected'] = [];
+  let createdCount = 0;
+  let updatedCount = 0;
+
+  // Parents usually have shorter codes, so importing in code order lets children find them
+  const rows = data.rows
+    .map((cells, index) => ({ cells, row: index + 1 }))
+    .sort((a, b) => a.cells[codeColumn].localeCompare(b.cells[codeColumn]));
+
+  rows.forEach(({ cells, row }) => {
+    const code = cells[codeColumn].trim();
+    const name = cells[nameColumn].trim();
+    const parentCode = parentColumn === -1 ? '' : cells[parentColumn].trim();
+    const parent = parentCode
+      ? accounts.find(account => account.code === parentCode) ?? null
+      : findParentByCodePrefix(code, accounts);
+    if (parentCode && !parent) {
+      rejected.push({ row, reason: `La cuenta padre ${parentCode} no existe.` });
+      return;
+    }
+
+    const typeCell = typeColumn === -1 ? '' : cells[typeColumn];
+    const type = typeCell.trim() ? parseAccountType(typeCell) : parent?.type ?? null;
+    if (!type) {
+      rejected.push({ row, reason: typeCell.trim() ? `Tipo de cuenta desconocido: "${typeCell.trim()}".` : "Falta el tipo de cuenta." });
+      return;
+    }
+    const activeCell = activeColumn === -1 ? '' : normalize(cells[activeColumn]);
+    const isActive = !['no', 'false', '0', 'inactiva', 'inactive'].includes(activeCell);
+
+    const current = accounts.find(account => account.code === code);
+    const cashFlowCell = cashFlowColumn === -1 ? '' : cells[cashFlowColumn].trim();
+    const cashFlowCategory = cashFlowColumn === -1 ? current?.cashFlowCategory ?? null : cashFlowCell ? parseCashFlowCategory(cashFlowCell) : null;
+    if (cashFlowCell && !cashFlowCategory) {
+      rejected.push({ row, reason: `Categoría de flujo de efectivo desconocida: "${cashFlowCell}".` });
+      return;
+    }
+    const candidate: Account = { id: current?.id ?? generateId(), code, name, type, parentId: parent?.id ?? null, isActive, cashFlowCategory };
+    const problems = validateAccount(candidate, accounts);
+    if (problems.length > 0) {
+      rejected.push({ row, reason: problems.join(' ') });
+      return;
+    }
+    if (current) {
+      Object.assign(current, candidate);
+      updatedCount++;
+    } else {
+      accounts.push(candidate);
+      createdCount++;
+    }
+  });
+
+  rejected.sort((a, b) => a.row - b.row);
+  return { accounts, createdCount, updatedCount, rejected };
+};
+
+/**
+ * Converts the chart of accounts to a table (ACCOUNT_EXPORT_HEADERS) in tree order,
+ * ready for serializeCsv or convertCsvDataToExcelArrayBuffer.
+ */
+export const exportAccountsToTable = (accounts: Account[]): ParsedCsvData => {
+  const codeById = new Map(accounts.map(account => [account.id, account.code]));
+  return {
+    headers: ACCOUNT_EXPORT_HEADERS,
+    rows: flattenAccountTree(accounts).map(({ account }) => [
+      account.code,
+      account.name,
+      ACCOUNT_TYPE_LABELS[account.type],
+      account.parentId ? codeById.get(account.parentId) ?? '' : '',
+      account.isActive ? 'Sí' : 'No',
+      account.cashFlowCategory ? CASH_FLOW_CATEGORY_LABELS[account.cashFlowCategory] : '',
+    ]),
+  };
+};
+
+/**
+ * Describes the active accounts for the AI prompt, one "code name (type)" line per account,
+ * indented by level. Very large charts are trimmed to the shallower levels.
+ * @returns The text, or null if there are no active accounts.
+ */
+export const formatChartOfAccountsForPrompt = (accounts: Account[]): string | null => {
+  const activeIds = new Set(accounts.filter(account => account.isActive).map(account => account.id));
+  let tree = flattenAccountTree(accounts).filter(({ account }) => activeIds.has(account.id));
+  if (tree.length === 0) return null;
+  let maxDepth = Math.max(...tree.map(({ depth }) => depth));
+  while (tree.length > MAX_PROMPT_ACCOUNTS && maxDepth > 0) {
+    tree = tree.filter(({ depth }) => depth < maxDepth);
+    maxDepth--;
+  }
+  return tree
+    .slice(0, MAX_PROMPT_ACCOUNTS)
+    .map(({ account, depth }) => `${'  '.repeat(depth)}${account.code} ${account.name} (${account.type})`)
+    .join('\n');
+};
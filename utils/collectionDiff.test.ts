@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffById, diffRecord } from './collectionDiff';
+
+describe('diffById', () => {
+  it('returns added and replaced items and the ids of removed ones', () => {
+    const kept = { id: 'a', name: 'Bancos' };
+    const renamed = { id: 'b', name: 'Caja' };
+    const removed = { id: 'c', name: 'Ventas' };
+    const next = [kept, { ...renamed, name: 'Caja chica' }, { id: 'd', name: 'Compras' }];
+
+    const diff = diffById([kept, renamed, removed], next);
+    assert.deepEqual(diff.changed, [next[1], next[2]]);
+    assert.deepEqual(diff.removedIds, ['c']);
+  });
+
+  it('compares by reference, so an equal copy is written again', () => {
+    const item = { id: 'a', name: 'Bancos' };
+    assert.deepEqual(diffById([item], [item]), { changed: [], removedIds: [] });
+    assert.equal(diffById([item], [{ ...item }]).changed.length, 1);
+  });
+});
+
+describe('diffRecord', () => {
+  it('returns added and replaced values and the removed keys', () => {
+    const history = { entries: ['v1'] };
+    const next = { kept: history, replaced: { entries: ['v2'] }, added: { entries: [] } };
+
+    const diff = diffRecord({ kept: history, replaced: { entries: ['v1'] }, removed: { entries: [] } }, next);
+    assert.deepEqual(diff.changed, { replaced: next.replaced, added: next.added });
+    assert.deepEqual(diff.removedKeys, ['removed']);
+  });
+});
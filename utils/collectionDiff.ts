@@ -0,0 +1,44 @@
+/**
+ * Helpers for turning two snapshots of persisted state into the minimal set of writes.
+ * React state is updated immutably, so an item whose object reference did not change
+ * between snapshots is known to be unchanged and does not need to be written again.
+ */
+
+export interface CollectionDiff<T> {
+  changed: T[]; // Added or modified items
+  removedIds: string[];
+}
+
+/**
+ * Compares two arrays of items keyed by `id`.
+ * @param previous The last persisted snapshot.
+ * @param next The current state.
+ * @returns Items that are new or whose reference changed, and ids no longer present.
+ */
+export const diffById = <T extends { id: string }>(previous: T[], next: T[]): CollectionDiff<T> => {
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  return {
+    changed: next.filter(item => previousById.get(item.id) !== item),
+    removedIds: previous.filter(item => !nextIds.has(item.id)).map(item => item.id),
+  };
+};
+
+export interface RecordDiff<T> {
+  changed: Record<string, T>;
+  removedKeys: string[];
+}
+
+/**
+ * Compares two records by key, using the same reference rule as diffById.
+ */
+export const diffRecord = <T>(previous: Record<string, T>, next: Record<string, T>): RecordDiff<T> => {
+  const changed: Record<string, T> = {};
+  Object.keys(next).forEach(key => {
+    if (previous[key] !== next[key]) changed[key] = next[key];
+  });
+  return {
+    changed,
+    removedKeys: Object.keys(previous).filter(key => !(key in next)),
+  };
+};
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatTypedCell, inferColumnType, parseLocaleDate, parseLocaleNumber } from './columnTypes';
+
+describe('parseLocaleNumber', () => {
+  const cases: [text: string, locale: string, expected: number | null][] = [
+    ['1.234,56', 'es-ES', 1234.56],
+    ['1.234.567', 'es-ES', 1234567],
+    ['7,5', 'es-ES', 7.5],
+    ['1234.56', 'es-ES', 1234.56], // The app's own form is read in every locale
+    ['1.234', 'es-ES', 1.234], // ... before the locale's, as Excel imports write 1.234
+    ['-0.5', 'de-DE', -0.5],
+    ['1,234', 'es-ES', 1.234],
+    ['1,234', 'en-US', 1234],
+    ['1,234.56', 'en-US', 1234.56],
+    ['1234', 'en-US', 1234],
+    ['-12', 'en-US', -12],
+    ['12-', 'en-US', -12],
+    ['(12)', 'en-US', -12],
+    ['1 234,5', 'fr-FR', 1234.5],
+    ['1,5', 'en-US', null], // Groups of three digits only
+    ['1.23.4', 'es-ES', null],
+    ['abc', 'es-ES', null],
+    ['', 'es-ES', null],
+  ];
+  for (const [text, locale, expected] of cases) {
+    it(`"${text}" in ${locale} is ${expected}`, () => assert.equal(parseLocaleNumber(text, locale), expected));
+  }
+});
+
+describe('parseLocaleDate', () => {
+  const cases: [text: string, locale: string, expected: string | null][] = [
+    ['2025-04-03', 'es-ES', '2025-04-03'],
+    ['2025-04-03T09:30:00Z', 'en-US', '2025-04-03 09:30'],
+    ['03/04/2025', 'es-ES', '2025-04-03'],
+    ['03/04/2025', 'en-US', '2025-03-04'],
+    ['3.4.25', 'de-DE', '2025-04-03'],
+    ['31/02/2025', 'es-ES', null],
+    ['hoy', 'es-ES', null],
+  ];
+  for (const [text, locale, expected] of cases) {
+    it(`"${text}" in ${locale} is ${expected}`, () => assert.equal(parseLocaleDate(text, locale), expected));
+  }
+});
+
+describe('inferColumnType', () => {
+  const cases: [cells: string[], expected: string][] = [
+    [['1', '2', '30'], 'integer'],
+    [['1,5', '2', '3,25'], 'decimal'],
+    [['1.234,56 €', '12 €'], 'currency'],
+    [['10%', '12,5 %'], 'percentage'],
+    [['03/04/2025', '2025-05-01'], 'date'],
+    [['Sí', 'No', 'sí'], 'boolean'],
+    [['0012', '0340'], 'text'], // Leading zeros are codes
+    [['Papel', 'Tinta'], 'text'],
+  ];
+  for (const [cells, expected] of cases) {
+    it(`${JSON.stringify(cells)} is ${expected}`, () => assert.equal(inferColumnType(cells, 'es-ES').type, expected));
+  }
+});
+
+describe('formatTypedCell', () => {
+  it('shows valid values in the locale and flags the others', () => {
+    assert.deepEqual(formatTypedCell('12345.5', { type: 'decimal' }, 'es-ES'), { text: '12.345,5', error: null });
+    assert.equal(formatTypedCell('n/a', { type: 'decimal' }, 'es-ES').text, 'n/a');
+    assert.notEqual(formatTypedCell('n/a', { type: 'decimal' }, 'es-ES').error, null);
+  });
+});
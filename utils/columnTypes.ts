@@ -0,0 +1,309 @@
+import { ColumnType, ColumnTypeSetting } from '../types';
+import { DEFAULT_CURRENCY, WORKSPACE_LOCALES } from '../constants';
+import { ParsedCsvData } from './tabularDataParser';
+import { isFormula } from './cellReferences';
+
+/**
+ * Typed table columns. Cells stay text in the content; a column's type says how that text is
+ * read in the workspace locale (decimal and thousands separators, day/month order), which cells
+ * are invalid, and how valid values are shown. Numbers in the app's own form ("1234.56", as written
+ * by imports and formulas) are accepted in every locale. Each column's type is inferred from its
+ * cells unless the user chose one (see hooks/useColumnTypes.ts).
+ */
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  text: 'Texto',
+  integer: 'Entero',
+  decimal: 'Decimal',
+  currency: 'Moneda',
+  percentage: 'Porcentaje',
+  date: 'Fecha',
+  boolean: 'Sí/No',
+};
+
+/** A cell read with its column's type: a number, a boolean, a date as YYYY-MM-DD (with " HH:MM" if it has a time), text, or null if empty. */
+export interface TypedCell {
+  value: number | boolean | string | null;
+  error: string | null; // Why the cell is not valid for the type; the value is then the text
+}
+
+/** The type of each column of a table, and whether it was inferred or chosen by the user. */
+export interface ResolvedColumnType {
+  setting: ColumnTypeSetting;
+  isInferred: boolean;
+}
+
+const NUMERIC_TYPES = new Set<ColumnType>(['integer', 'decimal', 'currency', 'percentage']);
+
+/** True for the types whose values are numbers (shown right-aligned, filtered by range). */
+export const isNumericColumnType = (type: ColumnType): boolean => NUMERIC_TYPES.has(type);
+
+// A column is inferred to have a type when at least this share of its filled cells are valid for it
+const INFERENCE_THRESHOLD = 0.8;
+const INFERENCE_SAMPLE_SIZE = 500;
+const MAX_NUMBER_DIGITS = 15; // Longer digit runs are identifiers (IBANs, references), not numbers
+
+// Currency symbols that name a single currency; "$" is the locale's own dollar (see localeCurrency)
+const CURRENCY_SYMBOLS: Record<string, string> = { '€': 'EUR', '£': 'GBP', '¥': 'JPY', 'R$': 'BRL', 'US$': 'USD', 'U$S': 'USD' };
+const BOOLEAN_WORDS: Record<string, boolean> = {
+  true: true, verdadero: true, 'sí': true, si: true, yes: true, x: true,
+  false: false, falso: false, no: false,
+};
+
+interface LocaleFormat {
+  decimal: string;
+  group: string;
+  dateOrder: ('day' | 'month' | 'year')[];
+}
+
+const localeFormats = new Map<string, LocaleFormat>();
+
+/** The separators and date order of a locale, read from Intl. */
+const getLocaleFormat = (locale: string): LocaleFormat => {
+  let format = localeFormats.get(locale);
+  if (!format) {
+    const numberParts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    const dateParts = new Intl.DateTimeFormat(locale, { timeZone: 'UTC' }).formatToParts(new Date(Date.UTC(2001, 10, 22)));
+    format = {
+      decimal: numberParts.find(part => part.type === 'decimal')?.value ?? '.',
+      group: numberParts.find(part => part.type === 'group')?.value ?? ',',
+      dateOrder: dateParts.filter(part => part.type === 'day' || part.type === 'month' || part.type === 'year').map(part => part.type as 'day' | 'month' | 'year'),
+    };
+    localeFormats.set(locale, format);
+  }
+  return format;
+};
+
+/** The currency of the locale's "$" and of new currency columns. */
+export const localeCurrency = (locale: string): string =>
+  WORKSPACE_LOCALES.find(option => option.code === locale)?.currency ?? DEFAULT_CURRENCY;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The app's own form, as imported Excel numbers and amounts are written: "1234.56", "1.234"
+const CANONICAL_NUMBER = /^\d+(\.\d+)?$/;
+
+/**
+ * Reads a number written in the app's own form ("1234.56") or in the locale ("1.234,56" in es-ES,
+ * "1,234.56" in en-US). The app's form comes first, so "1.234" is 1.234 in every locale, as an
+ * Excel import writes it; only text that cannot be in that form ("1.234,56", "1.234.567") is read
+ * with the locale's separators. Thousands separators must group three digits, so "1,5" is not a
+ * number in en-US. Negative numbers may be written -1, 1- or (1).
+ * @returns The number, or null if the text is not one.
+ */
+export const parseLocaleNumber = (text: string, locale: string): number | null => {
+  let compact = text.replace(/\s/g, '').replace(/−/g, '-');
+  let isNegative = false;
+  if (/^\(.*\)$/.test(compact)) {
+    isNegative = true;
+    compact = compact.slice(1, -1);
+  }
+  if (/^[-+]/.test(compact)) {
+    isNegative = isNegative || compact[0] === '-';
+    compact = compact.slice(1);
+  } else if (compact.endsWith('-')) {
+    isNegative = true;
+    compact = compact.slice(0, -1);
+  }
+  const { decimal, group } = getLocaleFormat(locale);
+  const groupPattern = /\s/.test(group) ? '' : `(?:${escapeRegExp(group)}\\d{3})*`;
+  const localePattern = new RegExp(`^(\\d{1,3}${groupPattern}|\\d+)(?:${escapeRegExp(decimal)}(\\d+))?$`);
+  const localeMatch = localePattern.exec(compact);
+  let number: number;
+  if (CANONICAL_NUMBER.test(compact)) {
+    number = Number(compact);
+  } else if (localeMatch) {
+    number = Number(`${localeMatch[1].split(group).join('')}.${localeMatch[2] ?? '0'}`);
+  } else {
+    return null;
+  }
+  if (compact.replace(/\D/g, '').length > MAX_NUMBER_DIGITS) return null;
+  return isNegative ? -number : number;
+};
+
+/**
+ * Reads an amount cell of a table read as a ledger or for a reconciliation, with parseLocaleNumber.
+ * @returns The amount, 0 for an empty cell, or NaN if the cell is not a number.
+ */
+export const parseLocaleAmount = (text: string, locale: string): number =>
+  text.trim() === '' ? 0 : parseLocaleNumber(text, locale) ?? NaN;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Reads a date written as YYYY-MM-DD (the app's own form, optionally with a time) or with the
+ * day, month and year in the locale's order ("03/04/2025" is 3 April in es-ES and March 4 in en-US),
+ * separated by "/", "." or "-". Two-digit years are in the 2000s.
+ * @returns The date as YYYY-MM-DD, with " HH:MM" if the text has a time, or null if the text is not a valid date.
+ */
+export const parseLocaleDate = (text: string, locale: string): string | null => {
+  const trimmed = text.trim();
+  let year: number, month: number, day: number;
+  let time = '';
+  const iso = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?Z?)?$/.exec(trimmed);
+  if (iso) {
+    [year, month, day] = iso.slice(1, 4).map(Number);
+    if (iso[4] !== undefined) {
+      if (Number(iso[4]) > 23) return null;
+      time = ` ${pad(Number(iso[4]))}:${iso[5]}`;
+    }
+  } else {
+    const parts = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/.exec(trimmed);
+    if (!parts) return null;
+    const { dateOrder } = getLocaleFormat(locale);
+    const values: Record<string, string> = {};
+    dateOrder.forEach((part, index) => { values[part] = parts[index + 1]; });
+    if (!/^(\d{2}|\d{4})$/.test(values.year ?? '')) return null;
+    year = Number(values.year.length === 2 ? `20${values.year}` : values.year);
+    month = Number(values.month);
+    day = Number(values.day);
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}${time}`;
+};
+
+/** Splits a currency symbol or ISO code off an amount ("€1.234", "1.234,56 EUR"). */
+const splitCurrencyMarker = (text: string): { marker: string | null; amount: string } | null => {
+  const markers = text.match(/[^\d\s.,'()+\-−]+/g) ?? [];
+  if (markers.length > 1) return null;
+  return { marker: markers[0] ?? null, amount: markers[0] ? text.replace(markers[0], '') : text };
+};
+
+/** The ISO code a currency symbol or code stands for, or null if it is not one. */
+const resolveCurrencyMarker = (marker: string, locale: string): string | null => {
+  if (/^[A-Za-z]{3}$/.test(marker)) return marker.toUpperCase();
+  if (marker === '$') return localeCurrency(locale);
+  return CURRENCY_SYMBOLS[marker] ?? null;
+};
+
+const invalid = (text: string, error: string): TypedCell => ({ value: text, error });
+
+/**
+ * Reads a cell's text with a column type (see the module comment). Empty cells are valid and
+ * have no value; formulas are not read here, since their result is what the grid shows.
+ */
+export const parseTypedCell = (text: string, setting: ColumnTypeSetting, locale: string): TypedCell => {
+  const trimmed = text.trim();
+  if (trimmed === '') return { value: null, error: null };
+  switch (setting.type) {
+    case 'text':
+      return { value: text, error: null };
+    case 'integer': {
+      const number = parseLocaleNumber(trimmed, locale);
+      if (number === null || !Number.isInteger(number)) return invalid(text, "No es un número entero.");
+      return { value: number, error: null };
+    }
+    case 'decimal': {
+      const number = parseLocaleNumber(trimmed, locale);
+      return number === null ? invalid(text, "No es un número.") : { value: number, error: null };
+    }
+    case 'percentage': {
+      // "21 %" is 0.21; a number without "%" is already the fraction, as Excel stores it
+      const hasPercentSign = /%$|^%/.test(trimmed);
+      const number = parseLocaleNumber(trimmed.replace(/^%|%$/g, ''), locale);
+      if (number === null) return invalid(text, "No es un porcentaje.");
+      return { value: hasPercentSign ? number / 100 : number, error: null };
+    }
+    case 'currency': {
+      const currency = setting.currency ?? localeCurrency(locale);
+      const split = splitCurrencyMarker(trimmed);
+      const number = split ? parseLocaleNumber(split.amount, locale) : null;
+      if (!split || number === null) return invalid(text, "No es un importe.");
+      const markerCurrency = split.marker === null ? currency : resolveCurrencyMarker(split.marker, locale);
+      if (markerCurrency !== currency) return invalid(text, `El importe no está en ${currency}.`);
+      return { value: number, error: null };
+    }
+    case 'date': {
+      const date = parseLocaleDate(trimmed, locale);
+      return date === null ? invalid(text, "No es una fecha válida.") : { value: date, error: null };
+    }
+    case 'boolean': {
+      const word = trimmed.toLowerCase();
+      if (word === '1' || word === '0') return { value: word === '1', error: null };
+      return word in BOOLEAN_WORDS ? { value: BOOLEAN_WORDS[word], error: null } : invalid(text, "No es Sí o No.");
+    }
+  }
+};
+
+/** Shows a valid value of a column type in the locale. Text and null are shown as they are. */
+export const formatTypedValue = (value: TypedCell['value'], setting: ColumnTypeSetting, locale: string): string => {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (typeof value === 'number') {
+    switch (setting.type) {
+      case 'integer':
+        // Without thousands separators, so codes and years read as written
+        return new Intl.NumberFormat(locale, { maximumFractionDigits: 0, useGrouping: false }).format(value);
+      case 'currency':
+        return new Intl.NumberFormat(locale, { style: 'currency', currency: setting.currency ?? localeCurrency(locale) }).format(value);
+      case 'percentage':
+        return new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 2 }).format(value);
+      default:
+        return new Intl.NumberFormat(locale, { maximumFractionDigits: 6 }).format(value);
+    }
+  }
+  if (setting.type === 'date') {
+    const [date, time] = value.split(' ');
+    const [year, month, day] = date.split('-').map(Number);
+    const formatted = new Intl.DateTimeFormat(locale, { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'UTC' }).format(new Date(Date.UTC(year, month - 1, day)));
+    return time ? `${formatted} ${time}` : formatted;
+  }
+  return value;
+};
+
+/**
+ * The text the grid shows for a cell: its value formatted for the column type, or the text as
+ * written if it is not valid (with the reason).
+ */
+export const formatTypedCell = (text: string, setting: ColumnTypeSetting, locale: string): { text: string; error: string | null } => {
+  if (setting.type === 'text') return { text, error: null };
+  const cell = parseTypedCell(text, setting, locale);
+  return cell.error ? { text, error: cell.error } : { text: formatTypedValue(cell.value, setting, locale), error: null };
+};
+
+/**
+ * Guesses a column's type from its cells: the first of boolean, date, percentage, currency,
+ * integer and decimal that fits most of the filled cells (formulas aside). Percentages and
+ * amounts must carry "%" or a currency, and numbers with leading zeros (account codes, postal
+ * codes) stay text.
+ */
+export const inferColumnType = (cells: string[], locale: string): ColumnTypeSetting => {
+  const values = cells.map(cell => cell.trim()).filter(cell => cell !== '' && !isFormula(cell)).slice(0, INFERENCE_SAMPLE_SIZE);
+  if (values.length === 0) return { type: 'text' };
+  const fits = (isValid: (value: string) => boolean) => values.filter(isValid).length >= values.length * INFERENCE_THRESHOLD;
+  const isValidAs = (setting: ColumnTypeSetting) => (value: string) => parseTypedCell(value, setting, locale).error === null;
+
+  if (fits(value => value.toLowerCase() in BOOLEAN_WORDS)) return { type: 'boolean' };
+  if (fits(isValidAs({ type: 'date' }))) return { type: 'date' };
+  if (fits(value => /%$|^%/.test(value) && isValidAs({ type: 'percentage' })(value))) return { type: 'percentage' };
+
+  const currencyCounts = new Map<string, number>();
+  values.forEach(value => {
+    const split = splitCurrencyMarker(value);
+    const currency = split?.marker && parseLocaleNumber(split.amount, locale) !== null ? resolveCurrencyMarker(split.marker, locale) : null;
+    if (currency) currencyCounts.set(currency, (currencyCounts.get(currency) ?? 0) + 1);
+  });
+  const [currency] = [...currencyCounts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (currency && fits(isValidAs({ type: 'currency', currency }))) return { type: 'currency', currency };
+
+  if (values.some(value => /^[-+]?0\d/.test(value))) return { type: 'text' };
+  if (fits(isValidAs({ type: 'integer' }))) return { type: 'integer' };
+  if (fits(isValidAs({ type: 'decimal' }))) return { type: 'decimal' };
+  return { type: 'text' };
+};
+
+/**
+ * The type of each column of a table: the one the user chose for its header, or the inferred one.
+ * @param overrides Types chosen by the user, by header.
+ */
+export const resolveColumnTypes = (data: ParsedCsvData, overrides: Record<string, ColumnTypeSetting>, locale: string): ResolvedColumnType[] =>
+  data.headers.map((header, index) => {
+    const override = overrides[header];
+    if (override) return { setting: override, isInferred: false };
+    return { setting: inferColumnType(data.rows.map(row => row[index] ?? ''), locale), isInferred: true };
+  });
+
+/** A short label for a column type, with the currency of currency columns ("Moneda (EUR)"). */
+export const formatColumnTypeLabel = (setting: ColumnTypeSetting): string =>
+  setting.type === 'currency' && setting.currency ? `${COLUMN_TYPE_LABELS.currency} (${setting.currency})` : COLUMN_TYPE_LABELS[setting.type];
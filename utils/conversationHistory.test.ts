@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatMessage } from '../types';
+import { buildConversationHistory, estimateTokens } from './conversationHistory';
+
+const message = (sender: ChatMessage['sender'], text: string, extra: Partial<ChatMessage> = {}): ChatMessage =>
+  ({ id: text, sender, text, timestamp: new Date('2025-03-01T10:00:00Z'), ...extra });
+
+const THREAD = [
+  message('user', 'Cuadra el diario. Revisa marzo.'),
+  message('ai', 'El asiento 3 no cuadra. Falta el haber.'),
+  message('user', 'Corrígelo'),
+  message('ai', 'Hecho.'),
+  message('user', 'Gracias'),
+];
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token, rounding up', () => {
+    assert.equal(estimateTokens(''), 0);
+    assert.equal(estimateTokens('abcd'), 1);
+    assert.equal(estimateTokens('abcde'), 2);
+  });
+});
+
+describe('buildConversationHistory', () => {
+  it('sends every turn verbatim when they fit, leaving out messages still streaming and empty ones', () => {
+    const history = buildConversationHistory([
+      message('user', 'Lee este recibo', { imagePart: { inlineData: { data: 'AAAA', mimeType: 'image/png' } } }),
+      message('ai', '  '),
+      message('ai', 'Es de Bar Luna.'),
+      message('ai', 'Escribiendo', { isStreaming: true }),
+    ], 1000, 10, 100);
+    assert.deepEqual(history, {
+      summary: null,
+      turns: [{ role: 'user', text: 'Lee este recibo [imagen adjunta]' }, { role: 'model', text: 'Es de Bar Luna.' }],
+    });
+    assert.equal(buildConversationHistory([message('ai', 'Escribiendo', { isStreaming: true })], 1000, 10, 100), null);
+  });
+
+  it('keeps the most recent turns verbatim and condenses the older ones to their first sentence', () => {
+    assert.deepEqual(buildConversationHistory(THREAD, 1000, 2, 100), {
+      summary: 'Usuario: Cuadra el diario.\nAsistente: El asiento 3 no cuadra.\nUsuario: Corrígelo',
+      turns: [{ role: 'model', text: 'Hecho.' }, { role: 'user', text: 'Gracias' }],
+    });
+  });
+
+  it('drops the oldest summary lines that do not fit in the summary budget', () => {
+    assert.equal(buildConversationHistory(THREAD, 1000, 2, 12)?.summary, '(2 turnos anteriores omitidos)\nUsuario: Corrígelo');
+  });
+
+  it('stops keeping turns verbatim at the first one that does not fit, and clips long summary lines', () => {
+    const history = buildConversationHistory([message('user', 'a'.repeat(400)), ...THREAD.slice(3)], 60, 10, 50);
+    assert.deepEqual(history?.turns.map(turn => turn.text), ['Hecho.', 'Gracias']);
+    assert.equal(history?.summary, `Usuario: ${'a'.repeat(159)}…`);
+  });
+});
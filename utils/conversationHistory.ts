@@ -0,0 +1,81 @@
+import { ChatMessage, ConversationHistory, ConversationTurn } from '../types';
+
+const CHARS_PER_TOKEN = 4; // Rough average for Spanish/English text
+const SUMMARY_LINE_MAX_CHARS = 160;
+
+/**
+ * Rough token count of a text, good enough for budgeting the prompt.
+ * @param text The text to measure.
+ * @returns The estimated number of tokens.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const toTurn = (message: ChatMessage): ConversationTurn => ({
+  role: message.sender === 'user' ? 'user' : 'model',
+  text: message.imagePart ? `${message.text} [imagen adjunta]`.trim() : message.text,
+});
+
+const summarizeTurn = (turn: ConversationTurn): string => {
+  const singleLine = turn.text.replace(/\s+/g, ' ').trim();
+  const firstSentence = singleLine.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? singleLine;
+  const clipped = firstSentence.length > SUMMARY_LINE_MAX_CHARS
+    ? `${firstSentence.slice(0, SUMMARY_LINE_MAX_CHARS - 1)}…`
+    : firstSentence;
+  return `${turn.role === 'user' ? 'Usuario' : 'Asistente'}: ${clipped}`;
+};
+
+/**
+ * Condenses turns into one line each (speaker and first sentence). When even that exceeds
+ * the budget, the oldest lines are dropped and replaced by a count.
+ */
+const summarizeTurns = (turns: ConversationTurn[], tokenBudget: number): string | null => {
+  const lines = turns.map(summarizeTurn);
+  let omitted = 0;
+  while (lines.length > 0 && estimateTokens(lines.join('\n')) > tokenBudget) {
+    lines.shift();
+    omitted++;
+  }
+  if (omitted > 0) lines.unshift(`(${omitted} turnos anteriores omitidos)`);
+  return lines.length > 0 ? lines.join('\n') : null;
+};
+
+/**
+ * Selects the earlier turns of a chat thread to send with the next message.
+ * The most recent turns are kept verbatim, newest first, while they fit in `tokenBudget`
+ * (minus `summaryTokenBudget` once something has to be left out) and `maxTurns`; the older
+ * ones are condensed into a summary.
+ * @param threadMessages Messages of the thread before the message being sent, in chronological order.
+ * @param tokenBudget Total tokens for the verbatim turns and the summary.
+ * @param maxTurns Maximum number of verbatim turns.
+ * @param summaryTokenBudget Tokens reserved for the summary of older turns.
+ * @returns The history to send, or null if there are no earlier turns.
+ */
+export const buildConversationHistory = (
+  threadMessages: ChatMessage[],
+  tokenBudget: number,
+  maxTurns: number,
+  summaryTokenBudget: number
+): ConversationHistory | null => {
+  const turns = threadMessages
+    .filter(msg => !msg.isStreaming && msg.text.trim() !== '')
+    .map(toTurn);
+  if (turns.length === 0) return null;
+
+  const totalTokens = turns.reduce((sum, turn) => sum + estimateTokens(turn.text), 0);
+  if (turns.length <= maxTurns && totalTokens <= tokenBudget) {
+    return { summary: null, turns };
+  }
+
+  const verbatimBudget = Math.max(0, tokenBudget - summaryTokenBudget);
+  const kept: ConversationTurn[] = [];
+  let usedTokens = 0;
+  for (let i = turns.length - 1; i >= 0 && kept.length < maxTurns; i--) {
+    const tokens = estimateTokens(turns[i].text);
+    if (usedTokens + tokens > verbatimBudget) break;
+    kept.unshift(turns[i]);
+    usedTokens += tokens;
+  }
+
+  const older = turns.slice(0, turns.length - kept.length);
+  return { summary: summarizeTurns(older, summaryTokenBudget), turns: kept };
+};
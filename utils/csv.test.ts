@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeText, detectCsvDelimiter, formatCsvRecord, normalizeCsvText, parseCsvRecords } from './csv';
+import { parseCsv, serializeCsv } from './tabularDataParser';
+
+const bytes = (...values: number[]): ArrayBuffer => new Uint8Array(values).buffer;
+
+describe('parseCsvRecords', () => {
+  const cases: [name: string, text: string, expected: string[][]][] = [
+    ['plain fields, trimmed', 'a, b ,c\n1,2,3', [['a', 'b', 'c'], ['1', '2', '3']]],
+    ['CRLF and CR line breaks', 'a,b\r\n1,2\r3,4', [['a', 'b'], ['1', '2'], ['3', '4']]],
+    ['quoted delimiters, quotes and line breaks', '"Rent, March","He said ""hi""","two\nlines"', [['Rent, March', 'He said "hi"', 'two\nlines']]],
+    ['quoted spaces are kept', '" a ",b', [[' a ', 'b']]],
+    ['empty fields', 'a,,c\n,,', [['a', '', 'c'], ['', '', '']]],
+    ['a quote inside an unquoted field is literal', 'pulg 5",b', [['pulg 5"', 'b']]],
+    ['a byte order mark is ignored', '\uFEFFa,b', [['a', 'b']]],
+  ];
+  for (const [name, text, expected] of cases) {
+    it(name, () => assert.deepEqual(parseCsvRecords(text), expected));
+  }
+
+  it('reads other delimiters', () => {
+    assert.deepEqual(parseCsvRecords('a;"b;c"\n1;2', ';'), [['a', 'b;c'], ['1', '2']]);
+  });
+});
+
+describe('formatCsvRecord', () => {
+  it('quotes only the fields that need it', () => {
+    assert.equal(formatCsvRecord(['a', 'Rent, March', 'say "hi"', 'two\nlines', ' pad ']), 'a,"Rent, March","say ""hi""","two\nlines"," pad "');
+  });
+
+  it('round-trips through parseCsvRecords', () => {
+    const fields = ['1.234,56', '"', ',', '', 'línea\r\notra', '=SUM(A1;A2)'];
+    assert.deepEqual(parseCsvRecords(formatCsvRecord(fields)), [fields]);
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  const cases: [text: string, expected: string][] = [
+    ['a,b,c\n1,2,3', ','],
+    ['Fecha;Importe\n2025-01-02;1.234,56\n2025-01-03;7,5', ';'],
+    ['a\tb\n1\t2', '\t'],
+    ['a|b\n1|2', '|'],
+    ['Total\n=SUM(A1;A2)', ','], // A single column: the ";" of a formula is not a delimiter
+  ];
+  for (const [text, expected] of cases) {
+    it(JSON.stringify(text), () => assert.equal(detectCsvDelimiter(text), expected));
+  }
+});
+
+describe('decodeText', () => {
+  const cases: [name: string, buffer: ArrayBuffer, text: string, encoding: string][] = [
+    ['UTF-8', bytes(0x61, 0xc3, 0xb1), 'añ', 'UTF-8'],
+    ['UTF-8 with a byte order mark', bytes(0xef, 0xbb, 0xbf, 0x61), 'a', 'UTF-8'],
+    ['UTF-16 LE with a byte order mark', bytes(0xff, 0xfe, 0x61, 0x00, 0xf1, 0x00), 'añ', 'UTF-16LE'],
+    ['UTF-16 LE without a byte order mark', bytes(0x61, 0x00, 0x2c, 0x00, 0x62, 0x00), 'a,b', 'UTF-16LE'],
+    ['Windows-1252', bytes(0x61, 0xf1, 0x6f, 0x2c, 0xe9), 'año,é', 'Windows-1252'],
+  ];
+  for (const [name, buffer, text, encoding] of cases) {
+    it(name, () => assert.deepEqual(decodeText(buffer), { text, encoding }));
+  }
+});
+
+describe('normalizeCsvText', () => {
+  it('converts to comma-separated CSV', () => {
+    assert.deepEqual(normalizeCsvText('Concepto;Importe\nAlquiler, marzo;1.200,50'), {
+      text: 'Concepto,Importe\n"Alquiler, marzo","1.200,50"',
+      delimiter: ';',
+    });
+  });
+});
+
+describe('parseCsv', () => {
+  it('skips blank rows, pads short rows and truncates long ones', () => {
+    assert.deepEqual(parseCsv('\na,b\n1\n,\n2,3,4'), { headers: ['a', 'b'], rows: [['1', ''], ['2', '3']] });
+  });
+
+  it('is null without a header', () => {
+    assert.equal(parseCsv(''), null);
+    assert.equal(parseCsv(',,\n1,2'), null);
+  });
+
+  it('round-trips through serializeCsv', () => {
+    const data = { headers: ['Concepto', 'Nota'], rows: [['Rent, March', 'línea 1\nlínea 2'], ['"Quoted"', '']] };
+    assert.deepEqual(parseCsv(serializeCsv(data)), data);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * CSV text as described by RFC 4180: fields separated by a delimiter, records by line breaks
+ * (CRLF, LF or CR), and fields that hold the delimiter, quotes or line breaks enclosed in double
+ * quotes, with "" for a quote. The app stores CSV documents comma-separated and UTF-8; files in
+ * other dialects are converted when they are uploaded (see normalizeCsvText).
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+/** Candidate delimiters, in order of preference when several fit equally well. */
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+export const CSV_DELIMITER_LABELS: Record<CsvDelimiter, string> = { ',': 'coma', ';': 'punto y coma', '\t': 'tabulador', '|': 'barra vertical' };
+
+const BOM = '\uFEFF';
+const DETECTION_SAMPLE_RECORDS = 20;
+
+/** Written at the start of downloaded CSV files: without it, Excel reads UTF-8 as the system's legacy encoding. */
+export const CSV_DOWNLOAD_BOM = BOM;
+
+export const stripBom = (text: string): string => (text.startsWith(BOM) ? text.slice(1) : text);
+
+/** A record of CSV text and where it is: from its first character up to its line break, excluded. */
+export interface CsvRecord {
+  fields: string[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits CSV text into records of fields, with the position of each record in `text` (a byte order
+ * mark is skipped but counted). Unquoted fields are trimmed; quoted fields are kept exactly, line
+ * breaks included. Malformed input is read leniently, as spreadsheets do: a quote inside an unquoted
+ * field is literal, and text after a closing quote is appended to the field.
+ * @param maxRecords Stop after this many records (for sampling a large file).
+ * @returns The records in order; a blank line is a record with a single empty field.
+ */
+export const readCsvRecords = (text: string, delimiter: CsvDelimiter = ',', maxRecords = Infinity): CsvRecord[] => {
+  const input = stripBom(text);
+  const offset = text.length - input.length;
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let recordStart = 0;
+  let field = '';
+  let isQuoted = false;
+  let i = 0;
+
+  const endField = () => {
+    record.push(isQuoted ? field : field.trim());
+    field = '';
+    isQuoted = false;
+  };
+  const endRecord = () => {
+    endField();
+    records.push({ fields: record, start: offset + recordStart, end: offset + i });
+    record = [];
+  };
+
+  while (i < input.length && records.length < maxRecords) {
+    const character = input[i];
+    if (character === '"' && field.trim() === '' && !isQuoted) {
+      // Opening quote: read up to the closing one, which is a quote not followed by another
+      isQuoted = true;
+      field = '';
+      i++;
+      while (i < input.length) {
+        if (input[i] === '"') {
+          if (input[i + 1] === '"') {
+            field += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        field += input[i++];
+      }
+      continue;
+    }
+    if (character === delimiter) {
+      endField();
+      i++;
+    } else if (character === '\r' || character === '\n') {
+      endRecord();
+      i += character === '\r' && input[i + 1] === '\n' ? 2 : 1;
+      recordStart = i;
+    } else {
+      field += character;
+      i++;
+    }
+  }
+  if (records.length < maxRecords && (field !== '' || isQuoted || record.length > 0)) endRecord();
+  return records;
+};
+
+/**
+ * Splits CSV text into records of fields (see readCsvRecords).
+ * @param maxRecords Stop after this many records (for sampling a large file).
+ * @returns The records in order; a blank line is a record with a single empty field.
+ */
+export const parseCsvRecords = (text: string, delimiter: CsvDelimiter = ',', maxRecords = Infinity): string[][] =>
+  readCsvRecords(text, delimiter, maxRecords).map(record => record.fields);
+
+/**
+ * Guesses the delimiter of CSV text from its first records: the candidate that splits the header
+ * into several fields and gives most of the following records the same number of fields.
+ * Delimiters inside quoted fields do not count.
+ * @returns The delimiter, or ',' if none fits (e.g. a table with a single column).
+ */
+export const detectCsvDelimiter = (text: string): CsvDelimiter => {
+  let best: { delimiter: CsvDelimiter; score: number; fieldCount: number } = { delimiter: ',', score: 0, fieldCount: 1 };
+  CSV_DELIMITERS.forEach(delimiter => {
+    const records = parseCsvRecords(text, delimiter, DETECTION_SAMPLE_RECORDS * 2)
+      .filter(record => record.some(field => field !== ''))
+      .slice(0, DETECTION_SAMPLE_RECORDS);
+    const fieldCount = records[0]?.length ?? 0;
+    if (fieldCount < 2) return;
+    const score = records.filter(record => record.length === fieldCount).length / records.length;
+    if (score > best.score || (score === best.score && fieldCount > best.fieldCount)) {
+      best = { delimiter, score, fieldCount };
+    }
+  });
+  return best.delimiter;
+};
+
+/** A field as written in CSV: quoted if it holds the delimiter, a quote, a line break, or spaces that trimming would lose. */
+export const formatCsvField = (value: string, delimiter: CsvDelimiter = ','): string =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const formatCsvRecord = (fields: string[], delimiter: CsvDelimiter = ','): string =>
+  fields.map(field => formatCsvField(field, delimiter)).join(delimiter);
+
+/**
+ * Decodes an uploaded text file. A byte order mark decides the encoding; otherwise UTF-16 is
+ * recognized by its zero bytes, and text that is not valid UTF-8 is read as Windows-1252 (the
+ * encoding of Excel's "CSV" export on Spanish Windows), so accented letters are not lost.
+ * @returns The text without its BOM, and the name of the encoding used.
+ */
+export const decodeText = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  const decode = (encoding: string, fatal = false) => new TextDecoder(encoding, { fatal }).decode(bytes);
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return { text: stripBom(decode('utf-8')), encoding: 'UTF-8' };
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return { text: stripBom(decode('utf-16le')), encoding: 'UTF-16LE' };
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return { text: stripBom(decode('utf-16be')), encoding: 'UTF-16BE' };
+
+  // Without a BOM, ASCII text in UTF-16 has a zero in every other byte
+  const sample = bytes.subarray(0, 1000);
+  const zerosAt = (parity: number) => sample.filter((byte, index) => byte === 0 && index % 2 === parity).length;
+  if (sample.length >= 4 && zerosAt(1) > sample.length / 4 && zerosAt(0) === 0) return { text: decode('utf-16le'), encoding: 'UTF-16LE' };
+  if (sample.length >= 4 && zerosAt(0) > sample.length / 4 && zerosAt(1) === 0) return { text: decode('utf-16be'), encoding: 'UTF-16BE' };
+
+  try {
+    return { text: decode('utf-8', true), encoding: 'UTF-8' };
+  } catch {
+    return { text: decode('windows-1252'), encoding: 'Windows-1252' };
+  }
+};
+
+/**
+ * Rewrites CSV text in the app's dialect: comma-separated, with LF line breaks and quoting only
+ * where needed. Every record and field is kept.
+ * @returns The text and the delimiter it was written with.
+ */
+export const normalizeCsvText = (text: string): { text: string; delimiter: CsvDelimiter } => {
+  const delimiter = detectCsvDelimiter(text);
+  const records = parseCsvRecords(text, delimiter);
+  while (records.length > 0 && records[records.length - 1].every(field => field === '')) records.pop();
+  return { text: records.map(record => formatCsvRecord(record)).join('\n'), delimiter };
+};
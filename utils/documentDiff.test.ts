@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildDocumentDiff, resolveDocumentDiff } from './documentDiff';
+
+// Spaces after commas, a quoted cell without need, a blank line and CRLF line breaks: none of it is how serializeCsv writes CSV
+const BASE = 'Concepto, Importe\r\n"Papel",10\r\n\r\nTinta, 5\r\nSobres,2\r\n';
+const PROPOSED = 'Concepto,Importe\nPapel,10\nTinta,6\nSobres,2\nSellos,"1,5"';
+
+describe('resolveDocumentDiff', () => {
+  const diff = buildDocumentDiff(BASE, PROPOSED, true);
+
+  it('diffs tables row by row', () => {
+    assert.equal(diff.kind, 'csv');
+    assert.equal(diff.hunks.length, 2);
+  });
+
+  it('returns the base content unchanged when every hunk is rejected', () => {
+    assert.equal(resolveDocumentDiff(diff, new Set()), BASE);
+  });
+
+  it('splices accepted hunks into the base text and keeps the other rows as written', () => {
+    assert.equal(resolveDocumentDiff(diff, new Set([0])), 'Concepto, Importe\r\n"Papel",10\r\nTinta,6\r\nSobres,2\r\n');
+    assert.equal(resolveDocumentDiff(diff, new Set([1])), 'Concepto, Importe\r\n"Papel",10\r\n\r\nTinta, 5\r\nSobres,2\r\nSellos,"1,5"\r\n');
+  });
+
+  it('inserts rows above the first row after the header', () => {
+    const inserted = buildDocumentDiff('A,B\n1,2', 'A,B\n0,0\n1,2', true);
+    assert.equal(resolveDocumentDiff(inserted, new Set([0])), 'A,B\n0,0\n1,2');
+  });
+
+  it('keeps text documents line by line', () => {
+    const text = buildDocumentDiff('uno\ndos\ntres', 'uno\nDOS\ntres', false);
+    assert.equal(resolveDocumentDiff(text, new Set()), 'uno\ndos\ntres');
+    assert.equal(resolveDocumentDiff(text, new Set([0])), 'uno\nDOS\ntres');
+  });
+});
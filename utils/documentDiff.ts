@@ -0,0 +1,172 @@
+import { locateCsvTable, parseCsv } from './tabularDataParser';
+import { CsvDelimiter, detectCsvDelimiter, formatCsvRecord } from './csv';
+import { isWorkbookContent } from './workbook';
+
+/**
+ * One contiguous change between two sequences: `removed` items starting at `baseStart`
+ * in the base sequence are replaced by `added`. Either side may be empty.
+ */
+export interface DiffHunk<T> {
+  id: number;
+  baseStart: number;
+  removed: T[];
+  added: T[];
+}
+
+/** Where the base rows of a CSV diff are in the base content, so the rows that are kept keep their text. */
+interface CsvDiffSource {
+  content: string;
+  delimiter: CsvDelimiter;
+  headerEnd: number;
+  rowEnds: number[]; // End of each base row's record, before its line break
+}
+
+export type DocumentDiff =
+  | { kind: 'csv'; headers: string[]; baseItems: string[][]; hunks: DiffHunk<string[]>[]; source: CsvDiffSource }
+  | { kind: 'text'; baseItems: string[]; hunks: DiffHunk<string>[] };
+
+// Above this many cells the LCS table is skipped and the changed middle becomes a single hunk
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Computes the hunks that turn `base` into `proposed`, using a longest-common-subsequence diff
+ * on the part between the common prefix and suffix (AI edits are usually local).
+ * @param base The original items (lines or rows).
+ * @param proposed The proposed items.
+ * @param equals Item equality.
+ * @returns The hunks in base order, numbered from 0.
+ */
+export const diffSequences = <T>(base: T[], proposed: T[], equals: (a: T, b: T) => boolean): DiffHunk<T>[] => {
+  let prefix = 0;
+  while (prefix < base.length && prefix < proposed.length && equals(base[prefix], proposed[prefix])) prefix++;
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix && suffix < proposed.length - prefix &&
+    equals(base[base.length - 1 - suffix], proposed[proposed.length - 1 - suffix])
+  ) suffix++;
+
+  const a = base.slice(prefix, base.length - suffix);
+  const b = proposed.slice(prefix, proposed.length - suffix);
+  if (a.length === 0 && b.length === 0) return [];
+  if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    return [{ id: 0, baseStart: prefix, removed: a, added: b }];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..], stored row-major
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = equals(a[i], b[j])
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: DiffHunk<T>[] = [];
+  let current: DiffHunk<T> | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && equals(a[i], b[j])) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { id: hunks.length, baseStart: prefix + i, removed: [], added: [] };
+      hunks.push(current);
+    }
+    if (j >= b.length || (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      current.removed.push(a[i++]);
+    } else {
+      current.added.push(b[j++]);
+    }
+  }
+  return hunks;
+};
+
+/**
+ * Rebuilds a sequence from its base, taking the proposed side only for the accepted hunks.
+ * @param base The original items the hunks were computed from.
+ * @param hunks The hunks from diffSequences.
+ * @param acceptedHunkIds Ids of the hunks to apply; the others keep the base items.
+ * @returns The merged items.
+ */
+export const applyHunks = <T>(base: T[], hunks: DiffHunk<T>[], acceptedHunkIds: ReadonlySet<number>): T[] => {
+  const result: T[] = [];
+  let position = 0;
+  hunks.forEach(hunk => {
+    result.push(...base.slice(position, hunk.baseStart));
+    result.push(...(acceptedHunkIds.has(hunk.id) ? hunk.added : hunk.removed));
+    position = hunk.baseStart + hunk.removed.length;
+  });
+  result.push(...base.slice(position));
+  return result;
+};
+
+const sameRow = (a: string[], b: string[]) => a.length === b.length && a.every((cell, i) => cell === b[i]);
+
+/**
+ * Diffs two versions of a document for review. Tabular documents with the same headers are
+ * compared row by row (so changed cells can be highlighted); everything else, including
+ * workbooks with several sheets, line by line.
+ * @param baseContent The current document content.
+ * @param proposedContent The content proposed by the AI.
+ * @param isTabular True for CSV/Excel documents.
+ * @returns The diff, whose hunks can be accepted individually with resolveDocumentDiff.
+ */
+export const buildDocumentDiff = (baseContent: string, proposedContent: string, isTabular: boolean): DocumentDiff => {
+  if (isTabular && !isWorkbookContent(baseContent) && !isWorkbookContent(proposedContent)) {
+    const delimiter = detectCsvDelimiter(baseContent);
+    const base = parseCsv(baseContent, delimiter);
+    const baseTable = locateCsvTable(baseContent, delimiter);
+    const proposed = parseCsv(proposedContent);
+    if (base && baseTable && proposed && sameRow(base.headers, proposed.headers)) {
+      return {
+        kind: 'csv',
+        headers: base.headers,
+        baseItems: base.rows,
+        hunks: diffSequences(base.rows, proposed.rows, sameRow),
+        source: { content: baseContent, delimiter, headerEnd: baseTable.header.end, rowEnds: baseTable.rows.map(row => row.end) },
+      };
+    }
+  }
+  const baseLines = baseContent.split('\n');
+  return { kind: 'text', baseItems: baseLines, hunks: diffSequences(baseLines, proposedContent.split('\n'), (a, b) => a === b) };
+};
+
+/**
+ * Splices the accepted hunks of a CSV diff into its base content. Each hunk replaces the text from the
+ * end of the row above it to the end of its last removed row, so the header, the rows that are kept,
+ * their quoting and the line breaks between them stay as they were.
+ */
+const spliceCsvHunks = (diff: Extract<DocumentDiff, { kind: 'csv' }>, acceptedHunkIds: ReadonlySet<number>): string => {
+  const { content, delimiter, headerEnd, rowEnds } = diff.source;
+  const lineBreak = content.includes('\r\n') ? '\r\n' : '\n';
+  // Applied bottom-up so the positions of the rows above stay valid
+  return diff.hunks
+    .filter(hunk => acceptedHunkIds.has(hunk.id))
+    .reverse()
+    .reduce((result, hunk) => {
+      const start = hunk.baseStart === 0 ? headerEnd : rowEnds[hunk.baseStart - 1];
+      const end = hunk.removed.length > 0 ? rowEnds[hunk.baseStart + hunk.removed.length - 1] : start;
+      const added = hunk.added.map(row => lineBreak + formatCsvRecord(row, delimiter)).join('');
+      return result.slice(0, start) + added + result.slice(end);
+    }, content);
+};
+
+/**
+ * Produces the document content with only the accepted hunks applied. Everything outside the
+ * accepted hunks keeps its original text, so rejecting every hunk returns the base content.
+ * @param diff The diff from buildDocumentDiff.
+ * @param acceptedHunkIds Ids of the hunks to apply.
+ * @returns The resulting document content.
+ */
+export const resolveDocumentDiff = (diff: DocumentDiff, acceptedHunkIds: ReadonlySet<number>): string => {
+  if (diff.kind === 'csv') {
+    return spliceCsvHunks(diff, acceptedHunkIds);
+  }
+  return applyHunks(diff.baseItems, diff.hunks, acceptedHunkIds).join('\n');
+};
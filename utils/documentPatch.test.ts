@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyDocumentPatch, DocumentPatchError, isDocumentPatchOperationList } from './documentPatch';
+import { AI_SYSTEM_INSTRUCTION } from '../constants';
+
+const TABLE = 'Concepto,Importe\nPapel,10\nTinta,5';
+
+describe('isDocumentPatchOperationList', () => {
+  const cases: [name: string, value: unknown, expected: boolean][] = [
+    ['insert_row', [{ op: 'insert_row', after_row: 0, values: ['a'] }], true],
+    ['update_row with its original values', [{ op: 'update_row', row: 1, values: ['a'], original_values: ['b'] }], true],
+    ['update_row without its original values', [{ op: 'update_row', row: 1, values: ['a'] }], false],
+    ['delete_row without its original values', [{ op: 'delete_row', row: 1 }], false],
+    ['replace_lines without its original lines', [{ op: 'replace_lines', start_line: 1, end_line: 1, new_lines: [] }], false],
+    ['an unknown operation', [{ op: 'move_row', row: 1 }], false],
+    ['an empty list', [], false],
+  ];
+  for (const [name, value, expected] of cases) {
+    it(name, () => assert.equal(isDocumentPatchOperationList(value), expected));
+  }
+});
+
+describe('system prompt examples', () => {
+  // The example responses follow each "Your response:" line and end with the first unindented closing brace
+  const examples = [...AI_SYSTEM_INSTRUCTION.matchAll(/Your response:\n(\{\n[\s\S]*?\n\})\n/g)].map(match => JSON.parse(match[1]));
+  const patchExamples = examples.filter(example => example.action_type === 'document_patch');
+
+  it('has document_patch examples', () => assert.ok(patchExamples.length > 0));
+
+  it('only shows patch operations the app accepts', () => {
+    for (const example of patchExamples) {
+      assert.ok(isDocumentPatchOperationList(example.patch_operations), JSON.stringify(example.patch_operations));
+    }
+  });
+});
+
+describe('applyDocumentPatch', () => {
+  it('applies row operations numbered as in the original', () => {
+    const patched = applyDocumentPatch(TABLE, [
+      { op: 'insert_row', after_row: 0, values: ['Sobres, grandes', '2'] },
+      { op: 'delete_row', row: 1, original_values: ['Papel', '10'] },
+      { op: 'update_row', row: 2, original_values: ['Tinta', '5'], values: ['Tinta', '6'] },
+    ], true);
+    assert.equal(patched, 'Concepto,Importe\n"Sobres, grandes",2\nTinta,6');
+  });
+
+  it('rejects the whole patch when a row does not hold its original values', () => {
+    assert.throws(() => applyDocumentPatch(TABLE, [
+      { op: 'insert_row', after_row: 2, values: ['Sobres', '2'] },
+      { op: 'delete_row', row: 1, original_values: ['Tinta', '5'] },
+    ], true), DocumentPatchError);
+  });
+
+  it('replaces, inserts and checks lines of text', () => {
+    const text = 'uno\ndos\ntres';
+    assert.equal(applyDocumentPatch(text, [
+      { op: 'replace_lines', start_line: 2, end_line: 2, original_lines: ['dos'], new_lines: ['DOS'] },
+      { op: 'replace_lines', start_line: 4, end_line: 3, original_lines: [], new_lines: ['cuatro'] },
+    ], false), 'uno\nDOS\ntres\ncuatro');
+    assert.throws(() => applyDocumentPatch(text, [{ op: 'replace_lines', start_line: 1, end_line: 1, original_lines: ['dos'], new_lines: [] }], false), DocumentPatchError);
+  });
+});
@@ -0,0 +1,205 @@
+import { DocumentPatchOperation, CsvPatchOperation, TextPatchOperation } from '../types';
+import { parseCsv, serializeCsv } from './tabularDataParser';
+import { isWorkbookContent, updateWorkbookSheet, WorkbookError } from './workbook';
+import { isRecord } from './helpers';
+
+/**
+ * Thrown when a patch cannot be applied as a whole. The message is shown to the user.
+ */
+export class DocumentPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentPatchError';
+  }
+}
+
+const CSV_OPS = ['insert_row', 'update_row', 'delete_row'];
+
+const isIntegerAtLeast = (value: unknown, min: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string';
+
+const sameCells = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((cell, i) => cell.trim() === b[i].trim());
+
+/**
+ * Checks that `value` is a non-empty array of well-formed patch operations. Operations that change
+ * or delete rows or lines must carry their original content.
+ * Does not look at the document; applyDocumentPatch checks that the rows and lines still exist.
+ * @param value The `patch_operations` field of an AI response.
+ * @returns True if every operation has the fields its `op` requires.
+ */
+export const isDocumentPatchOperationList = (value: unknown): value is DocumentPatchOperation[] => {
+  if (!Array.isArray(value) || value.length === 0) return false;
+  return value.every((operation: unknown) => {
+    if (!isRecord(operation)) return false;
+    switch (operation.op) {
+      case 'insert_row':
+        return isIntegerAtLeast(operation.after_row, 0) && isStringArray(operation.values) && isOptionalString(operation.sheet);
+      case 'update_row':
+        return isIntegerAtLeast(operation.row, 1) && isStringArray(operation.values) && isOptionalString(operation.sheet) &&
+          isStringArray(operation.original_values);
+      case 'delete_row':
+        return isIntegerAtLeast(operation.row, 1) && isOptionalString(operation.sheet) && isStringArray(operation.original_values);
+      case 'replace_lines':
+        return isIntegerAtLeast(operation.start_line, 1) && isIntegerAtLeast(operation.end_line, 0) &&
+          isStringArray(operation.new_lines) && isStringArray(operation.original_lines);
+      default:
+        return false;
+    }
+  });
+};
+
+const normalizeRowValues = (values: string[], columnCount: number, operationLabel: string): string[] => {
+  if (values.length > columnCount) {
+    throw new DocumentPatchError(`${operationLabel} tiene ${values.length} valores, pero la tabla solo tiene ${columnCount} columnas.`);
+  }
+  const padded = values.map(value => value.trim());
+  while (padded.length < columnCount) padded.push('');
+  return padded;
+};
+
+const applyCsvPatch = (content: string, operations: CsvPatchOperation[]): string => {
+  const data = parseCsv(content);
+  if (!data) {
+    throw new DocumentPatchError("El documento no tiene una tabla con cabecera válida.");
+  }
+  const rowCount = data.rows.length;
+  const columnCount = data.headers.length;
+
+  // All row numbers refer to the document as the AI saw it, so everything is validated before anything is applied
+  const replacedRows = new Map<number, string[]>();
+  const deletedRows = new Set<number>();
+  const insertedAfter = new Map<number, string[][]>();
+
+  operations.forEach((operation, index) => {
+    const label = `La operación ${index + 1} (${operation.op})`;
+    if (operation.op === 'insert_row') {
+      if (operation.after_row > rowCount) {
+        throw new DocumentPatchError(`${label} inserta después de la fila ${operation.after_row}, que ya no existe (la tabla tiene ${rowCount} filas).`);
+      }
+      const rows = insertedAfter.get(operation.after_row) ?? [];
+      rows.push(normalizeRowValues(operation.values, columnCount, label));
+      insertedAfter.set(operation.after_row, rows);
+      return;
+    }
+
+    if (operation.row > rowCount) {
+      throw new DocumentPatchError(`${label} se refiere a la fila ${operation.row}, que ya no existe (la tabla tiene ${rowCount} filas).`);
+    }
+    const currentRow = data.rows[operation.row - 1];
+    if (!sameCells(normalizeRowValues(operation.original_values, columnCount, label), currentRow)) {
+      throw new DocumentPatchError(`${label} se refiere a la fila ${operation.row}, pero su contenido cambió desde que la IA leyó el documento.`);
+    }
+    if (replacedRows.has(operation.row) || deletedRows.has(operation.row)) {
+      throw new DocumentPatchError(`${label} modifica la fila ${operation.row}, que ya fue modificada por otra operación.`);
+    }
+    if (operation.op === 'update_row') {
+      replacedRows.set(operation.row, normalizeRowValues(operation.values, columnCount, label));
+    } else {
+      deletedRows.add(operation.row);
+    }
+  });
+
+  const newRows: string[][] = [...(insertedAfter.get(0) ?? [])];
+  data.rows.forEach((row, i) => {
+    const rowNumber = i + 1;
+    if (!deletedRows.has(rowNumber)) {
+      newRows.push(replacedRows.get(rowNumber) ?? row);
+    }
+    newRows.push(...(insertedAfter.get(rowNumber) ?? []));
+  });
+
+  return serializeCsv({ headers: data.headers, rows: newRows });
+};
+
+/**
+ * Applies row operations to a workbook with several sheets: the operations of each sheet are
+ * applied to that sheet alone, as one patch.
+ */
+const applyWorkbookPatch = (content: string, operations: CsvPatchOperation[]): string => {
+  const operationsBySheet = new Map<string, CsvPatchOperation[]>();
+  operations.forEach(operation => {
+    const key = operation.sheet?.trim().toLowerCase() ?? '';
+    operationsBySheet.set(key, [...(operationsBySheet.get(key) ?? []), operation]);
+  });
+  try {
+    return Array.from(operationsBySheet.values()).reduce(
+      (current, sheetOperations) => updateWorkbookSheet(current, sheetOperations[0].sheet, sheetContent => applyCsvPatch(sheetContent, sheetOperations)),
+      content
+    );
+  } catch (error) {
+    if (error instanceof WorkbookError) throw new DocumentPatchError(error.message);
+    throw error;
+  }
+};
+
+const applyTextPatch = (content: string, operations: TextPatchOperation[]): string => {
+  const lines = content === '' ? [] : content.split('\n');
+  const lineCount = lines.length;
+
+  operations.forEach((operation, index) => {
+    const label = `La operación ${index + 1} (replace_lines)`;
+    if (operation.start_line > lineCount + 1 || operation.end_line > lineCount) {
+      throw new DocumentPatchError(`${label} se refiere a las líneas ${operation.start_line}-${operation.end_line}, que ya no existen (el documento tiene ${lineCount} líneas).`);
+    }
+    if (operation.end_line < operation.start_line - 1) {
+      throw new DocumentPatchError(`${label} tiene un rango de líneas inválido (${operation.start_line}-${operation.end_line}).`);
+    }
+    const currentLines = lines.slice(operation.start_line - 1, operation.end_line);
+    if (!sameCells(operation.original_lines, currentLines)) {
+      throw new DocumentPatchError(`${label} se refiere a las líneas ${operation.start_line}-${operation.end_line}, pero su contenido cambió desde que la IA leyó el documento.`);
+    }
+  });
+
+  // Ranges are applied bottom-up so earlier line numbers stay valid; overlapping ranges are ambiguous
+  // (insertions at the same position are applied last-first, so they end up in the order given)
+  const sorted = operations
+    .map((operation, index) => ({ operation, index }))
+    .sort((a, b) => b.operation.start_line - a.operation.start_line || b.operation.end_line - a.operation.end_line || b.index - a.index)
+    .map(({ operation }) => operation);
+  for (let i = 1; i < sorted.length; i++) {
+    const below = sorted[i - 1];
+    const above = sorted[i];
+    if (above.end_line >= below.start_line) {
+      throw new DocumentPatchError(`Las operaciones sobre las líneas ${above.start_line}-${above.end_line} y ${below.start_line}-${below.end_line} se superponen.`);
+    }
+  }
+
+  const newLines = [...lines];
+  sorted.forEach(operation => {
+    newLines.splice(operation.start_line - 1, operation.end_line - operation.start_line + 1, ...operation.new_lines);
+  });
+  return newLines.join('\n');
+};
+
+/**
+ * Applies AI patch operations to the current document content. The patch is applied
+ * all-or-nothing: if any operation refers to a row or line that no longer exists, or whose
+ * content no longer matches `original_values`/`original_lines`, nothing is changed.
+ * @param content The current document content.
+ * @param operations The validated `patch_operations` of the AI response.
+ * @param isTabular True for CSV/Excel documents (row operations), false for text (line operations).
+ *   In a workbook with several sheets, each row operation applies to the sheet it names.
+ * @returns The patched document content.
+ * @throws DocumentPatchError describing the first operation that cannot be applied.
+ */
+export const applyDocumentPatch = (content: string, operations: DocumentPatchOperation[], isTabular: boolean): string => {
+  const csvOperations = operations.filter((operation): operation is CsvPatchOperation => CSV_OPS.includes(operation.op));
+  const textOperations = operations.filter((operation): operation is TextPatchOperation => operation.op === 'replace_lines');
+
+  if (isTabular) {
+    if (textOperations.length > 0) {
+      throw new DocumentPatchError("Este documento es una tabla; la IA debe usar operaciones de fila, no de líneas.");
+    }
+    return isWorkbookContent(content) ? applyWorkbookPatch(content, csvOperations) : applyCsvPatch(content, csvOperations);
+  }
+  if (csvOperations.length > 0) {
+    throw new DocumentPatchError("Este documento es de texto; la IA debe usar operaciones de líneas, no de filas.");
+  }
+  return applyTextPatch(content, textOperations);
+};
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import ExcelJS from 'exceljs';
+import { mergeWorkbookContentIntoExcel } from './excelRoundTrip';
+import { parseCsv, parseExcelToCsvString, parseExcelToWorkbookSheets } from './tabularDataParser';
+import { evaluateSheet } from './formulaEngine';
+
+/** A workbook with a title row and a blank row above the table, so worksheet rows and content lines differ by two. */
+const createWorkbook = async (): Promise<ArrayBuffer> => {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Gastos');
+  worksheet.getCell('A1').value = 'Gastos de oficina';
+  worksheet.getRow(3).values = ['Concepto', 'Importe'];
+  worksheet.getRow(4).values = ['Papel', 10];
+  worksheet.getRow(5).values = ['Tinta', 5];
+  worksheet.getRow(6).values = ['Total', { formula: 'SUM(B4:B5)', result: 15 } as ExcelJS.CellFormulaValue];
+  const summary = workbook.addWorksheet('Resumen');
+  summary.getRow(1).values = ['Concepto', 'Importe'];
+  summary.getRow(2).values = ['Oficina', { formula: 'Gastos!B6*2', result: 30 } as ExcelJS.CellFormulaValue];
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+};
+
+const readFormulas = async (buffer: ArrayBuffer, sheetName: string): Promise<Record<string, string>> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const formulas: Record<string, string> = {};
+  workbook.getWorksheet(sheetName)!.eachRow(row => row.eachCell(cell => {
+    if (cell.formula) formulas[cell.address] = cell.formula;
+  }));
+  return formulas;
+};
+
+describe('Excel formulas and empty rows', () => {
+  it('renumbers imported references to the lines of the content', async () => {
+    const sheets = await parseExcelToWorkbookSheets(await createWorkbook());
+    assert.deepEqual(sheets.map(sheet => sheet.content), [
+      'Gastos de oficina,\nConcepto,Importe\nPapel,10\nTinta,5\nTotal,=SUM(B3:B4)',
+      'Concepto,Importe\nOficina,=Gastos!B5*2',
+    ]);
+    const evaluated = evaluateSheet(sheets, 0, parseCsv(sheets[0].content)!, 'es-ES');
+    assert.equal(evaluated.rows[3][1], '15');
+    assert.equal(evaluateSheet(sheets, 1, parseCsv(sheets[1].content)!, 'es-ES').rows[0][1], '30');
+  });
+
+  it('keeps unchanged formulas and writes edited ones in worksheet rows', async () => {
+    const original = await createWorkbook();
+    const content = await parseExcelToCsvString(original);
+    // A row inserted above the total (the app moves the total's references) and a formula typed in the summary
+    const edited = content
+      .replace('Tinta,5\nTotal,=SUM(B3:B4)', 'Tinta,5\nSobres,2\nTotal,=SUM(B3:B5)')
+      .replace('Oficina,=Gastos!B5*2', 'Oficina,=Gastos!B6*2\nPapel,=Gastos!B3');
+    const merged = await mergeWorkbookContentIntoExcel(edited, original);
+    assert.deepEqual(await readFormulas(merged, 'Gastos'), { B7: 'SUM(B4:B6)' });
+    assert.deepEqual(await readFormulas(merged, 'Resumen'), { B2: 'Gastos!B7*2', B3: 'Gastos!B4' });
+    assert.equal(await parseExcelToCsvString(merged), edited);
+  });
+
+  it('writes the formulas of new sheets in worksheet rows', async () => {
+    const original = await createWorkbook();
+    const content = `${await parseExcelToCsvString(original)}\n\n### Hoja: Nueva\nTotal\n=Gastos!B5+1`;
+    assert.deepEqual(await readFormulas(await mergeWorkbookContentIntoExcel(content, original), 'Nueva'), { A2: 'Gastos!B6+1' });
+  });
+});
@@ -0,0 +1,272 @@
+import ExcelJS from 'exceljs';
+import { addCsvDataWorksheet, cellToText, ExcelExportOptions, findWorksheetTableRows, parseCsv, ParsedCsvData, readWorksheetRows, renumberFormulaRows, setCellText, WorksheetTableRows } from './tabularDataParser';
+import { diffSequences } from './documentDiff';
+import { formatCsvRecord } from './csv';
+import { isWorkbookContent, parseWorkbookContent, WorkbookSheet } from './workbook';
+import { isFormula, mapFormulaReferences, REF_ERROR, ReferenceShift, renameSheetInFormula, shiftFormulaReferences } from './cellReferences';
+
+/**
+ * Writing edited content back into the Excel file it was uploaded from. The content of an Excel
+ * file only keeps the text of its cells (see parseExcelToWorkbookSheets), so exporting it as a new
+ * workbook would lose formulas, number formats, styles and column widths. Instead the content is
+ * merged into the original: rows and columns added or removed in the app are inserted or deleted
+ * in the worksheet (moving the formulas that point below or to the right of them, as Excel does),
+ * and only the cells whose text changed are rewritten. Everything else stays as uploaded.
+ * Formulas of the content count rows as the lines of its tables, which leave out the empty rows of
+ * the worksheet (see WorksheetTableRows); they are renumbered to worksheet rows when written.
+ */
+
+/** A formula cell to write once every sheet is merged, when the worksheet rows of all the tables are known. */
+interface PendingFormula {
+  worksheet: ExcelJS.Worksheet;
+  row: number;
+  column: number;
+  text: string; // As in the content
+}
+
+/** A position in the original sequence and its position in the current one; null on one side for a deletion or an insertion. */
+interface AlignedItem {
+  base: number | null;
+  current: number | null;
+}
+
+/**
+ * Pairs the items of two sequences. Inside a changed stretch, items that are `similar` are paired
+ * first (an edited row among inserted ones); the rest are paired in order (an edited row, a
+ * renamed column), and the ones left over are deletions or insertions.
+ */
+const alignSequences = <T>(base: T[], current: T[], equals: (a: T, b: T) => boolean, similar?: (a: T, b: T) => boolean): AlignedItem[] => {
+  const aligned: AlignedItem[] = [];
+  let baseIndex = 0;
+  let currentIndex = 0;
+  const pairUntil = (baseEnd: number) => {
+    while (baseIndex < baseEnd) aligned.push({ base: baseIndex++, current: currentIndex++ });
+  };
+  diffSequences(base, current, equals).forEach(hunk => {
+    pairUntil(hunk.baseStart);
+    if (similar) {
+      alignSequences(hunk.removed, hunk.added, similar).forEach(item => aligned.push({
+        base: item.base === null ? null : baseIndex + item.base,
+        current: item.current === null ? null : currentIndex + item.current,
+      }));
+      baseIndex += hunk.removed.length;
+      currentIndex += hunk.added.length;
+      return;
+    }
+    const paired = Math.min(hunk.removed.length, hunk.added.length);
+    pairUntil(hunk.baseStart + paired);
+    for (let i = paired; i < hunk.removed.length; i++) aligned.push({ base: baseIndex++, current: null });
+    for (let i = paired; i < hunk.added.length; i++) aligned.push({ base: null, current: currentIndex++ });
+  });
+  pairUntil(base.length);
+  return aligned;
+};
+
+const sameRow = (a: string[], b: string[]): boolean => a.length === b.length && a.every((cell, index) => cell === b[index]);
+
+// Most cells equal: the same row with some cells edited
+const similarRow = (a: string[], b: string[]): boolean => a.filter((cell, index) => cell !== '' && cell === b[index]).length * 2 > a.length;
+
+const sameHeaders = (a: ParsedCsvData | null, b: ParsedCsvData | null): boolean =>
+  a !== null && b !== null && sameRow(a.headers.map(h => h.toLowerCase()), b.headers.map(h => h.toLowerCase()));
+
+/** Rewrites every formula of the workbook. */
+const rewriteFormulas = (workbook: ExcelJS.Workbook, transform: (formula: string, worksheet: ExcelJS.Worksheet) => string) => {
+  workbook.eachSheet(worksheet => {
+    worksheet.eachRow(row => {
+      row.eachCell(cell => {
+        if (cell.type !== ExcelJS.ValueType.Formula || !cell.formula) return;
+        const formula = transform(cell.formula, worksheet);
+        if (formula !== cell.formula) cell.value = { formula, result: cell.result } as ExcelJS.CellFormulaValue;
+      });
+    });
+  });
+};
+
+/**
+ * Turns shared formulas (one formula filled down a range, stored once) into a formula per cell,
+ * since inserting or deleting rows would leave the copies pointing at the wrong cells.
+ */
+const unshareFormulas = (workbook: ExcelJS.Workbook) => {
+  workbook.eachSheet(worksheet => {
+    worksheet.eachRow(row => {
+      row.eachCell(cell => {
+        if (cell.type === ExcelJS.ValueType.Formula && cell.formulaType !== ExcelJS.FormulaType.None) {
+          cell.value = { formula: cell.formula, result: cell.result } as ExcelJS.CellFormulaValue;
+        }
+      });
+    });
+  });
+};
+
+const shiftWorkbookFormulas = (workbook: ExcelJS.Workbook, changed: ExcelJS.Worksheet, shift: ReferenceShift) =>
+  rewriteFormulas(workbook, (formula, worksheet) => shiftFormulaReferences(formula, shift, worksheet === changed, changed.name));
+
+/** The table of a worksheet exactly as it was imported, with the worksheet row of each table line (header first). */
+const readOriginalTable = (worksheet: ExcelJS.Worksheet, tableRows?: WorksheetTableRows): { data: ParsedCsvData; rowNumbers: number[] } => {
+  const rows = readWorksheetRows(worksheet, tableRows);
+  // Parsed from the same CSV as on import, so untouched cells compare equal to the current content
+  const data = parseCsv(rows.map(row => formatCsvRecord(row.cells)).join('\n'), ',') ?? { headers: [], rows: [] };
+  return { data, rowNumbers: rows.map(row => row.rowNumber) };
+};
+
+/**
+ * Writes the current table of a sheet into its original worksheet (see the module comment), and
+ * records the worksheet row of each of its lines in `tableRows`. Formulas that changed are added
+ * to `pendingFormulas`.
+ */
+const mergeSheet = (workbook: ExcelJS.Workbook, worksheet: ExcelJS.Worksheet, current: ParsedCsvData, tableRows: WorksheetTableRows, pendingFormulas: PendingFormula[]) => {
+  const { data: original, rowNumbers } = readOriginalTable(worksheet, tableRows);
+
+  // Columns, matched by header
+  const columns = alignSequences(original.headers, current.headers, (a, b) => a === b);
+  const baseColumnOf: (number | null)[] = current.headers.map(() => null);
+  let columnOffset = 0;
+  let lastColumn = 0;
+  columns.forEach(({ base, current: currentIndex }) => {
+    if (base !== null && currentIndex !== null) {
+      lastColumn = base + 1 + columnOffset;
+      baseColumnOf[currentIndex] = base;
+    } else if (base !== null) {
+      worksheet.spliceColumns(base + 1 + columnOffset, 1);
+      shiftWorkbookFormulas(workbook, worksheet, { axis: 'column', at: base + 1 + columnOffset, delta: -1 });
+      columnOffset--;
+    } else {
+      lastColumn++;
+      worksheet.spliceColumns(lastColumn, 0, []);
+      shiftWorkbookFormulas(workbook, worksheet, { axis: 'column', at: lastColumn, delta: 1 });
+      columnOffset++;
+    }
+  });
+
+  // Rows, matched by the text of the cells in the columns both versions have
+  const project = (row: string[], columnOf: (index: number) => number | null) =>
+    current.headers.map((_, index) => {
+      const column = columnOf(index);
+      return column === null ? '' : row[column] ?? '';
+    });
+  const baseLines = [original.headers, ...original.rows].map(row => project(row, index => baseColumnOf[index]));
+  const currentLines = [current.headers, ...current.rows].map(row => project(row, index => (baseColumnOf[index] === null ? null : index)));
+  const lines = alignSequences(baseLines, currentLines, sameRow, similarRow);
+  let rowOffset = 0;
+  let lastRow = 0;
+  let isLastRowHeader = false;
+  const currentRowNumbers: number[] = [];
+  lines.forEach(({ base, current: currentIndex }) => {
+    if (base !== null) {
+      const rowNumber = rowNumbers[base] + rowOffset;
+      if (currentIndex === null) {
+        worksheet.spliceRows(rowNumber, 1);
+        shiftWorkbookFormulas(workbook, worksheet, { axis: 'row', at: rowNumber, delta: -1 });
+        rowOffset--;
+        return;
+      }
+      lastRow = rowNumber;
+    } else {
+      // New rows take the style of the row above, except right below the header
+      worksheet.insertRow(lastRow + 1, [], isLastRowHeader ? 'o' : 'i');
+      shiftWorkbookFormulas(workbook, worksheet, { axis: 'row', at: lastRow + 1, delta: 1 });
+      rowOffset++;
+      lastRow++;
+    }
+
+    isLastRowHeader = currentIndex === 0;
+    currentRowNumbers[currentIndex!] = lastRow;
+    const originalCells = base === null ? null : base === 0 ? original.headers : original.rows[base - 1];
+    const cells = currentIndex === 0 ? current.headers : current.rows[currentIndex! - 1];
+    cells.forEach((text, index) => {
+      const baseColumn = baseColumnOf[index];
+      const originalText = originalCells && baseColumn !== null ? originalCells[baseColumn] ?? '' : null;
+      if (text === originalText || (originalText === null && text === '')) return;
+      if (isFormula(text)) {
+        pendingFormulas.push({ worksheet, row: lastRow, column: index + 1, text });
+        return;
+      }
+      const cell = worksheet.getCell(lastRow, index + 1);
+      if (cellToText(cell) !== text) setCellText(cell, text);
+    });
+  });
+  tableRows.set(worksheet.name.toLowerCase(), currentRowNumbers);
+};
+
+/**
+ * Pairs each current sheet with a worksheet of the original: by name first, then a renamed sheet
+ * by its header row. Content with a single unnamed sheet (plain CSV) is the first worksheet.
+ */
+const matchWorksheets = (workbook: ExcelJS.Workbook, content: string, sheets: WorkbookSheet[]): (ExcelJS.Worksheet | null)[] => {
+  const worksheets = workbook.worksheets;
+  if (!isWorkbookContent(content)) return [worksheets[0] ?? null];
+  const used = new Set<ExcelJS.Worksheet>();
+  const matches = sheets.map(sheet => {
+    const worksheet = worksheets.find(ws => ws.name.toLowerCase() === sheet.name.toLowerCase()) ?? null;
+    if (worksheet) used.add(worksheet);
+    return worksheet;
+  });
+  sheets.forEach((sheet, index) => {
+    if (matches[index]) return;
+    const data = parseCsv(sheet.content);
+    const renamed = worksheets.find(ws => !used.has(ws) && sameHeaders(readOriginalTable(ws).data, data));
+    if (renamed) {
+      used.add(renamed);
+      matches[index] = renamed;
+    }
+  });
+  return matches;
+};
+
+/**
+ * Merges the content of an Excel file into the workbook it was uploaded from (see the module
+ * comment). Worksheets whose sheet was deleted in the app are removed, and references to them
+ * become #REF!; sheets added in the app are written as new worksheets. The workbook is marked for
+ * recalculation, so Excel updates the results of the formulas when it opens the file.
+ * @param content The file content: CSV, or workbook content with several sheets.
+ * @param original The uploaded .xlsx file.
+ * @param options Applied to the sheets added in the app.
+ * @returns A Promise resolving to an ArrayBuffer for the XLSX file.
+ * @throws Error if the original cannot be read as an .xlsx file.
+ */
+export const mergeWorkbookContentIntoExcel = async (content: string, original: ArrayBuffer, options: ExcelExportOptions = {}): Promise<ArrayBuffer> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(original);
+  unshareFormulas(workbook);
+  const sheets = parseWorkbookContent(content);
+  const matches = matchWorksheets(workbook, content, sheets);
+
+  workbook.worksheets.filter(worksheet => !matches.includes(worksheet)).forEach(worksheet => {
+    const name = worksheet.name.toLowerCase();
+    workbook.removeWorksheet(worksheet.id);
+    rewriteFormulas(workbook, formula => mapFormulaReferences(formula, ref => (ref.sheet?.toLowerCase() === name ? REF_ERROR : null)));
+  });
+
+  sheets.forEach((sheet, index) => {
+    const worksheet = matches[index];
+    if (worksheet && isWorkbookContent(content) && worksheet.name !== sheet.name) {
+      rewriteFormulas(workbook, formula => renameSheetInFormula(formula, worksheet.name, sheet.name));
+      worksheet.name = sheet.name;
+    }
+  });
+
+  // Worksheets are added after the others are merged: merging moves the formulas that point at its rows
+  const tableRows = findWorksheetTableRows(workbook.worksheets);
+  const pendingFormulas: PendingFormula[] = [];
+  sheets.forEach((sheet, index) => {
+    const worksheet = matches[index];
+    if (worksheet) mergeSheet(workbook, worksheet, parseCsv(sheet.content) ?? { headers: [], rows: [] }, tableRows, pendingFormulas);
+  });
+  const added = sheets.filter((_, index) => !matches[index]).map(sheet => addCsvDataWorksheet(workbook, sheet.name, parseCsv(sheet.content), options));
+
+  pendingFormulas.forEach(({ worksheet, row, column, text }) => {
+    const cell = worksheet.getCell(row, column);
+    const formula = `=${renumberFormulaRows(text.slice(1), worksheet.name, tableRows, 'toWorksheet')}`;
+    if (cellToText(cell) !== formula) setCellText(cell, formula);
+  });
+  rewriteFormulas(workbook, (formula, worksheet) => (added.includes(worksheet) ? renumberFormulaRows(formula, worksheet.name, tableRows, 'toWorksheet') : formula));
+
+  // New worksheets were added at the end; put every worksheet in the order of the sheet tabs
+  const ordered = sheets.map((sheet, index) => matches[index] ?? workbook.getWorksheet(sheet.name)!);
+  ordered.forEach((worksheet, index) => { (worksheet as ExcelJS.Worksheet & { orderNo: number }).orderNo = index; });
+
+  workbook.calcProperties.fullCalcOnLoad = true;
+  const buffer = await workbook.xlsx.writeBuffer();
+  return buffer as ArrayBuffer;
+};
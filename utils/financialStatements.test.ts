@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Account, AccountType, CashFlowCategory } from '../types';
+import { LedgerPosting } from './ledger';
+import {
+  buildBalanceSheet, buildCashFlowStatement, buildIncomeStatement, financialStatementToTable, FinancialStatement, previousYearPeriod,
+} from './financialStatements';
+
+const account = (code: string, name: string, type: AccountType, cashFlowCategory: CashFlowCategory | null = null): Account =>
+  ({ id: code, code, name, type, parentId: null, isActive: true, cashFlowCategory });
+
+const ACCOUNTS = [
+  account('100', 'Capital', 'equity'),
+  account('211', 'Maquinaria', 'asset', 'investing'),
+  account('400', 'Proveedores', 'liability'),
+  account('572', 'Bancos', 'asset'),
+  account('600', 'Compras', 'expense'),
+  account('700', 'Ventas', 'revenue'),
+];
+
+// Each entry posts `amount` to the debit of one account and the credit of another
+const entry = (date: string, debitAccount: string, creditAccount: string, amount: number): LedgerPosting[] => [
+  { date, account: debitAccount, description: '', debit: amount, credit: 0, source: 'diario.csv' },
+  { date, account: creditAccount, description: '', debit: 0, credit: amount, source: 'diario.csv' },
+];
+
+const POSTINGS = [
+  ...entry('2024-06-01', '572', '100', 1000), // Capital paid in
+  ...entry('2025-01-10', '572', '700', 500), // Sale collected
+  ...entry('2025-02-01', '600', '400', 200), // Purchase on credit
+  ...entry('2025-03-01', '211', '572', 300), // Machine paid
+  ...entry('2025-03-05', '5720001', '700', 50.1), // Sale collected into a bank subaccount that is not in the chart
+];
+
+const YEAR_2025 = { from: '2025-01-01', to: '2025-12-31' };
+const YEAR_2024 = { from: '2024-01-01', to: '2024-12-31' };
+
+const amountsOf = (statement: FinancialStatement, label: string): number[] | undefined =>
+  statement.lines.find(line => line.label === label)?.amounts;
+
+describe('buildIncomeStatement', () => {
+  it('shows revenue and expenses as positive amounts and their result for each period', () => {
+    const statement = buildIncomeStatement(POSTINGS, [YEAR_2025, YEAR_2024], ACCOUNTS);
+    assert.deepEqual(statement.columns, ['2025-01-01 a 2025-12-31', '2024-01-01 a 2024-12-31']);
+    assert.deepEqual(amountsOf(statement, 'Ventas'), [550.1, 0]);
+    assert.deepEqual(amountsOf(statement, 'Total gastos'), [200, 0]);
+    assert.deepEqual(amountsOf(statement, 'Resultado del ejercicio'), [350.1, 0]);
+    assert.deepEqual(statement.unclassifiedAccounts, []);
+  });
+
+  it('lists posted accounts that are not in the chart of accounts', () => {
+    const statement = buildIncomeStatement([...POSTINGS, ...entry('2025-05-01', '999', '700', 10)], [YEAR_2025], ACCOUNTS);
+    assert.deepEqual(statement.unclassifiedAccounts, ['999']);
+    assert.deepEqual(amountsOf(statement, 'Ventas'), [560.1]);
+  });
+});
+
+describe('buildBalanceSheet', () => {
+  it('balances, with subaccounts under their chart account and the unclosed result in equity', () => {
+    const statement = buildBalanceSheet(POSTINGS, ['2025-12-31', '2024-12-31'], ACCOUNTS);
+    assert.deepEqual(statement.columns, ['a 2025-12-31', 'a 2024-12-31']);
+    assert.deepEqual(amountsOf(statement, 'Bancos'), [1200, 1000]);
+    assert.deepEqual(amountsOf(statement, 'Bancos (5720001)'), [50.1, 0]);
+    assert.deepEqual(amountsOf(statement, 'Resultado del ejercicio (sin cerrar)'), [350.1, 0]);
+    assert.deepEqual(amountsOf(statement, 'Total activo'), [1550.1, 1000]);
+    assert.deepEqual(amountsOf(statement, 'Total patrimonio neto y pasivo'), [1550.1, 1000]);
+  });
+});
+
+describe('buildCashFlowStatement', () => {
+  it('adjusts the result by the change in non-cash accounts and reconciles with the change in cash', () => {
+    const statement = buildCashFlowStatement(POSTINGS, [YEAR_2025], ACCOUNTS);
+    assert.deepEqual(amountsOf(statement, 'Variación Proveedores'), [200]);
+    assert.deepEqual(amountsOf(statement, 'Flujos de explotación'), [550.1]);
+    assert.deepEqual(amountsOf(statement, 'Flujos de inversión'), [-300]);
+    assert.deepEqual(amountsOf(statement, 'Flujos de financiación'), [0]);
+    assert.deepEqual(amountsOf(statement, 'Efectivo al inicio del periodo'), [1000]);
+    assert.deepEqual(amountsOf(statement, 'Efectivo al final del periodo'), [1250.1]);
+  });
+
+  it('starts with no cash when the period has no start date', () => {
+    const statement = buildCashFlowStatement(POSTINGS, [{ from: '', to: '2024-12-31' }], ACCOUNTS);
+    assert.deepEqual(amountsOf(statement, 'Flujos de financiación'), [1000]);
+    assert.deepEqual(amountsOf(statement, 'Efectivo al inicio del periodo'), [0]);
+    assert.deepEqual(amountsOf(statement, 'Efectivo al final del periodo'), [1000]);
+    assert.deepEqual(amountsOf(statement, 'Resultado del ejercicio'), [0]);
+  });
+});
+
+describe('previousYearPeriod', () => {
+  it('moves both ends back a year, keeping open ends open', () => {
+    assert.deepEqual(previousYearPeriod({ from: '2024-03-01', to: '2025-02-28' }), { from: '2023-03-01', to: '2024-02-28' });
+    assert.deepEqual(previousYearPeriod({ from: '', to: '2024-02-29' }), { from: '', to: '2023-02-28' });
+  });
+});
+
+describe('financialStatementToTable', () => {
+  it('writes one row per line, with section headings in capitals and amounts with two decimals', () => {
+    const table = financialStatementToTable(buildIncomeStatement(POSTINGS, [YEAR_2025], ACCOUNTS));
+    assert.deepEqual(table.headers, ['Cuenta', 'Concepto', '2025-01-01 a 2025-12-31']);
+    assert.deepEqual(table.rows.slice(0, 3), [['', 'INGRESOS', ''], ['700', 'Ventas', '550.10'], ['', 'Total ingresos', '550.10']]);
+  });
+});
@@ -0,0 +1,233 @@
+import { Account, AccountType, CashFlowCategory } from '../types';
+import { ParsedCsvData } from './tabularDataParser';
+import { getCashFlowCategory } from './chartOfAccounts';
+import { LedgerPosting, LedgerPeriod, formatLedgerPeriod } from './ledger';
+
+/**
+ * One line of a financial statement. Section lines are headings without amounts; account lines
+ * show one account; total lines add up the lines above them.
+ */
+export interface StatementLine {
+  kind: 'section' | 'account' | 'total';
+  account: string; // Account code, '' for sections and totals
+  label: string;
+  amounts: number[]; // One per column (current period first), empty for sections
+}
+
+export interface FinancialStatement {
+  columns: string[]; // Label of each amount column
+  lines: StatementLine[];
+  unclassifiedAccounts: string[]; // Posted account codes that are not in the chart of accounts
+}
+
+// Amounts are accumulated in cents so that long ledgers do not drift
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+/**
+ * Finds the chart account a posted code belongs to: the account with that code or, for
+ * subaccounts not in the chart (5720001), the account whose code is its longest prefix (572).
+ */
+const findChartAccount = (code: string, accounts: Account[]): Account | null =>
+  accounts.find(account => account.code === code) ??
+  accounts
+    .filter(account => code.startsWith(account.code))
+    .sort((a, b) => b.code.length - a.code.length)[0] ?? null;
+
+/**
+ * Net movement (debit minus credit, in cents) of each posted account over each date range.
+ * A range includes both ends; '' leaves it open.
+ */
+const sumByAccount = (postings: LedgerPosting[], ranges: LedgerPeriod[]): Map<string, number[]> => {
+  const sums = new Map<string, number[]>();
+  postings.forEach(posting => {
+    ranges.forEach((range, i) => {
+      if ((range.from !== '' && posting.date < range.from) || (range.to !== '' && posting.date > range.to)) return;
+      const amounts = sums.get(posting.account) ?? ranges.map(() => 0);
+      amounts[i] += toCents(posting.debit) - toCents(posting.credit);
+      sums.set(posting.account, amounts);
+    });
+  });
+  return sums;
+};
+
+/** The day before a YYYY-MM-DD date. */
+const dayBefore = (date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10);
+};
+
+/**
+ * The same period one year earlier, the usual comparison for financial statements.
+ * Open ends stay open.
+ */
+export const previousYearPeriod = (period: LedgerPeriod): LedgerPeriod => {
+  const shift = (date: string) => (date === '' ? '' : `${Number(date.slice(0, 4)) - 1}${date.slice(4)}`.replace(/-02-29$/, '-02-28'));
+  return { from: shift(period.from), to: shift(period.to) };
+};
+
+/**
+ * Groups the posted accounts into statement lines, one per account with a non-zero amount in
+ * any column, sorted by code.
+ * @param sign 1 to show debit balances as positive, -1 for credit balances.
+ */
+const accountLines = (
+  sums: Map<string, number[]>,
+  accounts: Account[],
+  include: (account: Account) => boolean,
+  sign: 1 | -1
+): StatementLine[] =>
+  Array.from(sums)
+    .map(([code, amounts]) => ({ code, amounts, account: findChartAccount(code, accounts) }))
+    .filter(({ account, amounts }) => account !== null && include(account) && amounts.some(amount => amount !== 0))
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map(({ code, amounts, account }) => ({
+      kind: 'account' as const,
+      account: code,
+      label: code === account!.code ? account!.name : `${account!.name} (${code})`,
+      amounts: amounts.map(amount => (sign * amount) / 100 || 0), // || 0 turns the -0 of a reversed zero into 0
+    }));
+
+const totalLine = (label: string, lines: StatementLine[], columnCount: number): StatementLine => ({
+  kind: 'total',
+  account: '',
+  label,
+  amounts: Array.from({ length: columnCount }, (_, i) => lines.reduce((sum, line) => sum + toCents(line.amounts[i]), 0) / 100),
+});
+
+const sectionLine = (label: string): StatementLine => ({ kind: 'section', account: '', label, amounts: [] });
+
+const unclassified = (sums: Map<string, number[]>, accounts: Account[]): string[] =>
+  Array.from(sums.keys()).filter(code => !findChartAccount(code, accounts)).sort();
+
+const ofType = (...types: AccountType[]) => (account: Account) => types.includes(account.type);
+
+/**
+ * Builds the income statement (profit and loss): revenue, expenses and the result of each period.
+ * @param periods The current period followed by the comparison periods.
+ */
+export const buildIncomeStatement = (postings: LedgerPosting[], periods: LedgerPeriod[], accounts: Account[]): FinancialStatement => {
+  const sums = sumByAccount(postings, periods);
+  const revenue = accountLines(sums, accounts, ofType('revenue'), -1);
+  const expenses = accountLines(sums, accounts, ofType('expense'), 1);
+  const totalRevenue = totalLine('Total ingresos', revenue, periods.length);
+  const totalExpenses = totalLine('Total gastos', expenses, periods.length);
+  return {
+    columns: periods.map(formatLedgerPeriod),
+    lines: [
+      sectionLine('Ingresos'), ...revenue, totalRevenue,
+      sectionLine('Gastos'), ...expenses, totalExpenses,
+      { ...totalRevenue, label: 'Resultado del ejercicio', amounts: totalRevenue.amounts.map((amount, i) => (toCents(amount) - toCents(totalExpenses.amounts[i])) / 100) },
+    ],
+    unclassifiedAccounts: unclassified(sums, accounts),
+  };
+};
+
+/**
+ * Builds the balance sheet as of each date. Revenue and expenses that have not been closed into
+ * an equity account appear as the result in equity, so assets equal liabilities plus equity.
+ * @param dates The balance sheet date followed by the comparison dates (YYYY-MM-DD).
+ */
+export const buildBalanceSheet = (postings: LedgerPosting[], dates: string[], accounts: Account[]): FinancialStatement => {
+  const sums = sumByAccount(postings, dates.map(to => ({ from: '', to })));
+  const assets = accountLines(sums, accounts, ofType('asset'), 1);
+  const liabilities = accountLines(sums, accounts, ofType('liability'), -1);
+  const equity = accountLines(sums, accounts, ofType('equity'), -1);
+  const result = totalLine('Resultado del ejercicio (sin cerrar)', accountLines(sums, accounts, ofType('revenue', 'expense'), -1), dates.length);
+  const equityLines = result.amounts.some(amount => amount !== 0) ? [...equity, { ...result, kind: 'account' as const }] : equity;
+  const totalLiabilities = totalLine('Total pasivo', liabilities, dates.length);
+  const totalEquity = totalLine('Total patrimonio neto', equityLines, dates.length);
+  return {
+    columns: dates.map(date => `a ${date}`),
+    lines: [
+      sectionLine('Activo'), ...assets, totalLine('Total activo', assets, dates.length),
+      sectionLine('Patrimonio neto'), ...equityLines, totalEquity,
+      sectionLine('Pasivo'), ...liabilities, totalLiabilities,
+      totalLine('Total patrimonio neto y pasivo', [totalEquity, totalLiabilities], dates.length),
+    ],
+    unclassifiedAccounts: unclassified(sums, accounts),
+  };
+};
+
+const CASH_FLOW_SECTIONS: { category: Exclude<CashFlowCategory, 'cash'>; title: string; total: string }[] = [
+  { category: 'operating', title: 'Flujos de efectivo de las actividades de explotación', total: 'Flujos de explotación' },
+  { category: 'investing', title: 'Flujos de efectivo de las actividades de inversión', total: 'Flujos de inversión' },
+  { category: 'financing', title: 'Flujos de efectivo de las actividades de financiación', total: 'Flujos de financiación' },
+];
+
+/**
+ * Builds the cash flow statement with the indirect method: the result of the period adjusted by
+ * the change in every non-cash balance sheet account, grouped by the accounts' cash flow
+ * category (see getCashFlowCategory). An increase in an asset uses cash; an increase in a
+ * liability or equity account provides it. Postings to accounts outside the chart are shown as
+ * operating so the statement still reconciles with the change in cash.
+ * @param periods The current period followed by the comparison periods; each needs a start date
+ *   unless it covers all postings up to its end.
+ */
+export const buildCashFlowStatement = (postings: LedgerPosting[], periods: LedgerPeriod[], accounts: Account[]): FinancialStatement => {
+  const changes = sumByAccount(postings, periods);
+  // A period without a start date begins before the first posting, with no cash ('0000-00-00' matches no posting)
+  const openingBalances = sumByAccount(postings, periods.map(period => ({ from: '', to: period.from === '' ? '0000-00-00' : dayBefore(period.from) })));
+  const categoryOf = (code: string): CashFlowCategory | 'result' => {
+    const account = findChartAccount(code, accounts);
+    return account ? getCashFlowCategory(account) ?? 'result' : 'operating';
+  };
+  const columnCount = periods.length;
+  // Cash goes up when a non-cash account goes down, so every change is shown with its sign reversed
+  const changeLines = (category: CashFlowCategory): StatementLine[] =>
+    Array.from(changes)
+      .filter(([code, amounts]) => categoryOf(code) === category && amounts.some(amount => amount !== 0))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([code, amounts]) => ({
+        kind: 'account' as const,
+        account: code,
+        label: `Variación ${findChartAccount(code, accounts)?.name ?? code}`,
+        amounts: amounts.map(amount => -amount / 100 || 0),
+      }));
+
+  const resultLines = Array.from(changes).filter(([code]) => categoryOf(code) === 'result').map(([, amounts]) => amounts);
+  const result: StatementLine = {
+    kind: 'account',
+    account: '',
+    label: 'Resultado del ejercicio',
+    amounts: Array.from({ length: columnCount }, (_, i) => -resultLines.reduce((sum, amounts) => sum + amounts[i], 0) / 100 || 0),
+  };
+
+  const lines: StatementLine[] = [];
+  const sectionTotals: StatementLine[] = [];
+  CASH_FLOW_SECTIONS.forEach(({ category, title, total }) => {
+    const sectionLines = category === 'operating' ? [result, ...changeLines(category)] : changeLines(category);
+    const sectionTotal = totalLine(total, sectionLines, columnCount);
+    lines.push(sectionLine(title), ...sectionLines, sectionTotal);
+    sectionTotals.push(sectionTotal);
+  });
+
+  const cashSum = (sums: Map<string, number[]>) => Array.from({ length: columnCount }, (_, i) =>
+    Array.from(sums).filter(([code]) => categoryOf(code) === 'cash').reduce((sum, [, amounts]) => sum + amounts[i], 0) / 100);
+  const openingCash = cashSum(openingBalances);
+  const netChange = totalLine('Variación neta del efectivo', sectionTotals, columnCount);
+  lines.push(
+    netChange,
+    { kind: 'total', account: '', label: 'Efectivo al inicio del periodo', amounts: openingCash },
+    { kind: 'total', account: '', label: 'Efectivo al final del periodo', amounts: openingCash.map((amount, i) => (toCents(amount) + toCents(netChange.amounts[i])) / 100) },
+  );
+
+  return {
+    columns: periods.map(formatLedgerPeriod),
+    lines,
+    unclassifiedAccounts: unclassified(changes, accounts),
+  };
+};
+
+/**
+ * Converts a financial statement to a table with the columns Cuenta, Concepto and one amount
+ * column per period. Account lines are indented under their section.
+ */
+export const financialStatementToTable = (statement: FinancialStatement): ParsedCsvData => ({
+  headers: ['Cuenta', 'Concepto', ...statement.columns],
+  rows: statement.lines.map(line => [
+    line.account,
+    line.kind === 'section' ? line.label.toUpperCase() : line.label,
+    ...statement.columns.map((_, i) => (line.kind === 'section' ? '' : line.amounts[i].toFixed(2))),
+  ]),
+});
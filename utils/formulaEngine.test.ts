@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyRowFormulas, evaluateSheet, resolveFormulas } from './formulaEngine';
+import { parseCsv } from './tabularDataParser';
+import { WorkbookSheet } from './workbook';
+
+// Row 1 is the header, so the data rows are 2 to 4
+const TABLE = 'Concepto,Importe,Cantidad\nPapel,10.5,2\nTinta,-3,x\nSobres,4,1';
+
+/** The result shown in the cell at `address` (e.g. "D2") of a formula added to TABLE as a new column. */
+const evaluate = (formula: string, address = 'D2', sheets: WorkbookSheet[] = []): { text: string; error: string | undefined } => {
+  const row = Number(address.slice(1)) - 2;
+  const data = parseCsv(TABLE)!;
+  data.headers.push('Resultado');
+  data.rows.forEach((cells, index) => cells.push(index === row ? formula : ''));
+  const evaluated = evaluateSheet([{ name: 'Hoja1', content: TABLE }, ...sheets], 0, data, 'es-ES');
+  return { text: evaluated.rows[row][3], error: evaluated.errors.get(`${row}:3`)?.code };
+};
+
+describe('evaluateSheet', () => {
+  const cases: [formula: string, expected: string][] = [
+    ['=B2*C2', '21'],
+    ['=B2+B3+B4', '11.5'],
+    ['=SUM(B2:B4)', '11.5'],
+    ['=SUM(C2:C4)', '3'], // Text in a range is ignored
+    ['=AVERAGE(B2:B4)', '3.83333333333333'],
+    ['=MIN(B2:B4)', '-3'],
+    ['=MAX(B2:B4;20)', '20'],
+    ['=COUNT(C2:C4)', '2'],
+    ['=2^3-1', '7'],
+    ['=-B3%', '0.03'],
+    ['=A2&" y "&A3', 'Papel y Tinta'],
+    ['=B2>B3', 'TRUE'],
+    ['=IF(B2>5;"alto";"bajo")', 'alto'],
+    ['=IF(B3>5;"alto")', 'FALSE'],
+    ['=AND(B2>0;B3>0)', 'FALSE'],
+    ['=OR(B2>0;B3>0)', 'TRUE'],
+    ['=ROUND(1.005;2)', '1.01'],
+    ['=ROUND(-2.5)', '-3'],
+    ['=VLOOKUP("Tinta";A2:B4;2;FALSE)', '-3'],
+    // Functions that take a value read a single-cell reference as that cell's value
+    ['=ROUND(B2;0)', '11'],
+    ['=ROUND(B2*C2;B4-5)', '20'],
+    ['=ABS(B3)', '3'],
+    ['=NOT(B2>B3)', 'FALSE'],
+    ['=NOT(C4)', 'FALSE'],
+    ['=VLOOKUP(A3;A2:B4;2;FALSE)', '-3'],
+    ['=VLOOKUP(B4;B2:C4;2;B3>0)', '1'],
+    ['=SUM(C3)', '0'], // Text in a referenced cell is ignored, as in a range
+    ['=SUM(B2;B3)', '7.5'],
+    ['=SUM(Gastos!A2:A3)', '7'],
+  ];
+  for (const [formula, expected] of cases) {
+    it(`${formula} is ${expected}`, () => {
+      assert.deepEqual(evaluate(formula, 'D2', [{ name: 'Gastos', content: 'Importe\n3\n4' }]), { text: expected, error: undefined });
+    });
+  }
+
+  const errors: [formula: string, code: string][] = [
+    ['=1/0', '#DIV/0!'],
+    ['=B2*C3', '#VALUE!'],
+    ['=FOO(1)', '#NAME?'],
+    ['=VLOOKUP("Lápiz";A2:B4;2;FALSE)', '#N/A'],
+    ['=SUM(Ventas!A1:A2)', '#REF!'],
+    ['=SUM(D2:D4)', '#CIRC!'],
+    ['=B2:B3', '#VALUE!'],
+    ['=SUM(1;', '#ERROR!'],
+  ];
+  for (const [formula, code] of errors) {
+    it(`${formula} is ${code}`, () => {
+      assert.equal(evaluate(formula).error, code);
+    });
+  }
+
+  it('calculates a formula after the formulas it references, wherever they are', () => {
+    const data = parseCsv('A,B\n=B2*2,=A3+1\n5,')!;
+    assert.deepEqual(evaluateSheet([{ name: 'Hoja1', content: '' }], 0, data, 'es-ES').rows, [['12', '6'], ['5', '']]);
+  });
+
+  it('calculates a long chain of references without overflowing the stack', () => {
+    const rows = Array.from({ length: 5000 }, (_, index) => [index === 0 ? '1' : `=A${index + 1}+1`]);
+    const evaluated = evaluateSheet([{ name: 'Hoja1', content: '' }], 0, { headers: ['A'], rows }, 'es-ES');
+    assert.equal(evaluated.rows[4999][0], '5000');
+  });
+});
+
+describe('locale', () => {
+  const calculate = (cell: string, locale: string) =>
+    evaluateSheet([{ name: 'Hoja1', content: '' }], 0, { headers: ['A', 'B', 'C'], rows: [[cell, '=A2*2', '=SUM(A2;1)']] }, locale).rows[0];
+
+  it('reads the numbers of cells in the workspace locale', () => {
+    assert.deepEqual(calculate('1.234,56', 'es-ES').slice(1), ['2469.12', '1235.56']);
+    assert.deepEqual(calculate('1,234.56', 'en-US').slice(1), ['2469.12', '1235.56']);
+  });
+
+  it('reads numbers in the app\'s own form in every locale', () => {
+    assert.deepEqual(calculate('1234.5', 'es-ES').slice(1), ['2469', '1235.5']);
+  });
+});
+
+describe('resolveFormulas', () => {
+  it('replaces formulas by their results in every sheet', () => {
+    const sheets = resolveFormulas([
+      { name: 'Ventas', content: 'Importe\n2\n=A2*10' },
+      { name: 'Resumen', content: 'Total\n=SUM(Ventas!A2:A3)' },
+    ], 'es-ES');
+    assert.deepEqual(sheets.map(sheet => sheet.content), ['Importe\n2\n20', 'Total\n22']);
+  });
+});
+
+describe('copyRowFormulas', () => {
+  it('moves relative references with the row and keeps absolute ones', () => {
+    assert.deepEqual(copyRowFormulas(['x', '=B2*$C$2', '=SUM(B$2:B2)'], 3), ['x', '=B5*$C$2', '=SUM(B$2:B5)']);
+  });
+});
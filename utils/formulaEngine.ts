@@ -0,0 +1,587 @@
+import { ParsedCsvData, parseCsv, serializeCsv } from './tabularDataParser';
+import { WorkbookSheet } from './workbook';
+import { parseLocaleAmount } from './columnTypes';
+import { columnNumberToLetters, FormulaReference, isFormula, matchReferenceAt, ReferenceShift, REF_ERROR, shiftFormulaReferences, skipStringLiteral, translateFormula } from './cellReferences';
+
+/**
+ * Spreadsheet formulas in table cells. A cell whose text starts with "=" is a formula, written as
+ * in Excel with A1 references: row 1 is the header row and the first data row is row 2. Function
+ * arguments are separated by ";" in the content, since a comma separates CSV cells; formulas typed
+ * or imported with commas are rewritten (see toContentFormula in cellReferences.ts).
+ *
+ * Supported: numbers, "text", TRUE/FALSE, references and ranges (relative or absolute, optionally
+ * on another sheet: Gastos!B2:B9), the operators + - * / ^ & % = <> < > <= >=, and the functions
+ * in FUNCTIONS. Numbers in cells and text are read in the workspace locale (see parseLocaleAmount
+ * in columnTypes.ts), so "1.234,56" is a number in es-ES. Each cell is evaluated once, after the cells it references (found by following
+ * its references), so every change recalculates whatever depends on it; a cell that ends up
+ * depending on itself shows #CIRC!.
+ */
+
+export type FormulaErrorCode = '#REF!' | '#DIV/0!' | '#VALUE!' | '#NAME?' | '#N/A' | '#CIRC!' | '#ERROR!';
+
+/** The result of a formula that failed, shown in the cell as its code. */
+export interface FormulaError {
+  code: FormulaErrorCode;
+  message: string; // Shown to the user
+}
+
+/** A table with the formulas replaced by their results. */
+export interface EvaluatedSheet extends ParsedCsvData {
+  errors: Map<string, FormulaError>; // By formulaCellKey(rowIndex, colIndex) of `rows`
+}
+
+type Value = number | string | boolean | null | FormulaError; // null is an empty cell
+
+type Node =
+  | { kind: 'value'; value: Value }
+  | { kind: 'reference'; ref: FormulaReference }
+  | { kind: 'unary'; operator: '-' | '+' | '%'; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+type Token =
+  | { type: 'value'; value: Value }
+  | { type: 'reference'; ref: FormulaReference }
+  | { type: 'name'; name: string }
+  | { type: 'operator'; operator: string };
+
+interface Grid {
+  name: string;
+  cells: string[][]; // Row 0 is the header row
+}
+
+const formulaError = (code: FormulaErrorCode, message: string): FormulaError => ({ code, message });
+
+const isError = (value: unknown): value is FormulaError =>
+  value !== null && typeof value === 'object' && 'code' in value;
+
+const CIRCULAR_ERROR = formulaError('#CIRC!', "Referencia circular: la fórmula depende de su propio resultado.");
+const DIVISION_ERROR = formulaError('#DIV/0!', "División por cero.");
+const NUMBER_ERROR = formulaError('#VALUE!', "Se esperaba un número.");
+const REFERENCE_ERROR = formulaError('#REF!', "La referencia apunta a una celda o una hoja que no existe.");
+
+const OPERATORS = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '%', '=', '<', '>', '(', ')', ';', ',', ':'];
+const NUMBER_AT = /\d+(?:\.\d*)?(?:[eE][-+]?\d+)?|\.\d+(?:[eE][-+]?\d+)?/y;
+const NAME_AT = /[\p{L}_][\p{L}\d_.]*/uy;
+
+/** Key of a cell in EvaluatedSheet.errors. */
+export const formulaCellKey = (rowIndex: number, colIndex: number): string => `${rowIndex}:${colIndex}`;
+
+/** The A1 address of a cell of the table's rows (the header row is row 1). */
+export const formulaCellAddress = (rowIndex: number, colIndex: number): string => `${columnNumberToLetters(colIndex + 1)}${rowIndex + 2}`;
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < formula.length) {
+    const character = formula[i];
+    if (/\s/.test(character)) {
+      i++;
+      continue;
+    }
+    if (character === '"') {
+      const end = skipStringLiteral(formula, i);
+      if (end > formula.length) throw new Error("falta cerrar unas comillas");
+      tokens.push({ type: 'value', value: formula.slice(i + 1, end - 1).replace(/""/g, '"') });
+      i = end;
+      continue;
+    }
+    if (formula.startsWith(REF_ERROR, i)) {
+      tokens.push({ type: 'value', value: REFERENCE_ERROR });
+      i += REF_ERROR.length;
+      continue;
+    }
+    const reference = matchReferenceAt(formula, i);
+    if (reference) {
+      tokens.push({ type: 'reference', ref: reference.ref });
+      i += reference.length;
+      continue;
+    }
+    NUMBER_AT.lastIndex = i;
+    const number = NUMBER_AT.exec(formula);
+    if (number) {
+      tokens.push({ type: 'value', value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    NAME_AT.lastIndex = i;
+    const name = NAME_AT.exec(formula);
+    if (name) {
+      const upper = name[0].toUpperCase();
+      tokens.push(upper === 'TRUE' || upper === 'FALSE' ? { type: 'value', value: upper === 'TRUE' } : { type: 'name', name: upper });
+      i += name[0].length;
+      continue;
+    }
+    const operator = OPERATORS.find(op => formula.startsWith(op, i));
+    if (!operator) throw new Error(`carácter inesperado "${character}"`);
+    tokens.push({ type: 'operator', operator });
+    i += operator.length;
+  }
+  return tokens;
+};
+
+/**
+ * Parses a formula (text after "=") by precedence, from lowest to highest: comparisons, &, + -,
+ * * /, ^, %, and unary minus, as in Excel.
+ * @throws Error with a description of the problem if the formula is not valid.
+ */
+const parseFormula = (formula: string): Node => {
+  const tokens = tokenize(formula);
+  let position = 0;
+  const peekOperator = (...operators: string[]): string | null => {
+    const token = tokens[position];
+    return token?.type === 'operator' && operators.includes(token.operator) ? token.operator : null;
+  };
+  const expect = (operator: string) => {
+    if (!peekOperator(operator)) throw new Error(`se esperaba "${operator}"`);
+    position++;
+  };
+  const binaryLevel = (operators: string[], next: () => Node) => (): Node => {
+    let node = next();
+    for (let operator = peekOperator(...operators); operator; operator = peekOperator(...operators)) {
+      position++;
+      node = { kind: 'binary', operator, left: node, right: next() };
+    }
+    return node;
+  };
+
+  const primary = (): Node => {
+    const token = tokens[position++];
+    if (!token) throw new Error("la fórmula está incompleta");
+    if (token.type === 'value') return { kind: 'value', value: token.value };
+    if (token.type === 'reference') return { kind: 'reference', ref: token.ref };
+    if (token.type === 'name') {
+      if (!peekOperator('(')) return { kind: 'value', value: formulaError('#NAME?', `Nombre desconocido: ${token.name}.`) };
+      position++;
+      const args: Node[] = [];
+      if (!peekOperator(')')) {
+        do {
+          args.push(peekOperator(';', ',', ')') ? { kind: 'value', value: null } : comparison()); // An omitted argument is empty
+        } while (peekOperator(';', ',') && ++position);
+      }
+      expect(')');
+      return { kind: 'call', name: token.name, args };
+    }
+    if (token.operator === '(') {
+      const node = comparison();
+      expect(')');
+      return node;
+    }
+    if (token.operator === '-' || token.operator === '+') return { kind: 'unary', operator: token.operator, operand: unary() };
+    throw new Error(`"${token.operator}" inesperado`);
+  };
+  const percent = (): Node => {
+    let node = primary();
+    while (peekOperator('%')) {
+      position++;
+      node = { kind: 'unary', operator: '%', operand: node };
+    }
+    return node;
+  };
+  const unary = (): Node => {
+    const operator = peekOperator('-', '+');
+    if (!operator) return percent();
+    position++;
+    return { kind: 'unary', operator: operator as '-' | '+', operand: unary() };
+  };
+  const power = binaryLevel(['^'], unary);
+  const term = binaryLevel(['*', '/'], power);
+  const additive = binaryLevel(['+', '-'], term);
+  const concatenation = binaryLevel(['&'], additive);
+  const comparison = binaryLevel(['=', '<>', '<', '>', '<=', '>='], concatenation);
+
+  const node = comparison();
+  if (position < tokens.length) throw new Error("sobra texto al final");
+  return node;
+};
+
+/** The value of a cell's text: a number in the locale (see parseLocaleAmount), TRUE/FALSE, text, or null if empty. */
+const textValue = (text: string, locale: string): Value => {
+  if (text === '') return null;
+  if (text === 'TRUE' || text === 'FALSE') return text === 'TRUE';
+  const amount = parseLocaleAmount(text, locale);
+  return isNaN(amount) ? text : amount;
+};
+
+const toNumber = (value: Value, locale: string): number | FormulaError => {
+  if (value === null) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (isError(value)) return value;
+  const amount = parseLocaleAmount(value, locale);
+  return isNaN(amount) ? NUMBER_ERROR : amount;
+};
+
+const toText = (value: Value): string => {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(Number(value.toPrecision(15)));
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (isError(value)) return value.code;
+  return value;
+};
+
+const toBoolean = (value: Value): boolean | FormulaError => {
+  if (value === null) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (isError(value)) return value;
+  if (value.toUpperCase() === 'TRUE' || value.toUpperCase() === 'FALSE') return value.toUpperCase() === 'TRUE';
+  return formulaError('#VALUE!', `Se esperaba TRUE o FALSE y no "${value}".`);
+};
+
+/** Orders two values as Excel does: numbers before text before booleans, text ignoring case. */
+const compareValues = (a: Value, b: Value): number => {
+  const rank = (value: Value) => (typeof value === 'string' ? 1 : typeof value === 'boolean' ? 2 : 0);
+  const left = a === null ? (typeof b === 'string' ? '' : 0) : a;
+  const right = b === null ? (typeof a === 'string' ? '' : 0) : b;
+  if (rank(left) !== rank(right)) return rank(left) - rank(right);
+  if (typeof left === 'string') return left.localeCompare(right as string, undefined, { sensitivity: 'accent' });
+  return Number(left) - Number(right);
+};
+
+/** Numbers of the arguments of SUM, AVERAGE, MIN, MAX and COUNT: text and booleans in ranges are ignored, as in Excel. */
+const collectNumbers = (args: (Value | Value[][])[], locale: string, countOnly = false): number[] | FormulaError => {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    if (Array.isArray(arg)) {
+      for (const line of arg) {
+        for (const value of line) {
+          if (typeof value === 'number') numbers.push(value);
+          else if (isError(value)) return value;
+        }
+      }
+      continue;
+    }
+    if (countOnly) {
+      if (typeof arg === 'number') numbers.push(arg);
+      continue;
+    }
+    const number = toNumber(arg, locale);
+    if (isError(number)) return number;
+    numbers.push(number);
+  }
+  return numbers;
+};
+
+/** Excel's ROUND: halves away from zero, without binary noise (ROUND(1.005; 2) is 1.01). */
+const roundHalfAwayFromZero = (value: number, digits: number): number => {
+  const factor = 10 ** Math.trunc(digits);
+  return (Math.sign(value) * Math.round(Number((Math.abs(value) * factor).toPrecision(15)))) / factor;
+};
+
+const aggregate = (reduce: (numbers: number[]) => Value) => (args: (Value | Value[][])[], locale: string): Value => {
+  const numbers = collectNumbers(args, locale);
+  return isError(numbers) ? numbers : reduce(numbers);
+};
+
+const argumentCountError = (name: string) => formulaError('#ERROR!', `Número de argumentos incorrecto para ${name}.`);
+
+const logical = (args: (Value | Value[][])[], combine: (values: boolean[]) => boolean): Value => {
+  const values: boolean[] = [];
+  for (const arg of args) {
+    for (const value of Array.isArray(arg) ? arg.flat() : [arg]) {
+      if (Array.isArray(arg) && (value === null || typeof value === 'string')) continue;
+      const boolean = toBoolean(value);
+      if (isError(boolean)) return boolean;
+      values.push(boolean);
+    }
+  }
+  return values.length === 0 ? formulaError('#VALUE!', "No hay valores lógicos que evaluar.") : combine(values);
+};
+
+/**
+ * Functions whose arguments are all evaluated first; ranges arrive as a grid of values and
+ * references to a single cell as its value, except for the functions in REFERENCE_AS_RANGE. Text is
+ * read as a number in `locale`.
+ */
+const FUNCTIONS: Record<string, (args: (Value | Value[][])[], locale: string) => Value> = {
+  SUM: aggregate(numbers => numbers.reduce((sum, n) => sum + n, 0)),
+  AVERAGE: aggregate(numbers => (numbers.length === 0 ? DIVISION_ERROR : numbers.reduce((sum, n) => sum + n, 0) / numbers.length)),
+  MIN: aggregate(numbers => (numbers.length === 0 ? 0 : numbers.reduce((min, n) => Math.min(min, n)))),
+  MAX: aggregate(numbers => (numbers.length === 0 ? 0 : numbers.reduce((max, n) => Math.max(max, n)))),
+  COUNT: (args, locale) => {
+    const numbers = collectNumbers(args, locale, true);
+    return isError(numbers) ? numbers : numbers.length;
+  },
+  ABS: ([value, ...rest], locale) => {
+    if (value === undefined || rest.length > 0 || Array.isArray(value)) return argumentCountError('ABS');
+    const number = toNumber(value, locale);
+    return isError(number) ? number : Math.abs(number);
+  },
+  ROUND: ([value, digits = 0, ...rest], locale) => {
+    if (value === undefined || rest.length > 0 || Array.isArray(value) || Array.isArray(digits)) return argumentCountError('ROUND');
+    const number = toNumber(value, locale);
+    const places = toNumber(digits, locale);
+    if (isError(number)) return number;
+    if (isError(places)) return places;
+    return roundHalfAwayFromZero(number, places);
+  },
+  VLOOKUP: ([lookup, table, column, approximate = true, ...rest], locale) => {
+    if (lookup === undefined || column === undefined || rest.length > 0 || Array.isArray(lookup) || Array.isArray(column) || Array.isArray(approximate)) {
+      return argumentCountError('VLOOKUP');
+    }
+    if (!Array.isArray(table)) return formulaError('#VALUE!', "El segundo argumento de VLOOKUP debe ser un rango.");
+    if (isError(lookup)) return lookup;
+    const columnNumber = toNumber(column, locale);
+    const isApproximate = toBoolean(approximate ?? true);
+    if (isError(columnNumber)) return columnNumber;
+    if (isError(isApproximate)) return isApproximate;
+    if (columnNumber < 1) return formulaError('#VALUE!', "La columna de VLOOKUP debe ser 1 o mayor.");
+    if (columnNumber > (table[0]?.length ?? 0)) return formulaError('#REF!', "La columna de VLOOKUP está fuera del rango.");
+    let match = -1;
+    for (let i = 0; i < table.length; i++) {
+      const comparison = compareValues(table[i][0], lookup);
+      if (!isApproximate) {
+        if (comparison === 0 && table[i][0] !== null) { match = i; break; }
+      } else if (comparison <= 0 && table[i][0] !== null) {
+        match = i; // Sorted ascending: the last value not greater than the one looked up
+      } else if (comparison > 0) {
+        break;
+      }
+    }
+    if (match === -1) return formulaError('#N/A', `VLOOKUP no encontró "${toText(lookup)}".`);
+    return table[match][Math.trunc(columnNumber) - 1] ?? null;
+  },
+  AND: args => logical(args, values => values.every(Boolean)),
+  OR: args => logical(args, values => values.some(Boolean)),
+  NOT: ([value, ...rest]) => {
+    if (value === undefined || rest.length > 0 || Array.isArray(value)) return argumentCountError('NOT');
+    const boolean = toBoolean(value);
+    return isError(boolean) ? boolean : !boolean;
+  },
+};
+
+// Functions that read a single-cell reference as a range, ignoring text and blanks in it as Excel does (SUM(A2) is 0 if A2 is text)
+const REFERENCE_AS_RANGE = new Set(['SUM', 'AVERAGE', 'MIN', 'MAX', 'COUNT', 'AND', 'OR']);
+
+/** Evaluates the formulas of a set of sheets on demand, each cell once (see the module comment). */
+const createEvaluator = (grids: Grid[], locale: string) => {
+  const results = new Map<string, Value>();
+  const inProgress = new Set<string>();
+  const parsed = new Map<string, Node | FormulaError>(); // By formula text: a formula filled down a column is parsed once
+  const visited = new Set<string>(); // Cells whose dependencies were already walked
+  const plainValues: Value[][][] = grids.map(() => []); // Values of the cells without formulas, read once (ranges overlap)
+  const widths = grids.map(grid => grid.cells.reduce((width, row) => Math.max(width, row.length), 0));
+  const formulaColumns = grids.map(grid => new Set(grid.cells.flatMap(row => row.flatMap((text, column) => (isFormula(text) ? [column] : [])))));
+
+  const findGrid = (sheetName: string | null, current: number): number =>
+    sheetName === null ? current : grids.findIndex(grid => grid.name.toLowerCase() === sheetName.toLowerCase());
+
+  const formulaNode = (text: string): Node | FormulaError => {
+    let node = parsed.get(text);
+    if (!node) {
+      try {
+        node = parseFormula(text.slice(1));
+      } catch (error) {
+        node = formulaError('#ERROR!', `Fórmula no válida: ${error instanceof Error ? error.message : String(error)}.`);
+      }
+      parsed.set(text, node);
+    }
+    return node;
+  };
+
+  const cellValue = (gridIndex: number, row: number, column: number): Value => {
+    const text = grids[gridIndex].cells[row]?.[column] ?? '';
+    if (!isFormula(text)) {
+      const values = (plainValues[gridIndex][row] ??= []);
+      return values[column] !== undefined ? values[column] : (values[column] = textValue(text, locale));
+    }
+    const key = `${gridIndex}:${row}:${column}`;
+    const cached = results.get(key);
+    if (cached !== undefined) return cached;
+    if (inProgress.has(key)) return CIRCULAR_ERROR;
+    inProgress.add(key);
+    const node = formulaNode(text);
+    const value = isError(node) ? node : evaluate(node, gridIndex);
+    inProgress.delete(key);
+    results.set(key, value === null ? 0 : value);
+    return value === null ? 0 : value;
+  };
+
+  /** The formula cells a formula cell references, directly or through a range. */
+  const dependencies = (gridIndex: number, row: number, column: number): [number, number, number][] => {
+    const node = formulaNode(grids[gridIndex].cells[row][column]);
+    const found: [number, number, number][] = [];
+    const visit = (current: Node) => {
+      if (current.kind === 'unary') visit(current.operand);
+      else if (current.kind === 'binary') { visit(current.left); visit(current.right); }
+      else if (current.kind === 'call') current.args.forEach(visit);
+      else if (current.kind === 'reference') {
+        const target = findGrid(current.ref.sheet, gridIndex);
+        if (target === -1) return;
+        const { start } = current.ref;
+        const end = current.ref.end ?? start;
+        const lastRow = Math.min(Math.max(start.row, end.row), grids[target].cells.length);
+        const lastColumn = Math.min(Math.max(start.column, end.column), widths[target]);
+        for (let c = Math.min(start.column, end.column); c <= lastColumn; c++) {
+          if (!formulaColumns[target].has(c - 1)) continue;
+          for (let r = Math.min(start.row, end.row); r <= lastRow; r++) {
+            if (isFormula(grids[target].cells[r - 1][c - 1] ?? '')) found.push([target, r - 1, c - 1]);
+          }
+        }
+      }
+    };
+    if (!isError(node)) visit(node);
+    return found;
+  };
+
+  /**
+   * Evaluates the formula cells a cell depends on, deepest first, with an explicit stack: a long
+   * chain of references (each row adding to the one below) would otherwise overflow the call stack.
+   */
+  const evaluateDependencies = (gridIndex: number, row: number, column: number) => {
+    const stack: { cell: [number, number, number]; pending: [number, number, number][] }[] = [];
+    const push = (cell: [number, number, number]) => {
+      const key = cell.join(':');
+      if (visited.has(key) || results.has(key)) return;
+      visited.add(key);
+      stack.push({ cell, pending: dependencies(...cell) });
+    };
+    push([gridIndex, row, column]);
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const next = top.pending.pop();
+      if (next) {
+        push(next);
+      } else {
+        stack.pop();
+        cellValue(...top.cell); // Its dependencies are calculated, or part of a cycle
+      }
+    }
+  };
+
+  const rangeValues = (ref: FormulaReference, gridIndex: number): Value[][] | FormulaError => {
+    const target = findGrid(ref.sheet, gridIndex);
+    if (target === -1) return REFERENCE_ERROR;
+    const end = ref.end ?? ref.start;
+    const cells = grids[target].cells;
+    // Rows and columns past the end of the table are empty: only the part inside it is read
+    const lastRow = Math.min(Math.max(ref.start.row, end.row), cells.length);
+    const lastColumn = Math.min(Math.max(ref.start.column, end.column), widths[target]);
+    const values: Value[][] = [];
+    for (let row = Math.min(ref.start.row, end.row); row <= lastRow; row++) {
+      const line: Value[] = [];
+      for (let column = Math.min(ref.start.column, end.column); column <= lastColumn; column++) {
+        line.push(cellValue(target, row - 1, column - 1));
+      }
+      values.push(line);
+    }
+    return values;
+  };
+
+  const evaluateArgument = (node: Node, gridIndex: number, functionName: string): Value | Value[][] =>
+    node.kind === 'reference' && (node.ref.end || REFERENCE_AS_RANGE.has(functionName)) ? rangeValues(node.ref, gridIndex) : evaluate(node, gridIndex);
+
+  const evaluate = (node: Node, gridIndex: number): Value => {
+    switch (node.kind) {
+      case 'value':
+        return node.value;
+      case 'reference': {
+        if (node.ref.end) return formulaError('#VALUE!', "Un rango solo puede usarse como argumento de una función.");
+        const target = findGrid(node.ref.sheet, gridIndex);
+        return target === -1 ? REFERENCE_ERROR : cellValue(target, node.ref.start.row - 1, node.ref.start.column - 1);
+      }
+      case 'unary': {
+        const operand = toNumber(evaluate(node.operand, gridIndex), locale);
+        if (isError(operand)) return operand;
+        return node.operator === '-' ? -operand : node.operator === '%' ? operand / 100 : operand;
+      }
+      case 'binary': {
+        const left = evaluate(node.left, gridIndex);
+        const right = evaluate(node.right, gridIndex);
+        if (isError(left)) return left;
+        if (isError(right)) return right;
+        if (node.operator === '&') return toText(left) + toText(right);
+        if (['=', '<>', '<', '>', '<=', '>='].includes(node.operator)) {
+          const comparison = compareValues(left, right);
+          return { '=': comparison === 0, '<>': comparison !== 0, '<': comparison < 0, '>': comparison > 0, '<=': comparison <= 0, '>=': comparison >= 0 }[node.operator]!;
+        }
+        const a = toNumber(left, locale);
+        const b = toNumber(right, locale);
+        if (isError(a)) return a;
+        if (isError(b)) return b;
+        if (node.operator === '+') return a + b;
+        if (node.operator === '-') return a - b;
+        if (node.operator === '*') return a * b;
+        if (node.operator === '/') return b === 0 ? DIVISION_ERROR : a / b;
+        const result = a ** b;
+        return isFinite(result) ? result : NUMBER_ERROR;
+      }
+      case 'call': {
+        if (node.name === 'IF') { // Only the branch that is taken is evaluated
+          if (node.args.length < 2 || node.args.length > 3) return argumentCountError('IF');
+          const condition = toBoolean(evaluate(node.args[0], gridIndex));
+          if (isError(condition)) return condition;
+          const branch = condition ? node.args[1] : node.args[2];
+          return branch ? evaluate(branch, gridIndex) : false;
+        }
+        const fn = FUNCTIONS[node.name];
+        if (!fn) return formulaError('#NAME?', `Función desconocida: ${node.name}. Disponibles: IF, ${Object.keys(FUNCTIONS).join(', ')}.`);
+        return fn(node.args.map(arg => evaluateArgument(arg, gridIndex, node.name)), locale);
+      }
+    }
+  };
+
+  /** The result of every formula of a sheet. */
+  const evaluateGrid = (gridIndex: number): EvaluatedSheet => {
+    const [headers = [], ...rows] = grids[gridIndex].cells;
+    const errors = new Map<string, FormulaError>();
+    const evaluatedRows = rows.map((row, rowIndex) => row.map((text, colIndex) => {
+      if (!isFormula(text)) return text;
+      let value: Value;
+      try {
+        evaluateDependencies(gridIndex, rowIndex + 1, colIndex);
+        value = cellValue(gridIndex, rowIndex + 1, colIndex);
+      } catch (error) {
+        if (!(error instanceof RangeError)) throw error;
+        inProgress.clear(); // A cycle through thousands of cells
+        value = formulaError('#ERROR!', "La fórmula encadena demasiadas referencias.");
+      }
+      if (isError(value)) errors.set(formulaCellKey(rowIndex, colIndex), value);
+      return toText(value);
+    }));
+    return { headers, rows: evaluatedRows, errors };
+  };
+
+  return { evaluateGrid };
+};
+
+const toGrid = (sheet: WorkbookSheet): Grid => {
+  const data = parseCsv(sheet.content);
+  return { name: sheet.name, cells: data ? [data.headers, ...data.rows] : [] };
+};
+
+/**
+ * Calculates the formulas of one sheet.
+ * @param sheets Every sheet of the file, for references to other sheets.
+ * @param sheetIndex The sheet to calculate.
+ * @param data The table of that sheet, if already parsed (the grid being edited).
+ * @param locale Workspace locale the numbers in cells are read in.
+ * @returns The table with each formula replaced by its result, or by its error code.
+ */
+export const evaluateSheet = (sheets: WorkbookSheet[], sheetIndex: number, data: ParsedCsvData, locale: string): EvaluatedSheet => {
+  if (!data.rows.some(row => row.some(isFormula))) return { ...data, errors: new Map() };
+  const grids = sheets.map((sheet, index) => (index === sheetIndex ? { name: sheet.name, cells: [data.headers, ...data.rows] } : toGrid(sheet)));
+  return createEvaluator(grids, locale).evaluateGrid(sheetIndex);
+};
+
+/** The sheets with every formula replaced by its result, for code that reads the values of a table. */
+export const resolveFormulas = (sheets: WorkbookSheet[], locale: string): WorkbookSheet[] => {
+  if (!sheets.some(sheet => /(^|,)=/m.test(sheet.content))) return sheets;
+  const evaluator = createEvaluator(sheets.map(toGrid), locale);
+  return sheets.map((sheet, index) => {
+    if (!parseCsv(sheet.content)) return sheet;
+    const { headers, rows } = evaluator.evaluateGrid(index);
+    return { ...sheet, content: serializeCsv({ headers, rows }) };
+  });
+};
+
+/** Adjusts the formulas of a table after rows or columns were inserted or deleted in it (see shiftFormulaReferences). */
+export const shiftTableFormulas = (data: ParsedCsvData, shift: ReferenceShift, sheetName: string): ParsedCsvData => ({
+  ...data,
+  rows: data.rows.map(row => row.map(cell => (isFormula(cell) ? `=${shiftFormulaReferences(cell.slice(1), shift, true, sheetName)}` : cell))),
+});
+
+/** A row copied `rowDelta` rows away, with the relative references of its formulas moved along (see translateFormula). */
+export const copyRowFormulas = (row: string[], rowDelta: number): string[] =>
+  row.map(cell => (isFormula(cell) ? `=${translateFormula(cell.slice(1), rowDelta, 0)}` : cell));
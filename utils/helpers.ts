@@ -1,8 +1,10 @@
+import { AppFile } from '../types';
+
 
 export const generateId = (): string => Math.random().toString(36).substr(2, 9);
 
 export const dateReviver = (key: string, value: any): any => {
-  if ((key === 'createdAt' || key === 'timestamp' || key === 'deletedAt') && typeof value === 'string') {
+  if ((key === 'createdAt' || key === 'timestamp' || key === 'deletedAt' || key === 'generatedAt' || key === 'updatedAt') && typeof value === 'string') {
     const date = new Date(value);
     if (!isNaN(date.getTime())) {
       return date;
@@ -10,3 +12,46 @@ export const dateReviver = (key: string, value: any): any => {
   }
   return value;
 };
+
+/** True for a non-null object, so the fields of untrusted JSON can be checked one by one. */
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * What a duplicate of `file` is created from. The copy keeps the file's upload and, for a generated
+ * report, its report source marked as an editable copy, so it can be edited but is still not read as a ledger source.
+ */
+export const getFileCopyFields = (file: AppFile): Pick<AppFile, 'name' | 'folderId' | 'content' | 'report' | 'original'> => ({
+  name: `Copia de ${file.name}`,
+  folderId: file.folderId,
+  content: file.content,
+  report: file.report ? { ...file.report, editableCopy: true } : null,
+  original: file.original ?? null,
+});
+
+const TABULAR_FILE_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+
+/** True for files the editor shows as a table (CSV and Excel). */
+export const isTabularFileName = (fileName: string): boolean =>
+  TABULAR_FILE_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+const BINARY_FILE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.pdf'];
+
+/** True for uploads that have no editable content, only their original (images and PDFs). */
+export const isBinaryFileName = (fileName: string): boolean =>
+  BINARY_FILE_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+/** True for originals the browser can show: images and PDFs. */
+export const isPreviewableMimeType = (mimeType: string): boolean =>
+  mimeType.startsWith('image/') || mimeType === 'application/pdf';
+
+/** Saves a Blob through the browser's download prompt. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createJobQueue } from './jobQueue';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+// Lets pending promise callbacks (and zero-delay timers) run
+const flush = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('createJobQueue', () => {
+  it('runs jobs in the order they were added, at most `concurrency` at a time', async () => {
+    const pending = new Map<string, ReturnType<typeof deferred<string>>>();
+    const started: string[] = [];
+    const done: string[] = [];
+    const queue = createJobQueue((job: string) => {
+      started.push(job);
+      pending.set(job, deferred<string>());
+      return pending.get(job)!.promise;
+    }, { concurrency: 2, maxAttempts: 1, retryDelayMs: 0, onDone: id => done.push(id) });
+
+    ['a', 'b', 'c'].forEach(id => queue.enqueue(id, id));
+    assert.deepEqual(started, ['a', 'b']);
+
+    pending.get('b')!.resolve('ok');
+    await flush();
+    assert.deepEqual(started, ['a', 'b', 'c']);
+    assert.deepEqual(done, ['b']);
+  });
+
+  it('retries failed attempts and reports the outcome of the last one', async () => {
+    const attempts: number[] = [];
+    const outcomes = new Map<string, { outcome: unknown; attempts: number }>();
+    const queue = createJobQueue(async (job: { failures: number; result: string }, attempt) => {
+      if (attempt <= job.failures) throw new Error(`fallo ${attempt}`);
+      return job.result;
+    }, {
+      concurrency: 1,
+      maxAttempts: 3,
+      retryDelayMs: 1,
+      shouldRetry: result => result === 'ilegible',
+      onAttempt: (_, attempt) => attempts.push(attempt),
+      onDone: (id, outcome, attemptCount) => outcomes.set(id, { outcome, attempts: attemptCount }),
+    });
+
+    queue.enqueue('recovers', { failures: 1, result: 'ok' });
+    queue.enqueue('fails', { failures: 5, result: 'ok' });
+    queue.enqueue('unreadable', { failures: 0, result: 'ilegible' });
+    while (outcomes.size < 3) await flush();
+
+    assert.deepEqual(outcomes.get('recovers'), { outcome: { result: 'ok' }, attempts: 2 });
+    assert.deepEqual(outcomes.get('fails'), { outcome: { error: new Error('fallo 3') }, attempts: 3 });
+    assert.deepEqual(outcomes.get('unreadable'), { outcome: { result: 'ilegible' }, attempts: 3 });
+    assert.deepEqual(attempts, [1, 2, 1, 2, 3, 1, 2, 3]);
+  });
+
+  it('ignores a job whose id is already queued, and drops cancelled jobs', async () => {
+    const started: string[] = [];
+    const done: string[] = [];
+    const running = deferred<string>();
+    const queue = createJobQueue(async (job: string) => {
+      started.push(job);
+      return job === 'a' ? running.promise : job;
+    }, { concurrency: 1, maxAttempts: 1, retryDelayMs: 0, onDone: id => done.push(id) });
+
+    queue.enqueue('a', 'a');
+    queue.enqueue('a', 'a');
+    queue.enqueue('b', 'b');
+    queue.enqueue('c', 'c');
+    queue.cancel('b');
+    queue.cancel('a');
+    running.resolve('a');
+    await flush();
+
+    assert.deepEqual(started, ['a', 'c']);
+    assert.deepEqual(done, ['c']);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * A small in-memory queue for background work such as the receipts inbox extraction
+ * (see hooks/useReceiptInbox.ts). Jobs run in the order they were added, at most
+ * `concurrency` at a time, and failed attempts are retried with a growing delay.
+ */
+
+export interface JobQueueOptions<R> {
+  concurrency: number;
+  maxAttempts: number; // Including the first one
+  retryDelayMs: number; // Delay before the second attempt; it doubles for each further attempt
+  /** Whether a result that did not throw still counts as a failed attempt. Defaults to never. */
+  shouldRetry?: (result: R) => boolean;
+  /** Called when an attempt starts (attempt numbers start at 1). */
+  onAttempt?: (id: string, attempt: number) => void;
+  /**
+   * Called once per job, after its last attempt: with the result, or with the error thrown
+   * by the last attempt. Not called for cancelled jobs.
+   */
+  onDone: (id: string, outcome: { result: R } | { error: unknown }, attempts: number) => void;
+}
+
+export interface JobQueue<T> {
+  /** Adds a job unless one with the same id is queued or running. */
+  enqueue: (id: string, job: T) => void;
+  /** Drops a job; if it is running, its result is ignored. */
+  cancel: (id: string) => void;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Creates a queue that runs `run` for each job.
+ * @param run Does the work of one attempt. Throwing counts as a failed attempt.
+ */
+export const createJobQueue = <T, R>(
+  run: (job: T, attempt: number) => Promise<R>,
+  { concurrency, maxAttempts, retryDelayMs, shouldRetry = () => false, onAttempt, onDone }: JobQueueOptions<R>
+): JobQueue<T> => {
+  const waiting: { id: string; job: T }[] = [];
+  const active = new Set<string>(); // Running or waiting for a retry
+
+  const runJob = async (id: string, job: T) => {
+    for (let attempt = 1; ; attempt++) {
+      if (!active.has(id)) return;
+      onAttempt?.(id, attempt);
+      let outcome: { result: R } | { error: unknown };
+      try {
+        outcome = { result: await run(job, attempt) };
+      } catch (error) {
+        outcome = { error };
+      }
+      if (!active.has(id)) return;
+      const failed = 'error' in outcome || shouldRetry(outcome.result);
+      if (!failed || attempt >= maxAttempts) {
+        active.delete(id);
+        onDone(id, outcome, attempt);
+        return;
+      }
+      await wait(retryDelayMs * 2 ** (attempt - 1));
+    }
+  };
+
+  const startNext = () => {
+    while (active.size < concurrency && waiting.length > 0) {
+      const { id, job } = waiting.shift()!;
+      active.add(id);
+      runJob(id, job).finally(startNext);
+    }
+  };
+
+  return {
+    enqueue: (id, job) => {
+      if (active.has(id) || waiting.some(item => item.id === id)) return;
+      waiting.push({ id, job });
+      startNext();
+    },
+    cancel: (id) => {
+      const index = waiting.findIndex(item => item.id === id);
+      if (index >= 0) waiting.splice(index, 1);
+      active.delete(id);
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseJournal, serializeJournal } from './journal';
+import { JournalEntry } from '../types';
+
+describe('serializeJournal', () => {
+  it('keeps commas, quotes and line breaks in the text of an entry', () => {
+    const entry: JournalEntry = {
+      id: '1',
+      date: '2025-03-01',
+      reference: 'Fra. 12, serie "A"',
+      memo: 'Rent, March\nOffice 2',
+      status: 'draft',
+      lines: [
+        { account: '621', debit: 1200, credit: 0, currency: 'EUR' },
+        { account: '572', debit: 0, credit: 1200, currency: 'EUR' },
+      ],
+    };
+    assert.deepEqual(parseJournal(serializeJournal([entry])), [entry]);
+  });
+});
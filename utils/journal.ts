@@ -0,0 +1,233 @@
+import { JournalEntry, JournalEntryProposal, JournalLine } from '../types';
+import { DEFAULT_CURRENCY } from '../constants';
+import { parseCsv, serializeCsv } from './tabularDataParser';
+import { isRecord } from './helpers';
+
+/**
+ * Columns of a journal document. Each row is one line of an entry; the entry fields
+ * (number, date, reference, memo, status) are repeated on every line of the entry.
+ */
+export const JOURNAL_HEADERS = ['Asiento', 'Fecha', 'Referencia', 'Concepto', 'Cuenta', 'Debe', 'Haber', 'Moneda', 'Estado'];
+
+const STATUS_LABELS = { draft: 'Borrador', posted: 'Contabilizado' } as const;
+
+/**
+ * Thrown when a journal entry cannot be posted. The message is shown to the user.
+ */
+export class JournalEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JournalEntryError';
+  }
+}
+
+export interface JournalCurrencyTotals {
+  currency: string;
+  debit: number;
+  credit: number;
+}
+
+// Amounts are compared in cents so that 0.1 + 0.2 balances against 0.3
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+/**
+ * Parses an amount cell. Empty cells are 0; a comma is accepted as decimal separator.
+ * @returns The amount, or NaN if the cell is not a number.
+ */
+export const parseAmount = (value: string): number => {
+  const normalized = value.trim().replace(/\s/g, '');
+  if (normalized === '') return 0;
+  const withDot = normalized.includes('.') ? normalized : normalized.replace(',', '.');
+  return /^-?\d+(\.\d+)?$/.test(withDot) ? Number(withDot) : NaN;
+};
+
+const formatAmountCell = (amount: number): string => (amount === 0 || isNaN(amount) ? '' : amount.toFixed(2));
+
+/** Formats an amount for display, with two decimals. */
+export const formatAmount = (amount: number): string =>
+  amount.toLocaleString('es-ES', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const sameHeaders = (headers: string[]): boolean =>
+  headers.length === JOURNAL_HEADERS.length &&
+  headers.every((header, i) => header.trim().toLowerCase() === JOURNAL_HEADERS[i].toLowerCase());
+
+/** True if the document is a journal (a CSV whose header row is JOURNAL_HEADERS). */
+export const isJournalContent = (content: string): boolean => {
+  const firstLine = content.trimStart().split(/\r?\n/, 1)[0] ?? '';
+  return sameHeaders(firstLine.split(','));
+};
+
+/** Content of a new, empty journal document. */
+export const createEmptyJournalContent = (): string => JOURNAL_HEADERS.join(',');
+
+/**
+ * Reads the entries of a journal document. Rows are grouped by entry number; a row with an
+ * empty number belongs to the entry above it. Entry fields are taken from the entry's first row.
+ * @param content The journal document content.
+ * @returns The entries in document order, or null if the content is not a journal.
+ */
+export const parseJournal = (content: string): JournalEntry[] | null => {
+  const data = parseCsv(content);
+  if (!data || !sameHeaders(data.headers)) return null;
+
+  const entries = new Map<string, JournalEntry>();
+  let current: JournalEntry | null = null;
+  data.rows.forEach(([id, date, reference, memo, account, debit, credit, currency, status]) => {
+    if (id !== '' || !current) {
+      const entryId = id || '1';
+      current = entries.get(entryId) ?? null;
+      if (!current) {
+        current = {
+          id: entryId,
+          date,
+          reference,
+          memo,
+          status: status.toLowerCase() === STATUS_LABELS.posted.toLowerCase() || status.toLowerCase() === 'posted' ? 'posted' : 'draft',
+          lines: [],
+        };
+        entries.set(entryId, current);
+      }
+    }
+    current.lines.push({ account, debit: parseAmount(debit), credit: parseAmount(credit), currency: currency.toUpperCase() || DEFAULT_CURRENCY });
+  });
+  return Array.from(entries.values());
+};
+
+/**
+ * Writes journal entries back to a journal document, one row per line.
+ * @param entries The entries, in the order they should appear.
+ * @returns The journal document content.
+ */
+export const serializeJournal = (entries: JournalEntry[]): string => serializeCsv({
+  headers: JOURNAL_HEADERS,
+  rows: entries.flatMap(entry => entry.lines.map(line => [
+    entry.id,
+    entry.date,
+    entry.reference,
+    entry.memo,
+    line.account,
+    formatAmountCell(line.debit),
+    formatAmountCell(line.credit),
+    line.currency,
+    STATUS_LABELS[entry.status],
+  ])),
+});
+
+/**
+ * Sums debits and credits of an entry per currency (lines in different currencies never offset each other).
+ * @returns One total per currency, in order of first appearance.
+ */
+export const getJournalEntryTotals = (entry: JournalEntry): JournalCurrencyTotals[] => {
+  const totals = new Map<string, { debit: number; credit: number }>();
+  entry.lines.forEach(line => {
+    const total = totals.get(line.currency) ?? { debit: 0, credit: 0 };
+    total.debit += toCents(isNaN(line.debit) ? 0 : line.debit);
+    total.credit += toCents(isNaN(line.credit) ? 0 : line.credit);
+    totals.set(line.currency, total);
+  });
+  return Array.from(totals, ([currency, { debit, credit }]) => ({ currency, debit: debit / 100, credit: credit / 100 }));
+};
+
+/** True if, in every currency, the entry's debits equal its credits. */
+export const isJournalEntryBalanced = (entry: JournalEntry): boolean =>
+  getJournalEntryTotals(entry).every(total => toCents(total.debit) === toCents(total.credit));
+
+/**
+ * Lists what prevents an entry from being posted.
+ * @returns User-facing problems; empty if the entry can be posted.
+ */
+export const validateJournalEntry = (entry: JournalEntry): string[] => {
+  const problems: string[] = [];
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(entry.date) || isNaN(new Date(entry.date).getTime())) {
+    problems.push("La fecha debe tener el formato AAAA-MM-DD.");
+  }
+  if (entry.lines.length < 2) {
+    problems.push("Un asiento necesita al menos dos líneas.");
+  }
+  entry.lines.forEach((line, index) => {
+    const label = `Línea ${index + 1}`;
+    if (line.account.trim() === '') problems.push(`${label}: falta la cuenta.`);
+    if (isNaN(line.debit) || isNaN(line.credit)) {
+      problems.push(`${label}: el importe no es un número válido.`);
+    } else if (line.debit < 0 || line.credit < 0) {
+      problems.push(`${label}: los importes no pueden ser negativos.`);
+    } else if ((toCents(line.debit) === 0) === (toCents(line.credit) === 0)) {
+      problems.push(`${label}: indica un importe en el Debe o en el Haber, no en ambos.`);
+    }
+  });
+  getJournalEntryTotals(entry).forEach(total => {
+    if (toCents(total.debit) !== toCents(total.credit)) {
+      problems.push(`No cuadra en ${total.currency}: Debe ${formatAmount(total.debit)}, Haber ${formatAmount(total.credit)}.`);
+    }
+  });
+  return problems;
+};
+
+/**
+ * Marks an entry as posted.
+ * @returns The posted entry.
+ * @throws JournalEntryError if the entry is unbalanced or otherwise invalid.
+ */
+export const postJournalEntry = (entry: JournalEntry): JournalEntry => {
+  const problems = validateJournalEntry(entry);
+  if (problems.length > 0) {
+    throw new JournalEntryError(`El asiento ${entry.id} no se puede contabilizar. ${problems.join(' ')}`);
+  }
+  return { ...entry, status: 'posted' };
+};
+
+/** Entry number following the highest numeric entry number of the journal. */
+export const nextJournalEntryId = (entries: JournalEntry[]): string =>
+  String(entries.reduce((max, entry) => Math.max(max, Number(entry.id) || 0), 0) + 1);
+
+/** An empty draft line in the default currency. */
+export const createJournalLine = (currency = DEFAULT_CURRENCY): JournalLine => ({ account: '', debit: 0, credit: 0, currency });
+
+const isFiniteNonNegative = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value >= 0;
+
+const isJournalLineProposal = (line: unknown): boolean =>
+  isRecord(line) && typeof line.account === 'string' &&
+  isFiniteNonNegative(line.debit) && isFiniteNonNegative(line.credit) &&
+  (line.currency === undefined || typeof line.currency === 'string');
+
+const isJournalEntryProposal = (entry: unknown): entry is JournalEntryProposal =>
+  isRecord(entry) &&
+  typeof entry.date === 'string' && typeof entry.reference === 'string' && typeof entry.memo === 'string' &&
+  Array.isArray(entry.lines) && entry.lines.length > 0 && entry.lines.every(isJournalLineProposal);
+
+/**
+ * Checks that `value` is a non-empty array of well-formed journal entry proposals.
+ * Does not check that they balance; unbalanced proposals are added as drafts and cannot be posted.
+ * @param value The `journal_entries` field of an AI response.
+ */
+export const isJournalEntryProposalList = (value: unknown): value is JournalEntryProposal[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isJournalEntryProposal);
+
+/**
+ * Adds AI-proposed entries to a journal as drafts, numbered after the existing entries.
+ * @param content The current journal content; an empty document becomes a new journal.
+ * @param proposals The validated `journal_entries` of the AI response.
+ * @returns The new journal content and how many of the added entries do not balance.
+ * @throws JournalEntryError if the document is neither empty nor a journal.
+ */
+export const appendJournalEntryProposals = (
+  content: string,
+  proposals: JournalEntryProposal[]
+): { content: string; unbalancedCount: number } => {
+  const entries = content.trim() === '' ? [] : parseJournal(content);
+  if (!entries) {
+    throw new JournalEntryError("El documento activo no es un libro diario. Abre un libro diario o un documento vacío para registrar asientos.");
+  }
+  const added = proposals.map((proposal, i): JournalEntry => ({
+    id: String(Number(nextJournalEntryId(entries)) + i),
+    date: proposal.date.trim(),
+    reference: proposal.reference.trim(),
+    memo: proposal.memo.trim(),
+    status: 'draft',
+    lines: proposal.lines.map(line => ({ ...line, account: line.account.trim(), currency: (line.currency || DEFAULT_CURRENCY).trim().toUpperCase() })),
+  }));
+  return {
+    content: serializeJournal([...entries, ...added]),
+    unbalancedCount: added.filter(entry => !isJournalEntryBalanced(entry)).length,
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppFile } from '../types';
+import { getFileCopyFields } from './helpers';
+import { getLedgerSourceFiles, isGeneratedReport, readLedgerPostings } from './ledger';
+
+const tableFile = (name: string, content: string): AppFile =>
+  ({ id: name, name, folderId: null, content, createdAt: new Date(), deletedAt: null, report: null, original: null });
+
+const MAPPING = { date: 'Fecha', account: 'Cuenta', debit: 'Debe', credit: 'Haber', description: '' };
+
+describe('readLedgerPostings', () => {
+  it('reads mapped amounts in the workspace locale', () => {
+    const file = tableFile('mayor.csv', 'Fecha,Cuenta,Debe,Haber\n2025-01-10,572,"1.234,56",\n2025-01-10,700,,1234.56');
+    const read = readLedgerPostings([file], MAPPING, [], 'es-ES');
+    assert.deepEqual(read.rejectedRows, []);
+    assert.deepEqual(read.postings.map(p => [p.debit, p.credit]), [[1234.56, 0], [0, 1234.56]]);
+  });
+
+  it('rejects amounts that are not numbers in the locale', () => {
+    const file = tableFile('mayor.csv', 'Fecha,Cuenta,Debe,Haber\n2025-01-10,572,"1,5",');
+    assert.equal(readLedgerPostings([file], MAPPING, [], 'en-US').rejectedRows.length, 1);
+  });
+});
+
+describe('getLedgerSourceFiles', () => {
+  const report = { kind: 'trial_balance' as const, folderId: null, from: '', to: '', generatedAt: new Date() };
+
+  it('does not read a duplicated report as a source, though the copy can be edited', () => {
+    const ledger = tableFile('mayor.csv', 'Fecha,Cuenta,Debe,Haber\n2025-01-10,572,10,');
+    const generated = { ...tableFile('Balance de sumas y saldos.csv', 'Cuenta,Debe,Haber\n572,10,'), report };
+    const copy = { ...generated, id: 'copia', ...getFileCopyFields(generated) };
+
+    assert.deepEqual(copy.report, { ...report, editableCopy: true });
+    assert.equal(isGeneratedReport(generated), true);
+    assert.equal(isGeneratedReport(copy), false);
+    assert.deepEqual(getLedgerSourceFiles([ledger, generated, copy], null, 'es-ES').map(file => file.id), ['mayor.csv']);
+  });
+});
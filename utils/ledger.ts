@@ -0,0 +1,378 @@
+import { Account, AppFile, LedgerColumnMapping, ReportKind } from '../types';
+import { parseCsv, ParsedCsvData } from './tabularDataParser';
+import { isTabularFileName } from './helpers';
+import { isWorkbookContent, parseWorkbookContent } from './workbook';
+import { isJournalContent, parseJournal } from './journal';
+import { parseLocaleAmount } from './columnTypes';
+import { resolveFormulas } from './formulaEngine';
+
+/** One debit or credit to an account, read from a journal-style table. */
+export interface LedgerPosting {
+  date: string; // YYYY-MM-DD
+  account: string; // Account code when the account is in the chart, otherwise the cell as written
+  description: string;
+  debit: number;
+  credit: number;
+  source: string; // Name of the file the posting was read from
+}
+
+export interface LedgerReadResult {
+  postings: LedgerPosting[];
+  readFiles: string[];
+  skippedFiles: { fileName: string; reason: string }[];
+  rejectedRows: { fileName: string; row: number; reason: string }[]; // row is the 1-based data row
+  draftEntryCount: number; // Journal entries left out because they are not posted
+}
+
+export interface LedgerPeriod {
+  from: string; // YYYY-MM-DD, '' for no lower bound
+  to: string; // YYYY-MM-DD, '' for no upper bound
+}
+
+export interface GeneralLedgerAccount {
+  account: string;
+  name: string;
+  openingBalance: number;
+  postings: (LedgerPosting & { balance: number })[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+export interface TrialBalanceRow {
+  account: string;
+  name: string;
+  openingBalance: number;
+  debit: number;
+  credit: number;
+  closingBalance: number;
+}
+
+export const REPORT_KIND_LABELS: Record<ReportKind, string> = {
+  general_ledger: 'Libro mayor',
+  trial_balance: 'Balance de sumas y saldos',
+  income_statement: 'Cuenta de pérdidas y ganancias',
+  balance_sheet: 'Balance de situación',
+  cash_flow: 'Estado de flujos de efectivo',
+};
+
+// Index of the first amount column of each report; every column from there on holds amounts
+const FIRST_AMOUNT_COLUMN: Record<ReportKind, number> = {
+  general_ledger: 5,
+  trial_balance: 2,
+  income_statement: 2,
+  balance_sheet: 2,
+  cash_flow: 2,
+};
+
+/** Indexes of the columns of a generated report that hold amounts. */
+export const getReportAmountColumns = (kind: ReportKind, headers: string[]): number[] =>
+  headers.map((_, index) => index).filter(index => index >= FIRST_AMOUNT_COLUMN[kind]);
+
+export const GENERAL_LEDGER_HEADERS = ['Cuenta', 'Nombre', 'Fecha', 'Concepto', 'Origen', 'Debe', 'Haber', 'Saldo'];
+export const TRIAL_BALANCE_HEADERS = ['Cuenta', 'Nombre', 'Saldo inicial', 'Debe', 'Haber', 'Saldo final'];
+
+// Header names suggested for each field (compared lowercase, without accents)
+const MAPPING_COLUMNS: Record<keyof LedgerColumnMapping, string[]> = {
+  date: ['fecha', 'date', 'fecha contable', 'posting date'],
+  account: ['cuenta', 'account', 'subcuenta', 'codigo cuenta', 'account code'],
+  debit: ['debe', 'debit', 'cargo', 'cargos'],
+  credit: ['haber', 'credit', 'abono', 'abonos'],
+  description: ['concepto', 'descripcion', 'description', 'memo', 'detalle'],
+};
+
+// Signed amount columns, suggested for both debit and credit when there are no separate columns
+const AMOUNT_COLUMNS = ['importe', 'amount', 'monto', 'valor'];
+
+const normalize = (value: string): string =>
+  value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Balances are accumulated in cents so long ledgers do not drift
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const formatAmountCell = (amount: number): string => amount.toFixed(2);
+
+/**
+ * Guesses which header holds each field from common Spanish and English names.
+ * A single amount column is proposed for both debit and credit. Fields without a
+ * recognizable header are left as ''.
+ */
+export const suggestLedgerColumnMapping = (headers: string[]): LedgerColumnMapping => {
+  const find = (field: keyof LedgerColumnMapping) =>
+    headers.find(header => MAPPING_COLUMNS[field].includes(normalize(header))) ?? '';
+  const amount = headers.find(header => AMOUNT_COLUMNS.includes(normalize(header))) ?? '';
+  const [debit, credit] = find('debit') || find('credit') ? [find('debit'), find('credit')] : [amount, amount];
+  return { date: find('date'), account: find('account'), debit, credit, description: find('description') };
+};
+
+/** True if the mapping names a column for every required field. */
+export const isLedgerColumnMappingComplete = (mapping: LedgerColumnMapping): boolean =>
+  [mapping.date, mapping.account, mapping.debit, mapping.credit].every(header => header.trim() !== '');
+
+/** One table of a CSV or Excel file (see getFileTables). */
+export interface FileTable {
+  sheet: string | null; // Sheet of a workbook with several sheets, null for a file with a single table
+  name: string; // The file name, followed by the sheet in parentheses for a sheet
+  content: string; // CSV with every formula replaced by its result
+}
+
+/**
+ * The tables of a CSV or Excel file: each sheet of a workbook with several sheets is a table of its
+ * own, named "file (sheet)". Formulas are replaced by their results, calculated in `locale`.
+ */
+export const getFileTables = (file: AppFile, locale: string): FileTable[] => {
+  const sheets = resolveFormulas(parseWorkbookContent(file.content), locale);
+  return isWorkbookContent(file.content)
+    ? sheets.map(sheet => ({ sheet: sheet.name, name: `${file.name} (${sheet.name})`, content: sheet.content }))
+    : [{ sheet: null, name: file.name, content: sheets[0].content }];
+};
+
+/** True for a report generated by the app, which is read-only; its duplicates (see getFileCopyFields) can be edited. */
+export const isGeneratedReport = (file: AppFile): boolean => !!file.report && !file.report.editableCopy;
+
+/**
+ * Files of a folder that the ledger reports read: CSV and Excel documents that are not
+ * in the trash and are not generated reports or copies of one, split into their tables (see getFileTables).
+ */
+export const getLedgerSourceFiles = (files: AppFile[], folderId: string | null, locale: string): AppFile[] =>
+  files
+    .filter(file => file.folderId === folderId && !file.deletedAt && !file.report && isTabularFileName(file.name))
+    .flatMap(file => getFileTables(file, locale).map(table => ({ ...file, name: table.name, content: table.content })));
+
+/** Distinct headers of the given tables, in order of first appearance. */
+export const collectTableHeaders = (files: AppFile[]): string[] => {
+  const headers = new Set<string>();
+  files.forEach(file => parseCsv(file.content)?.headers.forEach(header => header && headers.add(header)));
+  return Array.from(headers);
+};
+
+/**
+ * Reads a date cell written as YYYY-MM-DD (or with slashes), or as DD/MM/YYYY, DD-MM-YYYY or DD.MM.YYYY.
+ * @returns The date as YYYY-MM-DD, or null if the cell is not a valid date.
+ */
+export const parseLedgerDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  const isoMatch = trimmed.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  const dayFirstMatch = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  const [year, month, day] = isoMatch
+    ? [Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3])]
+    : dayFirstMatch
+      ? [Number(dayFirstMatch[3]), Number(dayFirstMatch[2]), Number(dayFirstMatch[1])]
+      : [NaN, NaN, NaN];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Matches an account cell against the chart of accounts: by exact code, by a leading code
+ * ("572 Bancos"), or by name.
+ * @returns The account code, or the trimmed cell if no account matches.
+ */
+const resolveAccountCode = (cell: string, accounts: Account[]): string => {
+  const trimmed = cell.trim();
+  const leadingCode = trimmed.split(/[\s-]+/, 1)[0];
+  const match = accounts.find(account => account.code === trimmed) ??
+    accounts.find(account => account.code === leadingCode) ??
+    accounts.find(account => normalize(account.name) === normalize(trimmed));
+  return match?.code ?? trimmed;
+};
+
+/**
+ * Reads the postings of a folder's journal-style tables. Journal documents (see utils/journal.ts)
+ * are read entry by entry and only their posted entries count; any other table is read through
+ * `mapping`. Tables without the mapped columns are skipped, and rows with an invalid date or
+ * amount are rejected; both are reported so the user can fix them.
+ * @param files The tables to read, usually from getLedgerSourceFiles.
+ * @param mapping The headers of the date, account, debit, credit and description columns.
+ * @param accounts The chart of accounts, used to normalize account cells to codes.
+ * @param locale The workspace locale, used to read the amounts of mapped tables (see parseLocaleNumber).
+ */
+export const readLedgerPostings = (files: AppFile[], mapping: LedgerColumnMapping, accounts: Account[], locale: string): LedgerReadResult => {
+  const result: LedgerReadResult = { postings: [], readFiles: [], skippedFiles: [], rejectedRows: [], draftEntryCount: 0 };
+
+  files.forEach(file => {
+    if (isJournalContent(file.content)) {
+      const entries = parseJournal(file.content) ?? [];
+      entries.forEach(entry => {
+        if (entry.status !== 'posted') {
+          result.draftEntryCount++;
+          return;
+        }
+        entry.lines.forEach(line => result.postings.push({
+          date: entry.date,
+          account: resolveAccountCode(line.account, accounts),
+          description: entry.memo || entry.reference,
+          debit: line.debit,
+          credit: line.credit,
+          source: file.name,
+        }));
+      });
+      result.readFiles.push(file.name);
+      return;
+    }
+
+    const data = parseCsv(file.content);
+    if (!data) {
+      result.skippedFiles.push({ fileName: file.name, reason: "La tabla está vacía." });
+      return;
+    }
+    const columnOf = (header: string) => data.headers.findIndex(h => normalize(h) === normalize(header));
+    const required = [mapping.date, mapping.account, mapping.debit, mapping.credit];
+    const missing = Array.from(new Set(required.filter(header => columnOf(header) === -1)));
+    if (missing.length > 0) {
+      result.skippedFiles.push({ fileName: file.name, reason: `Faltan las columnas ${missing.map(h => `"${h}"`).join(', ')}.` });
+      return;
+    }
+    const [dateColumn, accountColumn, debitColumn, creditColumn] = required.map(columnOf);
+    const descriptionColumn = mapping.description ? columnOf(mapping.description) : -1;
+    const isSignedAmount = debitColumn === creditColumn;
+
+    data.rows.forEach((cells, index) => {
+      const cell = (column: number) => (column === -1 ? '' : cells[column] ?? '');
+      const row = index + 1;
+      const account = cell(accountColumn).trim();
+      const debitAmount = parseLocaleAmount(cell(debitColumn), locale);
+      const creditAmount = isSignedAmount ? 0 : parseLocaleAmount(cell(creditColumn), locale);
+      if (account === '' && debitAmount === 0 && creditAmount === 0) return; // Blank or subtotal row
+
+      const date = parseLedgerDate(cell(dateColumn));
+      if (!date) {
+        result.rejectedRows.push({ fileName: file.name, row, reason: `Fecha no válida: "${cell(dateColumn)}".` });
+      } else if (account === '') {
+        result.rejectedRows.push({ fileName: file.name, row, reason: "Falta la cuenta." });
+      } else if (isNaN(debitAmount) || isNaN(creditAmount)) {
+        result.rejectedRows.push({ fileName: file.name, row, reason: "El importe no es un número válido." });
+      } else {
+        result.postings.push({
+          date,
+          account: resolveAccountCode(account, accounts),
+          description: cell(descriptionColumn).trim(),
+          debit: isSignedAmount ? Math.max(debitAmount, 0) : debitAmount,
+          credit: isSignedAmount ? Math.max(-debitAmount, 0) : creditAmount,
+          source: file.name,
+        });
+      }
+    });
+    result.readFiles.push(file.name);
+  });
+
+  return result;
+};
+
+const isBeforePeriod = (date: string, period: LedgerPeriod) => period.from !== '' && date < period.from;
+const isInPeriod = (date: string, period: LedgerPeriod) => !isBeforePeriod(date, period) && (period.to === '' || date <= period.to);
+
+const accountNameOf = (code: string, accounts: Account[]): string => accounts.find(account => account.code === code)?.name ?? '';
+
+/**
+ * Groups postings by account. Postings before the period make up the opening balance; postings
+ * after it are ignored. Balances are debit minus credit.
+ * @returns The accounts with an opening balance or postings in the period, sorted by code,
+ *   each with its postings in date order and the running balance after each one.
+ */
+export const buildGeneralLedger = (postings: LedgerPosting[], period: LedgerPeriod, accounts: Account[]): GeneralLedgerAccount[] => {
+  const byAccount = new Map<string, { opening: number; postings: LedgerPosting[] }>();
+  postings.forEach(posting => {
+    if (!isBeforePeriod(posting.date, period) && !isInPeriod(posting.date, period)) return; // After the period
+    const group = byAccount.get(posting.account) ?? { opening: 0, postings: [] };
+    if (isBeforePeriod(posting.date, period)) group.opening += toCents(posting.debit) - toCents(posting.credit);
+    else group.postings.push(posting);
+    byAccount.set(posting.account, group);
+  });
+
+  return Array.from(byAccount, ([account, group]) => {
+    let balance = group.opening;
+    let totalDebit = 0;
+    let totalCredit = 0;
+    // Array.prototype.sort is stable, so same-day postings keep their file order
+    const sorted = [...group.postings].sort((a, b) => a.date.localeCompare(b.date)).map(posting => {
+      totalDebit += toCents(posting.debit);
+      totalCredit += toCents(posting.credit);
+      balance += toCents(posting.debit) - toCents(posting.credit);
+      return { ...posting, balance: balance / 100 };
+    });
+    return {
+      account,
+      name: accountNameOf(account, accounts),
+      openingBalance: group.opening / 100,
+      postings: sorted,
+      totalDebit: totalDebit / 100,
+      totalCredit: totalCredit / 100,
+      closingBalance: balance / 100,
+    };
+  })
+    .filter(entry => entry.postings.length > 0 || toCents(entry.openingBalance) !== 0)
+    .sort((a, b) => a.account.localeCompare(b.account));
+};
+
+/**
+ * Summarizes the general ledger as one row per account: opening balance, debits and credits
+ * of the period, and closing balance.
+ */
+export const buildTrialBalance = (postings: LedgerPosting[], period: LedgerPeriod, accounts: Account[]): TrialBalanceRow[] =>
+  buildGeneralLedger(postings, period, accounts).map(entry => ({
+    account: entry.account,
+    name: entry.name,
+    openingBalance: entry.openingBalance,
+    debit: entry.totalDebit,
+    credit: entry.totalCredit,
+    closingBalance: entry.closingBalance,
+  }));
+
+/** True if the trial balance's total debits equal its total credits. */
+export const isTrialBalanceBalanced = (rows: TrialBalanceRow[]): boolean =>
+  rows.reduce((sum, row) => sum + toCents(row.debit), 0) === rows.reduce((sum, row) => sum + toCents(row.credit), 0);
+
+/**
+ * Converts the general ledger to a table (GENERAL_LEDGER_HEADERS): for each account an
+ * opening balance row, its postings and a total row.
+ */
+export const generalLedgerToTable = (ledger: GeneralLedgerAccount[], period: LedgerPeriod): ParsedCsvData => ({
+  headers: GENERAL_LEDGER_HEADERS,
+  rows: ledger.flatMap(entry => {
+    const { account, name } = entry;
+    return [
+      [account, name, period.from, 'Saldo inicial', '', '', '', formatAmountCell(entry.openingBalance)],
+      ...entry.postings.map(posting => [
+        account,
+        name,
+        posting.date,
+        posting.description,
+        posting.source,
+        formatAmountCell(posting.debit),
+        formatAmountCell(posting.credit),
+        formatAmountCell(posting.balance),
+      ]),
+      [account, name, period.to, 'Total cuenta', '', formatAmountCell(entry.totalDebit), formatAmountCell(entry.totalCredit), formatAmountCell(entry.closingBalance)],
+    ];
+  }),
+});
+
+/** Converts the trial balance to a table (TRIAL_BALANCE_HEADERS) ending with a totals row. */
+export const trialBalanceToTable = (rows: TrialBalanceRow[]): ParsedCsvData => {
+  const total = (field: 'openingBalance' | 'debit' | 'credit' | 'closingBalance') =>
+    rows.reduce((sum, row) => sum + toCents(row[field]), 0) / 100;
+  return {
+    headers: TRIAL_BALANCE_HEADERS,
+    rows: [
+      ...rows.map(row => [
+        row.account,
+        row.name,
+        formatAmountCell(row.openingBalance),
+        formatAmountCell(row.debit),
+        formatAmountCell(row.credit),
+        formatAmountCell(row.closingBalance),
+      ]),
+      ['Total', '', formatAmountCell(total('openingBalance')), formatAmountCell(total('debit')), formatAmountCell(total('credit')), formatAmountCell(total('closingBalance'))],
+    ],
+  };
+};
+
+/** Describes a period for file names and banners, e.g. "2025-01-01 a 2025-03-31". */
+export const formatLedgerPeriod = (period: LedgerPeriod): string => {
+  if (period.from && period.to) return `${period.from} a ${period.to}`;
+  if (period.from) return `desde ${period.from}`;
+  if (period.to) return `hasta ${period.to}`;
+  return 'todas las fechas';
+};
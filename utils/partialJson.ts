@@ -0,0 +1,41 @@
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t',
+};
+
+/**
+ * Reads the value of a top-level string field from a JSON object that may still be incomplete,
+ * as received while a model response is streaming in.
+ * Decodes escape sequences and stops at the closing quote or at the end of the available text
+ * (an escape sequence cut off at the end is dropped until more text arrives).
+ * @param partialJson The JSON text received so far.
+ * @param fieldName The field to read, e.g. 'chat_message'.
+ * @returns The decoded (possibly partial) string value, or null if the field has not started yet or is not a string.
+ */
+export const extractPartialJsonStringField = (partialJson: string, fieldName: string): string | null => {
+  const fieldStart = new RegExp(`"${fieldName}"\\s*:\\s*"`).exec(partialJson);
+  if (!fieldStart) return null;
+
+  let result = '';
+  let i = fieldStart.index + fieldStart[0].length;
+  while (i < partialJson.length) {
+    const char = partialJson[i];
+    if (char === '"') return result; // Closing quote: value complete
+    if (char !== '\\') {
+      result += char;
+      i++;
+      continue;
+    }
+    const escapeChar = partialJson[i + 1];
+    if (escapeChar === undefined) break;
+    if (escapeChar === 'u') {
+      const hex = partialJson.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+    } else {
+      result += SIMPLE_ESCAPES[escapeChar] ?? escapeChar;
+      i += 2;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzePdfText, PdfTextItem, pdfTableToCsv } from './pdfParser';
+
+// A run of 10 pt text, 5 pt per character
+const item = (text: string, x: number, y: number): PdfTextItem => ({ text, x, y, width: text.length * 5, height: 10 });
+
+const row = (y: number, date: string, concept: string, amount: string): PdfTextItem[] =>
+  [item(date, 50, y), item(concept, 150, y), item(amount, 400, y)];
+
+const STATEMENT_PAGE = [
+  item('Extracto', 50, 800),
+  item('de cuenta', 95, 800),
+  ...row(700, 'Fecha', 'Concepto', 'Importe'),
+  ...row(685, '2025-03-01', 'Transferencia', '1.234,56'),
+  item('2025-03-02', 50, 670), item('Recibo', 150, 670), item('luz', 185, 670), item('-45,00', 400, 670),
+  item('marzo', 150, 658), // The concept above, wrapped onto a second line
+  ...row(645, '2025-03-03', 'Cuota', '(12,00)'),
+  item('Saldo final: 1.177,56', 50, 500),
+];
+
+describe('analyzePdfText', () => {
+  it('rebuilds the lines of a page and reads aligned columns as a table', () => {
+    const result = analyzePdfText([STATEMENT_PAGE]);
+    assert.equal(result.pageCount, 1);
+    assert.equal(result.text.split('\n')[0], 'Extracto de cuenta');
+    assert.deepEqual(result.tables, [{
+      page: 1,
+      headers: ['Fecha', 'Concepto', 'Importe'],
+      rows: [
+        ['2025-03-01', 'Transferencia', '1.234,56'],
+        ['2025-03-02', 'Recibo luz marzo', '-45,00'],
+        ['2025-03-03', 'Cuota', '(12,00)'],
+      ],
+    }]);
+  });
+
+  it('merges a table that continues on the next page under the same header', () => {
+    const nextPage = [...row(780, 'Fecha', 'Concepto', 'Importe'), ...row(765, '2025-03-04', 'Nómina', '2.000,00')];
+    const { tables } = analyzePdfText([STATEMENT_PAGE, nextPage]);
+    assert.equal(tables.length, 1);
+    assert.deepEqual(tables[0].rows.map(cells => cells[0]), ['2025-03-01', '2025-03-02', '2025-03-03', '2025-03-04']);
+  });
+
+  it('returns no text for pages without a text layer', () => {
+    assert.deepEqual(analyzePdfText([[], []]), { pageCount: 2, text: '', tables: [] });
+  });
+});
+
+describe('pdfTableToCsv', () => {
+  it('writes numbers with a decimal point, whatever separators the PDF used', () => {
+    const table = {
+      page: 1,
+      headers: ['Fecha', 'Importe'],
+      rows: [['2025-03-01', '1.234,56'], ['2025-03-02', '1,234.56'], ['2025-03-03', '(12,00)'], ['2025-03-04', '12-'], ['2025-03-05', '1.234'], ['2025-03-06', '1.23.4']],
+    };
+    assert.equal(pdfTableToCsv(table), [
+      'Fecha,Importe',
+      '2025-03-01,1234.56',
+      '2025-03-02,1234.56',
+      '2025-03-03,-12.00',
+      '2025-03-04,-12',
+      '2025-03-05,1234',
+      '2025-03-06,1.23.4',
+    ].join('\n'));
+  });
+});
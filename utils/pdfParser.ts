@@ -0,0 +1,261 @@
+import { serializeCsv } from './tabularDataParser';
+
+/** A run of text on a PDF page, in PDF units (points); y grows upwards from the bottom of the page. */
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number; // Font size
+}
+
+/** A tabular region found on one or more consecutive pages. */
+export interface PdfTable {
+  page: number; // First page of the table, from 1
+  headers: string[];
+  rows: string[][];
+}
+
+export interface PdfParseResult {
+  pageCount: number;
+  text: string; // '' when the PDF has no text layer (e.g. a scan)
+  tables: PdfTable[];
+}
+
+interface Segment {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface Line {
+  y: number;
+  height: number;
+  segments: Segment[]; // Runs of text separated by a gap wide enough to be a column break
+}
+
+const SAME_LINE_TOLERANCE_EM = 0.5; // Items whose baselines differ by less than this belong to one line
+const WORD_GAP_EM = 0.15; // A gap at least this wide between two items is a space
+const COLUMN_GAP_EM = 0.9; // A gap at least this wide between two items is a column break
+const PARAGRAPH_GAP_EM = 2.5; // A larger distance between two lines ends a table
+const COLUMN_OVERLAP_TOLERANCE = 1; // Points
+
+const joinWithGap = (left: string, right: string, gap: number, height: number): string =>
+  gap >= height * WORD_GAP_EM && !/\s$/.test(left) && !/^\s/.test(right) ? `${left} ${right}` : left + right;
+
+/** Groups the items of a page into lines, top to bottom, and each line into segments. */
+const buildLines = (items: PdfTextItem[]): Line[] => {
+  const sorted = items.filter(item => item.text.trim() !== '').sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PdfTextItem[][] = [];
+  for (const item of sorted) {
+    const current = rows[rows.length - 1];
+    const tolerance = Math.max(1, Math.min(item.height, current?.[0].height ?? item.height) * SAME_LINE_TOLERANCE_EM);
+    if (current && Math.abs(current[0].y - item.y) <= tolerance) {
+      current.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+  return rows.map(row => {
+    const lineItems = row.sort((a, b) => a.x - b.x);
+    const height = Math.max(...lineItems.map(item => item.height), 1);
+    const segments: Segment[] = [];
+    for (const item of lineItems) {
+      const last = segments[segments.length - 1];
+      const gap = last ? item.x - last.x1 : Infinity;
+      if (last && gap < height * COLUMN_GAP_EM) {
+        last.text = joinWithGap(last.text, item.text, gap, height);
+        last.x1 = Math.max(last.x1, item.x + item.width);
+      } else {
+        segments.push({ text: item.text, x0: item.x, x1: item.x + item.width });
+      }
+    }
+    segments.forEach(segment => { segment.text = segment.text.replace(/\s+/g, ' ').trim(); });
+    return { y: lineItems[0].y, height, segments };
+  });
+};
+
+const lineText = (line: Line): string => line.segments.map(segment => segment.text).join(' ');
+
+/**
+ * Splits a page's lines into blocks of consecutive lines with two or more segments. A single-segment
+ * line between two such lines is kept as a continuation (e.g. a wrapped description).
+ */
+const findTableBlocks = (lines: Line[]): { lines: Line[]; continuations: Set<Line> }[] => {
+  const blocks: { lines: Line[]; continuations: Set<Line> }[] = [];
+  let current: { lines: Line[]; continuations: Set<Line> } | null = null;
+  const isClose = (above: Line, below: Line) => above.y - below.y <= Math.max(above.height, below.height) * PARAGRAPH_GAP_EM;
+
+  lines.forEach((line, index) => {
+    const previous = current?.lines[current.lines.length - 1];
+    const next = lines[index + 1];
+    if (current && previous && !isClose(previous, line)) {
+      blocks.push(current);
+      current = null;
+    }
+    if (line.segments.length >= 2) {
+      if (!current) current = { lines: [], continuations: new Set() };
+      current.lines.push(line);
+    } else if (current && next && next.segments.length >= 2 && isClose(line, next)) {
+      current.lines.push(line);
+      current.continuations.add(line);
+    } else if (current) {
+      blocks.push(current);
+      current = null;
+    }
+  });
+  if (current) blocks.push(current);
+  return blocks;
+};
+
+/** Column ranges of a block: the union of overlapping segment ranges, left to right. */
+const findColumns = (lines: Line[]): { x0: number; x1: number }[] => {
+  const ranges = lines.flatMap(line => line.segments.map(({ x0, x1 }) => ({ x0, x1 }))).sort((a, b) => a.x0 - b.x0);
+  const columns: { x0: number; x1: number }[] = [];
+  for (const range of ranges) {
+    const last = columns[columns.length - 1];
+    if (last && range.x0 <= last.x1 + COLUMN_OVERLAP_TOLERANCE) {
+      last.x1 = Math.max(last.x1, range.x1);
+    } else {
+      columns.push({ ...range });
+    }
+  }
+  return columns;
+};
+
+const toTable = (page: number, block: { lines: Line[]; continuations: Set<Line> }): PdfTable | null => {
+  const columns = findColumns(block.lines);
+  if (columns.length < 2) return null;
+  const cellsOf = (line: Line): string[] => {
+    const cells = columns.map(() => '');
+    line.segments.forEach(segment => {
+      const column = columns.findIndex(c => segment.x0 <= c.x1 + COLUMN_OVERLAP_TOLERANCE && segment.x1 >= c.x0 - COLUMN_OVERLAP_TOLERANCE);
+      if (column >= 0) cells[column] = cells[column] ? `${cells[column]} ${segment.text}` : segment.text;
+    });
+    return cells;
+  };
+
+  const rows: string[][] = [];
+  for (const line of block.lines) {
+    const cells = cellsOf(line);
+    const previous = rows[rows.length - 1];
+    if (block.continuations.has(line) && previous) {
+      cells.forEach((cell, index) => { if (cell) previous[index] = previous[index] ? `${previous[index]} ${cell}` : cell; });
+    } else {
+      rows.push(cells);
+    }
+  }
+  if (rows.length < 2) return null;
+  const [headerCells, ...dataRows] = rows;
+  return { page, headers: headerCells.map((header, index) => header || `Columna ${index + 1}`), rows: dataRows };
+};
+
+const sameHeaders = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((header, index) => header.toLowerCase() === b[index].toLowerCase());
+
+/**
+ * Reads the text and the tables of a PDF from the positioned text of its pages
+ * (see extractPdfTextItems). Lines are rebuilt from the items' baselines, and runs of lines
+ * whose text falls into two or more aligned columns become tables, with the first line as
+ * the header. A table that continues on the next page with the same header is merged.
+ * @param pages The text items of each page, in page order.
+ */
+export const analyzePdfText = (pages: PdfTextItem[][]): PdfParseResult => {
+  const tables: PdfTable[] = [];
+  const pageTexts: string[] = [];
+  pages.forEach((items, pageIndex) => {
+    const lines = buildLines(items);
+    pageTexts.push(lines.map(lineText).join('\n'));
+    findTableBlocks(lines).forEach(block => {
+      const table = toTable(pageIndex + 1, block);
+      if (!table) return;
+      const previous = tables[tables.length - 1];
+      if (previous && previous.page < table.page && sameHeaders(previous.headers, table.headers)) {
+        previous.rows.push(...table.rows);
+      } else {
+        tables.push(table);
+      }
+    });
+  });
+  return { pageCount: pages.length, text: pageTexts.filter(text => text !== '').join('\n\n'), tables };
+};
+
+/**
+ * Loads PDF.js on demand. Importing its worker module registers it on globalThis, so
+ * PDF.js parses in the page itself: nothing is fetched from a separate worker URL or sent elsewhere.
+ */
+const loadPdfJs = async () => {
+  const [pdfjs] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs')]);
+  return pdfjs;
+};
+
+/**
+ * Extracts the positioned text of every page of a PDF.
+ * @throws Error if the file is not a PDF, is damaged or is password protected.
+ */
+export const extractPdfTextItems = async (arrayBuffer: ArrayBuffer): Promise<PdfTextItem[][]> => {
+  const pdfjs = await loadPdfJs();
+  const document = await pdfjs.getDocument({ data: new Uint8Array(arrayBuffer), isEvalSupported: false }).promise;
+  try {
+    const pages: PdfTextItem[][] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(content.items.flatMap(item => {
+        if (!('str' in item)) return []; // Marked-content markers carry no text
+        const [, , c, d, x, y] = item.transform as number[];
+        return [{ text: item.str, x, y, width: item.width, height: item.height || Math.hypot(c, d) }];
+      }));
+    }
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+};
+
+/**
+ * Parses a PDF (from ArrayBuffer) into its text and the tables found in it. Runs in the browser.
+ * @throws Error if the file cannot be read as a PDF.
+ */
+export const parsePdf = async (arrayBuffer: ArrayBuffer): Promise<PdfParseResult> =>
+  analyzePdfText(await extractPdfTextItems(arrayBuffer));
+
+const NUMBER_CELL = /^([-+]?)\(?(\d[\d.,]*)\)?(-?)$/;
+
+/**
+ * Reads a number written with any common separators: "1.234,56", "1,234.56", "(45,00)", "12-".
+ * A single separator followed by exactly three digits is a thousands separator ("1.234" is 1234).
+ * @returns The number with a dot as decimal separator and no thousands separators, or null.
+ */
+const normalizeNumberCell = (value: string): string | null => {
+  const compact = value.replace(/\s/g, '');
+  const match = NUMBER_CELL.exec(compact);
+  if (!match) return null;
+  const [, sign, digits, trailingMinus] = match;
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  let decimalIndex = Math.max(lastDot, lastComma);
+  if (lastDot === -1 || lastComma === -1) { // At most one kind of separator
+    const separator = lastDot >= 0 ? '.' : ',';
+    const isThousands = digits.split(separator).length > 2 || digits.length - decimalIndex - 1 === 3;
+    if (decimalIndex === -1 || isThousands) decimalIndex = -1;
+  }
+  const integerPart = decimalIndex === -1 ? digits : digits.slice(0, decimalIndex);
+  const fraction = decimalIndex === -1 ? '' : digits.slice(decimalIndex + 1);
+  const groups = integerPart.split(/[.,]/);
+  const hasValidGroups = groups.length === 1 ||
+    (new Set(integerPart.replace(/\d/g, '')).size === 1 && groups[0].length <= 3 && groups.slice(1).every(group => group.length === 3));
+  if (!/^\d*$/.test(fraction) || !hasValidGroups) {
+    return null;
+  }
+  const isNegative = sign === '-' || trailingMinus === '-' || (compact.startsWith('(') && compact.endsWith(')'));
+  return `${isNegative ? '-' : ''}${groups.join('')}${fraction ? `.${fraction}` : ''}`;
+};
+
+/** Numbers are rewritten by normalizeNumberCell; other cells are kept on one line. */
+const toCsvCell = (value: string): string =>
+  normalizeNumberCell(value) ?? value.replace(/\s+/g, ' ').trim();
+
+/** CSV content of a detected table. */
+export const pdfTableToCsv = (table: PdfTable): string =>
+  serializeCsv({ headers: table.headers.map(toCsvCell), rows: table.rows.map(row => row.map(toCsvCell)) });
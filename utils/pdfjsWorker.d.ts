@@ -0,0 +1,2 @@
+// The PDF.js worker bundle ships without type declarations; it is only imported for its side effect (see loadPdfJs in pdfParser.ts)
+declare module 'pdfjs-dist/build/pdf.worker.min.mjs';
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReceiptRecord } from '../types';
+import {
+  appendReceiptToExpenses, DEFAULT_RECEIPT_POSTING_ACCOUNTS, EXPENSE_HEADERS, isExpensesTableContent, parseReceiptExtraction, ReceiptError,
+  receiptToJournalEntryProposal, validateReceipt,
+} from './receipts';
+
+const receipt = (overrides: Partial<ReceiptRecord> = {}): ReceiptRecord => ({
+  vendor: 'Papelería Sol',
+  taxId: 'B12345678',
+  date: '2025-03-14',
+  lineItems: [
+    { description: 'Folios', quantity: 2, unitPrice: 4.5, amount: 9 },
+    { description: 'Tóner, negro', quantity: 1, unitPrice: 31, amount: 31 },
+  ],
+  subtotal: 40,
+  tax: 8.4,
+  total: 48.4,
+  currency: 'EUR',
+  paymentMethod: 'Tarjeta',
+  ...overrides,
+});
+
+describe('parseReceiptExtraction', () => {
+  it('reads amounts written as text and fills in missing fields', () => {
+    const { receipt: extracted } = parseReceiptExtraction({
+      vendor: ' Bar Luna ', date: '2025-03-14', subtotal: '10,00 €', tax: 1, total: '11,00',
+      lineItems: [{ description: 'Menú', unitPrice: '10,00', amount: 10 }, 'not an item'],
+    });
+    assert.deepEqual(extracted, {
+      vendor: 'Bar Luna', taxId: '', date: '2025-03-14',
+      lineItems: [{ description: 'Menú', quantity: 1, unitPrice: 10, amount: 10 }],
+      subtotal: 10, tax: 1, total: 11, currency: 'EUR', paymentMethod: '',
+    });
+  });
+
+  it('returns no receipt when the model found none or answered something else', () => {
+    assert.deepEqual(parseReceiptExtraction({ found: false, message: 'La imagen está borrosa.' }), { receipt: null, message: 'La imagen está borrosa.' });
+    assert.equal(parseReceiptExtraction('recibo').receipt, null);
+    assert.equal(parseReceiptExtraction(null).receipt, null);
+  });
+});
+
+describe('validateReceipt', () => {
+  it('accepts a receipt whose amounts add up', () => {
+    assert.deepEqual(validateReceipt(receipt()), []);
+  });
+
+  it('reports lines, subtotal and total that do not add up', () => {
+    const problems = validateReceipt(receipt({
+      lineItems: [{ description: 'Folios', quantity: 2, unitPrice: 4.5, amount: 10 }],
+      total: 50,
+    }));
+    assert.equal(problems.length, 3);
+    assert.match(problems[0], /^Línea 1: cantidad × precio/);
+    assert.match(problems[1], /^Las líneas suman 10,00, pero la base imponible es 40,00/);
+    assert.match(problems[2], /no coincide con el total \(50,00\)/);
+  });
+
+  it('reports missing data and does not compare invalid amounts', () => {
+    const problems = validateReceipt(receipt({ vendor: ' ', date: '14/03/2025', currency: 'euros', lineItems: [], tax: NaN }));
+    assert.deepEqual(problems, [
+      'Falta el proveedor.',
+      'La fecha debe tener el formato AAAA-MM-DD.',
+      'La moneda debe ser un código de tres letras, p. ej. EUR.',
+      'Añade al menos una línea.',
+      'La base imponible, los impuestos o el total no es un número válido.',
+    ]);
+  });
+});
+
+describe('appendReceiptToExpenses', () => {
+  it('turns an empty document into an expenses table', () => {
+    assert.equal(
+      appendReceiptToExpenses('', receipt()),
+      `${EXPENSE_HEADERS.join(',')}\n2025-03-14,Papelería Sol,B12345678,"Folios; Tóner, negro",40.00,8.40,48.40,EUR,Tarjeta`
+    );
+  });
+
+  it("follows the table's own columns, recognized by name", () => {
+    const content = 'Date,Importe,Notas,Proveedor\n2025-03-01,12.00,,Bar Luna';
+    assert.equal(appendReceiptToExpenses(content, receipt()), `${content}\n2025-03-14,48.40,,Papelería Sol`);
+  });
+
+  it('rejects documents without a date and a total column', () => {
+    assert.throws(() => appendReceiptToExpenses('Proveedor,Concepto\nBar Luna,Menú', receipt()), ReceiptError);
+    assert.equal(isExpensesTableContent('Proveedor,Concepto'), false);
+    assert.equal(isExpensesTableContent('Fecha,Importe total'), true);
+    assert.equal(isExpensesTableContent(''), true);
+  });
+});
+
+describe('receiptToJournalEntryProposal', () => {
+  it('debits the subtotal and tax against the total, leaving out a zero tax', () => {
+    assert.deepEqual(receiptToJournalEntryProposal(receipt(), DEFAULT_RECEIPT_POSTING_ACCOUNTS).lines.map(line => [line.account, line.debit, line.credit]), [
+      ['629', 40, 0],
+      ['472', 8.4, 0],
+      ['572', 0, 48.4],
+    ]);
+    const untaxed = receiptToJournalEntryProposal(receipt({ tax: 0, total: 40 }), DEFAULT_RECEIPT_POSTING_ACCOUNTS);
+    assert.equal(untaxed.memo, 'Papelería Sol: Folios; Tóner, negro');
+    assert.deepEqual(untaxed.lines.map(line => line.account), ['629', '572']);
+  });
+});
@@ -0,0 +1,218 @@
+import { JournalEntryProposal, ReceiptExtraction, ReceiptLineItem, ReceiptRecord } from '../types';
+import { DEFAULT_CURRENCY } from '../constants';
+import { parseCsv, serializeCsv } from './tabularDataParser';
+import { formatAmount, parseAmount } from './journal';
+
+/** Columns of a new expenses document; existing expense tables keep their own columns. */
+export const EXPENSE_HEADERS = ['Fecha', 'Proveedor', 'NIF', 'Concepto', 'Base imponible', 'Impuestos', 'Total', 'Moneda', 'Forma de pago'];
+
+/**
+ * Thrown when a receipt cannot be added to an expenses document. The message is shown to the user.
+ */
+export class ReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReceiptError';
+  }
+}
+
+type ExpenseField = 'date' | 'vendor' | 'taxId' | 'description' | 'subtotal' | 'tax' | 'total' | 'currency' | 'paymentMethod';
+
+// Header names recognized for each field, compared without case or accents; the first one is the EXPENSE_HEADERS name
+const EXPENSE_COLUMN_ALIASES: Record<ExpenseField, string[]> = {
+  date: ['fecha', 'date', 'fecha factura'],
+  vendor: ['proveedor', 'vendor', 'comercio', 'emisor', 'supplier'],
+  taxId: ['nif', 'cif', 'nif proveedor', 'tax id', 'vat'],
+  description: ['concepto', 'descripcion', 'description', 'detalle'],
+  subtotal: ['base imponible', 'base', 'subtotal', 'neto'],
+  tax: ['impuestos', 'iva', 'tax', 'cuota iva'],
+  total: ['total', 'importe', 'amount', 'importe total'],
+  currency: ['moneda', 'currency', 'divisa'],
+  paymentMethod: ['forma de pago', 'metodo de pago', 'payment method', 'pago'],
+};
+
+// Amounts are compared in cents so that 0.1 + 0.2 adds up to 0.3
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/** An empty line item. */
+export const createReceiptLineItem = (): ReceiptLineItem => ({ description: '', quantity: 1, unitPrice: 0, amount: 0 });
+
+/** Sum of the line item amounts. */
+export const getReceiptLineItemsTotal = (receipt: ReceiptRecord): number =>
+  receipt.lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+const readText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const readNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseAmount(value.replace(/[^\d.,-]/g, ''));
+  return 0;
+};
+
+/**
+ * Turns the JSON object returned by the model into an extraction result. Missing text fields
+ * become '', missing amounts 0 and amounts given as text ("12,50 €") are parsed; the record is
+ * not checked for consistency (see validateReceipt).
+ * @param value The parsed JSON of the model's answer (see AI_RECEIPT_EXTRACTION_INSTRUCTION).
+ */
+export const parseReceiptExtraction = (value: unknown): ReceiptExtraction => {
+  if (typeof value !== 'object' || value === null) {
+    return { receipt: null, message: "La respuesta de la IA no tiene el formato esperado. Inténtalo de nuevo." };
+  }
+  const data = value as Record<string, unknown>;
+  const message = readText(data.message);
+  if (data.found === false) {
+    return { receipt: null, message: message || "No se encontró un recibo o factura legible en la imagen." };
+  }
+  const lineItems = Array.isArray(data.lineItems)
+    ? data.lineItems
+      .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+      .map((item): ReceiptLineItem => ({
+        description: readText(item.description),
+        quantity: item.quantity === undefined ? 1 : readNumber(item.quantity),
+        unitPrice: readNumber(item.unitPrice),
+        amount: readNumber(item.amount),
+      }))
+    : [];
+  return {
+    receipt: {
+      vendor: readText(data.vendor),
+      taxId: readText(data.taxId),
+      date: readText(data.date),
+      lineItems,
+      subtotal: readNumber(data.subtotal),
+      tax: readNumber(data.tax),
+      total: readNumber(data.total),
+      currency: (readText(data.currency) || DEFAULT_CURRENCY).toUpperCase(),
+      paymentMethod: readText(data.paymentMethod),
+    },
+    message: message || "Datos extraídos. Revísalos antes de guardarlos.",
+  };
+};
+
+/**
+ * Lists what prevents a receipt from being added to an expenses document: missing data and
+ * amounts that do not add up (line items against the subtotal, subtotal plus tax against the total).
+ * @returns User-facing problems; empty if the receipt can be added.
+ */
+export const validateReceipt = (receipt: ReceiptRecord): string[] => {
+  const problems: string[] = [];
+  if (receipt.vendor.trim() === '') problems.push("Falta el proveedor.");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(receipt.date) || isNaN(new Date(receipt.date).getTime())) {
+    problems.push("La fecha debe tener el formato AAAA-MM-DD.");
+  }
+  if (!/^[A-Z]{3}$/.test(receipt.currency)) problems.push("La moneda debe ser un código de tres letras, p. ej. EUR.");
+  if (receipt.lineItems.length === 0) problems.push("Añade al menos una línea.");
+
+  let hasInvalidAmount = [receipt.subtotal, receipt.tax, receipt.total].some(amount => isNaN(amount));
+  if (hasInvalidAmount) problems.push("La base imponible, los impuestos o el total no es un número válido.");
+  receipt.lineItems.forEach((item, index) => {
+    const label = `Línea ${index + 1}`;
+    if (item.description.trim() === '') problems.push(`${label}: falta la descripción.`);
+    if ([item.quantity, item.unitPrice, item.amount].some(amount => isNaN(amount))) {
+      hasInvalidAmount = true;
+      problems.push(`${label}: la cantidad, el precio o el importe no es un número válido.`);
+    } else if (toCents(item.unitPrice) !== 0 && toCents(item.quantity * item.unitPrice) !== toCents(item.amount)) {
+      problems.push(`${label}: cantidad × precio (${formatAmount(item.quantity * item.unitPrice)}) no coincide con el importe (${formatAmount(item.amount)}).`);
+    }
+  });
+  if (hasInvalidAmount) return problems;
+
+  const lineItemsTotal = getReceiptLineItemsTotal(receipt);
+  if (receipt.lineItems.length > 0 && toCents(lineItemsTotal) !== toCents(receipt.subtotal)) {
+    problems.push(`Las líneas suman ${formatAmount(lineItemsTotal)}, pero la base imponible es ${formatAmount(receipt.subtotal)}.`);
+  }
+  if (toCents(receipt.subtotal) + toCents(receipt.tax) !== toCents(receipt.total)) {
+    problems.push(`Base imponible más impuestos (${formatAmount(receipt.subtotal + receipt.tax)}) no coincide con el total (${formatAmount(receipt.total)}).`);
+  }
+  return problems;
+};
+
+// The line item descriptions in one cell
+const describeLineItems = (receipt: ReceiptRecord): string =>
+  receipt.lineItems.map(item => item.description.trim()).filter(Boolean).join('; ');
+
+const getFieldValue = (receipt: ReceiptRecord, field: ExpenseField): string => {
+  switch (field) {
+    case 'date': return receipt.date;
+    case 'vendor': return receipt.vendor;
+    case 'taxId': return receipt.taxId;
+    case 'description': return describeLineItems(receipt);
+    case 'subtotal': return receipt.subtotal.toFixed(2);
+    case 'tax': return receipt.tax.toFixed(2);
+    case 'total': return receipt.total.toFixed(2);
+    case 'currency': return receipt.currency;
+    case 'paymentMethod': return receipt.paymentMethod;
+  }
+};
+
+/**
+ * Adds a receipt as one row at the end of an expenses table. The row follows the table's own
+ * columns, recognized by name (see EXPENSE_COLUMN_ALIASES); other columns are left empty, and
+ * the line item descriptions are joined into the description column.
+ * @param content The current content; an empty document becomes a table with EXPENSE_HEADERS.
+ * @returns The new content.
+ * @throws ReceiptError if the document is not a table with at least a date and a total column.
+ */
+export const appendReceiptToExpenses = (content: string, receipt: ReceiptRecord): string => {
+  const table = content.trim() === '' ? { headers: EXPENSE_HEADERS, rows: [] } : parseCsv(content);
+  if (!table) {
+    throw new ReceiptError("El archivo elegido no es una tabla CSV. Elige una tabla de gastos o crea una nueva.");
+  }
+  const columnFields = table.headers.map(header =>
+    (Object.keys(EXPENSE_COLUMN_ALIASES) as ExpenseField[]).find(field => EXPENSE_COLUMN_ALIASES[field].includes(normalizeHeader(header))) ?? null
+  );
+  if (!columnFields.includes('date') || !columnFields.includes('total')) {
+    throw new ReceiptError(`El archivo elegido no tiene columnas de fecha y total (se esperaban, p. ej., "${EXPENSE_HEADERS[0]}" y "${EXPENSE_HEADERS[6]}").`);
+  }
+  const filled = new Set<ExpenseField>();
+  const row = columnFields.map(field => {
+    // A field goes to the first column that matches it
+    if (!field || filled.has(field)) return '';
+    filled.add(field);
+    return getFieldValue(receipt, field);
+  });
+  return serializeCsv({ headers: table.headers, rows: [...table.rows, row] });
+};
+
+/**
+ * True if the document can take receipts: an empty document or a table with date and total columns.
+ */
+export const isExpensesTableContent = (content: string): boolean => {
+  if (content.trim() === '') return true;
+  const headers = (parseCsv(content)?.headers ?? []).map(normalizeHeader);
+  const hasField = (field: ExpenseField) => headers.some(header => EXPENSE_COLUMN_ALIASES[field].includes(header));
+  return hasField('date') && hasField('total');
+};
+
+/** Accounts a receipt is posted to when it is approved into a journal. */
+export interface ReceiptPostingAccounts {
+  expense: string; // Debited with the subtotal
+  tax: string; // Debited with the tax, when there is any
+  payment: string; // Credited with the total (bank, cash or supplier)
+}
+
+// Spanish chart of accounts: other services, input VAT and banks
+export const DEFAULT_RECEIPT_POSTING_ACCOUNTS: ReceiptPostingAccounts = { expense: '629', tax: '472', payment: '572' };
+
+/**
+ * The journal entry recording a receipt: the subtotal to the expense account and the tax to the
+ * tax account, against the total in the payment account. It balances when the receipt passes validateReceipt.
+ */
+export const receiptToJournalEntryProposal = (receipt: ReceiptRecord, accounts: ReceiptPostingAccounts): JournalEntryProposal => {
+  const descriptions = describeLineItems(receipt);
+  const lines = [
+    { account: accounts.expense, debit: receipt.subtotal, credit: 0, currency: receipt.currency },
+    { account: accounts.tax, debit: receipt.tax, credit: 0, currency: receipt.currency },
+    { account: accounts.payment, debit: 0, credit: receipt.total, currency: receipt.currency },
+  ];
+  return {
+    date: receipt.date,
+    reference: '',
+    memo: descriptions ? `${receipt.vendor}: ${descriptions}` : receipt.vendor,
+    lines: lines.filter(line => toCents(line.debit) !== 0 || toCents(line.credit) !== 0),
+  };
+};
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppFile, JournalEntry } from '../types';
+import {
+  appendMissingLedgerTransaction, autoMatchTransactions, CashTransaction, getReconciliationTables, readCashTransactions,
+  resolveReconciliationMatches, summarizeReconciliation, toRowRef, validateManualMatch,
+} from './reconciliation';
+import { parseJournal, serializeJournal } from './journal';
+
+const movement = (row: number, date: string, amount: number, description = '', reference = ''): CashTransaction =>
+  ({ row, date, amount, description, reference });
+
+const file = (id: string, name: string, content: string): AppFile => ({ id, name, folderId: null, content, createdAt: new Date() });
+
+describe('readCashTransactions', () => {
+  it('reads amounts in the workspace locale', () => {
+    const read = readCashTransactions('Fecha,Concepto,Importe\n2025-01-10,Nómina,"1.234,56"\n2025-01-11,Luz,"-45,10"', 'statement', '', 'es-ES');
+    assert.deepEqual(read.rejectedRows, []);
+    assert.deepEqual(read.transactions.map(t => t.amount), [1234.56, -45.1]);
+  });
+});
+
+describe('getReconciliationTables', () => {
+  const workbook = '### Hoja: Banco\nFecha,Concepto,Importe\n2025-01-10,Nómina,=10*100\n\n### Hoja: Caja\nFecha,Concepto,Importe\n2025-01-11,Luz,-45.10';
+  const tables = getReconciliationTables([file('w', 'cuentas.xlsx', workbook), file('c', 'extracto.csv', 'Fecha,Importe\n2025-01-10,1000'), file('t', 'notas.txt', 'texto')], 'en-US');
+
+  it('lists each sheet of a workbook as a table of its own', () => {
+    assert.deepEqual(tables.map(table => [table.key, table.name, table.sheet]), [
+      ['w/Banco', 'cuentas.xlsx (Banco)', 'Banco'],
+      ['w/Caja', 'cuentas.xlsx (Caja)', 'Caja'],
+      ['c', 'extracto.csv', null],
+    ]);
+  });
+
+  it('reads the movements of a sheet with its formulas resolved', () => {
+    const read = readCashTransactions(tables[0].content, 'statement', '', 'en-US');
+    assert.deepEqual(read.transactions.map(t => [t.description, t.amount]), [['Nómina', 1000]]);
+  });
+});
+
+describe('autoMatchTransactions', () => {
+  it('matches the same amount within the date window, preferring the similar description', () => {
+    const statement = [movement(1, '2025-01-10', -120, 'RECIBO LUZ IBERDROLA'), movement(2, '2025-01-12', -120, 'TRANSF. PROVEEDOR SL')];
+    const ledger = [movement(1, '2025-01-11', -120, 'Pago proveedor S.L.'), movement(2, '2025-01-09', -120, 'Luz Iberdrola enero')];
+    const matches = autoMatchTransactions(statement, ledger, 3);
+    assert.deepEqual(matches.map(match => [match.statementRows[0].row, match.ledgerRows[0].row, match.method]), [[1, 2, 'auto'], [2, 1, 'auto']]);
+  });
+
+  it('leaves movements unmatched when the amounts differ or the dates are too far apart', () => {
+    const statement = [movement(1, '2025-01-10', -120), movement(2, '2025-01-10', 50)];
+    const ledger = [movement(1, '2025-01-20', -120), movement(2, '2025-01-10', 50.01)];
+    assert.deepEqual(autoMatchTransactions(statement, ledger, 3), []);
+  });
+});
+
+describe('validateManualMatch', () => {
+  it('accepts a bank movement split across several ledger rows that add up to it', () => {
+    assert.equal(validateManualMatch([movement(1, '2025-01-10', -0.3)], [movement(1, '2025-01-10', -0.1), movement(2, '2025-01-10', -0.2)]), null);
+  });
+
+  it('rejects totals that differ and empty sides', () => {
+    assert.match(validateManualMatch([movement(1, '2025-01-10', -100)], [movement(1, '2025-01-10', -90)])!, /no coinciden/);
+    assert.match(validateManualMatch([movement(1, '2025-01-10', -100)], [])!, /al menos un movimiento/);
+  });
+});
+
+describe('resolveReconciliationMatches', () => {
+  const statement = [movement(1, '2025-01-10', -100), movement(2, '2025-01-11', 40)];
+  const ledger = [movement(1, '2025-01-10', -60), movement(2, '2025-01-10', -40), movement(3, '2025-01-11', 40)];
+  const split = { id: 's', statementRows: [toRowRef(statement[0])], ledgerRows: [toRowRef(ledger[0]), toRowRef(ledger[1])], method: 'manual' as const };
+  const single = { id: 'm', statementRows: [toRowRef(statement[1])], ledgerRows: [toRowRef(ledger[2])], method: 'manual' as const };
+
+  it('counts manual and split matches as reconciled', () => {
+    const { resolved, stale } = resolveReconciliationMatches([split, single], statement, ledger);
+    assert.deepEqual(stale, []);
+    assert.deepEqual(summarizeReconciliation(statement, ledger, resolved), {
+      statementTotal: -60, ledgerTotal: -60, reconciledTotal: -60, unreconciledStatementTotal: 0, unreconciledLedgerTotal: 0, difference: 0,
+    });
+  });
+
+  it('follows a matched row that moved and marks a match whose row changed as stale', () => {
+    const moved = [movement(1, '2025-01-05', 7), ...statement.map(transaction => ({ ...transaction, row: transaction.row + 1 }))];
+    assert.equal(resolveReconciliationMatches([split], moved, ledger).resolved.length, 1);
+    const changed = [statement[0], { ...statement[1], amount: 41 }];
+    assert.deepEqual(resolveReconciliationMatches([split, single], changed, ledger).stale, [single]);
+  });
+});
+
+describe('appendMissingLedgerTransaction', () => {
+  const bankFee = movement(4, '2025-01-15', -12.5, 'Comisión mantenimiento', 'C-1');
+
+  it('adds a draft journal entry in the currency the journal uses for the bank account', () => {
+    const rent: JournalEntry = { id: '1', date: '2025-01-01', reference: '', memo: 'Alquiler', status: 'posted', lines: [
+      { account: '621', debit: 500, credit: 0, currency: 'USD' },
+      { account: '572 Bancos', debit: 0, credit: 500, currency: 'USD' },
+    ] };
+    const appended = appendMissingLedgerTransaction(serializeJournal([rent]), bankFee, '572', 'EUR');
+    const entry = parseJournal(appended.content)![1];
+    assert.equal(entry.status, 'draft');
+    assert.deepEqual(entry.lines, [
+      { account: '572', debit: 0, credit: 12.5, currency: 'USD' },
+      { account: '', debit: 12.5, credit: 0, currency: 'USD' },
+    ]);
+    assert.equal(appended.transaction.row, 3);
+  });
+
+  it('uses the workspace currency in a journal without bank account lines', () => {
+    const appended = appendMissingLedgerTransaction(serializeJournal([]), bankFee, '572', 'MXN');
+    assert.deepEqual(parseJournal(appended.content)![0].lines.map(line => line.currency), ['MXN', 'MXN']);
+  });
+
+  it('adds a row to a cash book, which then reads back as the same movement', () => {
+    const appended = appendMissingLedgerTransaction('Fecha,Concepto,Referencia,Cobros,Pagos\n2025-01-02,Venta,,100.00,', bankFee, '', 'EUR');
+    assert.equal(appended.content, 'Fecha,Concepto,Referencia,Cobros,Pagos\n2025-01-02,Venta,,100.00,\n2025-01-15,Comisión mantenimiento,C-1,,12.50');
+    const read = readCashTransactions(appended.content, 'ledger', '', 'es-ES');
+    assert.deepEqual(read.transactions[1], appended.transaction);
+  });
+});
@@ -0,0 +1,383 @@
+import { AppFile, JournalEntry, Reconciliation, ReconciliationMatch, ReconciliationRowRef } from '../types';
+import { generateId, isTabularFileName } from './helpers';
+import { parseCsv, serializeCsv } from './tabularDataParser';
+import { isJournalContent, parseJournal, serializeJournal, nextJournalEntryId } from './journal';
+import { parseLocaleAmount } from './columnTypes';
+import { getFileTables, parseLedgerDate, FileTable } from './ledger';
+
+/** Which file of a reconciliation a table is read from; the sign of debit/credit columns depends on it. */
+export type ReconciliationSide = 'statement' | 'ledger';
+
+/**
+ * A movement of the bank account, read from a row of the statement or of the ledger.
+ * Money in is positive on both sides.
+ */
+export interface CashTransaction {
+  row: number; // 1-based data row (after the header)
+  date: string; // YYYY-MM-DD
+  description: string;
+  reference: string;
+  amount: number;
+}
+
+export interface CashTransactionReadResult {
+  transactions: CashTransaction[];
+  rejectedRows: { row: number; reason: string }[];
+  hasAccountColumn: boolean; // The table mixes accounts, so it should be filtered by the bank account
+}
+
+/** A saved match whose rows were found in the current files. */
+export interface ResolvedReconciliationMatch {
+  match: ReconciliationMatch;
+  statementTransactions: CashTransaction[];
+  ledgerTransactions: CashTransaction[];
+}
+
+export interface ReconciliationSummary {
+  statementTotal: number; // Sum of the statement's movements
+  ledgerTotal: number; // Sum of the ledger's bank movements
+  reconciledTotal: number; // Sum of the matched movements (the same on both sides)
+  unreconciledStatementTotal: number; // Movements in the bank but not in the books
+  unreconciledLedgerTotal: number; // Movements in the books but not in the bank
+  difference: number; // statementTotal - ledgerTotal, explained by the unreconciled movements
+}
+
+/**
+ * Thrown when a file cannot be used in a reconciliation. The message is shown to the user.
+ */
+export class ReconciliationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReconciliationError';
+  }
+}
+
+export const DEFAULT_DATE_WINDOW_DAYS = 3;
+
+type ColumnField = 'date' | 'description' | 'reference' | 'account' | 'amount' | 'moneyIn' | 'moneyOut';
+
+// Header names of each column (compared lowercase, without accents). A bank's "debe"/"cargo" takes money
+// out of the account, while the ledger's "debe" on the bank account brings money in.
+const COMMON_COLUMNS: Record<Exclude<ColumnField, 'moneyIn' | 'moneyOut'>, string[]> = {
+  date: ['fecha', 'date', 'fecha contable', 'fecha operacion', 'fecha valor', 'booking date', 'posting date', 'value date'],
+  description: ['concepto', 'descripcion', 'description', 'memo', 'detalle', 'movimiento'],
+  reference: ['referencia', 'reference', 'ref', 'documento', 'n documento'],
+  account: ['cuenta', 'account', 'subcuenta', 'codigo cuenta', 'account code'],
+  amount: ['importe', 'amount', 'monto', 'valor'],
+};
+const MONEY_COLUMNS: Record<ReconciliationSide, { moneyIn: string[]; moneyOut: string[] }> = {
+  statement: { moneyIn: ['haber', 'abono', 'abonos', 'credit', 'ingresos', 'entradas'], moneyOut: ['debe', 'cargo', 'cargos', 'debit', 'gastos', 'salidas'] },
+  ledger: { moneyIn: ['debe', 'debit', 'cobros', 'entradas'], moneyOut: ['haber', 'credit', 'pagos', 'salidas'] },
+};
+
+const normalize = (value: string): string =>
+  value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Amounts are compared in cents so that 0.1 + 0.2 matches 0.3
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const sumAmounts = (transactions: CashTransaction[]): number =>
+  transactions.reduce((sum, transaction) => sum + toCents(transaction.amount), 0) / 100;
+
+const findColumns = (headers: string[], side: ReconciliationSide): Record<ColumnField, number> => {
+  const normalized = headers.map(normalize);
+  const aliases: Record<ColumnField, string[]> = { ...COMMON_COLUMNS, ...MONEY_COLUMNS[side] };
+  const find = (field: ColumnField) => normalized.findIndex(header => aliases[field].includes(header));
+  return {
+    date: find('date'),
+    description: find('description'),
+    reference: find('reference'),
+    account: find('account'),
+    amount: find('amount'),
+    moneyIn: find('moneyIn'),
+    moneyOut: find('moneyOut'),
+  };
+};
+
+/**
+ * Reads the bank movements of a statement or ledger table. Columns are recognized by their
+ * Spanish or English header; amounts come from a signed amount column or from separate money
+ * in/out columns. When the table has an account column (a journal or general ledger), only the
+ * rows of `bankAccount` and its subaccounts are read. Journal lines without an entry number
+ * take the date, concept and reference of the line above. Amounts are read in the workspace
+ * `locale` (see parseLocaleNumber).
+ * @throws ReconciliationError if the file is not a table or has no date or amount columns.
+ */
+export const readCashTransactions = (content: string, side: ReconciliationSide, bankAccount: string, locale: string): CashTransactionReadResult => {
+  const data = parseCsv(content);
+  if (!data) throw new ReconciliationError("El archivo está vacío o no tiene una fila de cabecera.");
+  const columns = findColumns(data.headers, side);
+  if (columns.date === -1) throw new ReconciliationError("No se encontró la columna de fecha (Fecha o Date).");
+  if (columns.amount === -1 && columns.moneyIn === -1 && columns.moneyOut === -1) {
+    throw new ReconciliationError(side === 'statement'
+      ? "No se encontró la columna del importe (Importe, o Cargo y Abono)."
+      : "No se encontró la columna del importe (Importe, o Debe y Haber).");
+  }
+  const isJournal = isJournalContent(content);
+  const accountFilter = bankAccount.trim();
+  const result: CashTransactionReadResult = { transactions: [], rejectedRows: [], hasAccountColumn: columns.account !== -1 };
+  let previous = { date: '', description: '', reference: '' };
+  data.rows.forEach((cells, index) => {
+    const row = index + 1;
+    const cell = (column: number) => (column === -1 ? '' : cells[column].trim());
+    const isContinuationRow = isJournal && cells[0].trim() === ''; // A journal line without entry number belongs to the entry above
+    const inherit = (field: keyof typeof previous, value: string) => (value === '' && isContinuationRow ? previous[field] : value);
+    const dateCell = inherit('date', cell(columns.date));
+    const description = inherit('description', cell(columns.description));
+    const reference = inherit('reference', cell(columns.reference));
+    previous = { date: dateCell, description, reference };
+
+    if (accountFilter !== '' && columns.account !== -1 && !cell(columns.account).startsWith(accountFilter)) return;
+    const amount = columns.amount !== -1
+      ? parseLocaleAmount(cell(columns.amount), locale)
+      : parseLocaleAmount(cell(columns.moneyIn), locale) - parseLocaleAmount(cell(columns.moneyOut), locale);
+    if (amount === 0 && dateCell === '') return; // Blank or subtotal row
+    const date = parseLedgerDate(dateCell);
+    if (!date) {
+      result.rejectedRows.push({ row, reason: `Fecha no válida: "${dateCell}".` });
+    } else if (isNaN(amount)) {
+      result.rejectedRows.push({ row, reason: "El importe no es un número válido." });
+    } else if (toCents(amount) !== 0) {
+      result.transactions.push({ row, date, description, reference, amount });
+    }
+  });
+  return result;
+};
+
+export const toRowRef = (transaction: CashTransaction): ReconciliationRowRef =>
+  ({ row: transaction.row, date: transaction.date, amount: transaction.amount });
+
+/**
+ * Finds the transaction a saved row reference points to: the one still at that row or, if rows
+ * moved, the only other free transaction with the same date and amount.
+ */
+const resolveRowRef = (ref: ReconciliationRowRef, byRow: Map<number, CashTransaction>, transactions: CashTransaction[], used: Set<number>): CashTransaction | null => {
+  const isSame = (transaction: CashTransaction) => transaction.date === ref.date && toCents(transaction.amount) === toCents(ref.amount);
+  const atRow = byRow.get(ref.row);
+  if (atRow && isSame(atRow) && !used.has(atRow.row)) return atRow;
+  const candidates = transactions.filter(transaction => isSame(transaction) && !used.has(transaction.row));
+  return candidates.length === 1 ? candidates[0] : null;
+};
+
+/**
+ * Applies the saved matches to the transactions currently in the files.
+ * @returns The matches whose rows were all found, and those that no longer fit the files
+ *   (a row was deleted or changed); stale matches are not counted as reconciled.
+ */
+export const resolveReconciliationMatches = (
+  matches: ReconciliationMatch[],
+  statementTransactions: CashTransaction[],
+  ledgerTransactions: CashTransaction[]
+): { resolved: ResolvedReconciliationMatch[]; stale: ReconciliationMatch[] } => {
+  const statementByRow = new Map(statementTransactions.map(transaction => [transaction.row, transaction]));
+  const ledgerByRow = new Map(ledgerTransactions.map(transaction => [transaction.row, transaction]));
+  const usedStatementRows = new Set<number>();
+  const usedLedgerRows = new Set<number>();
+  const resolved: ResolvedReconciliationMatch[] = [];
+  const stale: ReconciliationMatch[] = [];
+  matches.forEach(match => {
+    const statementSide: CashTransaction[] = [];
+    const ledgerSide: CashTransaction[] = [];
+    const found = match.statementRows.every(ref => {
+      const transaction = resolveRowRef(ref, statementByRow, statementTransactions, new Set([...usedStatementRows, ...statementSide.map(t => t.row)]));
+      if (transaction) statementSide.push(transaction);
+      return transaction !== null;
+    }) && match.ledgerRows.every(ref => {
+      const transaction = resolveRowRef(ref, ledgerByRow, ledgerTransactions, new Set([...usedLedgerRows, ...ledgerSide.map(t => t.row)]));
+      if (transaction) ledgerSide.push(transaction);
+      return transaction !== null;
+    });
+    if (!found) {
+      stale.push(match);
+      return;
+    }
+    statementSide.forEach(transaction => usedStatementRows.add(transaction.row));
+    ledgerSide.forEach(transaction => usedLedgerRows.add(transaction.row));
+    resolved.push({ match, statementTransactions: statementSide, ledgerTransactions: ledgerSide });
+  });
+  return { resolved, stale };
+};
+
+const descriptionBigrams = (value: string): Set<string> => {
+  const words = normalize(value).replace(/[^a-z0-9]+/g, ' ').trim();
+  const bigrams = new Set<string>();
+  words.split(' ').forEach(word => {
+    for (let i = 0; i < word.length - 1; i++) bigrams.add(word.slice(i, i + 2));
+  });
+  return bigrams;
+};
+
+/**
+ * How alike two descriptions are, from 0 to 1 (Dice coefficient of their letter pairs), so that
+ * "TRANSF. PROVEEDOR SL FRA 12" and "Pago proveedor S.L. factura 12" still score high.
+ */
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const bigramsA = descriptionBigrams(a);
+  const bigramsB = descriptionBigrams(b);
+  if (bigramsA.size === 0 || bigramsB.size === 0) return 0;
+  let shared = 0;
+  bigramsA.forEach(bigram => { if (bigramsB.has(bigram)) shared++; });
+  return (2 * shared) / (bigramsA.size + bigramsB.size);
+};
+
+const daysBetween = (a: string, b: string): number =>
+  Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime()) / 86400000;
+
+/**
+ * Proposes one-to-one matches between unmatched movements with the same amount and dates at most
+ * `dateWindowDays` apart. When a movement has several candidates, the pair with the most similar
+ * description (or the same reference) and the closest dates wins.
+ */
+export const autoMatchTransactions = (
+  statementTransactions: CashTransaction[],
+  ledgerTransactions: CashTransaction[],
+  dateWindowDays: number
+): ReconciliationMatch[] => {
+  const candidates: { statement: CashTransaction; ledger: CashTransaction; score: number }[] = [];
+  statementTransactions.forEach(statement => {
+    ledgerTransactions.forEach(ledger => {
+      if (toCents(statement.amount) !== toCents(ledger.amount)) return;
+      const days = daysBetween(statement.date, ledger.date);
+      if (days > dateWindowDays) return;
+      const sameReference = statement.reference !== '' && normalize(statement.reference) === normalize(ledger.reference);
+      const score = descriptionSimilarity(statement.description, ledger.description) + (sameReference ? 1 : 0) - (days / (dateWindowDays + 1)) * 0.5;
+      candidates.push({ statement, ledger, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+  const matchedStatementRows = new Set<number>();
+  const matchedLedgerRows = new Set<number>();
+  return candidates.flatMap(({ statement, ledger }) => {
+    if (matchedStatementRows.has(statement.row) || matchedLedgerRows.has(ledger.row)) return [];
+    matchedStatementRows.add(statement.row);
+    matchedLedgerRows.add(ledger.row);
+    return [{ id: generateId(), statementRows: [toRowRef(statement)], ledgerRows: [toRowRef(ledger)], method: 'auto' as const }];
+  });
+};
+
+/**
+ * Checks a manual match: at least one movement on each side and the same total on both, so a
+ * bank movement can be split across several ledger rows (or several bank movements grouped).
+ * @returns A user-facing problem, or null if the movements can be matched.
+ */
+export const validateManualMatch = (statementTransactions: CashTransaction[], ledgerTransactions: CashTransaction[]): string | null => {
+  if (statementTransactions.length === 0 || ledgerTransactions.length === 0) return "Selecciona al menos un movimiento del banco y uno del libro.";
+  const statementTotal = sumAmounts(statementTransactions);
+  const ledgerTotal = sumAmounts(ledgerTransactions);
+  if (toCents(statementTotal) !== toCents(ledgerTotal)) {
+    return `Los importes no coinciden: banco ${statementTotal.toFixed(2)}, libro ${ledgerTotal.toFixed(2)}.`;
+  }
+  return null;
+};
+
+export const summarizeReconciliation = (
+  statementTransactions: CashTransaction[],
+  ledgerTransactions: CashTransaction[],
+  resolved: ResolvedReconciliationMatch[]
+): ReconciliationSummary => {
+  const matchedStatementRows = new Set(resolved.flatMap(({ statementTransactions: matched }) => matched.map(transaction => transaction.row)));
+  const matchedLedgerRows = new Set(resolved.flatMap(({ ledgerTransactions: matched }) => matched.map(transaction => transaction.row)));
+  const statementTotal = sumAmounts(statementTransactions);
+  const ledgerTotal = sumAmounts(ledgerTransactions);
+  return {
+    statementTotal,
+    ledgerTotal,
+    reconciledTotal: sumAmounts(statementTransactions.filter(transaction => matchedStatementRows.has(transaction.row))),
+    unreconciledStatementTotal: sumAmounts(statementTransactions.filter(transaction => !matchedStatementRows.has(transaction.row))),
+    unreconciledLedgerTotal: sumAmounts(ledgerTransactions.filter(transaction => !matchedLedgerRows.has(transaction.row))),
+    difference: (toCents(statementTotal) - toCents(ledgerTotal)) / 100,
+  };
+};
+
+/**
+ * Records a bank movement that is missing from the ledger. A journal gets a draft entry with the
+ * bank account line and an empty counterpart line to complete, in the currency the journal already
+ * uses for the bank account or else in `currency`; other tables get a row with the date, concept,
+ * reference, amount and bank account.
+ * @param currency The workspace currency (see localeCurrency in columnTypes.ts).
+ * @returns The new ledger content and the transaction of the added row (to match it right away).
+ * @throws ReconciliationError if the ledger is not a table.
+ */
+export const appendMissingLedgerTransaction = (
+  content: string,
+  transaction: CashTransaction,
+  bankAccount: string,
+  currency: string
+): { content: string; transaction: CashTransaction } => {
+  const added = (row: number): CashTransaction => ({ ...transaction, row });
+  const entries = isJournalContent(content) ? parseJournal(content) : null;
+  if (entries) {
+    const amount = Math.abs(transaction.amount);
+    const isMoneyIn = transaction.amount > 0;
+    const account = bankAccount.trim();
+    const lastBankLine = account === '' ? undefined : entries.flatMap(entry => entry.lines).reverse().find(line => line.account.trim().startsWith(account) && line.currency);
+    const entryCurrency = lastBankLine?.currency ?? currency;
+    const entry: JournalEntry = {
+      id: nextJournalEntryId(entries),
+      date: transaction.date,
+      reference: transaction.reference,
+      memo: transaction.description,
+      status: 'draft',
+      lines: [
+        { account, debit: isMoneyIn ? amount : 0, credit: isMoneyIn ? 0 : amount, currency: entryCurrency },
+        { account: '', debit: isMoneyIn ? 0 : amount, credit: isMoneyIn ? amount : 0, currency: entryCurrency },
+      ],
+    };
+    const lineCount = entries.reduce((count, existing) => count + existing.lines.length, 0);
+    return { content: serializeJournal([...entries, entry]), transaction: added(lineCount + 1) };
+  }
+
+  const data = parseCsv(content);
+  if (!data) throw new ReconciliationError("El libro está vacío o no tiene una fila de cabecera.");
+  const columns = findColumns(data.headers, 'ledger');
+  if (columns.date === -1 || (columns.amount === -1 && columns.moneyIn === -1 && columns.moneyOut === -1)) {
+    throw new ReconciliationError("El libro no tiene columnas de fecha e importe reconocibles.");
+  }
+  const cells = data.headers.map(() => '');
+  const set = (column: number, value: string) => { if (column !== -1) cells[column] = value; };
+  set(columns.date, transaction.date);
+  set(columns.description, transaction.description);
+  set(columns.reference, transaction.reference);
+  set(columns.account, bankAccount.trim());
+  if (columns.amount !== -1) {
+    set(columns.amount, transaction.amount.toFixed(2));
+  } else if (transaction.amount > 0 && columns.moneyIn !== -1) {
+    set(columns.moneyIn, transaction.amount.toFixed(2));
+  } else if (transaction.amount < 0 && columns.moneyOut !== -1) {
+    set(columns.moneyOut, (-transaction.amount).toFixed(2));
+  } else {
+    // Only one of the in/out columns exists: write the movement there with its sign
+    set(columns.moneyIn !== -1 ? columns.moneyIn : columns.moneyOut, (columns.moneyIn !== -1 ? transaction.amount : -transaction.amount).toFixed(2));
+  }
+  return { content: serializeCsv({ headers: data.headers, rows: [...data.rows, cells] }), transaction: added(data.rows.length + 1) };
+};
+
+/** A table that can be reconciled: a CSV or Excel file, or one sheet of a workbook with several sheets. */
+export interface ReconciliationTable extends FileTable {
+  key: string; // Identifies the table among all of them (see reconciliationTableKey)
+  file: AppFile;
+}
+
+/** The file id, followed by the sheet name for a sheet. Sheet names cannot contain a slash. */
+export const reconciliationTableKey = (fileId: string, sheet: string | null | undefined): string => (sheet ? `${fileId}/${sheet}` : fileId);
+
+/** The tables of the CSV and Excel files that are not in the trash, by name. Formulas are calculated in `locale`. */
+export const getReconciliationTables = (files: AppFile[], locale: string): ReconciliationTable[] =>
+  files
+    .filter(file => !file.deletedAt && isTabularFileName(file.name))
+    .flatMap(file => getFileTables(file, locale).map(table => ({ ...table, key: reconciliationTableKey(file.id, table.sheet), file })))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+/** A new, empty reconciliation of the two tables. */
+export const createReconciliation = (statement: ReconciliationTable, ledger: ReconciliationTable, bankAccount: string): Reconciliation => ({
+  id: generateId(),
+  statementFileId: statement.file.id,
+  statementSheet: statement.sheet,
+  ledgerFileId: ledger.file.id,
+  ledgerSheet: ledger.sheet,
+  bankAccount,
+  dateWindowDays: DEFAULT_DATE_WINDOW_DAYS,
+  matches: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ColumnTypeSetting } from '../types';
+import {
+  buildTableView, EMPTY_COLUMN_FILTER, EMPTY_TABLE_VIEW_STATE, isTableViewActive, sortTableRows, TableViewState, toggleSortKey,
+} from './tableView';
+
+const SETTINGS: ColumnTypeSetting[] = [{ type: 'date' }, { type: 'text' }, { type: 'currency', currency: 'EUR' }];
+
+// Fecha, Categoría, Importe as shown in es-ES
+const VALUES = [
+  ['02/03/2025', 'Ventas', '1.200,50'],
+  ['01/03/2025', 'Compras', '-45,00'],
+  ['', 'Ventas', '300'],
+  ['15/02/2025', 'Árbol', 'n/a'],
+  ['10/03/2025', 'compras', ''],
+];
+
+const shownRows = (filters: TableViewState['filters']) =>
+  buildTableView(VALUES, SETTINGS, 'es-ES', { ...EMPTY_TABLE_VIEW_STATE, filters }).rowIndexes;
+
+describe('toggleSortKey', () => {
+  it('cycles a column through ascending, descending and unsorted', () => {
+    assert.deepEqual(toggleSortKey([], 2, false), [{ column: 2, direction: 'asc' }]);
+    assert.deepEqual(toggleSortKey([{ column: 2, direction: 'asc' }], 2, false), [{ column: 2, direction: 'desc' }]);
+    assert.deepEqual(toggleSortKey([{ column: 2, direction: 'desc' }], 2, false), []);
+    assert.deepEqual(toggleSortKey([{ column: 1, direction: 'asc' }], 2, false), [{ column: 2, direction: 'asc' }]);
+  });
+
+  it('adds, changes and removes keys with addKey, keeping the others', () => {
+    const sort = toggleSortKey([{ column: 1, direction: 'asc' }], 2, true);
+    assert.deepEqual(sort, [{ column: 1, direction: 'asc' }, { column: 2, direction: 'asc' }]);
+    assert.deepEqual(toggleSortKey(sort, 1, true), [{ column: 1, direction: 'desc' }, { column: 2, direction: 'asc' }]);
+    assert.deepEqual(toggleSortKey([{ column: 1, direction: 'desc' }, { column: 2, direction: 'asc' }], 1, true), [{ column: 2, direction: 'asc' }]);
+  });
+});
+
+describe('sortTableRows', () => {
+  it('sorts amounts as numbers and dates as dates, with invalid cells and then blanks last in both directions', () => {
+    assert.deepEqual(sortTableRows(VALUES, SETTINGS, 'es-ES', [{ column: 2, direction: 'asc' }]), [1, 2, 0, 3, 4]);
+    assert.deepEqual(sortTableRows(VALUES, SETTINGS, 'es-ES', [{ column: 2, direction: 'desc' }]), [0, 2, 1, 3, 4]);
+    assert.deepEqual(sortTableRows(VALUES, SETTINGS, 'es-ES', [{ column: 0, direction: 'asc' }]), [3, 1, 0, 4, 2]);
+  });
+
+  it('breaks ties with the next key and then keeps the original order', () => {
+    const sort = [{ column: 1, direction: 'desc' as const }, { column: 2, direction: 'asc' as const }];
+    assert.deepEqual(sortTableRows(VALUES, SETTINGS, 'es-ES', sort), [2, 0, 1, 4, 3]);
+    assert.deepEqual(sortTableRows(VALUES, SETTINGS, 'es-ES', [{ column: 1, direction: 'asc' }]), [3, 1, 4, 0, 2]);
+  });
+});
+
+describe('buildTableView', () => {
+  it('filters by text without case or accents, by numeric and date ranges and by blanks', () => {
+    assert.deepEqual(shownRows({ 1: { ...EMPTY_COLUMN_FILTER, contains: 'arbol' } }), [3]);
+    assert.deepEqual(shownRows({ 2: { ...EMPTY_COLUMN_FILTER, min: 0 } }), [0, 2]);
+    assert.deepEqual(shownRows({ 0: { ...EMPTY_COLUMN_FILTER, from: '2025-03-01', to: '2025-03-05' } }), [0, 1]);
+    assert.deepEqual(shownRows({ 0: { ...EMPTY_COLUMN_FILTER, blanks: 'only' } }), [2]);
+    assert.deepEqual(shownRows({ 0: { ...EMPTY_COLUMN_FILTER, blanks: 'hide' }, 2: { ...EMPTY_COLUMN_FILTER, blanks: 'hide' } }), [0, 1, 3]);
+  });
+
+  it('groups rows by a column, with subtotals of the amount columns', () => {
+    const view = buildTableView(VALUES, SETTINGS, 'es-ES', { ...EMPTY_TABLE_VIEW_STATE, groupBy: 1 });
+    assert.deepEqual(view.groups, [
+      { label: 'Árbol', rowIndexes: [3], subtotals: [null, null, 0] },
+      { label: 'Compras', rowIndexes: [1, 4], subtotals: [null, null, -45] },
+      { label: 'Ventas', rowIndexes: [0, 2], subtotals: [null, null, 1500.5] },
+    ]);
+    assert.deepEqual(view.rowIndexes, [3, 1, 4, 0, 2]);
+    assert.deepEqual(view.totals, [null, null, 1455.5]);
+  });
+
+  it('is inactive until a sort, a group or a filter with a condition is set', () => {
+    assert.equal(isTableViewActive({ ...EMPTY_TABLE_VIEW_STATE, filters: { 0: EMPTY_COLUMN_FILTER } }), false);
+    assert.equal(isTableViewActive({ ...EMPTY_TABLE_VIEW_STATE, groupBy: 0 }), true);
+  });
+});
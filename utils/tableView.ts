@@ -0,0 +1,175 @@
+import { ColumnTypeSetting } from '../types';
+import { formatTypedCell, parseLocaleDate, parseLocaleNumber, parseTypedCell, TypedCell } from './columnTypes';
+
+/**
+ * Sorting, filtering and grouping of the table grid. A view only decides which data rows are
+ * shown and in what order; the content is not touched (see sortTableRows for writing an order back).
+ * Cells are compared by their typed values (see utils/columnTypes.ts), so amounts sort as numbers
+ * and dates as dates, and formulas by their results.
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  column: number;
+  direction: SortDirection;
+}
+
+/** Conditions on one column; a row is shown if its cell meets all of them. */
+export interface ColumnFilter {
+  contains: string; // Text the shown cell contains, ignoring case and accents; '' for any
+  min: number | null; // Numeric range, inclusive; cells that are not numbers are hidden when set
+  max: number | null;
+  from: string; // Date range as YYYY-MM-DD, inclusive; '' for no bound; cells that are not dates are hidden when set
+  to: string;
+  blanks: 'any' | 'only' | 'hide';
+}
+
+export interface TableViewState {
+  sort: SortKey[]; // First key first
+  filters: Record<number, ColumnFilter>; // By column index
+  groupBy: number | null;
+}
+
+export interface TableViewGroup {
+  label: string; // The group column's cell as shown, '' for blanks
+  rowIndexes: number[];
+  subtotals: (number | null)[]; // Per column: the sum of decimal and currency columns, null for the others
+}
+
+export interface TableView {
+  rowIndexes: number[]; // Rows shown, in order (grouped rows are listed group by group)
+  groups: TableViewGroup[] | null; // Set when grouping
+  totals: (number | null)[] | null; // Sums of every row shown, set when grouping
+}
+
+export const EMPTY_TABLE_VIEW_STATE: TableViewState = { sort: [], filters: {}, groupBy: null };
+
+export const EMPTY_COLUMN_FILTER: ColumnFilter = { contains: '', min: null, max: null, from: '', to: '', blanks: 'any' };
+
+// Columns added up in group subtotals; integer columns are often codes or years, so they are not
+const SUBTOTAL_TYPES = new Set(['decimal', 'currency']);
+
+export const isColumnFilterActive = (filter: ColumnFilter | undefined): boolean =>
+  !!filter && (filter.contains.trim() !== '' || filter.min !== null || filter.max !== null || filter.from !== '' || filter.to !== '' || filter.blanks !== 'any');
+
+export const isTableViewActive = (state: TableViewState): boolean =>
+  state.sort.length > 0 || state.groupBy !== null || Object.values(state.filters).some(isColumnFilterActive);
+
+/**
+ * Cycles the sort of a column: ascending, descending, then unsorted. Without `addKey` the column
+ * becomes the only key; with it (Shift+click) the column is added to or changed among the keys.
+ */
+export const toggleSortKey = (sort: SortKey[], column: number, addKey: boolean): SortKey[] => {
+  const existing = sort.find(key => key.column === column);
+  const next: SortKey | null = !existing ? { column, direction: 'asc' } : existing.direction === 'asc' ? { column, direction: 'desc' } : null;
+  if (!addKey) return next ? [next] : [];
+  if (!existing) return [...sort, next!];
+  return next ? sort.map(key => (key.column === column ? next : key)) : sort.filter(key => key.column !== column);
+};
+
+const foldText = (text: string): string => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Blanks sort after every value, and text that does not fit the column type after valid values
+const rankOf = (cell: TypedCell): number => (cell.value === null ? 2 : cell.error ? 1 : 0);
+
+const compareCells = (a: TypedCell, b: TypedCell, collator: Intl.Collator): number => {
+  const rankDifference = rankOf(a) - rankOf(b);
+  if (rankDifference !== 0 || a.value === null) return rankDifference;
+  if (typeof a.value === 'number' && typeof b.value === 'number') return a.value - b.value;
+  if (typeof a.value === 'boolean' && typeof b.value === 'boolean') return Number(a.value) - Number(b.value);
+  return collator.compare(String(a.value), String(b.value));
+};
+
+/** Compares two rows by the sort keys; blanks stay last in both directions. */
+const compareRows = (typedRows: TypedCell[][], sort: SortKey[], collator: Intl.Collator) => (a: number, b: number): number => {
+  for (const key of sort) {
+    const cellA = typedRows[a][key.column];
+    const cellB = typedRows[b][key.column];
+    let difference = compareCells(cellA, cellB, collator);
+    if (difference !== 0 && rankOf(cellA) === rankOf(cellB)) difference = key.direction === 'asc' ? difference : -difference;
+    if (difference !== 0) return difference;
+  }
+  return a - b;
+};
+
+const readTypedRows = (values: string[][], settings: ColumnTypeSetting[], locale: string): TypedCell[][] =>
+  values.map(row => row.map((cell, column) => parseTypedCell(cell, settings[column] ?? { type: 'text' }, locale)));
+
+/**
+ * The order of the rows of a table by the sort keys (rows that compare equal keep their order).
+ * @param values The cells as shown: formula results rather than formulas.
+ * @returns The row indexes in sorted order.
+ */
+export const sortTableRows = (values: string[][], settings: ColumnTypeSetting[], locale: string, sort: SortKey[]): number[] => {
+  const collator = new Intl.Collator(locale, { numeric: true, sensitivity: 'base' });
+  return values.map((_, index) => index).sort(compareRows(readTypedRows(values, settings, locale), sort, collator));
+};
+
+const matchesFilter = (text: string, typed: TypedCell, setting: ColumnTypeSetting, filter: ColumnFilter, locale: string): boolean => {
+  const isBlank = text.trim() === '';
+  if (filter.blanks === 'only') return isBlank;
+  if (filter.blanks === 'hide' && isBlank) return false;
+  if (filter.contains.trim() !== '') {
+    const needle = foldText(filter.contains.trim());
+    if (!foldText(formatTypedCell(text, setting, locale).text).includes(needle) && !foldText(text).includes(needle)) return false;
+  }
+  if (filter.min !== null || filter.max !== null) {
+    const number = typeof typed.value === 'number' && !typed.error ? typed.value : parseLocaleNumber(text, locale);
+    if (number === null || (filter.min !== null && number < filter.min) || (filter.max !== null && number > filter.max)) return false;
+  }
+  if (filter.from !== '' || filter.to !== '') {
+    const date = parseLocaleDate(text, locale)?.slice(0, 10);
+    if (!date || (filter.from !== '' && date < filter.from) || (filter.to !== '' && date > filter.to)) return false;
+  }
+  return true;
+};
+
+const sumColumns = (typedRows: TypedCell[][], rowIndexes: number[], settings: ColumnTypeSetting[]): (number | null)[] =>
+  settings.map((setting, column) => {
+    if (!SUBTOTAL_TYPES.has(setting.type)) return null;
+    return rowIndexes.reduce((sum, rowIndex) => {
+      const value = typedRows[rowIndex][column].value;
+      return typeof value === 'number' && !typedRows[rowIndex][column].error ? sum + value : sum;
+    }, 0);
+  });
+
+/**
+ * Applies a view to a table: filters the rows, sorts them and, when grouping, splits them into
+ * groups by the group column (in the order of that column's values), with subtotals.
+ * @param values The cells as shown: formula results rather than formulas.
+ * @param settings The type of each column.
+ */
+export const buildTableView = (values: string[][], settings: ColumnTypeSetting[], locale: string, state: TableViewState): TableView => {
+  const typedRows = readTypedRows(values, settings, locale);
+  const collator = new Intl.Collator(locale, { numeric: true, sensitivity: 'base' });
+  const filters = Object.entries(state.filters).filter(([, filter]) => isColumnFilterActive(filter));
+  const rowIndexes = values
+    .map((_, index) => index)
+    .filter(rowIndex => filters.every(([column, filter]) => {
+      const index = Number(column);
+      return matchesFilter(values[rowIndex][index] ?? '', typedRows[rowIndex][index], settings[index] ?? { type: 'text' }, filter, locale);
+    }))
+    .sort(compareRows(typedRows, state.sort, collator));
+
+  const groupColumn = state.groupBy;
+  if (groupColumn === null || groupColumn >= settings.length) return { rowIndexes, groups: null, totals: null };
+
+  // Groups in the order of their values (ascending unless the group column is sorted descending)
+  const groupDirection = state.sort.find(key => key.column === groupColumn)?.direction ?? 'asc';
+  const byGroup = [...rowIndexes].sort((a, b) => {
+    const difference = compareCells(typedRows[a][groupColumn], typedRows[b][groupColumn], collator);
+    return groupDirection === 'desc' && rankOf(typedRows[a][groupColumn]) === rankOf(typedRows[b][groupColumn]) ? -difference : difference;
+  });
+  const groups: TableViewGroup[] = [];
+  byGroup.forEach(rowIndex => {
+    const last = groups[groups.length - 1];
+    if (last && compareCells(typedRows[last.rowIndexes[0]][groupColumn], typedRows[rowIndex][groupColumn], collator) === 0) {
+      last.rowIndexes.push(rowIndex);
+    } else {
+      groups.push({ label: formatTypedCell(values[rowIndex][groupColumn] ?? '', settings[groupColumn], locale).text, rowIndexes: [rowIndex], subtotals: [] });
+    }
+  });
+  groups.forEach(group => { group.subtotals = sumColumns(typedRows, group.rowIndexes, settings); });
+  return { rowIndexes: byGroup, groups, totals: sumColumns(typedRows, byGroup, settings) };
+};
@@ -1,165 +1,347 @@
 
 import ExcelJS from 'exceljs';
+import { parseWorkbookContent, serializeWorkbookContent, WorkbookSheet } from './workbook';
+import { isFormula, mapFormulaRows, RowMapping, toContentFormula, toExcelFormula } from './cellReferences';
+import { CsvDelimiter, CsvRecord, detectCsvDelimiter, formatCsvRecord, readCsvRecords } from './csv';
 
 export interface ParsedCsvData {
   headers: string[];
   rows: string[][];
 }
 
+/** The header and data records of a CSV table, with where each one is in the text. */
+export interface CsvTableRecords {
+  header: CsvRecord;
+  rows: CsvRecord[];
+}
+
 /**
- * Parses a CSV string into an object with headers and rows.
- * Handles simple CSVs. Does not handle quotes containing delimiters or newlines.
- * Skips lines that are entirely blank or consist only of empty cells.
- * @param csvString The CSV string to parse.
- * @returns ParsedCsvData object or null if parsing fails (e.g., empty input or no valid headers).
+ * Finds the header and data records of a CSV string, as parseCsv reads them: leading blank lines
+ * are skipped, and so are records that are entirely blank or consist only of empty cells.
+ * @param csvString The CSV string; a byte order mark is ignored.
+ * @param delimiter The field delimiter; detected from the text if omitted.
+ * @returns The records, unpadded, or null if there is no valid header.
  */
-export const parseCsv = (csvString: string): ParsedCsvData | null => {
+export const locateCsvTable = (csvString: string, delimiter: CsvDelimiter = detectCsvDelimiter(csvString)): CsvTableRecords | null => {
   if (!csvString || csvString.trim() === '') {
     return null;
   }
 
-  const lines = csvString.trim().split(/\r?\n/);
-  if (lines.length === 0) {
+  const records = readCsvRecords(csvString, delimiter);
+  const headerIndex = records.findIndex(({ fields }) => fields.length > 1 || fields[0] !== ''); // Leading blank lines are skipped
+  if (headerIndex === -1) {
     return null;
   }
 
-  const headers = lines[0].split(',').map(header => header.trim());
+  const header = records[headerIndex];
   // Check if headers are effectively empty. If all header cells are empty strings, consider it invalid.
-  if (headers.length === 0 || headers.every(header => header === '')) {
+  if (header.fields.length === 0 || header.fields.every(cell => cell === '')) {
       return null;
   }
 
-  const rows: string[][] = [];
-  for (let i = 1; i < lines.length; i++) {
-    if (lines[i].trim() === '') continue; // Skip empty lines
+  // Skip rows whose cells are all empty strings
+  const rows = records.slice(headerIndex + 1).filter(({ fields }) => fields.some(cell => cell !== ''));
+  return { header, rows };
+};
 
-    const cells = lines[i].split(',').map(cell => cell.trim());
-    // Skip row if all its cells are empty strings
-    if (cells.every(cell => cell === '')) {
-        continue;
-    }
+/**
+ * Parses a CSV string into an object with headers and rows (see utils/csv for the format).
+ * Skips records that are entirely blank or consist only of empty cells.
+ * @param csvString The CSV string to parse; a byte order mark is ignored.
+ * @param delimiter The field delimiter; detected from the text if omitted.
+ * @returns ParsedCsvData object or null if parsing fails (e.g., empty input or no valid headers).
+ */
+export const parseCsv = (csvString: string, delimiter: CsvDelimiter = detectCsvDelimiter(csvString)): ParsedCsvData | null => {
+  const table = locateCsvTable(csvString, delimiter);
+  if (!table) {
+    return null;
+  }
 
+  const headers = table.header.fields;
+  const rows = table.rows.map(({ fields }) => {
     // Pad rows with fewer cells than headers
-    const paddedCells = [...cells];
+    const paddedCells = [...fields];
     while (paddedCells.length < headers.length) {
       paddedCells.push('');
     }
     // Truncate rows with more cells than headers
-    rows.push(paddedCells.slice(0, headers.length));
-  }
+    return paddedCells.slice(0, headers.length);
+  });
 
   return { headers, rows };
 };
 
 /**
- * Serializes ParsedCsvData back into a CSV string.
+ * Serializes ParsedCsvData back into a CSV string, quoting the cells that need it.
  * @param data The ParsedCsvData object.
+ * @param delimiter The field delimiter.
  * @returns A CSV formatted string.
  */
-export const serializeCsv = (data: ParsedCsvData): string => {
+export const serializeCsv = (data: ParsedCsvData, delimiter: CsvDelimiter = ','): string => {
   if (!data) return '';
-  const headerString = data.headers.join(',');
-  const rowStrings = data.rows.map(row => row.join(','));
-  return [headerString, ...rowStrings].join('\n');
+  return [data.headers, ...data.rows].map(cells => formatCsvRecord(cells, delimiter)).join('\n');
 };
 
+const DATE_NUMBER_FORMAT = 'yyyy-mm-dd';
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * The text of a cell value as the grid shows it: numbers without float noise ("0.1", not
+ * "0.1000000000000000055"), dates as YYYY-MM-DD (with the time if they have one), booleans as
+ * TRUE/FALSE, rich text and hyperlinks as their text.
+ */
+const cellValueToText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(Number(value.toPrecision(15)));
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (value instanceof Date) {
+    const date = `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+    const hasTime = value.getUTCHours() !== 0 || value.getUTCMinutes() !== 0 || value.getUTCSeconds() !== 0;
+    return hasTime ? `${date} ${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}` : date;
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(run => run.text).join('');
+    if ('hyperlink' in value) return typeof value.text === 'string' ? value.text : cellValueToText(value.text as ExcelJS.CellValue);
+    if ('error' in value) return value.error;
+    if ('formula' in value || 'sharedFormula' in value) return cellValueToText(value.result as ExcelJS.CellValue); // Formula results
+  }
+  return String(value).trim();
+};
+
+/**
+ * The worksheet row of each line of a sheet's table in the content, header first, by sheet name in
+ * lower case. Empty rows are left out of the content, so a table with a blank row above it or
+ * between its rows has lines numbered differently from the worksheet.
+ */
+export type WorksheetTableRows = Map<string, number[]>;
+
+const hasText = (cell: ExcelJS.Cell): boolean =>
+  (cell.type === ExcelJS.ValueType.Formula && !!cell.formula) || cellValueToText(cell.value).trim() !== '';
+
+/** The rows of each worksheet that have any text: the lines of its table in the content. */
+export const findWorksheetTableRows = (worksheets: ExcelJS.Worksheet[]): WorksheetTableRows => {
+  const tableRows: WorksheetTableRows = new Map();
+  worksheets.forEach(worksheet => {
+    const rows: number[] = [];
+    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      for (let i = 1; i <= row.cellCount; i++) {
+        if (hasText(row.getCell(i))) {
+          rows.push(rowNumber);
+          return;
+        }
+      }
+    });
+    tableRows.set(worksheet.name.toLowerCase(), rows);
+  });
+  return tableRows;
+};
+
+/** Worksheet rows to lines of the content; rows below the table keep their distance to its last line. */
+const worksheetRowToLine = (rows: number[]): RowMapping => (row, boundary) => {
+  const last = rows[rows.length - 1] ?? 0;
+  if (row > last) return rows.length + row - last;
+  let low = 0;
+  let high = rows.length - 1;
+  while (low < high) { // The first line at or below the row
+    const middle = Math.floor((low + high) / 2);
+    if (rows[middle] < row) low = middle + 1;
+    else high = middle;
+  }
+  if (rows[low] === row) return low + 1;
+  return boundary === 'start' ? low + 1 : boundary === 'end' ? low : null; // An empty row, which has no line
+};
+
+/** Lines of the content to worksheet rows (the reverse of worksheetRowToLine). */
+const lineToWorksheetRow = (rows: number[]): RowMapping => line =>
+  line <= rows.length ? rows[line - 1] : (rows[rows.length - 1] ?? 0) + line - rows.length;
+
+/**
+ * Renumbers the references of a formula (without "=") from worksheet rows to lines of the content,
+ * or back, so a formula imported from a worksheet with empty rows still points at the same cells
+ * in the grid (see WorksheetTableRows). References to sheets not in `tableRows` are kept.
+ * @param sheetName The sheet of the formula, for references without a sheet.
+ */
+export const renumberFormulaRows = (formula: string, sheetName: string, tableRows: WorksheetTableRows, direction: 'toContent' | 'toWorksheet'): string =>
+  mapFormulaRows(formula, sheet => {
+    const rows = tableRows.get((sheet ?? sheetName).toLowerCase());
+    if (!rows) return null;
+    return direction === 'toContent' ? worksheetRowToLine(rows) : lineToWorksheetRow(rows);
+  });
+
+/**
+ * The text of a cell as it appears in the file's content: a formula as "=" and its formula (see
+ * utils/formulaEngine.ts), with its rows renumbered to lines of the content if `tableRows` is
+ * given, and anything else as cellValueToText.
+ */
+export const cellToText = (cell: ExcelJS.Cell, tableRows?: WorksheetTableRows): string => {
+  if (cell.type !== ExcelJS.ValueType.Formula || !cell.formula) return cellValueToText(cell.value).trim();
+  return toContentFormula(tableRows ? renumberFormulaRows(cell.formula, cell.worksheet.name, tableRows, 'toContent') : cell.formula);
+};
+
+/**
+ * Reads the rows of a worksheet that have any text, padded to the widest one.
+ * @param tableRows The table rows of every worksheet its formulas reference; those of the worksheet alone if omitted.
+ * @returns The rows with their row numbers in the worksheet, top to bottom.
+ */
+export const readWorksheetRows = (worksheet: ExcelJS.Worksheet, tableRows: WorksheetTableRows = findWorksheetTableRows([worksheet])): { rowNumber: number; cells: string[] }[] => {
+  const rows: { rowNumber: number; cells: string[] }[] = [];
+  let maxCols = 0;
+  worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const cells: string[] = [];
+    // cellCount is the last used column, so empty cells between used ones are kept in place
+    for (let i = 1; i <= row.cellCount; i++) {
+      cells.push(cellToText(row.getCell(i), tableRows));
+    }
+    while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+    if (cells.length === 0) return; // Rows with only formatting or empty strings
+    maxCols = Math.max(maxCols, cells.length);
+    rows.push({ rowNumber, cells });
+  });
+  rows.forEach(row => {
+    while (row.cells.length < maxCols) row.cells.push('');
+  });
+  return rows;
+};
+
+/** Reads one worksheet as CSV; rows that are entirely empty are dropped. */
+const worksheetToCsvString = (worksheet: ExcelJS.Worksheet, tableRows: WorksheetTableRows): string =>
+  readWorksheetRows(worksheet, tableRows).map(row => formatCsvRecord(row.cells)).join('\n');
+
 /**
- * Parses the first sheet of an Excel file (from ArrayBuffer) into a CSV formatted string using exceljs.
- * Filters out rows that are entirely empty.
+ * Parses every sheet of an Excel file (from ArrayBuffer) into CSV using exceljs, in the workbook's tab order.
+ * Empty sheets are kept, with '' as content.
  * @param arrayBuffer The ArrayBuffer content of the Excel file.
- * @returns A Promise resolving to a CSV string representing the first sheet, or an empty string if parsing fails or sheet is empty.
+ * @returns A Promise resolving to the sheets, or an empty list if parsing fails or the workbook has no sheets.
  */
-export const parseExcelToCsvString = async (arrayBuffer: ArrayBuffer): Promise<string> => {
+export const parseExcelToWorkbookSheets = async (arrayBuffer: ArrayBuffer): Promise<WorkbookSheet[]> => {
   try {
     const workbook = new ExcelJS.Workbook();
     await workbook.xlsx.load(arrayBuffer);
-    
-    const worksheet = workbook.worksheets[0];
-    if (!worksheet) {
-      console.warn("Excel file contains no sheets or first sheet is not accessible.");
-      return "";
+    if (workbook.worksheets.length === 0) {
+      console.warn("Excel file contains no sheets.");
     }
+    const tableRows = findWorksheetTableRows(workbook.worksheets);
+    return workbook.worksheets.map(worksheet => ({ name: worksheet.name, content: worksheetToCsvString(worksheet, tableRows) }));
+  } catch (error) {
+    console.error("Error parsing Excel file with exceljs:", error);
+    return [];
+  }
+};
 
-    const csvLines: string[] = [];
-    let maxCols = 0;
-
-    // First pass to determine max columns and collect raw row data
-    const rawRowsData: (string[])[] = [];
-    worksheet.eachRow({ includeEmpty: true }, (row) => {
-      const rowValues: string[] = [];
-      // Iterate up to actualCellCount or a reasonable max if cells are sparse
-      const cellCount = row.actualCellCount;
-      for (let i = 1; i <= cellCount; i++) {
-        const cell = row.getCell(i);
-        rowValues.push(cell.text ? cell.text.toString().trim() : '');
-      }
-      if (rowValues.length > maxCols) {
-        maxCols = rowValues.length;
-      }
-      rawRowsData.push(rowValues);
-    });
-    
-    if (rawRowsData.length === 0) return "";
-
-    // Second pass to normalize row lengths and build CSV lines
-    for (const rowData of rawRowsData) {
-        const normalizedRow = [...rowData];
-        while (normalizedRow.length < maxCols) {
-            normalizedRow.push('');
-        }
-        // Filter out rows where all cells are empty
-        if (!normalizedRow.every(cell => cell === '')) {
-            csvLines.push(normalizedRow.join(','));
-        }
-    }
-    
-    // Further filter: remove leading/trailing empty lines from the CSV content itself
-    let firstNonEmptyLine = -1;
-    let lastNonEmptyLine = -1;
-
-    for(let i=0; i < csvLines.length; i++) {
-        if(csvLines[i].trim() !== '' && !csvLines[i].split(',').every(cell => cell.trim() === '')) {
-            if(firstNonEmptyLine === -1) firstNonEmptyLine = i;
-            lastNonEmptyLine = i;
-        }
-    }
+/**
+ * Parses an Excel file (from ArrayBuffer) into the content of an AppFile. A workbook with one sheet
+ * gives that sheet's CSV; a workbook with several gives workbook content (see utils/workbook.ts).
+ * @param arrayBuffer The ArrayBuffer content of the Excel file.
+ * @returns A Promise resolving to the content, or an empty string if parsing fails or every sheet is empty.
+ */
+export const parseExcelToCsvString = async (arrayBuffer: ArrayBuffer): Promise<string> => {
+  const sheets = await parseExcelToWorkbookSheets(arrayBuffer);
+  if (sheets.every(sheet => sheet.content === '')) return "";
+  if (sheets.length === 1) return sheets[0].content; // The name of a lone sheet is not kept
+  return serializeWorkbookContent(sheets);
+};
 
-    if(firstNonEmptyLine === -1) return ""; // All lines were effectively empty
+export interface ExcelExportOptions {
+  amountColumns?: number[]; // Columns formatted with AMOUNT_NUMBER_FORMAT
+}
 
-    return csvLines.slice(firstNonEmptyLine, lastNonEmptyLine + 1).join('\n');
+const AMOUNT_NUMBER_FORMAT = '#,##0.00;[Red]-#,##0.00';
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
 
-  } catch (error) {
-    console.error("Error parsing Excel file to CSV string with exceljs:", error);
-    return ""; 
+const NUMBER_TEXT = /^-?(0|[1-9]\d*)(\.\d+)?$/; // No leading zeros: codes such as "0045" stay text
+const MAX_NUMBER_DIGITS = 15; // Longer numbers (IBANs, IDs) would lose digits as a double
+const DATE_TEXT = /^(\d{4})-(\d{2})-(\d{2})(?: (\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * The typed value of a cell from its text, the reverse of cellToText: formulas, numbers, YYYY-MM-DD
+ * dates (with an optional time) and TRUE/FALSE get their Excel type, anything else stays text.
+ * Formulas are written without a result; exported workbooks are recalculated when opened.
+ */
+export const textToCellValue = (text: string): ExcelJS.CellValue => {
+  if (text === '') return null;
+  if (isFormula(text)) return { formula: toExcelFormula(text) } as ExcelJS.CellFormulaValue;
+  if (NUMBER_TEXT.test(text) && text.replace(/[-.]/g, '').length <= MAX_NUMBER_DIGITS) return Number(text);
+  if (text === 'TRUE' || text === 'FALSE') return text === 'TRUE';
+  const date = DATE_TEXT.exec(text);
+  if (date) {
+    const [year, month, day, hours, minutes, seconds] = date.slice(1).map(part => Number(part ?? 0));
+    const value = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+    if (value.getUTCMonth() === month - 1 && value.getUTCDate() === day) return value;
   }
+  return text;
+};
+
+/** Writes a cell from its text (see textToCellValue), keeping its style; dates without a date format get one. */
+export const setCellText = (cell: ExcelJS.Cell, text: string) => {
+  const value = textToCellValue(text);
+  cell.value = value;
+  if (value instanceof Date && !cell.numFmt) cell.numFmt = DATE_NUMBER_FORMAT;
 };
 
 /**
- * Converts ParsedCsvData (headers and rows) into an ArrayBuffer representing a simple, single-sheet XLSX file using exceljs.
- * @param data The ParsedCsvData object (typically from the CSV editor state).
- * @returns A Promise resolving to an ArrayBuffer for the XLSX file.
+ * Writes the headers and rows of a table into a new worksheet of the workbook, with typed cells,
+ * a bold header row and columns as wide as their text.
+ * @returns The new worksheet.
  */
-export const convertCsvDataToExcelArrayBuffer = async (data: ParsedCsvData): Promise<ArrayBuffer> => {
-  const workbook = new ExcelJS.Workbook();
-  const worksheet = workbook.addWorksheet("Sheet1");
+export const addCsvDataWorksheet = (workbook: ExcelJS.Workbook, sheetName: string, data: ParsedCsvData | null, options: ExcelExportOptions = {}): ExcelJS.Worksheet => {
+  const worksheet = workbook.addWorksheet(sheetName);
 
   // Add headers
-  if (data.headers && data.headers.length > 0) {
+  if (data?.headers && data.headers.length > 0) {
     worksheet.addRow(data.headers);
+    worksheet.getRow(1).font = { bold: true };
   }
 
   // Add data rows
-  if (data.rows && data.rows.length > 0) {
-    data.rows.forEach(row => {
-      worksheet.addRow(row);
+  if (data?.rows && data.rows.length > 0) {
+    const amountColumns = new Set(options.amountColumns ?? []);
+    data.rows.forEach((row, rowIndex) => {
+      row.forEach((cell, index) => setCellText(worksheet.getCell(rowIndex + 2, index + 1), cell));
+    });
+    amountColumns.forEach(index => {
+      worksheet.getColumn(index + 1).numFmt = AMOUNT_NUMBER_FORMAT;
     });
   }
+
+  data?.headers.forEach((header, index) => {
+    const longest = data.rows.reduce((length, row) => Math.max(length, (row[index] ?? '').length), header.length);
+    worksheet.getColumn(index + 1).width = Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest + 2));
+  });
   
   // If both headers and rows are empty, add at least one empty cell to create a valid sheet
   if (worksheet.rowCount === 0) {
     worksheet.getCell('A1').value = ''; 
   }
+  return worksheet;
+};
 
+/**
+ * Converts ParsedCsvData (headers and rows) into an ArrayBuffer representing a simple, single-sheet XLSX file using exceljs.
+ * @param data The ParsedCsvData object (typically from the CSV editor state).
+ * @param options Columns formatted as amounts (AMOUNT_NUMBER_FORMAT).
+ * @returns A Promise resolving to an ArrayBuffer for the XLSX file.
+ */
+export const convertCsvDataToExcelArrayBuffer = async (data: ParsedCsvData, options: ExcelExportOptions = {}): Promise<ArrayBuffer> => {
+  const workbook = new ExcelJS.Workbook();
+  addCsvDataWorksheet(workbook, "Sheet1", data, options);
+  workbook.calcProperties.fullCalcOnLoad = true;
   const buffer = await workbook.xlsx.writeBuffer();
   return buffer as ArrayBuffer; // writeBuffer returns a Buffer, but it's compatible with ArrayBuffer
 };
+
+/**
+ * Converts the content of an Excel file into an XLSX file with one worksheet per sheet, in order
+ * (see utils/workbook.ts). Sheets that are empty or not a valid table are written as empty worksheets.
+ * @param content The file content: CSV, or workbook content with several sheets.
+ * @param options Applied to every sheet.
+ * @returns A Promise resolving to an ArrayBuffer for the XLSX file.
+ */
+export const convertWorkbookContentToExcelArrayBuffer = async (content: string, options: ExcelExportOptions = {}): Promise<ArrayBuffer> => {
+  const workbook = new ExcelJS.Workbook();
+  parseWorkbookContent(content).forEach(sheet => addCsvDataWorksheet(workbook, sheet.name, parseCsv(sheet.content), options));
+  workbook.calcProperties.fullCalcOnLoad = true;
+  const buffer = await workbook.xlsx.writeBuffer();
+  return buffer as ArrayBuffer;
+};
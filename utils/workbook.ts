@@ -0,0 +1,122 @@
+/**
+ * Content of Excel files with several sheets. The content of a workbook is the CSV of each
+ * sheet, each one below a marker line with the sheet's name:
+ *
+ *   ### Hoja: Ventas
+ *   Fecha,Importe
+ *   2025-01-02,100
+ *
+ *   ### Hoja: Gastos
+ *   ...
+ *
+ * A workbook with a single sheet named DEFAULT_SHEET_NAME is plain CSV, so single-sheet files
+ * (and every CSV file) keep working with the rest of the app unchanged.
+ */
+
+export interface WorkbookSheet {
+  name: string;
+  content: string; // CSV of the sheet, '' for an empty sheet
+}
+
+/**
+ * Thrown when a sheet name is invalid or a sheet cannot be found. The message is shown to the user.
+ */
+export class WorkbookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkbookError';
+  }
+}
+
+export const DEFAULT_SHEET_NAME = 'Hoja1';
+
+const SHEET_MARKER_PREFIX = '### Hoja: ';
+const SHEET_MARKER = /^### Hoja: (.*)$/;
+const MAX_SHEET_NAME_LENGTH = 31; // Excel's limit
+const INVALID_SHEET_NAME_CHARACTERS = /[[\]:*?/\\]/;
+
+/** True if the content is a workbook with sheet markers (see the module comment). */
+export const isWorkbookContent = (content: string): boolean =>
+  SHEET_MARKER.test(content.trimStart().split(/\r?\n/, 1)[0] ?? '');
+
+/**
+ * Splits workbook content into its sheets. Content without sheet markers is a single sheet
+ * named DEFAULT_SHEET_NAME.
+ */
+export const parseWorkbookContent = (content: string): WorkbookSheet[] => {
+  if (!isWorkbookContent(content)) return [{ name: DEFAULT_SHEET_NAME, content }];
+  const sheets: { name: string; lines: string[] }[] = [];
+  content.trimStart().split(/\r?\n/).forEach(line => {
+    const marker = SHEET_MARKER.exec(line);
+    if (marker) {
+      sheets.push({ name: marker[1].trim(), lines: [] });
+    } else {
+      sheets[sheets.length - 1].lines.push(line);
+    }
+  });
+  return sheets.map(({ name, lines }) => ({ name, content: lines.join('\n').trim() }));
+};
+
+/** Writes the sheets as workbook content; a lone sheet named DEFAULT_SHEET_NAME is written as plain CSV. */
+export const serializeWorkbookContent = (sheets: WorkbookSheet[]): string => {
+  if (sheets.length === 1 && sheets[0].name === DEFAULT_SHEET_NAME) return sheets[0].content;
+  return sheets.map(sheet => `${SHEET_MARKER_PREFIX}${sheet.name}\n${sheet.content}`.trimEnd()).join('\n\n');
+};
+
+/**
+ * Checks a sheet name against Excel's rules and the other sheets of the workbook.
+ * @param exceptIndex The sheet being renamed, which may keep its own name.
+ * @returns A message for the user, or null if the name is valid.
+ */
+export const validateSheetName = (name: string, sheets: WorkbookSheet[], exceptIndex: number | null = null): string | null => {
+  const trimmed = name.trim();
+  if (trimmed === '') return "El nombre de la hoja no puede estar vacío.";
+  if (trimmed.length > MAX_SHEET_NAME_LENGTH) return `El nombre de la hoja no puede tener más de ${MAX_SHEET_NAME_LENGTH} caracteres.`;
+  if (INVALID_SHEET_NAME_CHARACTERS.test(trimmed)) return "El nombre de la hoja no puede contener : \\ / ? * [ ni ].";
+  if (sheets.some((sheet, index) => index !== exceptIndex && sheet.name.toLowerCase() === trimmed.toLowerCase())) {
+    return `Ya existe una hoja llamada "${trimmed}".`;
+  }
+  return null;
+};
+
+/** First free name of the form "HojaN" for a new sheet. */
+export const nextSheetName = (sheets: WorkbookSheet[]): string => {
+  const names = new Set(sheets.map(sheet => sheet.name.toLowerCase()));
+  let number = sheets.length + 1;
+  while (names.has(`hoja${number}`)) number++;
+  return `Hoja${number}`;
+};
+
+/**
+ * Finds a sheet by name (ignoring case). A lone DEFAULT_SHEET_NAME sheet (content without
+ * sheet markers) is found whatever the name.
+ * @param sheetName The sheet's name; it may only be omitted if the workbook has a single sheet.
+ * @returns The index of the sheet in `sheets`.
+ * @throws WorkbookError if the sheet does not exist or the name is missing.
+ */
+export const findWorkbookSheet = (sheets: WorkbookSheet[], sheetName: string | null | undefined): number => {
+  if (!sheetName) {
+    if (sheets.length === 1) return 0;
+    throw new WorkbookError(`El libro tiene varias hojas (${sheets.map(sheet => `"${sheet.name}"`).join(', ')}); hay que indicar en cuál se hacen los cambios.`);
+  }
+  if (sheets.length === 1 && sheets[0].name === DEFAULT_SHEET_NAME) return 0;
+  const index = sheets.findIndex(sheet => sheet.name.toLowerCase() === sheetName.trim().toLowerCase());
+  if (index === -1) {
+    throw new WorkbookError(`No existe la hoja "${sheetName}". Las hojas del libro son: ${sheets.map(sheet => `"${sheet.name}"`).join(', ')}.`);
+  }
+  return index;
+};
+
+/**
+ * Rewrites one sheet of workbook content, leaving the others untouched.
+ * @param sheetName The sheet to change (see findWorkbookSheet).
+ * @param transform Receives the CSV of the sheet and returns its new CSV.
+ * @returns The new workbook content.
+ * @throws WorkbookError if the sheet cannot be found; errors thrown by `transform` are passed through.
+ */
+export const updateWorkbookSheet = (content: string, sheetName: string | null | undefined, transform: (sheetContent: string) => string): string => {
+  if (!isWorkbookContent(content)) return transform(content);
+  const sheets = parseWorkbookContent(content);
+  const index = findWorkbookSheet(sheets, sheetName);
+  return serializeWorkbookContent(sheets.map((sheet, i) => (i === index ? { ...sheet, content: transform(sheet.content) } : sheet)));
+};
@@ -6,7 +6,16 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
+      },
+      server: {
+        proxy: {
+          // Local API server (npm run server), see server/index.ts
+          '/api': env.API_SERVER_URL || 'http://localhost:3001'
+        }
       },
       resolve: {
         alias: {